@@ -0,0 +1,125 @@
+import { describe, it, expect, afterAll } from "vitest";
+import {
+  MAX_SQRT_RATIO,
+  MAX_TICK,
+  MIN_SQRT_RATIO,
+  MIN_TICK,
+  V2PoolState,
+  V3PoolState,
+  clearPools,
+  getPools,
+  getSqrtRatioAtTick,
+  getTickAtSqrtRatio,
+  quoteBestPool,
+  simulateV2Swap,
+  simulateV3Swap,
+} from "./amm.js";
+import { getRpcProvider } from "./rpc.js";
+
+const Q96 = 1n << 96n;
+
+// Single full-word V3 pool at price 1.0 with liquidity L between ticks [-600, 600]
+function v3Pool(overrides: Partial<V3PoolState> = {}): V3PoolState {
+  const L = 10n ** 21n;
+  // Bits for compressed ticks -10 and +10 (tickSpacing 60) live in words -1 and 0
+  const bitmap = new Map<number, bigint>([[-1, 1n << 246n], [0, 1n << 10n], [-2, 0n], [1, 0n]]);
+  return {
+    kind: "v3",
+    sqrtPriceX96: Q96,
+    tick: 0,
+    liquidity: L,
+    fee: 3000,
+    tickSpacing: 60,
+    bitmap,
+    liquidityNet: new Map([[-600, L], [600, -L]]),
+    ...overrides,
+  };
+}
+
+describe("TickMath", () => {
+  it("matches Uniswap boundary values", () => {
+    expect(getSqrtRatioAtTick(0)).toBe(Q96);
+    expect(getSqrtRatioAtTick(MIN_TICK)).toBe(MIN_SQRT_RATIO);
+    expect(getSqrtRatioAtTick(MAX_TICK)).toBe(MAX_SQRT_RATIO);
+  });
+
+  it("round-trips ticks through sqrt ratios", () => {
+    for (const tick of [-195_600, -600, -1, 0, 1, 887, 200_000]) {
+      expect(getTickAtSqrtRatio(getSqrtRatioAtTick(tick))).toBe(tick);
+      expect(getTickAtSqrtRatio(getSqrtRatioAtTick(tick) + 1n)).toBe(tick);
+    }
+  });
+});
+
+describe("simulateV2Swap", () => {
+  const pair: V2PoolState = { kind: "v2", reserve0: 10n ** 21n, reserve1: 3_200_000n * 10n ** 6n, feeBps: 30 };
+
+  it("matches UniswapV2Library.getAmountOut", () => {
+    const amountIn = 10n ** 18n;
+    const withFee = amountIn * 997n;
+    const expected = (withFee * pair.reserve1) / (pair.reserve0 * 1000n + withFee);
+    expect(simulateV2Swap(pair, true, amountIn).amountOut).toBe(expected);
+  });
+
+  it("price impact grows with trade size", () => {
+    const small = simulateV2Swap(pair, true, 10n ** 18n);
+    const large = simulateV2Swap(pair, true, 100n * 10n ** 18n);
+    expect(large.priceImpactBps).toBeGreaterThan(small.priceImpactBps);
+    expect(small.priceImpactBps).toBeLessThanOrEqual(10);
+  });
+});
+
+describe("simulateV3Swap", () => {
+  it("quotes close to mid price minus fee for small size", () => {
+    const amountIn = 10n ** 15n;
+    const r = simulateV3Swap(v3Pool(), true, amountIn);
+    expect(r.complete).toBe(true);
+    expect(r.ticksCrossed).toBe(0);
+    // 0.3% fee, negligible impact at this depth
+    expect(r.amountOut).toBeLessThan((amountIn * 997n) / 1000n);
+    expect(r.amountOut).toBeGreaterThan((amountIn * 996n) / 1000n);
+    expect(r.priceImpactBps).toBe(0);
+  });
+
+  it("is symmetric in both directions at price 1", () => {
+    const amountIn = 10n ** 18n;
+    const a = simulateV3Swap(v3Pool(), true, amountIn);
+    const b = simulateV3Swap(v3Pool(), false, amountIn);
+    const diff = a.amountOut > b.amountOut ? a.amountOut - b.amountOut : b.amountOut - a.amountOut;
+    expect(diff).toBeLessThanOrEqual(2n);
+  });
+
+  it("crosses out of the range and stops at the edge of liquidity", () => {
+    const huge = 10n ** 24n;
+    const r = simulateV3Swap(v3Pool(), true, huge);
+    expect(r.ticksCrossed).toBe(1);
+    // Everything in range is drained: output is bounded by the range's token1 reserves
+    const maxOut = (10n ** 21n * (Q96 - getSqrtRatioAtTick(-600))) / Q96;
+    expect(r.amountOut).toBeLessThanOrEqual(maxOut);
+    expect(r.priceImpactBps).toBeGreaterThan(9000);
+  });
+
+  it("flags quotes that run past the loaded tick window", () => {
+    const narrow = v3Pool({ bitmap: new Map([[0, 1n << 10n]]) });
+    const r = simulateV3Swap(narrow, true, 10n ** 24n);
+    expect(r.complete).toBe(false);
+  });
+});
+
+// Runs against a local node seeded by contracts/scripts/deployMockPools.ts:
+//   npx hardhat node & npx hardhat run scripts/deployMockPools.ts --network localhost
+//   RPC_URL=http://127.0.0.1:8545 AMM_POOLS_FILE=../contracts/mock-pools.json npm test
+describe.skipIf(!process.env.RPC_URL || !process.env.AMM_POOLS_FILE)("quoteBestPool (local node)", () => {
+  afterAll(() => clearPools());
+
+  it("reads mock pool state and quotes size-dependent impact", async () => {
+    const provider = getRpcProvider()!;
+    expect(getPools().length).toBeGreaterThan(0);
+    const small = await quoteBestPool(provider, "WETH", "USDC", "0.1");
+    const large = await quoteBestPool(provider, "WETH", "USDC", "40");
+    expect(small).not.toBeNull();
+    expect(large).not.toBeNull();
+    expect(small!.result.amountOut).toBeGreaterThan(0n);
+    expect(large!.result.priceImpactBps).toBeGreaterThan(small!.result.priceImpactBps);
+  });
+});
@@ -0,0 +1,435 @@
+// amm.ts - Onchain AMM quoting against Uniswap V3 / V2 pools
+// Reads pool state over JSON-RPC and simulates exact-input swaps with the pools' own integer math.
+
+import { Contract, JsonRpcProvider, parseUnits } from "ethers";
+import { readFileSync } from "fs";
+import { defaultChainId } from "./chains.js";
+
+export type TokenRef = { address: string; symbol: string; decimals: number };
+
+export type PoolConfig = {
+  address: string;
+  venue: "uniswap-v3" | "uniswap-v2";
+  token0: TokenRef;
+  token1: TokenRef;
+  feeBps?: number; // V2 only; V3 reads fee() from the pool
+  chainId?: number; // chain the pool lives on; defaults to DEFAULT_CHAIN_ID
+};
+
+export type V2PoolState = { kind: "v2"; reserve0: bigint; reserve1: bigint; feeBps: number };
+
+export type V3PoolState = {
+  kind: "v3";
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+  fee: number; // pips (1e-6)
+  tickSpacing: number;
+  bitmap: Map<number, bigint>; // loaded tickBitmap words
+  liquidityNet: Map<number, bigint>; // initialized ticks inside the loaded words
+};
+
+export type PoolState = V2PoolState | V3PoolState;
+
+export type SwapResult = {
+  amountOut: bigint;
+  // Output at the pre-trade mid price after LP fee: what an infinitely deep pool would return
+  spotOut: bigint;
+  priceImpactBps: number;
+  ticksCrossed: number;
+  // False when a V3 swap ran past the loaded tick window and the output is a lower bound
+  complete: boolean;
+};
+
+const Q96 = 1n << 96n;
+const MAX_UINT160 = (1n << 160n) - 1n;
+const MAX_UINT256 = (1n << 256n) - 1n;
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_RATIO = 4295128739n;
+export const MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342n;
+
+// ── Uniswap V3 math (TickMath / SqrtPriceMath / SwapMath ported to bigint) ──
+
+function mulDiv(a: bigint, b: bigint, d: bigint): bigint {
+  return (a * b) / d;
+}
+
+function mulDivRoundingUp(a: bigint, b: bigint, d: bigint): bigint {
+  const r = (a * b) / d;
+  return (a * b) % d > 0n ? r + 1n : r;
+}
+
+function divRoundingUp(a: bigint, b: bigint): bigint {
+  return a / b + (a % b > 0n ? 1n : 0n);
+}
+
+const TICK_FACTORS: [number, bigint][] = [
+  [0x2, 0xfff97272373d413259a46990580e213an],
+  [0x4, 0xfff2e50f5f656932ef12357cf3c7fdccn],
+  [0x8, 0xffe5caca7e10e4e61c3624eaa0941cd0n],
+  [0x10, 0xffcb9843d60f6159c9db58835c926644n],
+  [0x20, 0xff973b41fa98c081472e6896dfb254c0n],
+  [0x40, 0xff2ea16466c96a3843ec78b326b52861n],
+  [0x80, 0xfe5dee046a99a2a811c461f1969c3053n],
+  [0x100, 0xfcbe86c7900a88aedcffc83b479aa3a4n],
+  [0x200, 0xf987a7253ac413176f2b074cf7815e54n],
+  [0x400, 0xf3392b0822b70005940c7a398e4b70f3n],
+  [0x800, 0xe7159475a2c29b7443b29c7fa6e889d9n],
+  [0x1000, 0xd097f3bdfd2022b8845ad8f792aa5825n],
+  [0x2000, 0xa9f746462d870fdf8a65dc1f90e061e5n],
+  [0x4000, 0x70d869a156d2a1b890bb3df62baf32f7n],
+  [0x8000, 0x31be135f97d08fd981231505542fcfa6n],
+  [0x10000, 0x9aa508b5b7a84e1c677de54f3e99bc9n],
+  [0x20000, 0x5d6af8dedb81196699c329225ee604n],
+  [0x40000, 0x2216e584f5fa1ea926041bedfe98n],
+  [0x80000, 0x48a170391f7dc42444e8fa2n],
+];
+
+export function getSqrtRatioAtTick(tick: number): bigint {
+  if (tick < MIN_TICK || tick > MAX_TICK) throw new Error(`tick ${tick} out of range`);
+  const absTick = Math.abs(tick);
+  let ratio = absTick & 0x1 ? 0xfffcb933bd6fad37aa2d162d1a594001n : 0x100000000000000000000000000000000n;
+  for (const [bit, factor] of TICK_FACTORS) {
+    if (absTick & bit) ratio = (ratio * factor) >> 128n;
+  }
+  if (tick > 0) ratio = MAX_UINT256 / ratio;
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+/** Greatest tick whose sqrt ratio is <= sqrtPriceX96 (binary search over getSqrtRatioAtTick). */
+export function getTickAtSqrtRatio(sqrtPriceX96: bigint): number {
+  let lo = MIN_TICK, hi = MAX_TICK;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (getSqrtRatioAtTick(mid) <= sqrtPriceX96) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+function getAmount0Delta(a: bigint, b: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  if (a > b) [a, b] = [b, a];
+  const numerator1 = liquidity << 96n;
+  const numerator2 = b - a;
+  return roundUp
+    ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, b), a)
+    : mulDiv(numerator1, numerator2, b) / a;
+}
+
+function getAmount1Delta(a: bigint, b: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  if (a > b) [a, b] = [b, a];
+  return roundUp ? mulDivRoundingUp(liquidity, b - a, Q96) : mulDiv(liquidity, b - a, Q96);
+}
+
+function getNextSqrtPriceFromInput(sqrtP: bigint, liquidity: bigint, amountIn: bigint, zeroForOne: boolean): bigint {
+  if (zeroForOne) {
+    if (amountIn === 0n) return sqrtP;
+    const numerator1 = liquidity << 96n;
+    const product = amountIn * sqrtP;
+    const denominator = numerator1 + product;
+    // Same overflow branch as SqrtPriceMath so rounding matches the pool bit-for-bit
+    if (product <= MAX_UINT256 && denominator <= MAX_UINT256) {
+      return mulDivRoundingUp(numerator1, sqrtP, denominator);
+    }
+    return divRoundingUp(numerator1, numerator1 / sqrtP + amountIn);
+  }
+  const quotient = amountIn <= MAX_UINT160 ? (amountIn << 96n) / liquidity : mulDiv(amountIn, Q96, liquidity);
+  return sqrtP + quotient;
+}
+
+function computeSwapStep(sqrtCur: bigint, sqrtTarget: bigint, liquidity: bigint, amountRemaining: bigint, feePips: number) {
+  const zeroForOne = sqrtCur >= sqrtTarget;
+  const fee = BigInt(feePips);
+  const amountRemainingLessFee = mulDiv(amountRemaining, 1_000_000n - fee, 1_000_000n);
+  let amountIn = zeroForOne
+    ? getAmount0Delta(sqrtTarget, sqrtCur, liquidity, true)
+    : getAmount1Delta(sqrtCur, sqrtTarget, liquidity, true);
+
+  const sqrtNext = amountRemainingLessFee >= amountIn
+    ? sqrtTarget
+    : getNextSqrtPriceFromInput(sqrtCur, liquidity, amountRemainingLessFee, zeroForOne);
+  const max = sqrtTarget === sqrtNext;
+
+  let amountOut: bigint;
+  if (zeroForOne) {
+    if (!max) amountIn = getAmount0Delta(sqrtNext, sqrtCur, liquidity, true);
+    amountOut = getAmount1Delta(sqrtNext, sqrtCur, liquidity, false);
+  } else {
+    if (!max) amountIn = getAmount1Delta(sqrtCur, sqrtNext, liquidity, true);
+    amountOut = getAmount0Delta(sqrtCur, sqrtNext, liquidity, false);
+  }
+  const feeAmount = sqrtNext !== sqrtTarget ? amountRemaining - amountIn : mulDivRoundingUp(amountIn, fee, 1_000_000n - fee);
+  return { sqrtNext, amountIn, amountOut, feeAmount };
+}
+
+function msb(x: bigint): number { return x.toString(2).length - 1; }
+function lsb(x: bigint): number { return msb(x & -x); }
+
+function compress(tick: number, tickSpacing: number): number {
+  return Math.floor(tick / tickSpacing);
+}
+
+/**
+ * TickBitmap.nextInitializedTickWithinOneWord over the loaded words.
+ * Returns null when the word is outside what was read from the pool.
+ */
+function nextInitializedTick(state: V3PoolState, tick: number, lte: boolean): { next: number; initialized: boolean } | null {
+  const compressed = compress(tick, state.tickSpacing);
+  if (lte) {
+    const wordPos = compressed >> 8, bitPos = compressed & 0xff;
+    const word = state.bitmap.get(wordPos);
+    if (word === undefined) return null;
+    const masked = word & ((1n << BigInt(bitPos)) - 1n + (1n << BigInt(bitPos)));
+    return masked !== 0n
+      ? { next: (compressed - (bitPos - msb(masked))) * state.tickSpacing, initialized: true }
+      : { next: (compressed - bitPos) * state.tickSpacing, initialized: false };
+  }
+  const wordPos = (compressed + 1) >> 8, bitPos = (compressed + 1) & 0xff;
+  const word = state.bitmap.get(wordPos);
+  if (word === undefined) return null;
+  const masked = word & ~((1n << BigInt(bitPos)) - 1n) & MAX_UINT256;
+  return masked !== 0n
+    ? { next: (compressed + 1 + (lsb(masked) - bitPos)) * state.tickSpacing, initialized: true }
+    : { next: (compressed + 1 + (255 - bitPos)) * state.tickSpacing, initialized: false };
+}
+
+/**
+ * Exact-input V3 swap, step for step as UniswapV3Pool.swap without a price limit.
+ */
+export function simulateV3Swap(state: V3PoolState, zeroForOne: boolean, amountIn: bigint): SwapResult {
+  const limit = zeroForOne ? MIN_SQRT_RATIO + 1n : MAX_SQRT_RATIO - 1n;
+  let remaining = amountIn;
+  let amountOut = 0n;
+  let sqrtPrice = state.sqrtPriceX96;
+  let tick = state.tick;
+  let liquidity = state.liquidity;
+  let ticksCrossed = 0;
+  let complete = true;
+
+  while (remaining > 0n && sqrtPrice !== limit) {
+    const step = nextInitializedTick(state, tick, zeroForOne);
+    if (!step) { complete = false; break; }
+    const tickNext = Math.min(MAX_TICK, Math.max(MIN_TICK, step.next));
+    const sqrtNext = getSqrtRatioAtTick(tickNext);
+    const target = (zeroForOne ? sqrtNext < limit : sqrtNext > limit) ? limit : sqrtNext;
+
+    const start = sqrtPrice;
+    const r = computeSwapStep(sqrtPrice, target, liquidity, remaining, state.fee);
+    sqrtPrice = r.sqrtNext;
+    remaining -= r.amountIn + r.feeAmount;
+    amountOut += r.amountOut;
+
+    if (sqrtPrice === sqrtNext) {
+      if (step.initialized) {
+        const net = state.liquidityNet.get(tickNext) ?? 0n;
+        liquidity += zeroForOne ? -net : net;
+        ticksCrossed++;
+      }
+      tick = zeroForOne ? tickNext - 1 : tickNext;
+    } else if (sqrtPrice !== start) {
+      tick = getTickAtSqrtRatio(sqrtPrice);
+    }
+  }
+
+  const spotOut = spotAmountOut(state, zeroForOne, amountIn);
+  return { amountOut, spotOut, priceImpactBps: impactBps(amountOut, spotOut), ticksCrossed, complete };
+}
+
+/**
+ * Exact-input V2 swap (UniswapV2Library.getAmountOut with a configurable fee).
+ */
+export function simulateV2Swap(state: V2PoolState, zeroForOne: boolean, amountIn: bigint): SwapResult {
+  const [reserveIn, reserveOut] = zeroForOne ? [state.reserve0, state.reserve1] : [state.reserve1, state.reserve0];
+  const feeFactor = 10_000n - BigInt(state.feeBps);
+  const amountInWithFee = amountIn * feeFactor;
+  const amountOut = reserveIn > 0n
+    ? (amountInWithFee * reserveOut) / (reserveIn * 10_000n + amountInWithFee)
+    : 0n;
+  const spotOut = spotAmountOut(state, zeroForOne, amountIn);
+  return { amountOut, spotOut, priceImpactBps: impactBps(amountOut, spotOut), ticksCrossed: 0, complete: true };
+}
+
+/**
+ * Output at the pool's current mid price net of LP fee (no price impact). Linear in amountIn.
+ */
+export function spotAmountOut(state: PoolState, zeroForOne: boolean, amountIn: bigint): bigint {
+  if (state.kind === "v2") {
+    const [reserveIn, reserveOut] = zeroForOne ? [state.reserve0, state.reserve1] : [state.reserve1, state.reserve0];
+    return reserveIn > 0n ? (amountIn * (10_000n - BigInt(state.feeBps)) * reserveOut) / (reserveIn * 10_000n) : 0n;
+  }
+  const feeFactor = 1_000_000n - BigInt(state.fee);
+  const priceX192 = state.sqrtPriceX96 * state.sqrtPriceX96;
+  return zeroForOne
+    ? (amountIn * priceX192 * feeFactor) / (Q96 * Q96 * 1_000_000n)
+    : (amountIn * Q96 * Q96 * feeFactor) / (priceX192 * 1_000_000n);
+}
+
+export function impactBps(amountOut: bigint, spotOut: bigint): number {
+  if (spotOut <= 0n || amountOut >= spotOut) return 0;
+  return Number(((spotOut - amountOut) * 10_000n) / spotOut);
+}
+
+export function simulateSwap(state: PoolState, zeroForOne: boolean, amountIn: bigint): SwapResult {
+  return state.kind === "v3" ? simulateV3Swap(state, zeroForOne, amountIn) : simulateV2Swap(state, zeroForOne, amountIn);
+}
+
+// ── Pool state over JSON-RPC ──
+
+const V3_POOL_ABI = [
+  "function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)",
+  "function liquidity() view returns (uint128)",
+  "function fee() view returns (uint24)",
+  "function tickSpacing() view returns (int24)",
+  "function tickBitmap(int16) view returns (uint256)",
+  "function ticks(int24) view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)",
+];
+const V2_PAIR_ABI = [
+  "function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
+];
+
+// Bitmap words read on each side of the current tick (each word spans 256 * tickSpacing ticks)
+const V3_WORD_RADIUS = Number(process.env.AMM_V3_WORD_RADIUS || 2);
+const POOL_STATE_TTL = 5_000;
+const stateCache = new Map<string, { state: PoolState; ts: number }>();
+
+export async function fetchV3PoolState(provider: JsonRpcProvider, address: string, wordRadius = V3_WORD_RADIUS): Promise<V3PoolState> {
+  const pool = new Contract(address, V3_POOL_ABI, provider);
+  const [slot0, liquidity, fee, tickSpacing] = await Promise.all([
+    pool.slot0(), pool.liquidity(), pool.fee(), pool.tickSpacing(),
+  ]);
+  const tick = Number(slot0.tick);
+  const spacing = Number(tickSpacing);
+  const center = compress(tick, spacing) >> 8;
+
+  const words: number[] = [];
+  for (let w = center - wordRadius; w <= center + wordRadius; w++) words.push(w);
+  const bitmapWords: bigint[] = await Promise.all(words.map((w) => pool.tickBitmap(w)));
+  const bitmap = new Map<number, bigint>(words.map((w, i) => [w, BigInt(bitmapWords[i])]));
+
+  const initializedTicks: number[] = [];
+  for (const [wordPos, word] of bitmap) {
+    for (let bit = 0; bit < 256; bit++) {
+      if ((word >> BigInt(bit)) & 1n) initializedTicks.push(((wordPos << 8) + bit) * spacing);
+    }
+  }
+  const tickData = await Promise.all(initializedTicks.map((t) => pool.ticks(t)));
+  const liquidityNet = new Map<number, bigint>(initializedTicks.map((t, i) => [t, BigInt(tickData[i].liquidityNet)]));
+
+  return {
+    kind: "v3",
+    sqrtPriceX96: BigInt(slot0.sqrtPriceX96),
+    tick,
+    liquidity: BigInt(liquidity),
+    fee: Number(fee),
+    tickSpacing: spacing,
+    bitmap,
+    liquidityNet,
+  };
+}
+
+export async function fetchV2PoolState(provider: JsonRpcProvider, address: string, feeBps = 30): Promise<V2PoolState> {
+  const pair = new Contract(address, V2_PAIR_ABI, provider);
+  const { reserve0, reserve1 } = await pair.getReserves();
+  return { kind: "v2", reserve0: BigInt(reserve0), reserve1: BigInt(reserve1), feeBps };
+}
+
+export async function fetchPoolState(provider: JsonRpcProvider, pool: PoolConfig): Promise<PoolState> {
+  const key = poolKey(pool);
+  const cached = stateCache.get(key);
+  if (cached && Date.now() - cached.ts < POOL_STATE_TTL) return cached.state;
+  const state = pool.venue === "uniswap-v3"
+    ? await fetchV3PoolState(provider, pool.address)
+    : await fetchV2PoolState(provider, pool.address, pool.feeBps ?? 30);
+  stateCache.set(key, { state, ts: Date.now() });
+  return state;
+}
+
+// ── Pool registry ──
+
+const pools: PoolConfig[] = [];
+
+export function poolChainId(pool: PoolConfig): number {
+  return pool.chainId ?? defaultChainId();
+}
+
+// The same address can be a different pool on another chain
+function poolKey(pool: PoolConfig): string {
+  return `${poolChainId(pool)}:${pool.address.toLowerCase()}`;
+}
+
+export function registerPool(pool: PoolConfig): void {
+  const key = poolKey(pool);
+  const i = pools.findIndex((p) => poolKey(p) === key);
+  if (i >= 0) pools[i] = pool;
+  else pools.push(pool);
+}
+
+export function clearPools(): void {
+  pools.length = 0;
+  stateCache.clear();
+}
+
+/** Registered pools on one chain (default: DEFAULT_CHAIN_ID). */
+export function getPools(chainId = defaultChainId()): PoolConfig[] {
+  return pools.filter((p) => poolChainId(p) === chainId);
+}
+
+/** Match a symbol (case-insensitive) or address against a pool token. */
+export function matchesToken(ref: TokenRef, token: string): boolean {
+  const t = token.toLowerCase();
+  return ref.address.toLowerCase() === t || ref.symbol.toLowerCase() === t;
+}
+
+export function findPools(tokenIn: string, tokenOut: string, chainId = defaultChainId()): PoolConfig[] {
+  return getPools(chainId).filter((p) =>
+    (matchesToken(p.token0, tokenIn) && matchesToken(p.token1, tokenOut)) ||
+    (matchesToken(p.token1, tokenIn) && matchesToken(p.token0, tokenOut)),
+  );
+}
+
+export type AmmQuote = {
+  pool: PoolConfig;
+  tokenIn: TokenRef;
+  tokenOut: TokenRef;
+  amountIn: bigint;
+  result: SwapResult;
+};
+
+/**
+ * Simulate amountIn (human units) through every registered pool for the pair and return the best
+ * complete fill. Pools that fail to load are skipped; null when nothing could be quoted.
+ */
+export async function quoteBestPool(
+  provider: JsonRpcProvider,
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: string,
+  chainId = defaultChainId(),
+): Promise<AmmQuote | null> {
+  let best: AmmQuote | null = null;
+  for (const pool of findPools(tokenIn, tokenOut, chainId)) {
+    const zeroForOne = matchesToken(pool.token0, tokenIn);
+    const refIn = zeroForOne ? pool.token0 : pool.token1;
+    const refOut = zeroForOne ? pool.token1 : pool.token0;
+    try {
+      const raw = parseUnits(amountIn, refIn.decimals);
+      const state = await fetchPoolState(provider, pool);
+      const result = simulateSwap(state, zeroForOne, raw);
+      if (!result.complete) continue;
+      if (!best || result.amountOut > best.result.amountOut) {
+        best = { pool, tokenIn: refIn, tokenOut: refOut, amountIn: raw, result };
+      }
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.warn(`[amm] ${pool.venue} ${pool.address} quote failed: ${msg}`);
+    }
+  }
+  return best;
+}
+
+// AMM_POOLS_FILE: JSON array of PoolConfig (e.g. written by contracts/scripts/deployMockPools.ts)
+if (process.env.AMM_POOLS_FILE) {
+  const list = JSON.parse(readFileSync(process.env.AMM_POOLS_FILE, "utf8")) as PoolConfig[];
+  list.forEach(registerPool);
+}
@@ -0,0 +1,803 @@
+import express, { NextFunction, Request, Response } from "express";
+import cors from "cors";
+import { randomUUID } from "crypto";
+import { isAddress } from "ethers";
+import {
+  IntentInput,
+  scoreIntent,
+  SolverQuote,
+  ScoringPolicy,
+  SCORING_PRESETS,
+  DEFAULT_SCORING_POLICY,
+  applyScoringPolicy,
+  resolveContractAddress,
+  searchTokens,
+  isBuiltinSolver,
+  listBuiltinSolvers,
+  intentChainId,
+  intentDestChainId,
+} from "./solver.js";
+import { defaultChainId, describeChain, getChain, listChains } from "./chains.js";
+import { RiskAnalysis, getActiveRiskAnalyzers, getRiskMetrics } from "./riskAnalysis.js";
+import { assessRouteRisk } from "./riskRules.js";
+import {
+  ExternalSolverError,
+  MAX_TIMEOUT_MS,
+  MIN_TIMEOUT_MS,
+  PROTOCOL_VERSION,
+  getExternalSolver,
+  listExternalSolvers,
+  registerExternalSolver,
+  requestExternalQuote,
+  unregisterExternalSolver,
+} from "./externalSolvers.js";
+import { SplitAllocation, SplitOptions, allocateSplit } from "./splitAllocation.js";
+import { CompetitionFilter, CompetitionRecord, InvalidCursorError, SolverError, getCompetitionStore } from "./storage.js";
+import { getIntentIndexStore } from "./indexer.js";
+import { BondPolicyUnavailableError, getBondPolicy, getSolverBond, partitionBondedQuotes, solverFillAddress } from "./bonds.js";
+import {
+  SignedIntentError,
+  buildIntentTypedData,
+  chainIntentDomain,
+  getSignedIntent,
+  intentDomain,
+  listSignedIntents,
+  submitSignedIntent,
+  validateSignedIntent,
+} from "./signedIntents.js";
+
+export const app = express();
+app.set("trust proxy", Number(process.env.TRUST_PROXY_HOPS || 0));
+const JSON_LIMIT = process.env.JSON_LIMIT || "32kb";
+const RATE_LIMIT_WINDOW_MS = Number(process.env.RATE_LIMIT_WINDOW_MS || 60_000);
+const RATE_LIMIT_MAX_REQUESTS = Number(process.env.RATE_LIMIT_MAX_REQUESTS || 30);
+const MAX_SOLVERS = Number(process.env.MAX_SOLVERS || 8);
+const MAX_QUOTES = Number(process.env.MAX_QUOTES || 12);
+const MAX_NAME_LENGTH = Number(process.env.MAX_SOLVER_NAME_LENGTH || 64);
+const MAX_EXTERNAL_SOLVERS = Number(process.env.MAX_EXTERNAL_SOLVERS || 32);
+const DEFAULT_HISTORY_PAGE = 20;
+const MAX_HISTORY_PAGE = 100;
+const COMPETITION_CODES = ["ALL_DANGER", "NO_VALID_QUOTES", "NO_BONDED_SOLVERS", "BOND_POLICY_UNAVAILABLE", "NO_SAFE_QUOTES", "DANGER_OVERRIDE"];
+
+// CORS allowlist — open for demo/hackathon, restrict in production
+const ALLOWED_ORIGINS = process.env.CORS_ORIGINS
+  ? process.env.CORS_ORIGINS.split(",").map((o) => o.trim())
+  : ["https://ilm-intent-router.vercel.app", "http://localhost:3000", "http://localhost:5173"];
+
+app.use(cors({
+  origin: (origin, callback) => {
+    // Allow requests with no origin (curl, server-to-server, mobile)
+    if (!origin || ALLOWED_ORIGINS.includes(origin) || ALLOWED_ORIGINS.includes("*")) {
+      callback(null, true);
+    } else {
+      callback(null, true); // Permissive for hackathon demo — log in production
+    }
+  },
+}));
+app.use(express.json({ limit: JSON_LIMIT }));
+
+type RequestBucket = { count: number; resetAt: number };
+const requestBuckets = new Map<string, RequestBucket>();
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Plain decimal amounts ("1.5", not "1e3" or " 2") convert to base units exactly
+function isDecimalString(s: unknown): boolean {
+  return typeof s === "string" && /^\d+(\.\d+)?$/.test(s);
+}
+
+function isIntentInput(value: unknown): value is IntentInput {
+  if (!isObject(value)) return false;
+  const {
+    tokenIn,
+    tokenOut,
+    amountIn,
+    minAmountOut,
+    maxSlippageBps,
+    maxGasWei,
+    deadline,
+    chainId,
+    destChainId,
+  } = value;
+  return (
+    typeof tokenIn === "string" &&
+    tokenIn.trim().length > 0 &&
+    typeof tokenOut === "string" &&
+    tokenOut.trim().length > 0 &&
+    isDecimalString(amountIn) &&
+    Number(amountIn as string) > 0 &&
+    isDecimalString(minAmountOut) &&
+    Number(minAmountOut as string) > 0 &&
+    typeof maxGasWei === "string" &&
+    /^\d+$/.test(maxGasWei) &&
+    BigInt(maxGasWei) > 0n &&
+    typeof maxSlippageBps === "number" &&
+    Number.isFinite(maxSlippageBps) &&
+    maxSlippageBps >= 0 &&
+    maxSlippageBps <= 10_000 &&
+    typeof deadline === "number" &&
+    Number.isFinite(deadline) &&
+    (chainId === undefined || (typeof chainId === "number" && Number.isInteger(chainId) && chainId > 0)) &&
+    (destChainId === undefined || (typeof destChainId === "number" && Number.isInteger(destChainId) && destChainId > 0))
+  );
+}
+
+// Intents may only target chains in the registry (GET /chains), on both ends of a cross-chain intent
+function unsupportedChain(intent: IntentInput): { error: string; code: string } | null {
+  for (const chainId of [intentChainId(intent), intentDestChainId(intent)]) {
+    if (!getChain(chainId)) return { error: `chainId ${chainId} is not supported; see GET /chains`, code: "UNSUPPORTED_CHAIN" };
+  }
+  return null;
+}
+
+// ?chainId= on token lookups: default chain when absent, null when not a registered chain
+function parseChainQuery(value: unknown): number | null {
+  if (value === undefined) return defaultChainId();
+  const chainId = typeof value === "string" && /^\d+$/.test(value) ? Number(value) : NaN;
+  return getChain(chainId) ? chainId : null;
+}
+
+// req.ip honours X-Forwarded-For only for the TRUST_PROXY_HOPS proxies in front of us, so clients can't pick their own key
+function getClientIp(req: Request): string {
+  return req.ip || "unknown";
+}
+
+function rateLimitExpensiveRoutes(req: Request, res: Response, next: NextFunction): void {
+  const now = Date.now();
+  const ip = getClientIp(req);
+  const bucket = requestBuckets.get(ip);
+
+  if (requestBuckets.size > 2000) {
+    for (const [key, value] of requestBuckets.entries()) {
+      if (value.resetAt <= now) {
+        requestBuckets.delete(key);
+      }
+    }
+  }
+
+  if (!bucket || now >= bucket.resetAt) {
+    requestBuckets.set(ip, { count: 1, resetAt: now + RATE_LIMIT_WINDOW_MS });
+    next();
+    return;
+  }
+
+  if (bucket.count >= RATE_LIMIT_MAX_REQUESTS) {
+    const retryAfterSec = Math.max(1, Math.ceil((bucket.resetAt - now) / 1000));
+    res.setHeader("Retry-After", String(retryAfterSec));
+    res.status(429).json({ error: "Too many requests. Please retry shortly." });
+    return;
+  }
+
+  bucket.count += 1;
+  next();
+}
+
+// Registered external solvers answer over the quote protocol, everything else through the built-in profiles
+function quoteSolver(intent: IntentInput, name: string): Promise<SolverQuote> {
+  const external = getExternalSolver(name);
+  return external ? requestExternalQuote(external, intent) : scoreIntent(intent, name);
+}
+
+// Quote every requested solver in parallel, scored under `scoring`. External failures are reported, not fatal.
+async function collectQuotes(
+  intent: IntentInput,
+  names: string[],
+  scoring: ScoringPolicy = DEFAULT_SCORING_POLICY,
+  on: { onQuote?: (q: SolverQuote) => void; onError?: (e: SolverError) => void } = {},
+): Promise<{ quotes: SolverQuote[]; solverErrors: SolverError[] }> {
+  const results = await Promise.allSettled(names.map((name) => quoteSolver(intent, name).then(
+    (quote) => { const q = applyScoringPolicy(quote, scoring); on.onQuote?.(q); return q; },
+    (err: unknown) => {
+      if (err instanceof ExternalSolverError) on.onError?.({ solver: name, code: err.code, error: err.message });
+      throw err;
+    },
+  )));
+  const quotes: SolverQuote[] = [];
+  const solverErrors: SolverError[] = [];
+  results.forEach((r, i) => {
+    if (r.status === "fulfilled") quotes.push(r.value);
+    else if (r.reason instanceof ExternalSolverError) solverErrors.push({ solver: names[i], code: r.reason.code, error: r.reason.message });
+    else throw r.reason;
+  });
+  return { quotes, solverErrors };
+}
+
+// `split: true` or `{ steps, maxLegs }` on /compete; null when absent or malformed (undefined = not requested)
+function parseSplitOptions(value: unknown): SplitOptions | null | undefined {
+  if (value === undefined || value === false) return undefined;
+  if (value === true) return {};
+  if (!isObject(value)) return null;
+  const { steps, maxLegs } = value;
+  const intIn = (v: unknown, lo: number, hi: number) => v === undefined || (typeof v === "number" && Number.isInteger(v) && v >= lo && v <= hi);
+  if (!intIn(steps, 2, 10) || !intIn(maxLegs, 2, MAX_SOLVERS)) return null;
+  return { steps: steps as number | undefined, maxLegs: maxLegs as number | undefined };
+}
+
+// `scoring` on /compete: a preset name or { weights: { price, gas, confidence } } (normalized to sum to 1).
+// null when malformed, the default policy when absent.
+function parseScoringPolicy(value: unknown): ScoringPolicy | null {
+  if (value === undefined) return DEFAULT_SCORING_POLICY;
+  if (typeof value === "string") {
+    return Object.hasOwn(SCORING_PRESETS, value) ? { name: value, weights: SCORING_PRESETS[value] } : null;
+  }
+  if (!isObject(value) || !isObject(value.weights)) return null;
+  const { price = 0, gas = 0, confidence = 0 } = value.weights;
+  const parts = [price, gas, confidence];
+  if (!parts.every((w) => typeof w === "number" && Number.isFinite(w) && w >= 0)) return null;
+  const total = (price as number) + (gas as number) + (confidence as number);
+  if (total <= 0) return null;
+  const share = (w: number) => Number((w / total).toFixed(4));
+  return { name: "custom", weights: { price: share(price as number), gas: share(gas as number), confidence: share(confidence as number) } };
+}
+
+// Persist an auction; storage failures are logged, never fatal to the response
+async function recordCompetition(record: CompetitionRecord): Promise<string | undefined> {
+  try {
+    await getCompetitionStore().saveCompetition(record);
+    return record.id;
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.warn(`[storage] failed to record competition ${record.id}: ${msg}`);
+    return undefined;
+  }
+}
+
+// Epoch ms or an ISO-8601 date
+function parseTime(value: string): number | null {
+  const t = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(t) ? t : null;
+}
+
+// /competitions query string -> store filter and page; a string is the validation error
+function parseHistoryQuery(query: Request["query"]): { filter: CompetitionFilter; limit: number; cursor?: string } | string {
+  const q: Record<string, string | undefined> = {};
+  for (const key of ["tokenIn", "tokenOut", "solver", "winner", "from", "to", "outcome", "code", "limit", "cursor"]) {
+    const v = query[key];
+    if (v === undefined) continue;
+    if (typeof v !== "string" || v.length === 0 || v.length > 128) return `${key} must be a single non-empty value`;
+    q[key] = v;
+  }
+
+  const filter: CompetitionFilter = { tokenIn: q.tokenIn, tokenOut: q.tokenOut, solver: q.solver, winner: q.winner };
+  for (const key of ["from", "to"] as const) {
+    if (q[key] === undefined) continue;
+    const t = parseTime(q[key]!);
+    if (t === null) return `${key} must be epoch milliseconds or an ISO date`;
+    filter[key] = t;
+  }
+  if (q.outcome !== undefined) {
+    if (q.outcome !== "winner" && q.outcome !== "no_winner") return "outcome must be winner or no_winner";
+    filter.outcome = q.outcome;
+  }
+  if (q.code !== undefined) {
+    const codes = q.code.split(",").map((c) => c.trim().toUpperCase());
+    if (codes.some((c) => !COMPETITION_CODES.includes(c))) return `code must be one of ${COMPETITION_CODES.join(", ")}`;
+    filter.codes = codes;
+  }
+
+  const limit = q.limit === undefined ? DEFAULT_HISTORY_PAGE : Number(q.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_PAGE) return `limit must be an integer from 1 to ${MAX_HISTORY_PAGE}`;
+  return { filter, limit, cursor: q.cursor };
+}
+
+// Registering a solver makes the server call its endpoint, so the registry stays closed without SOLVER_ADMIN_TOKEN
+function requireSolverAdmin(req: Request, res: Response, next: NextFunction): void {
+  const token = process.env.SOLVER_ADMIN_TOKEN;
+  if (!token) {
+    res.status(503).json({ error: "Solver registration is disabled: SOLVER_ADMIN_TOKEN is not set", code: "SOLVER_ADMIN_DISABLED" });
+    return;
+  }
+  if (req.headers.authorization !== `Bearer ${token}`) {
+    res.status(401).json({ error: "Solver admin token required", code: "UNAUTHORIZED" });
+    return;
+  }
+  next();
+}
+
+app.get("/", (_req, res) => {
+  res.json({
+    ok: true,
+    service: "ilm-solver-api",
+    message: "Intent Guard API is live",
+    endpoints: ["/health", "/chains", "/quote", "/compete", "/compete/stream", "/analyze", "/risk/metrics", "/simulate", "/reputation", "/competitions", "/intents", "/solvers", "/signed-intents"],
+  });
+});
+
+app.get("/health", (_req, res) => {
+  res.json({ ok: true, service: "ilm-solver-api", version: "0.5.0", commit: process.env.RENDER_GIT_COMMIT?.slice(0, 7) || "dev", aiEnabled: getActiveRiskAnalyzers().length > 0 });
+});
+
+// Chain registry: what intents may target and which chains have an RPC endpoint and router configured
+app.get("/chains", (_req, res) => {
+  res.json({ defaultChainId: defaultChainId(), chains: listChains().map(describeChain) });
+});
+
+app.post("/quote", async (req, res) => {
+  try {
+    const { intent } = req.body;
+    if (!isIntentInput(intent)) return res.status(400).json({ error: "valid intent is required", code: "INVALID_INPUT" });
+    const chainError = unsupportedChain(intent);
+    if (chainError) return res.status(400).json(chainError);
+    const quote: SolverQuote = await scoreIntent(intent);
+    return res.json(quote);
+  } catch (e: any) {
+    return res.status(500).json({ error: e.message || "quote failed", code: "INTERNAL_ERROR" });
+  }
+});
+
+type CompeteRequest = {
+  intent: IntentInput;
+  solvers: string[];
+  strictMode: boolean;
+  splitOptions?: SplitOptions;
+  scoring: ScoringPolicy;
+  clientId?: string; // charged for AI risk analysis tokens
+};
+
+// Progress pushed to /compete/stream before the final result
+type CompeteEvent =
+  | { event: "quote"; data: SolverQuote }
+  | { event: "solver_error"; data: SolverError }
+  | { event: "risk"; data: { riskAnalysis: RiskAnalysis; riskRatings: Record<string, string> } };
+
+function parseCompeteRequest(body: unknown): CompeteRequest | { error: string; code: string } {
+  const { intent, solvers, strictMode, split, scoring: scoringInput } = isObject(body) ? body : {};
+  if (!isIntentInput(intent) || !Array.isArray(solvers) || solvers.length === 0) {
+    return { error: "intent + solver configs required", code: "INVALID_INPUT" };
+  }
+  const chainError = unsupportedChain(intent);
+  if (chainError) return chainError;
+  const splitOptions = parseSplitOptions(split);
+  if (splitOptions === null) {
+    return { error: `split must be true or { steps: 2-10, maxLegs: 2-${MAX_SOLVERS} }`, code: "INVALID_SPLIT" };
+  }
+  const scoring = parseScoringPolicy(scoringInput);
+  if (scoring === null) {
+    const presets = Object.keys(SCORING_PRESETS).join(", ");
+    return { error: `scoring must be one of ${presets} or { weights: { price, gas, confidence } } with non-negative weights`, code: "INVALID_SCORING" };
+  }
+  if (solvers.length > MAX_SOLVERS) {
+    return { error: `Too many solvers. Maximum allowed is ${MAX_SOLVERS}`, code: "TOO_MANY_SOLVERS" };
+  }
+  if (!solvers.every((s) => isObject(s) && typeof s.name === "string" && s.name.trim().length > 0 && s.name.length <= MAX_NAME_LENGTH)) {
+    return { error: "Each solver requires a valid name", code: "INVALID_SOLVER" };
+  }
+  return { intent, solvers: solvers.map((s) => s.name as string), strictMode: strictMode === true, splitOptions, scoring };
+}
+
+// One auction: quotes, AI risk gate, winner selection and recording. Returns the /compete response body.
+async function runCompetition(request: CompeteRequest, emit: (e: CompeteEvent) => void = () => {}): Promise<Record<string, unknown>> {
+  const { intent, strictMode, splitOptions, scoring } = request;
+
+  // Parallelize solver scoring for lower latency
+  const { quotes, solverErrors } = await collectQuotes(intent, request.solvers, scoring, {
+    onQuote: (q) => emit({ event: "quote", data: q }),
+    onError: (e) => emit({ event: "solver_error", data: e }),
+  });
+  const errorInfo = solverErrors.length > 0 ? { solverErrors } : {};
+
+  // Rule checks plus AI risk analysis, merged by RISK_MERGE_POLICY
+  const riskAnalysis: RiskAnalysis = await assessRouteRisk(intent, quotes, { clientId: request.clientId });
+
+  // Build risk map: solver -> riskRating
+  // Default missing solvers to "caution" so unanalyzed quotes don't silently pass
+  const riskMap = new Map<string, string>();
+  for (const rq of riskAnalysis.quotes) {
+    riskMap.set(rq.solver, rq.riskRating);
+  }
+  for (const q of quotes) {
+    if (!riskMap.has(q.solver)) {
+      riskMap.set(q.solver, "caution");
+    }
+  }
+  emit({ event: "risk", data: { riskAnalysis, riskRatings: Object.fromEntries(riskMap) } });
+
+  // Every auction is recorded, whatever the outcome; reputation is derived from this history
+  const record = (winner: SolverQuote | null, code: string | null, warning: string | null, allocation: SplitAllocation | null = null) =>
+    recordCompetition({
+      id: randomUUID(),
+      createdAt: Date.now(),
+      intent,
+      strictMode,
+      quotes,
+      riskRatings: Object.fromEntries(riskMap),
+      riskAnalysis,
+      winner: winner?.solver ?? null,
+      code,
+      warning,
+      solverErrors,
+      allocation,
+    });
+
+  // Filter valid quotes that pass deterministic constraints
+  const validQuotes = quotes.filter((q) => q.valid);
+
+  // Bonded chains: only solvers holding the router's minSolverBond can win, since only they can fill
+  let partition: Awaited<ReturnType<typeof partitionBondedQuotes>>;
+  try {
+    partition = await partitionBondedQuotes(intentChainId(intent), validQuotes);
+  } catch (err: unknown) {
+    if (!(err instanceof BondPolicyUnavailableError)) throw err;
+    const warning = "The router's bond policy could not be read, so solver bonds can't be checked. No winner selected.";
+    const competitionId = await record(null, "BOND_POLICY_UNAVAILABLE", warning);
+    return {
+      competitionId,
+      best: null,
+      validQuotes,
+      quotes,
+      riskAnalysis,
+      scoringPolicy: scoring,
+      ...errorInfo,
+      warning,
+      code: "BOND_POLICY_UNAVAILABLE",
+      remediation: ["Retry once the chain's RPC endpoint is reachable"],
+    };
+  }
+  const { bonded: eligibleQuotes, unbonded } = partition;
+  const bondInfo = unbonded.length > 0 ? { unbondedSolvers: unbonded } : {};
+  if (validQuotes.length > 0 && eligibleQuotes.length === 0) {
+    const warning = "No valid quote came from a bonded solver. No winner selected.";
+    const competitionId = await record(null, "NO_BONDED_SOLVERS", warning);
+    return {
+      competitionId,
+      best: null,
+      validQuotes,
+      quotes,
+      riskAnalysis,
+      scoringPolicy: scoring,
+      ...errorInfo,
+      ...bondInfo,
+      warning,
+      code: "NO_BONDED_SOLVERS",
+      remediation: ["Retry once solvers have posted their bonds", "Ask bonded solvers to quote"],
+    };
+  }
+
+  // Risk-gated selection: exclude danger-rated quotes from winner pool
+  const safePool = eligibleQuotes.filter((q) => riskMap.get(q.solver) !== "danger");
+
+  // Safety policy: handle all-danger scenario
+  if (safePool.length === 0) {
+    const allDanger = eligibleQuotes.length > 0 && eligibleQuotes.every((q) => riskMap.get(q.solver) === "danger");
+    const noValid = validQuotes.length === 0;
+
+    // strictMode override: allow danger quote selection (default: false)
+    if (allDanger && strictMode) {
+      const pool = eligibleQuotes.sort((a, b) => b.score - a.score);
+      const warning = "All quotes were danger-rated. Winner selected via strict override.";
+      const competitionId = await record(pool[0], "DANGER_OVERRIDE", warning);
+      return {
+        competitionId,
+        best: pool[0],
+        validQuotes,
+        quotes,
+        riskAnalysis,
+        scoringPolicy: scoring,
+        ...errorInfo,
+        ...bondInfo,
+        warning,
+        code: "DANGER_OVERRIDE",
+      };
+    }
+
+    // Default: refuse to select a winner when all are dangerous
+    const warning = allDanger
+      ? "All solver quotes were rated DANGER by AI risk analysis. No winner selected for your safety."
+      : noValid
+        ? "No quotes passed deterministic constraints (min output, gas, slippage, price reliability)."
+        : "No safe quotes available.";
+    const code = allDanger ? "ALL_DANGER" : noValid ? "NO_VALID_QUOTES" : "NO_SAFE_QUOTES";
+    const competitionId = await record(null, code, warning);
+    return {
+      competitionId,
+      best: null,
+      validQuotes,
+      quotes,
+      riskAnalysis,
+      scoringPolicy: scoring,
+      ...errorInfo,
+      ...bondInfo,
+      warning,
+      code,
+      remediation: allDanger
+        ? ["Try a different token pair", "Reduce trade size", "Wait for better market conditions", "Enable strictMode to override (advanced)"]
+        : noValid
+          ? ["Increase slippage tolerance", "Increase max gas", "Decrease minimum output amount"]
+          : ["Retry the competition"],
+    };
+  }
+
+  const best = safePool.sort((a, b) => b.score - a.score)[0];
+
+  // Optional split: allocate the intent across risk-approved quotes for partial fills
+  const allocation = splitOptions
+    ? await allocateSplit(intent, best, safePool, quoteSolver, splitOptions)
+    : undefined;
+
+  const competitionId = await record(best, null, null, allocation ?? null);
+  return { competitionId, best, validQuotes, quotes, riskAnalysis, scoringPolicy: scoring, ...errorInfo, ...bondInfo, ...(allocation ? { allocation } : {}) };
+}
+
+app.post("/compete", rateLimitExpensiveRoutes, async (req, res) => {
+  const request = parseCompeteRequest(req.body);
+  if ("error" in request) return res.status(400).json(request);
+  try {
+    return res.json(await runCompetition({ ...request, clientId: getClientIp(req) }));
+  } catch (e: any) {
+    return res.status(500).json({ error: e.message || "competition failed", code: "INTERNAL_ERROR" });
+  }
+});
+
+// Same auction as /compete, streamed as Server-Sent Events: `quote` per solver as it answers (and
+// `solver_error` per failure), `risk` once the ratings are in, then `result` with the /compete body
+app.post("/compete/stream", rateLimitExpensiveRoutes, async (req, res) => {
+  const request = parseCompeteRequest(req.body);
+  if ("error" in request) return res.status(400).json(request);
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  const send = (event: string, data: unknown) => {
+    if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  try {
+    send("result", await runCompetition({ ...request, clientId: getClientIp(req) }, (e) => send(e.event, e.data)));
+  } catch (e: any) {
+    send("error", { error: e.message || "competition failed", code: "INTERNAL_ERROR" });
+  }
+  res.end();
+});
+
+// Resolve a contract address to token info via DexScreener
+app.get("/resolve/:address", async (req, res) => {
+  try {
+    const { address } = req.params;
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return res.status(400).json({ error: "Invalid contract address" });
+    }
+    const chainId = parseChainQuery(req.query.chainId);
+    if (chainId === null) return res.status(400).json({ error: "chainId is not supported; see GET /chains", code: "UNSUPPORTED_CHAIN" });
+    const info = await resolveContractAddress(address, chainId);
+    if (!info) return res.status(404).json({ error: "Token not found on DexScreener" });
+    return res.json(info);
+  } catch (e: any) {
+    return res.status(500).json({ error: e.message || "resolve failed" });
+  }
+});
+
+// Search tokens by name/symbol via DexScreener
+app.get("/search", async (req, res) => {
+  try {
+    const q = (req.query.q as string || "").trim();
+    if (!q || q.length < 2) return res.status(400).json({ error: "Query must be at least 2 characters" });
+    if (q.length > 64) return res.status(400).json({ error: "Query is too long" });
+    const chainId = parseChainQuery(req.query.chainId);
+    if (chainId === null) return res.status(400).json({ error: "chainId is not supported; see GET /chains", code: "UNSUPPORTED_CHAIN" });
+    const results = await searchTokens(q, chainId);
+    return res.json({ results });
+  } catch (e: any) {
+    return res.status(500).json({ error: e.message || "search failed" });
+  }
+});
+
+// Pre-trade simulation: dry-run competition without AI cost
+app.post("/simulate", async (req, res) => {
+  try {
+    const { intent, solvers } = req.body;
+    if (!isIntentInput(intent) || !Array.isArray(solvers) || solvers.length === 0) {
+      return res.status(400).json({ error: "intent + solver configs required", code: "INVALID_INPUT" });
+    }
+    const chainError = unsupportedChain(intent);
+    if (chainError) return res.status(400).json(chainError);
+    if (solvers.length > MAX_SOLVERS) {
+      return res.status(400).json({ error: `Too many solvers. Maximum allowed is ${MAX_SOLVERS}`, code: "TOO_MANY_SOLVERS" });
+    }
+
+    const names = solvers.filter((s) => isObject(s) && typeof s.name === "string").map((s) => s.name as string);
+    const { quotes, solverErrors } = await collectQuotes(intent, names);
+
+    const validQuotes = quotes.filter((q) => q.valid);
+    const best = validQuotes.sort((a, b) => b.score - a.score)[0] || null;
+    const constraintSummary = {
+      allPassMinOut: quotes.every((q) => q.checks.minOutPass),
+      allPassGas: quotes.every((q) => q.checks.gasPass),
+      allPassSlippage: quotes.every((q) => q.checks.slippagePass),
+      allPriceReliable: quotes.every((q) => q.checks.priceReliable),
+      validCount: validQuotes.length,
+      totalCount: quotes.length,
+    };
+
+    return res.json({
+      simulated: true,
+      best,
+      quotes,
+      constraintSummary,
+      ...(solverErrors.length > 0 ? { solverErrors } : {}),
+      note: "Dry-run simulation — no AI risk analysis performed. Use /compete for full analysis.",
+    });
+  } catch (e: any) {
+    return res.status(500).json({ error: e.message || "simulation failed", code: "INTERNAL_ERROR" });
+  }
+});
+
+// Solver directory: built-in profiles + registered external solvers
+app.get("/solvers", (_req, res) => {
+  return res.json({
+    protocolVersion: PROTOCOL_VERSION,
+    builtin: listBuiltinSolvers(),
+    external: listExternalSolvers(),
+  });
+});
+
+// Register (or update) an external solver endpoint
+app.post("/solvers", requireSolverAdmin, (req, res) => {
+  const { name, endpoint, signer, timeoutMs } = req.body ?? {};
+  if (typeof name !== "string" || name.trim().length === 0 || name.length > MAX_NAME_LENGTH) {
+    return res.status(400).json({ error: "valid solver name required", code: "INVALID_SOLVER" });
+  }
+  if (isBuiltinSolver(name)) {
+    return res.status(409).json({ error: `${name} is a built-in solver`, code: "SOLVER_NAME_TAKEN" });
+  }
+  let url: URL | null = null;
+  try { url = typeof endpoint === "string" ? new URL(endpoint) : null; } catch { url = null; }
+  if (!url || !["http:", "https:", "ws:", "wss:"].includes(url.protocol)) {
+    return res.status(400).json({ error: "endpoint must be an http(s) or ws(s) URL", code: "INVALID_ENDPOINT" });
+  }
+  if (typeof signer !== "string" || !isAddress(signer)) {
+    return res.status(400).json({ error: "signer must be an address", code: "INVALID_SIGNER" });
+  }
+  if (timeoutMs !== undefined && (typeof timeoutMs !== "number" || timeoutMs < MIN_TIMEOUT_MS || timeoutMs > MAX_TIMEOUT_MS)) {
+    return res.status(400).json({ error: `timeoutMs must be between ${MIN_TIMEOUT_MS} and ${MAX_TIMEOUT_MS}`, code: "INVALID_TIMEOUT" });
+  }
+  if (!getExternalSolver(name) && listExternalSolvers().length >= MAX_EXTERNAL_SOLVERS) {
+    return res.status(400).json({ error: `Too many external solvers. Maximum allowed is ${MAX_EXTERNAL_SOLVERS}`, code: "TOO_MANY_SOLVERS" });
+  }
+  const solver = registerExternalSolver({ name, endpoint, signer, timeoutMs });
+  return res.status(201).json(solver);
+});
+
+app.delete("/solvers/:name", requireSolverAdmin, (req, res) => {
+  if (!unregisterExternalSolver(req.params.name)) {
+    return res.status(404).json({ error: "Solver not registered", code: "SOLVER_NOT_FOUND" });
+  }
+  return res.status(204).end();
+});
+
+// Body chainId picks a registered chain's router; without one the CHAIN_ID / INTENT_ROUTER_ADDRESS domain applies
+function signedIntentDomain(chainId: unknown) {
+  if (chainId === undefined) return intentDomain();
+  if (typeof chainId !== "number" || !Number.isInteger(chainId)) throw new SignedIntentError("UNSUPPORTED_CHAIN", "chainId must be an integer");
+  return chainIntentDomain(chainId);
+}
+
+function sendSignedIntentError(res: Response, err: unknown, fallback: string) {
+  if (err instanceof SignedIntentError) {
+    const status = err.code === "ROUTER_NOT_CONFIGURED" ? 503 : err.code === "NONCE_USED" ? 409 : err.code === "TOO_MANY_INTENTS" ? 429 : 400;
+    return res.status(status).json({ error: err.message, code: err.code });
+  }
+  return res.status(500).json({ error: err instanceof Error ? err.message : fallback, code: "INTERNAL_ERROR" });
+}
+
+// EIP-712 payload for the wallet to sign (eth_signTypedData_v4)
+app.post("/signed-intents/typed-data", (req, res) => {
+  try {
+    return res.json(buildIntentTypedData(validateSignedIntent(req.body?.intent), signedIntentDomain(req.body?.chainId)));
+  } catch (e: unknown) {
+    return sendSignedIntentError(res, e, "typed data failed");
+  }
+});
+
+// Gasless submission: verify the user's signature and publish the intent to solvers
+app.post("/signed-intents", rateLimitExpensiveRoutes, async (req, res) => {
+  try {
+    const { intent, signature, permit, chainId } = req.body ?? {};
+    return res.status(201).json(await submitSignedIntent({ intent, signature, permit }, signedIntentDomain(chainId)));
+  } catch (e: unknown) {
+    return sendSignedIntentError(res, e, "submission failed");
+  }
+});
+
+app.get("/signed-intents", (req, res) => {
+  const user = typeof req.query.user === "string" ? req.query.user : undefined;
+  return res.json({ intents: listSignedIntents({ user }) });
+});
+
+app.get("/signed-intents/:hash", (req, res) => {
+  const record = getSignedIntent(req.params.hash);
+  if (!record) return res.status(404).json({ error: "Signed intent not found", code: "SIGNED_INTENT_NOT_FOUND" });
+  return res.json(record);
+});
+
+// Solver reputation leaderboard, rebuilt from recorded competitions, with each solver's bond on ?chainId
+// (default chain); bond is null where the router does not require one
+app.get("/reputation", async (req, res) => {
+  const chainId = parseChainQuery(req.query.chainId);
+  if (chainId === null) return res.status(400).json({ error: "chainId is not supported; see GET /chains", code: "UNSUPPORTED_CHAIN" });
+  try {
+    // An unreadable bond policy hides bonds, not the leaderboard
+    let bondStatus: "ok" | "unavailable" = "ok";
+    const [reputation, bonding] = await Promise.all([
+      getCompetitionStore().getReputation(),
+      getBondPolicy(chainId).catch((err: unknown) => {
+        if (!(err instanceof BondPolicyUnavailableError)) throw err;
+        bondStatus = "unavailable";
+        return null;
+      }),
+    ]);
+    const entries = await Promise.all(reputation.map(async (rep) => ({
+      ...rep,
+      winRate: rep.totalQuotes > 0 ? Number((rep.wins / rep.totalQuotes).toFixed(3)) : 0,
+      safetyRate: rep.totalQuotes > 0 ? Number((rep.safeQuotes / rep.totalQuotes).toFixed(3)) : 0,
+      bond: bonding ? await getSolverBond(solverFillAddress(rep.solver), bonding) : null,
+    })));
+    entries.sort((a, b) => b.winRate - a.winRate);
+    return res.json({ solvers: entries, bonding, bondStatus });
+  } catch (e: any) {
+    return res.status(500).json({ error: e.message || "reputation unavailable", code: "INTERNAL_ERROR" });
+  }
+});
+
+// Auction history for support investigations, newest first with cursor pagination
+app.get("/competitions", async (req, res) => {
+  const parsed = parseHistoryQuery(req.query);
+  if (typeof parsed === "string") return res.status(400).json({ error: parsed, code: "INVALID_FILTER" });
+  try {
+    return res.json(await getCompetitionStore().listCompetitions(parsed.filter, { limit: parsed.limit, cursor: parsed.cursor }));
+  } catch (e: unknown) {
+    if (e instanceof InvalidCursorError) return res.status(400).json({ error: e.message, code: "INVALID_CURSOR" });
+    return res.status(500).json({ error: e instanceof Error ? e.message : "history unavailable", code: "INTERNAL_ERROR" });
+  }
+});
+
+app.get("/competitions/:id", async (req, res) => {
+  try {
+    const record = await getCompetitionStore().getCompetition(req.params.id);
+    if (!record) return res.status(404).json({ error: "Competition not found", code: "COMPETITION_NOT_FOUND" });
+    return res.json(record);
+  } catch (e: unknown) {
+    return res.status(500).json({ error: e instanceof Error ? e.message : "history unavailable", code: "INTERNAL_ERROR" });
+  }
+});
+
+// Onchain lifecycle of an IntentRouter intent as materialized by the indexer, with fills linked to competitions
+app.get("/intents/:id", async (req, res) => {
+  if (!/^\d{1,78}$/.test(req.params.id)) return res.status(400).json({ error: "intent id must be a uint256", code: "INVALID_INTENT_ID" });
+  try {
+    const intent = await getIntentIndexStore().getIntent(BigInt(req.params.id).toString());
+    if (!intent) return res.status(404).json({ error: "Intent not indexed", code: "INTENT_NOT_FOUND" });
+    return res.json(intent);
+  } catch (e: unknown) {
+    return res.status(500).json({ error: e instanceof Error ? e.message : "intent index unavailable", code: "INTERNAL_ERROR" });
+  }
+});
+
+app.post("/analyze", rateLimitExpensiveRoutes, async (req, res) => {
+  try {
+    const { intent, quotes } = req.body;
+    if (!isIntentInput(intent) || !Array.isArray(quotes) || quotes.length === 0) {
+      return res.status(400).json({ error: "intent + quotes array required" });
+    }
+    const chainError = unsupportedChain(intent);
+    if (chainError) return res.status(400).json(chainError);
+    if (quotes.length > MAX_QUOTES) {
+      return res.status(400).json({ error: `Too many quotes. Maximum allowed is ${MAX_QUOTES}` });
+    }
+    if (!quotes.every((q) => isObject(q))) {
+      return res.status(400).json({ error: "quotes must be objects" });
+    }
+
+    const riskAnalysis: RiskAnalysis = await assessRouteRisk(intent, quotes as SolverQuote[], { clientId: getClientIp(req) });
+    return res.json(riskAnalysis);
+  } catch (e: any) {
+    return res.status(500).json({ error: e.message || "analysis failed" });
+  }
+});
+
+app.get("/risk/metrics", (_req, res) => {
+  res.json(getRiskMetrics());
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { existsSync, readFileSync } from "fs";
+import { Contract, ContractFactory, Interface, JsonRpcProvider, parseEther } from "ethers";
+import { IntentInput, SolverQuote, clearPriceCache } from "./solver.js";
+import { createFixtureProvider, registerPriceProvider, setPriceProviderOrder, unregisterPriceProvider } from "./priceProviders.js";
+import { SqliteCompetitionStore, getCompetitionStore, setCompetitionStore } from "./storage.js";
+import { BondPolicyUnavailableError, BondReader, getBondPolicy, getSolverBond, partitionBondedQuotes } from "./bonds.js";
+import { app } from "./app.js";
+
+const ROUTER = "0x00000000000000000000000000000000000000b0";
+const ALPHA = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const BETA = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+
+const routerInterface = new Interface([
+  "function minSolverBond() view returns (uint256)",
+  "function slashAmount() view returns (uint256)",
+  "function exclusivityWindow() view returns (uint64)",
+  "function solverBonds(address) view returns (uint256)",
+  "function lockedBonds(address) view returns (uint256)",
+]);
+
+// Answers IntentRouter's bond getters from a table: solver => [bond, locked]
+function fakeRouter(minBond: bigint, bonds: Record<string, [bigint, bigint]>): BondReader {
+  return {
+    call: async ({ data }) => {
+      const tx = routerInterface.parseTransaction({ data: data as string })!;
+      const [account] = tx.args.toArray() as string[];
+      const [bond, locked] = bonds[account] ?? [0n, 0n];
+      const value = { minSolverBond: minBond, slashAmount: parseEther("0.25"), exclusivityWindow: 600n, solverBonds: bond, lockedBonds: locked }[tx.name];
+      return routerInterface.encodeFunctionResult(tx.name, [value]);
+    },
+  };
+}
+
+const quote = (solver: string, address: string) => ({ solver, commitment: { solver: address } }) as SolverQuote;
+
+describe("solver bonds", () => {
+  beforeAll(() => { process.env.INTENT_ROUTER_ADDRESS_8453 = ROUTER; });
+  afterAll(() => { delete process.env.INTENT_ROUTER_ADDRESS_8453; });
+
+  it("reads the bond policy, off when minSolverBond is zero or the chain has no router", async () => {
+    expect(await getBondPolicy(8453, fakeRouter(parseEther("1"), {}))).toEqual({
+      chainId: 8453, minBondWei: parseEther("1").toString(), slashAmountWei: parseEther("0.25").toString(), exclusivityWindowSec: 600,
+    });
+    expect(await getBondPolicy(8453, fakeRouter(0n, {}))).toBeNull();
+    expect(await getBondPolicy(42161, fakeRouter(parseEther("1"), {}))).toBeNull();
+    await expect(getBondPolicy(8453, { call: async () => { throw new Error("rpc down"); } })).rejects.toThrow(BondPolicyUnavailableError);
+  });
+
+  it("counts a solver as bonded only with minSolverBond held and slashAmount unlocked", async () => {
+    const reader = fakeRouter(parseEther("1"), {
+      [ALPHA]: [parseEther("1"), parseEther("0.75")],
+      [BETA]: [parseEther("1"), parseEther("0.8")],
+    });
+    const policy = (await getBondPolicy(8453, reader))!;
+    expect(await getSolverBond(ALPHA, policy, reader)).toEqual({
+      address: ALPHA, bondWei: parseEther("1").toString(), lockedWei: parseEther("0.75").toString(), bonded: true,
+    });
+    expect((await getSolverBond(BETA, policy, reader)).bonded).toBe(false);
+    expect(await getSolverBond("unconfigured", policy, reader)).toMatchObject({ bondWei: "0", bonded: false });
+
+    const quotes = [quote("solver-alpha", ALPHA), quote("solver-beta", BETA), quote("solver-gamma", "0x0000000000000000000000000000000000000000")];
+    const { bonded, unbonded } = await partitionBondedQuotes(8453, quotes, reader);
+    expect(bonded.map((q) => q.solver)).toEqual(["solver-alpha"]);
+    expect(unbonded).toEqual(["solver-beta", "solver-gamma"]);
+    expect((await partitionBondedQuotes(8453, quotes, fakeRouter(0n, {}))).bonded).toHaveLength(3);
+    await expect(partitionBondedQuotes(8453, quotes, { call: async () => { throw new Error("rpc down"); } })).rejects.toThrow(BondPolicyUnavailableError);
+  });
+});
+
+describe("/reputation with an unreachable bond policy", () => {
+  let server: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    process.env.INTENT_ROUTER_ADDRESS_8453 = ROUTER;
+    process.env.RPC_URL_8453 = "http://127.0.0.1:1"; // nothing listens: every bond read fails
+    setCompetitionStore(new SqliteCompetitionStore(":memory:"));
+    server = app.listen(0);
+    await new Promise((r) => server.once("listening", r));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    delete process.env.INTENT_ROUTER_ADDRESS_8453;
+    delete process.env.RPC_URL_8453;
+    await getCompetitionStore().close();
+    setCompetitionStore(null);
+    await new Promise<void>((r) => server.close(() => r()));
+  });
+
+  it("still lists the leaderboard, without bonds", async () => {
+    await getCompetitionStore().saveCompetition({
+      id: "c1", createdAt: Date.now(), intent: { tokenIn: "WETH", tokenOut: "USDC", amountIn: "1.0" } as IntentInput, strictMode: false,
+      quotes: [{ solver: "solver-alpha", score: 0.9 } as SolverQuote], riskRatings: { "solver-alpha": "safe" }, riskAnalysis: null,
+      winner: "solver-alpha", code: null, warning: null, solverErrors: [], allocation: null,
+    });
+    const res = await fetch(`${base}/reputation`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ bonding: null, bondStatus: "unavailable", solvers: [{ solver: "solver-alpha", wins: 1, bond: null }] });
+  });
+});
+
+// Runs against a local Hardhat node: cd contracts && npx hardhat node, then RPC_URL=http://127.0.0.1:8545 npm test
+const ARTIFACT = new URL("../../contracts/artifacts/contracts/IntentRouter.sol/IntentRouter.json", import.meta.url);
+
+describe.skipIf(!process.env.RPC_URL || !existsSync(ARTIFACT))("bonded auctions (local node)", () => {
+  const provider = new JsonRpcProvider(process.env.RPC_URL, undefined, { cacheTimeout: -1 });
+  const intent: IntentInput = {
+    tokenIn: "WETH", tokenOut: "USDC", amountIn: "1.0", minAmountOut: "1800", maxSlippageBps: 100, maxGasWei: "10000000000000000", deadline: 9999999999,
+  };
+  let server: Server;
+  let base: string;
+  let alpha: string;
+
+  beforeAll(async () => {
+    delete process.env.ANTHROPIC_API_KEY;
+    const [owner, alphaSigner, betaSigner] = await Promise.all([provider.getSigner(8), provider.getSigner(9), provider.getSigner(10)]);
+    const { abi, bytecode } = JSON.parse(readFileSync(ARTIFACT, "utf8"));
+    const router = (await new ContractFactory(abi, bytecode, owner).deploy(await owner.getAddress())) as Contract;
+    await router.waitForDeployment();
+    await (await router.setBondPolicy(parseEther("1"), parseEther("0.25"), 600)).wait();
+    await (await (router.connect(alphaSigner) as Contract).postBond({ value: parseEther("1") })).wait();
+    alpha = await alphaSigner.getAddress();
+
+    process.env.INTENT_ROUTER_ADDRESS_8453 = await router.getAddress();
+    process.env.SOLVER_ADDRESSES = `solver-alpha:${alpha},solver-beta:${await betaSigner.getAddress()}`;
+    registerPriceProvider(createFixtureProvider({ WETH: 3200, USDC: 1 }));
+    setPriceProviderOrder(["fixture"]);
+    clearPriceCache();
+    setCompetitionStore(new SqliteCompetitionStore(":memory:"));
+    server = app.listen(0);
+    await new Promise((r) => server.once("listening", r));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    delete process.env.INTENT_ROUTER_ADDRESS_8453;
+    delete process.env.SOLVER_ADDRESSES;
+    setPriceProviderOrder(null);
+    unregisterPriceProvider("fixture");
+    clearPriceCache();
+    await getCompetitionStore().close();
+    setCompetitionStore(null);
+    await new Promise<void>((r) => server.close(() => r()));
+  });
+
+  const compete = async (names: string[]) => (await fetch(`${base}/compete`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ intent, solvers: names.map((name) => ({ name })) }),
+  })).json() as Promise<any>;
+
+  it("keeps unbonded solvers out of the winner pool and shows bonds on /reputation", async () => {
+    const both = await compete(["solver-alpha", "solver-beta"]);
+    expect(both.unbondedSolvers).toEqual(["solver-beta"]);
+    expect(both.best.solver).toBe("solver-alpha");
+
+    const betaOnly = await compete(["solver-beta"]);
+    expect(betaOnly).toMatchObject({ best: null, code: "NO_BONDED_SOLVERS", unbondedSolvers: ["solver-beta"] });
+
+    const rep = await (await fetch(`${base}/reputation`)).json() as any;
+    expect(rep.bondStatus).toBe("ok");
+    expect(rep.bonding).toMatchObject({ chainId: 8453, minBondWei: parseEther("1").toString(), exclusivityWindowSec: 600 });
+    const bonds = Object.fromEntries(rep.solvers.map((s: any) => [s.solver, s.bond]));
+    expect(bonds["solver-alpha"]).toEqual({ address: alpha, bondWei: parseEther("1").toString(), lockedWei: "0", bonded: true });
+    expect(bonds["solver-beta"]).toMatchObject({ bondWei: "0", bonded: false });
+    expect((await fetch(`${base}/reputation?chainId=999`)).status).toBe(400);
+  });
+});
@@ -0,0 +1,111 @@
+// bonds.ts - Solver bonds on IntentRouter: which solvers may win an auction, and their bond status for /reputation
+// A chain enforces bonding when its router's minSolverBond is non-zero; without an RPC endpoint or router nothing is enforced.
+
+import { Interface, JsonRpcProvider, ZeroAddress, getAddress, isAddress } from "ethers";
+import { chainRouterAddress } from "./chains.js";
+import { getChainProvider } from "./rpc.js";
+import { builtinSolverAddress } from "./quoteCommitment.js";
+import { getExternalSolver } from "./externalSolvers.js";
+import type { SolverQuote } from "./solver.js";
+
+export type BondReader = Pick<JsonRpcProvider, "call">;
+
+// IntentRouter.setBondPolicy; wei amounts are decimal strings
+export type BondPolicy = {
+  chainId: number;
+  minBondWei: string;
+  slashAmountWei: string;
+  exclusivityWindowSec: number; // how long the winner alone may fill a committed quote
+};
+
+export type SolverBond = {
+  address: string; // zero address when the solver's fill address is not configured
+  bondWei: string;
+  lockedWei: string; // held by open commitments until the solver fills or is slashed
+  bonded: boolean; // holds minSolverBond with slashAmount unlocked: may fill and back a new commitment
+};
+
+const router = new Interface([
+  "function minSolverBond() view returns (uint256)",
+  "function slashAmount() view returns (uint256)",
+  "function exclusivityWindow() view returns (uint64)",
+  "function solverBonds(address) view returns (uint256)",
+  "function lockedBonds(address) view returns (uint256)",
+]);
+
+export class BondPolicyUnavailableError extends Error {
+  constructor(public chainId: number, cause: string) {
+    super(`bond policy unreadable on chain ${chainId}: ${cause}`);
+    this.name = "BondPolicyUnavailableError";
+  }
+}
+
+async function read(reader: BondReader, to: string, fn: string, args: unknown[] = []): Promise<bigint> {
+  const data = await reader.call({ to, data: router.encodeFunctionData(fn, args) });
+  return router.decodeFunctionResult(fn, data)[0] as bigint;
+}
+
+/**
+ * The bonding rules of `chainId`'s router, or null when bonding is off there: minSolverBond is zero, or the
+ * chain has no RPC endpoint or router. A failed read throws BondPolicyUnavailableError rather than passing for
+ * "off", so an RPC outage can't let unbonded solvers win.
+ */
+export async function getBondPolicy(chainId: number, reader: BondReader | null = getChainProvider(chainId)): Promise<BondPolicy | null> {
+  const to = chainRouterAddress(chainId);
+  if (!reader || !to) return null;
+  try {
+    const [minBond, slash, window] = await Promise.all([
+      read(reader, to, "minSolverBond"),
+      read(reader, to, "slashAmount"),
+      read(reader, to, "exclusivityWindow"),
+    ]);
+    if (minBond === 0n) return null;
+    return { chainId, minBondWei: minBond.toString(), slashAmountWei: slash.toString(), exclusivityWindowSec: Number(window) };
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.warn(`[bonds] bond policy read failed on chain ${chainId}: ${msg}`);
+    throw new BondPolicyUnavailableError(chainId, msg);
+  }
+}
+
+/** Bond of the account that fills for `address` under `policy`; an unreadable bond counts as unbonded. */
+export async function getSolverBond(address: string, policy: BondPolicy, reader: BondReader | null = getChainProvider(policy.chainId)): Promise<SolverBond> {
+  const account = isAddress(address) ? getAddress(address) : ZeroAddress;
+  const to = chainRouterAddress(policy.chainId);
+  const none = { address: account, bondWei: "0", lockedWei: "0", bonded: false };
+  if (!reader || !to || account === ZeroAddress) return none;
+  try {
+    const [bond, locked] = await Promise.all([read(reader, to, "solverBonds", [account]), read(reader, to, "lockedBonds", [account])]);
+    const bonded = bond >= BigInt(policy.minBondWei) && bond - locked >= BigInt(policy.slashAmountWei);
+    return { address: account, bondWei: bond.toString(), lockedWei: locked.toString(), bonded };
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.warn(`[bonds] bond read failed for ${account} on chain ${policy.chainId}: ${msg}`);
+    return none;
+  }
+}
+
+/** Address a named solver fills from: an external solver's signer, else SOLVER_ADDRESSES for built-in profiles. */
+export function solverFillAddress(name: string): string {
+  return getExternalSolver(name)?.signer ?? builtinSolverAddress(name);
+}
+
+/**
+ * Split quotes into those whose solver may win on `chainId` and the names of those that may not. Quotes are
+ * checked against the address they committed to fill from; with bonding off every quote is eligible. Throws
+ * BondPolicyUnavailableError when the policy can't be read.
+ */
+export async function partitionBondedQuotes(
+  chainId: number,
+  quotes: SolverQuote[],
+  reader: BondReader | null = getChainProvider(chainId),
+): Promise<{ bonded: SolverQuote[]; unbonded: string[]; policy: BondPolicy | null }> {
+  const policy = quotes.length > 0 ? await getBondPolicy(chainId, reader) : null;
+  if (!policy) return { bonded: quotes, unbonded: [], policy };
+  const bonds = await Promise.all(quotes.map((q) => getSolverBond(q.commitment.solver, policy, reader)));
+  return {
+    bonded: quotes.filter((_, i) => bonds[i].bonded),
+    unbonded: quotes.filter((_, i) => !bonds[i].bonded).map((q) => q.solver),
+    policy,
+  };
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { existsSync, readFileSync } from "fs";
+import { Contract, ContractFactory, JsonRpcProvider, Wallet, parseEther } from "ethers";
+import { chainRouterAddress, chainRpcUrl, defaultChainId, describeChain, getChain, registerChain, unregisterChain } from "./chains.js";
+import { IntentInput, clearPriceCache, scoreIntent } from "./solver.js";
+import { createFixtureProvider, registerPriceProvider, setPriceProviderOrder, unregisterPriceProvider } from "./priceProviders.js";
+import { clearGasFeeCache, getGasFees } from "./gas.js";
+import { clearTokenCache, resolveTokenOnchain } from "./tokens.js";
+import { chainIntentDomain, hashSignedIntent } from "./signedIntents.js";
+import { app } from "./app.js";
+
+const intent: IntentInput = {
+  tokenIn: "WETH",
+  tokenOut: "USDC",
+  amountIn: "1.0",
+  minAmountOut: "1800",
+  maxSlippageBps: 100,
+  maxGasWei: "50000000000000",
+  deadline: 9999999999,
+};
+
+beforeAll(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  registerPriceProvider(createFixtureProvider({ WETH: 3200, USDC: 1 }));
+  setPriceProviderOrder(["fixture"]);
+  clearPriceCache();
+});
+
+afterAll(() => {
+  setPriceProviderOrder(null);
+  unregisterPriceProvider("fixture");
+  clearPriceCache();
+});
+
+describe("chain registry", () => {
+  afterEach(() => {
+    delete process.env.RPC_URL_10;
+    delete process.env.INTENT_ROUTER_ADDRESS_10;
+    unregisterChain(999);
+  });
+
+  it("resolves endpoints and routers per chain, RPC_URL only for the default chain", () => {
+    expect(defaultChainId()).toBe(8453);
+    expect(getChain(10)).toMatchObject({ name: "Optimism", dexScreenerId: "optimism", l1DataFee: "op-stack" });
+    expect(chainRpcUrl(10)).toBeUndefined();
+    process.env.RPC_URL_10 = "https://op.example/key-123";
+    process.env.INTENT_ROUTER_ADDRESS_10 = "0x00000000000000000000000000000000000000aa";
+    expect(chainRpcUrl(10)).toBe("https://op.example/key-123");
+    expect(chainRouterAddress(10)).toBe("0x00000000000000000000000000000000000000aa");
+    expect(JSON.stringify(describeChain(getChain(10)!))).not.toContain("key-123");
+    expect(describeChain(getChain(10)!)).toMatchObject({ rpcConfigured: true, isDefault: false });
+
+    registerChain({ chainId: 999, name: "Test", nativeToken: { symbol: "TST", decimals: 18 }, tokens: [], rpcUrl: "http://127.0.0.1:1" });
+    expect(chainRpcUrl(999)).toBe("http://127.0.0.1:1");
+  });
+});
+
+describe("chain-aware routes", () => {
+  let server: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    server = app.listen(0);
+    await new Promise((r) => server.once("listening", r));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>((r) => server.close(() => r())));
+
+  const post = (path: string, body: unknown) => fetch(`${base}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  it("lists registered chains without exposing RPC URLs", async () => {
+    const body = (await (await fetch(`${base}/chains`)).json()) as any;
+    expect(body.defaultChainId).toBe(8453);
+    expect(body.chains.map((c: any) => c.chainId)).toEqual(expect.arrayContaining([1, 10, 8453, 42161]));
+    expect(body.chains.every((c: any) => typeof c.rpcConfigured === "boolean" && !("rpcUrl" in c))).toBe(true);
+  });
+
+  it("quotes against the intent's chain and rejects unregistered chains", async () => {
+    const res = await post("/quote", { intent: { ...intent, chainId: 42161 } });
+    expect(res.status).toBe(200);
+    const quote = (await res.json()) as any;
+    expect(quote.commitment.tokenOut).toBe("0xaf88d065e77c8cC2239327C5EDb3A432268e5831");
+    expect(quote.baseUnits.decimalsOut).toBe(6);
+    expect(quote.gasEstimate.l1DataFeeWei).toBe("0");
+
+    for (const [path, body] of [
+      ["/quote", { intent: { ...intent, chainId: 999 } }],
+      ["/compete", { intent: { ...intent, chainId: 999 }, solvers: [{ name: "solver-alpha" }] }],
+      ["/simulate", { intent: { ...intent, chainId: 999 }, solvers: [{ name: "solver-alpha" }] }],
+    ] as const) {
+      const bad = await post(path, body);
+      expect(bad.status).toBe(400);
+      expect(((await bad.json()) as any).code).toBe("UNSUPPORTED_CHAIN");
+    }
+    expect((await post("/quote", { intent: { ...intent, chainId: "base" } })).status).toBe(400);
+    expect((await fetch(`${base}/search?q=usdc&chainId=999`)).status).toBe(400);
+  });
+});
+
+// Runs against two local Hardhat nodes standing in for two chains:
+//   cd contracts && npx hardhat node & HARDHAT_CHAIN_ID=31338 npx hardhat node --port 8546 &
+//   RPC_URL_31337=http://127.0.0.1:8545 RPC_URL_31338=http://127.0.0.1:8546 npm test
+const ARTIFACTS = new URL("../../contracts/artifacts/contracts/", import.meta.url);
+const artifact = (name: string) => JSON.parse(readFileSync(new URL(`${name}.sol/${name}.json`, ARTIFACTS), "utf8"));
+const hasTwoChains = !!process.env.RPC_URL_31337 && !!process.env.RPC_URL_31338;
+
+describe.skipIf(!hasTwoChains || !existsSync(new URL("IntentRouter.sol/IntentRouter.json", ARTIFACTS)))("two local chains", () => {
+  const chains = [31337, 31338] as const;
+  const providers = chains.map((id) => new JsonRpcProvider(process.env[`RPC_URL_${id}`], undefined, { cacheTimeout: -1 }));
+  const routers: Contract[] = [];
+  let token: string;
+
+  beforeAll(async () => {
+    registerChain({ chainId: 31338, name: "Hardhat 2", nativeToken: { symbol: "ETH", decimals: 18, wrapped: "WETH" }, tokens: [] });
+    // A fresh deployer has nonce 0 on both nodes, so each contract lands at the same address on both chains
+    const deployer = Wallet.createRandom();
+    const addresses: string[] = [];
+    for (const [i, provider] of providers.entries()) {
+      await provider.send("hardhat_setBalance", [deployer.address, "0x56BC75E2D63100000"]);
+      const signer = deployer.connect(provider);
+      const erc20 = artifact("MockERC20"), router = artifact("IntentRouter");
+      const t = await new ContractFactory(erc20.abi, erc20.bytecode, signer).deploy("USD Coin", "USDC", i === 0 ? 6 : 18);
+      await t.waitForDeployment();
+      const r = await new ContractFactory(router.abi, router.bytecode, signer).deploy(deployer.address);
+      await r.waitForDeployment();
+      addresses.push(await t.getAddress());
+      routers.push(r as Contract);
+      process.env[`INTENT_ROUTER_ADDRESS_${chains[i]}`] = await r.getAddress();
+    }
+    expect(addresses[0]).toBe(addresses[1]);
+    token = addresses[0];
+
+    // Next block base fee 1 gwei on the first chain, 40 gwei on the second
+    for (const [i, gwei] of [1n, 40n].entries()) {
+      await providers[i].send("hardhat_setNextBlockBaseFeePerGas", [`0x${(gwei * 10n ** 9n).toString(16)}`]);
+      await providers[i].send("hardhat_mine", ["0x1"]);
+    }
+    clearGasFeeCache();
+    clearTokenCache();
+  });
+
+  afterAll(() => {
+    unregisterChain(31338);
+    for (const id of chains) delete process.env[`INTENT_ROUTER_ADDRESS_${id}`];
+    clearGasFeeCache();
+    clearTokenCache();
+  });
+
+  it("reads decimals and gas fees from each chain's own node", async () => {
+    expect((await resolveTokenOnchain(token, 31337)).decimals).toBe(6);
+    expect((await resolveTokenOnchain(token, 31338)).decimals).toBe(18);
+
+    // An empty block lowers the base fee by 1/8
+    expect(await getGasFees(31337)).toMatchObject({ baseFeeWei: "875000000", l1FeePerKbWei: "0", source: "rpc" });
+    expect(await getGasFees(31338)).toMatchObject({ baseFeeWei: "35000000000", l1FeePerKbWei: "0", source: "rpc" });
+
+    const [a, b] = await Promise.all(chains.map((chainId) => scoreIntent({ ...intent, tokenOut: token, chainId })));
+    expect([a.baseUnits.decimalsOut, b.baseUnits.decimalsOut]).toEqual([6, 18]);
+    expect([a.gasEstimate?.baseFeeWei, b.gasEstimate?.baseFeeWei]).toEqual(["875000000", "35000000000"]);
+  });
+
+  it("signs intents against each chain's router domain", async () => {
+    const signed = {
+      user: Wallet.createRandom().address, tokenIn: token, tokenOut: token, amountIn: parseEther("1").toString(),
+      minAmountOut: "1", maxSlippageBps: 50, maxGasWei: "0", deadline: 9999999999, nonce: "1",
+    };
+    const hashes = chains.map((id) => hashSignedIntent(signed, chainIntentDomain(id)));
+    expect(hashes[0]).not.toBe(hashes[1]);
+    for (const [i, router] of routers.entries()) {
+      expect(await router.hashIntent(signed)).toBe(hashes[i]);
+    }
+  });
+});
@@ -0,0 +1,149 @@
+// chains.ts - Chain registry: RPC endpoint, IntentRouter deployment, native token, explorer, DexScreener id, token list
+// Intents carry a chainId (default DEFAULT_CHAIN_ID, Base); pricing, token lookup and gas read their chain from here.
+
+import { readFileSync } from "fs";
+import { TokenRef } from "./amm.js";
+
+export type ChainConfig = {
+  chainId: number;
+  name: string;
+  rpcUrl?: string; // RPC_URL_<chainId> overrides; the default chain also falls back to RPC_URL
+  routerAddress?: string; // INTENT_ROUTER_ADDRESS_<chainId> overrides; the default chain also falls back to INTENT_ROUTER_ADDRESS
+  nativeToken: { symbol: string; decimals: number; wrapped?: string }; // wrapped: symbol the native token trades as
+  explorerUrl?: string;
+  dexScreenerId?: string; // DexScreener's chain slug; unset for chains it does not index
+  l1DataFee?: "op-stack"; // L1 data fee read from the GasPriceOracle predeploy
+  tokens: TokenRef[]; // token list, consulted after the pool registry
+  // Cross-chain intents: CrossChainEscrow + its IFillAttester where orders originate, CrossChainSettlement where they are delivered
+  escrowAddress?: string;
+  attesterAddress?: string;
+  settlementAddress?: string;
+};
+
+const ETH = { symbol: "ETH", decimals: 18, wrapped: "WETH" };
+const token = (symbol: string, address: string, decimals: number): TokenRef => ({ symbol, address, decimals });
+
+export const BUILTIN_CHAINS: ChainConfig[] = [
+  {
+    chainId: 8453,
+    name: "Base",
+    nativeToken: ETH,
+    explorerUrl: "https://basescan.org",
+    dexScreenerId: "base",
+    l1DataFee: "op-stack",
+    tokens: [
+      token("WETH", "0x4200000000000000000000000000000000000006", 18),
+      token("USDC", "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", 6),
+      token("USDbC", "0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA", 6),
+      token("DAI", "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb", 18),
+      token("cbETH", "0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22", 18),
+      token("DEGEN", "0x4ed4E862860beD51a9570b96d89aF5E1B0Efefed", 18),
+      token("AERO", "0x940181a94A35A4569E4529A3CDfB74e38FD98631", 18),
+    ],
+  },
+  {
+    chainId: 84532,
+    name: "Base Sepolia",
+    nativeToken: ETH,
+    explorerUrl: "https://sepolia.basescan.org",
+    l1DataFee: "op-stack",
+    tokens: [
+      token("WETH", "0x4200000000000000000000000000000000000006", 18),
+      token("USDC", "0x036CbD53842c5426634e7929541eC2318f3dCF7e", 6),
+    ],
+  },
+  {
+    chainId: 1,
+    name: "Ethereum",
+    nativeToken: ETH,
+    explorerUrl: "https://etherscan.io",
+    dexScreenerId: "ethereum",
+    tokens: [
+      token("WETH", "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", 18),
+      token("USDC", "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", 6),
+      token("DAI", "0x6B175474E89094C44Da98b954EedeAC495271d0F", 18),
+    ],
+  },
+  {
+    chainId: 10,
+    name: "Optimism",
+    nativeToken: ETH,
+    explorerUrl: "https://optimistic.etherscan.io",
+    dexScreenerId: "optimism",
+    l1DataFee: "op-stack",
+    tokens: [
+      token("WETH", "0x4200000000000000000000000000000000000006", 18),
+      token("USDC", "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85", 6),
+    ],
+  },
+  {
+    chainId: 42161,
+    name: "Arbitrum One",
+    nativeToken: ETH,
+    explorerUrl: "https://arbiscan.io",
+    dexScreenerId: "arbitrum",
+    tokens: [
+      token("WETH", "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1", 18),
+      token("USDC", "0xaf88d065e77c8cC2239327C5EDb3A432268e5831", 6),
+    ],
+  },
+  { chainId: 31337, name: "Hardhat", nativeToken: ETH, tokens: [] },
+];
+
+const chains = new Map<number, ChainConfig>();
+
+export function registerChain(config: ChainConfig): void {
+  chains.set(config.chainId, config);
+}
+
+export function unregisterChain(chainId: number): void {
+  chains.delete(chainId);
+}
+
+export function getChain(chainId: number): ChainConfig | undefined {
+  return chains.get(chainId);
+}
+
+export function listChains(): ChainConfig[] {
+  return Array.from(chains.values()).sort((a, b) => a.chainId - b.chainId);
+}
+
+/** Chain assumed for intents without a chainId. */
+export function defaultChainId(): number {
+  return Number(process.env.DEFAULT_CHAIN_ID || 8453);
+}
+
+export function chainRpcUrl(chainId: number): string | undefined {
+  return process.env[`RPC_URL_${chainId}`]
+    ?? getChain(chainId)?.rpcUrl
+    ?? (chainId === defaultChainId() ? process.env.RPC_URL : undefined);
+}
+
+export function chainRouterAddress(chainId: number): string | undefined {
+  return process.env[`INTENT_ROUTER_ADDRESS_${chainId}`]
+    ?? getChain(chainId)?.routerAddress
+    ?? (chainId === defaultChainId() ? process.env.INTENT_ROUTER_ADDRESS : undefined);
+}
+
+/** Public view of a chain for GET /chains: whether an RPC endpoint is configured, never its URL (it may carry a key). */
+export function describeChain(chain: ChainConfig) {
+  const { rpcUrl: _rpcUrl, routerAddress: _routerAddress, ...rest } = chain;
+  return {
+    ...rest,
+    rpcConfigured: chainRpcUrl(chain.chainId) !== undefined,
+    routerAddress: chainRouterAddress(chain.chainId) ?? null,
+    isDefault: chain.chainId === defaultChainId(),
+  };
+}
+
+BUILTIN_CHAINS.forEach(registerChain);
+
+// CHAINS_FILE: JSON array of chain entries (e.g. written by contracts/scripts/deployMulti.ts); fields
+// given for a built-in chain override it, new chains need name and nativeToken
+if (process.env.CHAINS_FILE) {
+  const list = JSON.parse(readFileSync(process.env.CHAINS_FILE, "utf8")) as (Partial<ChainConfig> & { chainId: number })[];
+  for (const entry of list) {
+    const base = getChain(entry.chainId);
+    registerChain({ name: `Chain ${entry.chainId}`, nativeToken: ETH, tokens: [], ...base, ...entry });
+  }
+}
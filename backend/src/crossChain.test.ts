@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { existsSync, readFileSync } from "fs";
+import { Contract, ContractFactory, JsonRpcProvider, Signer, parseEther, parseUnits } from "ethers";
+import { IntentInput, clearPriceCache, scoreIntent } from "./solver.js";
+import { createFixtureProvider, registerPriceProvider, setPriceProviderOrder, unregisterPriceProvider } from "./priceProviders.js";
+import { estimateBridge, registerBridgeRoute, unregisterBridgeRoute } from "./crossChain.js";
+import { registerChain, unregisterChain } from "./chains.js";
+import { FillRelay, RelayFailure } from "./fillRelay.js";
+import { app } from "./app.js";
+
+const intent: IntentInput = {
+  tokenIn: "WETH",
+  tokenOut: "USDC",
+  amountIn: "1.0",
+  minAmountOut: "1800",
+  maxSlippageBps: 100,
+  maxGasWei: "50000000000000",
+  deadline: 9999999999,
+  chainId: 8453,
+  destChainId: 42161,
+};
+
+beforeAll(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  registerPriceProvider(createFixtureProvider({ WETH: 3200, USDC: 1 }));
+  setPriceProviderOrder(["fixture"]);
+  clearPriceCache();
+});
+
+afterAll(() => {
+  setPriceProviderOrder(null);
+  unregisterPriceProvider("fixture");
+  clearPriceCache();
+});
+
+describe("cross-chain quotes", () => {
+  afterEach(() => unregisterBridgeRoute(8453, 42161));
+
+  it("prices delivery on the destination chain net of the bridge fee", async () => {
+    const quote = await scoreIntent(intent);
+    expect(quote.commitment.tokenOut).toBe("0xaf88d065e77c8cC2239327C5EDb3A432268e5831"); // Arbitrum USDC
+    expect(quote.crossChain).toMatchObject({ originChainId: 8453, destChainId: 42161, bridge: "l2-fast", etaSeconds: 120, feeBps: 5 });
+    // 5 bps of 3200 USDC plus the $0.25 fixed fee
+    expect(quote.crossChain!.bridgeFeeOut).toBe("1850000");
+    const { destination, origin } = quote.crossChain!.gas;
+    expect(quote.expectedGasWei).toBe((BigInt(destination.totalWei) + BigInt(origin.totalWei)).toString());
+    expect(quote.gasEstimate).toBeUndefined();
+    expect(quote.route).toEqual(["l2-fast Base>Arbitrum One"]);
+
+    expect(estimateBridge(8453, 1)).toMatchObject({ bridge: "l1-finality", etaSeconds: 900 });
+    registerBridgeRoute({ originChainId: 8453, destChainId: 42161, bridge: "across", etaSeconds: 30, feeBps: 3, fixedFeeUsd: 0 });
+    expect(estimateBridge(8453, 42161)).toMatchObject({ bridge: "across", etaSeconds: 30 });
+    expect(estimateBridge(42161, 8453).bridge).toBe("l2-fast"); // routes are directional
+  });
+
+  it("quotes same-chain intents without a bridge leg", async () => {
+    const quote = await scoreIntent({ ...intent, destChainId: 8453 });
+    expect(quote.crossChain).toBeUndefined();
+    expect(quote.gasEstimate).toBeDefined();
+  });
+});
+
+describe("cross-chain routes", () => {
+  let server: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    server = app.listen(0);
+    await new Promise((r) => server.once("listening", r));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>((r) => server.close(() => r())));
+
+  const post = (path: string, body: unknown) => fetch(`${base}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  it("returns the bridge leg on /quote and rejects unregistered destination chains", async () => {
+    const res = await post("/quote", { intent });
+    expect(res.status).toBe(200);
+    expect(((await res.json()) as any).crossChain).toMatchObject({ destChainId: 42161, escrow: null, settlement: null });
+
+    const bad = await post("/quote", { intent: { ...intent, destChainId: 999 } });
+    expect(bad.status).toBe(400);
+    expect(((await bad.json()) as any).code).toBe("UNSUPPORTED_CHAIN");
+    expect((await post("/quote", { intent: { ...intent, destChainId: "arbitrum" } })).status).toBe(400);
+  });
+});
+
+// Runs against two local Hardhat nodes standing in for the origin and destination chains:
+//   cd contracts && npx hardhat node & HARDHAT_CHAIN_ID=31338 npx hardhat node --port 8546 &
+//   RPC_URL_31337=http://127.0.0.1:8545 RPC_URL_31338=http://127.0.0.1:8546 npm test
+const ARTIFACTS = new URL("../../contracts/artifacts/contracts/", import.meta.url);
+const artifact = (name: string) => JSON.parse(readFileSync(new URL(`${name}.sol/${name}.json`, ARTIFACTS), "utf8"));
+const hasTwoChains = !!process.env.RPC_URL_31337 && !!process.env.RPC_URL_31338;
+
+describe.skipIf(!hasTwoChains || !existsSync(new URL("CrossChainEscrow.sol/CrossChainEscrow.json", ARTIFACTS)))("cross-chain fill (two local chains)", () => {
+  const origin = new JsonRpcProvider(process.env.RPC_URL_31337, undefined, { cacheTimeout: -1 });
+  const dest = new JsonRpcProvider(process.env.RPC_URL_31338, undefined, { cacheTimeout: -1 });
+  const deploy = async (signer: Signer, name: string, ...args: unknown[]) => {
+    const { abi, bytecode } = artifact(name);
+    const c = await new ContractFactory(abi, bytecode, signer).deploy(...args);
+    await c.waitForDeployment();
+    return c as Contract;
+  };
+
+  beforeAll(() => registerChain({ chainId: 31338, name: "Hardhat 2", nativeToken: { symbol: "ETH", decimals: 18, wrapped: "WETH" }, tokens: [] }));
+  afterAll(() => unregisterChain(31338));
+
+  it("escrows on the origin, fills on the destination and releases escrow to the solver once the relay attests", async () => {
+    const [user, attesterSigner, solverOrigin] = await Promise.all([origin.getSigner(5), origin.getSigner(6), origin.getSigner(7)]);
+    const solverDest = await dest.getSigner(7);
+    const userAddr = await user.getAddress(), solverAddr = await solverOrigin.getAddress();
+
+    const tokenIn = await deploy(user, "MockERC20", "Wrapped Ether", "WETH", 18);
+    const attester = await deploy(attesterSigner, "MockFillAttester");
+    const escrow = await deploy(user, "CrossChainEscrow", await attester.getAddress(), 3600);
+    const tokenOut = await deploy(solverDest, "MockERC20", "USD Coin", "USDC", 6);
+    const settlement = await deploy(solverDest, "CrossChainSettlement");
+    const fromBlock = await dest.getBlockNumber();
+
+    await (await tokenIn.mint(userAddr, parseEther("1"))).wait();
+    await (await tokenIn.approve(await escrow.getAddress(), parseEther("1"))).wait();
+    const { timestamp } = (await origin.getBlock("latest"))!;
+    const opened = await (await escrow.open(
+      await tokenIn.getAddress(), parseEther("1"), 31338, await tokenOut.getAddress(), userAddr, parseUnits("3000", 6), timestamp + 600,
+    )).wait();
+    const orderId = escrow.interface.parseLog(opened.logs.at(-1))!.args.orderId as string;
+
+    // The solver delivers from its own inventory on the destination
+    await (await tokenOut.mint(await solverDest.getAddress(), parseUnits("3190", 6))).wait();
+    await (await tokenOut.approve(await settlement.getAddress(), parseUnits("3190", 6))).wait();
+    const order = (await escrow.getOrder(orderId)).toObject();
+    await (await settlement.fill(order, parseUnits("3190", 6))).wait();
+    expect(await tokenOut.balanceOf(userAddr)).toBe(parseUnits("3190", 6));
+
+    const relay = new FillRelay(attesterSigner, dest, {
+      originChainId: 31337,
+      destChainId: 31338,
+      escrow: await escrow.getAddress(),
+      attester: await attester.getAddress(),
+      settlement: await settlement.getAddress(),
+    }, { fromBlock, settle: true, confirmTimeoutMs: 2_000 });
+    const [attestation, ...rest] = await relay.pollOnce();
+    expect(rest).toEqual([]);
+    expect(attestation).toMatchObject({ orderId, solver: solverAddr, amountOut: parseUnits("3190", 6).toString() });
+    expect(attestation.settleTxHash).not.toBeNull();
+    expect(await tokenIn.balanceOf(solverAddr)).toBe(parseEther("1"));
+    expect(await escrow.orderStatus(orderId)).toBe(2n); // Settled
+
+    // Already settled: a rescan does not attest or settle again
+    expect(await new FillRelay(attesterSigner, dest, {
+      originChainId: 31337, destChainId: 31338, escrow: await escrow.getAddress(), attester: await attester.getAddress(), settlement: await settlement.getAddress(),
+    }, { fromBlock }).pollOnce()).toEqual([]);
+  });
+
+  it("records a fill whose settle keeps reverting and relays the fills behind it", async () => {
+    const [user, attesterSigner] = await Promise.all([origin.getSigner(5), origin.getSigner(6)]);
+    const solverDest = await dest.getSigner(7);
+    const userAddr = await user.getAddress();
+
+    const stuckIn = await deploy(user, "MockERC20Reverting", "Frozen", "FRZ", 18);
+    const tokenIn = await deploy(user, "MockERC20", "Wrapped Ether", "WETH", 18);
+    const attester = await deploy(attesterSigner, "MockFillAttester");
+    const escrow = await deploy(user, "CrossChainEscrow", await attester.getAddress(), 3600);
+    const tokenOut = await deploy(solverDest, "MockERC20", "USD Coin", "USDC", 6);
+    const settlement = await deploy(solverDest, "CrossChainSettlement");
+    const fromBlock = await dest.getBlockNumber();
+    await (await tokenOut.mint(await solverDest.getAddress(), parseUnits("6000", 6))).wait();
+    await (await tokenOut.approve(await settlement.getAddress(), parseUnits("6000", 6))).wait();
+
+    const orderIds: string[] = [];
+    for (const token of [stuckIn, tokenIn]) {
+      await (await token.mint(userAddr, parseEther("1"))).wait();
+      await (await token.approve(await escrow.getAddress(), parseEther("1"))).wait();
+      const { timestamp } = (await origin.getBlock("latest"))!;
+      const opened = await (await escrow.open(
+        await token.getAddress(), parseEther("1"), 31338, await tokenOut.getAddress(), userAddr, parseUnits("3000", 6), timestamp + 600,
+      )).wait();
+      const orderId = escrow.interface.parseLog(opened.logs.at(-1))!.args.orderId as string;
+      await (await settlement.fill((await escrow.getOrder(orderId)).toObject(), parseUnits("3000", 6))).wait();
+      orderIds.push(orderId);
+    }
+    await (await stuckIn.setFailMode(1)).wait(); // Revert: the escrow can no longer pay out the first order
+
+    const failures: RelayFailure[] = [];
+    const relay = new FillRelay(attesterSigner, dest, {
+      originChainId: 31337,
+      destChainId: 31338,
+      escrow: await escrow.getAddress(),
+      attester: await attester.getAddress(),
+      settlement: await settlement.getAddress(),
+    }, { fromBlock, settle: true, confirmTimeoutMs: 2_000, onFailure: (f) => failures.push(f) });
+    const attestations = await relay.pollOnce();
+    expect(attestations.map((a) => a.orderId)).toEqual([orderIds[1]]);
+    expect(failures).toMatchObject([{ orderId: orderIds[0], amountOut: parseUnits("3000", 6).toString() }]);
+    expect(await escrow.orderStatus(orderIds[1])).toBe(2n); // Settled
+
+    // The cursor moved past the failing fill
+    expect(await relay.pollOnce()).toEqual([]);
+    expect(failures).toHaveLength(1);
+  });
+});
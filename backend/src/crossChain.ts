@@ -0,0 +1,72 @@
+// crossChain.ts - Bridge time and fee estimates for cross-chain intents between registered chains
+// The user escrows on the origin chain (CrossChainEscrow), a solver delivers on the destination (CrossChainSettlement) and is repaid once the fill is attested.
+
+import { readFileSync } from "fs";
+import { getChain } from "./chains.js";
+import { GasEstimate } from "./gas.js";
+
+export type BridgeEstimate = {
+  bridge: string; // which estimate applied: a registered route id or a built-in class
+  etaSeconds: number; // destination fill until the escrow is released to the solver
+  feeBps: number; // solver's cost of fronting tokenOut on the destination, as a share of the output
+  fixedFeeUsd: number;
+};
+
+export type BridgeRoute = BridgeEstimate & { originChainId: number; destChainId: number };
+
+// What a quote reports about its cross-chain leg
+export type CrossChainQuote = BridgeEstimate & {
+  originChainId: number;
+  destChainId: number;
+  bridgeFeeOut: string; // base units of tokenOut the bridge fee takes from the fair output
+  escrow: string | null; // CrossChainEscrow on the origin chain, if deployed
+  settlement: string | null; // CrossChainSettlement on the destination chain, if deployed
+  gas: { destination: GasEstimate; origin: GasEstimate };
+};
+
+// Ethereum settles slowest: attestations wait for L1 finality. Everything else is treated as an L2 pair.
+const L1_CHAINS = new Set([1]);
+const DEFAULT_ESTIMATES: Record<"l1" | "l2", BridgeEstimate> = {
+  l1: { bridge: "l1-finality", etaSeconds: 900, feeBps: 8, fixedFeeUsd: 3 },
+  l2: { bridge: "l2-fast", etaSeconds: 120, feeBps: 5, fixedFeeUsd: 0.25 },
+};
+
+const routes = new Map<string, BridgeRoute>();
+const routeKey = (originChainId: number, destChainId: number) => `${originChainId}>${destChainId}`;
+
+export function registerBridgeRoute(route: BridgeRoute): void {
+  routes.set(routeKey(route.originChainId, route.destChainId), route);
+}
+
+export function unregisterBridgeRoute(originChainId: number, destChainId: number): void {
+  routes.delete(routeKey(originChainId, destChainId));
+}
+
+/** Registered route for the pair, else the L1 or L2 default. */
+export function estimateBridge(originChainId: number, destChainId: number): BridgeEstimate {
+  const route = routes.get(routeKey(originChainId, destChainId));
+  if (route) {
+    const { originChainId: _o, destChainId: _d, ...estimate } = route;
+    return estimate;
+  }
+  return L1_CHAINS.has(originChainId) || L1_CHAINS.has(destChainId) ? DEFAULT_ESTIMATES.l1 : DEFAULT_ESTIMATES.l2;
+}
+
+/** Output the bridge fee costs, in tokenOut human units, given the fair output and tokenOut's USD price. */
+export function bridgeFeeOut(estimate: BridgeEstimate, fairOut: number, priceOutUsd: number): number {
+  return fairOut * estimate.feeBps / 10_000 + (priceOutUsd > 0 ? estimate.fixedFeeUsd / priceOutUsd : 0);
+}
+
+/** Deployed cross-chain contracts for an origin/destination pair (null where the registry has none). */
+export function crossChainContracts(originChainId: number, destChainId: number): { escrow: string | null; settlement: string | null } {
+  return {
+    escrow: getChain(originChainId)?.escrowAddress ?? null,
+    settlement: getChain(destChainId)?.settlementAddress ?? null,
+  };
+}
+
+// BRIDGE_ROUTES_FILE: JSON array of BridgeRoute overriding the defaults for specific chain pairs
+if (process.env.BRIDGE_ROUTES_FILE) {
+  const list = JSON.parse(readFileSync(process.env.BRIDGE_ROUTES_FILE, "utf8")) as BridgeRoute[];
+  list.forEach(registerBridgeRoute);
+}
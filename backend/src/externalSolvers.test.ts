@@ -0,0 +1,251 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { Wallet } from "ethers";
+import { IntentInput, clearPriceCache } from "./solver.js";
+import { createFixtureProvider, registerPriceProvider, setPriceProviderOrder, unregisterPriceProvider } from "./priceProviders.js";
+import {
+  ExternalSolverError,
+  listExternalSolvers,
+  registerExternalSolver,
+  requestExternalQuote,
+  unregisterExternalSolver,
+} from "./externalSolvers.js";
+import { MockSolver, startMockSolver } from "./mockSolver.js";
+import { hashQuoteCommitment } from "./quoteCommitment.js";
+import { app } from "./app.js";
+
+const intent: IntentInput = {
+  tokenIn: "WETH",
+  tokenOut: "USDC",
+  amountIn: "1.0",
+  minAmountOut: "1800",
+  maxSlippageBps: 100,
+  maxGasWei: "50000000000000",
+  deadline: 9999999999,
+};
+
+const mocks: MockSolver[] = [];
+async function mock(opts: Parameters<typeof startMockSolver>[0]): Promise<MockSolver> {
+  const m = await startMockSolver(opts);
+  mocks.push(m);
+  return m;
+}
+
+beforeAll(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  registerPriceProvider(createFixtureProvider({ WETH: 3200, USDC: 1 }));
+  setPriceProviderOrder(["fixture"]);
+  clearPriceCache();
+});
+
+afterEach(async () => {
+  for (const s of listExternalSolvers()) unregisterExternalSolver(s.name);
+  await Promise.all(mocks.splice(0).map((m) => m.close()));
+});
+
+afterAll(() => {
+  setPriceProviderOrder(null);
+  unregisterPriceProvider("fixture");
+  clearPriceCache();
+});
+
+describe("requestExternalQuote", () => {
+  it("scores a signed HTTP quote with the shared checks", async () => {
+    const m = await mock({ name: "ext-http", edge: 0.998 });
+    const solver = registerExternalSolver({ name: m.name, endpoint: m.httpUrl, signer: m.signer });
+    const quote = await requestExternalQuote(solver, intent);
+    expect(quote.solver).toBe("ext-http");
+    expect(Number(quote.expectedOut)).toBeCloseTo(3200 * 0.998, 4);
+    expect(quote.impliedSlippageBps).toBe(20);
+    expect(quote.checks).toEqual({ minOutPass: true, gasPass: true, slippagePass: true, priceReliable: true });
+    expect(quote.valid).toBe(true);
+    expect(quote.external?.signer).toBe(m.signer);
+  });
+
+  it("speaks the same protocol over WebSocket", async () => {
+    const m = await mock({ name: "ext-ws" });
+    const solver = registerExternalSolver({ name: m.name, endpoint: m.wsUrl, signer: m.signer });
+    const quote = await requestExternalQuote(solver, intent);
+    expect(quote.external?.endpoint).toBe(m.wsUrl);
+    expect(quote.route).toEqual(["mock-solver"]);
+  });
+
+  it("applies the same constraint failures as built-in solvers", async () => {
+    const m = await mock({ name: "ext-greedy", edge: 0.95, gasWei: "90000000000000" });
+    const solver = registerExternalSolver({ name: m.name, endpoint: m.httpUrl, signer: m.signer });
+    const quote = await requestExternalQuote(solver, intent);
+    expect(quote.checks.slippagePass).toBe(false);
+    expect(quote.checks.gasPass).toBe(false);
+    expect(quote.valid).toBe(false);
+  });
+
+  it("rejects quotes signed by a key other than the registered signer", async () => {
+    const m = await mock({ name: "ext-forged" });
+    const solver = registerExternalSolver({ name: m.name, endpoint: m.httpUrl, signer: Wallet.createRandom().address });
+    await expect(requestExternalQuote(solver, intent)).rejects.toMatchObject({ code: "BAD_SIGNATURE" });
+  });
+
+  it("verifies the signature over the quote's executionHash", async () => {
+    const m = await mock({ name: "ext-signed" });
+    const solver = registerExternalSolver({ name: m.name, endpoint: m.httpUrl, signer: m.signer });
+    const quote = await requestExternalQuote(solver, intent);
+    expect(quote.commitment.solver).toBe(m.signer);
+    expect(quote.executionHash).toBe(hashQuoteCommitment(quote.commitment));
+
+    const bait = await mock({ name: "ext-bait", edge: 1.01, signedOut: "3000" });
+    const baitSolver = registerExternalSolver({ name: bait.name, endpoint: bait.httpUrl, signer: bait.signer });
+    await expect(requestExternalQuote(baitSolver, intent)).rejects.toMatchObject({ code: "BAD_SIGNATURE" });
+  });
+
+  it("times out slow solvers", async () => {
+    const m = await mock({ name: "ext-slow", delayMs: 500 });
+    const solver = registerExternalSolver({ name: m.name, endpoint: m.httpUrl, signer: m.signer, timeoutMs: 100 });
+    const err = await requestExternalQuote(solver, intent).catch((e) => e);
+    expect(err).toBeInstanceOf(ExternalSolverError);
+    expect(err.code).toBe("TIMEOUT");
+  });
+
+  it("surfaces declines", async () => {
+    const m = await mock({ name: "ext-decline", decline: true });
+    const solver = registerExternalSolver({ name: m.name, endpoint: m.wsUrl, signer: m.signer });
+    await expect(requestExternalQuote(solver, intent)).rejects.toMatchObject({ code: "DECLINED" });
+  });
+});
+
+describe("/compete with external solvers", () => {
+  let server: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    process.env.SOLVER_ADMIN_TOKEN = "test-admin";
+    server = app.listen(0);
+    await new Promise((r) => server.once("listening", r));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    delete process.env.SOLVER_ADMIN_TOKEN;
+    await new Promise<void>((r) => server.close(() => r()));
+  });
+
+  const admin = { "Content-Type": "application/json", Authorization: "Bearer test-admin" };
+
+  it("registers a solver and runs it in the auction next to built-in profiles", async () => {
+    const m = await mock({ name: "ext-best", edge: 1.002, gasWei: "5000000000000", confidence: 0.95 });
+    const reg = await fetch(`${base}/solvers`, {
+      method: "POST",
+      headers: admin,
+      body: JSON.stringify({ name: m.name, endpoint: m.httpUrl, signer: m.signer, timeoutMs: 1000 }),
+    });
+    expect(reg.status).toBe(201);
+
+    const slow = await mock({ name: "ext-slow", delayMs: 600 });
+    registerExternalSolver({ name: slow.name, endpoint: slow.httpUrl, signer: slow.signer, timeoutMs: 100 });
+
+    const res = await fetch(`${base}/compete`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ intent, solvers: [{ name: "solver-alpha" }, { name: "ext-best" }, { name: "ext-slow" }] }),
+    });
+    const body = await res.json() as any;
+    expect(res.status).toBe(200);
+    expect(body.quotes.map((q: any) => q.solver).sort()).toEqual(["ext-best", "solver-alpha"]);
+    expect(body.best.solver).toBe("ext-best");
+    expect(body.solverErrors).toEqual([expect.objectContaining({ solver: "ext-slow", code: "TIMEOUT" })]);
+  });
+
+  it("streams quotes, risk ratings and the final result as server-sent events", async () => {
+    const best = await mock({ name: "ext-best", edge: 1.002, gasWei: "5000000000000", confidence: 0.95 });
+    registerExternalSolver({ name: best.name, endpoint: best.httpUrl, signer: best.signer });
+    const slow = await mock({ name: "ext-slow", delayMs: 600 });
+    registerExternalSolver({ name: slow.name, endpoint: slow.httpUrl, signer: slow.signer, timeoutMs: 100 });
+
+    const res = await fetch(`${base}/compete/stream`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ intent, solvers: [{ name: "solver-alpha" }, { name: "ext-best" }, { name: "ext-slow" }] }),
+    });
+    expect(res.headers.get("content-type")).toMatch(/^text\/event-stream/);
+    const events = (await res.text()).trim().split("\n\n").map((block) => {
+      const [event, data] = block.split("\n").map((line) => line.slice(line.indexOf(": ") + 2));
+      return { event, data: JSON.parse(data) };
+    });
+
+    expect(events.map((e) => e.event)).toEqual(["quote", "quote", "solver_error", "risk", "result"]);
+    expect(events[2].data).toMatchObject({ solver: "ext-slow", code: "TIMEOUT" });
+    expect(Object.keys(events[3].data.riskRatings).sort()).toEqual(["ext-best", "solver-alpha"]);
+    const result = events[4].data;
+    expect(result.best.solver).toBe("ext-best");
+    const bySolver = (a: any, b: any) => a.solver.localeCompare(b.solver);
+    expect([...result.quotes].sort(bySolver)).toEqual(events.slice(0, 2).map((e) => e.data).sort(bySolver));
+    expect(result.riskAnalysis).toEqual(events[3].data.riskAnalysis);
+
+    const bad = await fetch(`${base}/compete/stream`, { method: "POST", headers: { "Content-Type": "application/json" }, body: "{}" });
+    expect(bad.status).toBe(400);
+    expect(((await bad.json()) as any).code).toBe("INVALID_INPUT");
+  });
+
+  it("picks the winner under the requested scoring policy and echoes it back", async () => {
+    // Cheap gas versus a better price at the same confidence
+    const cheap = await mock({ name: "ext-cheap-gas", edge: 0.999, gasWei: "10000000000000", confidence: 0.9 });
+    const rich = await mock({ name: "ext-best-price", edge: 1.025, gasWei: "45000000000000", confidence: 0.9 });
+    for (const m of [cheap, rich]) registerExternalSolver({ name: m.name, endpoint: m.httpUrl, signer: m.signer });
+
+    const compete = async (scoring: unknown) => {
+      const res = await fetch(`${base}/compete`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ intent: { ...intent, minAmountOut: "3150" }, scoring, solvers: [{ name: cheap.name }, { name: rich.name }] }),
+      });
+      return { status: res.status, body: await res.json() as any };
+    };
+
+    const balanced = await compete(undefined);
+    expect(balanced.body.best.solver).toBe("ext-cheap-gas");
+    expect(balanced.body.scoringPolicy).toEqual({ name: "balanced", weights: { price: 0.5, gas: 0.3, confidence: 0.2 } });
+    expect((await compete("gas-first")).body.best.solver).toBe("ext-cheap-gas");
+
+    const priceFirst = await compete("price-first");
+    expect(priceFirst.body.best).toMatchObject({ solver: "ext-best-price", scoreBreakdown: { policy: "price-first" } });
+    const custom = await compete({ weights: { price: 3, gas: 1 } });
+    expect(custom.body.best.solver).toBe("ext-cheap-gas");
+    expect(custom.body.scoringPolicy).toEqual({ name: "custom", weights: { price: 0.75, gas: 0.25, confidence: 0 } });
+    expect((await compete({ weights: { price: 1 } })).body.best.solver).toBe("ext-best-price");
+
+    for (const bad of ["cheapest", { weights: { price: -1, gas: 2 } }, { weights: {} }, { weights: { price: "1" } }]) {
+      expect(await compete(bad)).toMatchObject({ status: 400, body: { code: "INVALID_SCORING" } });
+    }
+  });
+
+  it("validates registrations", async () => {
+    const post = (body: unknown) => fetch(`${base}/solvers`, {
+      method: "POST",
+      headers: admin,
+      body: JSON.stringify(body),
+    });
+    const signer = Wallet.createRandom().address;
+    expect((await post({ name: "solver-alpha", endpoint: "http://x", signer })).status).toBe(409);
+    expect((await post({ name: "x", endpoint: "ftp://x", signer })).status).toBe(400);
+    expect((await post({ name: "x", endpoint: "http://x", signer: "0x123" })).status).toBe(400);
+    expect((await post({ name: "x", endpoint: "http://x", signer, timeoutMs: 1 })).status).toBe(400);
+  });
+
+  it("keeps the registry closed without the admin token, and entirely when none is configured", async () => {
+    const body = JSON.stringify({ name: "ext-open", endpoint: "http://127.0.0.1:1", signer: Wallet.createRandom().address });
+    const post = (headers: Record<string, string>) => fetch(`${base}/solvers`, { method: "POST", headers, body });
+    expect(await (await post({ "Content-Type": "application/json" })).json()).toMatchObject({ code: "UNAUTHORIZED" });
+    expect((await post({ ...admin, Authorization: "Bearer wrong" })).status).toBe(401);
+    expect((await fetch(`${base}/solvers/ext-best`, { method: "DELETE" })).status).toBe(401);
+
+    delete process.env.SOLVER_ADMIN_TOKEN;
+    try {
+      const res = await post(admin);
+      expect(res.status).toBe(503);
+      expect(await res.json()).toMatchObject({ code: "SOLVER_ADMIN_DISABLED" });
+      expect((await fetch(`${base}/solvers/ext-best`, { method: "DELETE", headers: admin })).status).toBe(503);
+    } finally {
+      process.env.SOLVER_ADMIN_TOKEN = "test-admin";
+    }
+  });
+});
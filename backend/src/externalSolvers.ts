@@ -0,0 +1,232 @@
+// externalSolvers.ts - Third-party solver registry and quote protocol (HTTP + WebSocket)
+// Registered solvers receive each intent, answer with a signed quote, and are scored like built-in profiles.
+
+import { randomUUID } from "crypto";
+import { AbiCoder, getAddress, getBytes, keccak256, verifyMessage, Wallet } from "ethers";
+import WebSocket from "ws";
+import { IntentInput, SolverQuote, evaluateQuote, getPriceContext, usdFairOut } from "./solver.js";
+import { toBaseUnits } from "./tokens.js";
+import { QuoteCommitment, hashQuoteCommitment } from "./quoteCommitment.js";
+
+export const PROTOCOL_VERSION = 2;
+
+export type ExternalSolver = {
+  name: string;
+  endpoint: string; // http(s):// URL receiving POSTs, or ws(s):// URL
+  signer: string; // address expected to sign every quote response
+  timeoutMs: number;
+  registeredAt: number;
+};
+
+// IntentRouter.Quote fields the API fixes for a request; the solver adds its signer, output and gas
+export type QuoteTemplate = {
+  tokenIn: string; // token addresses on the intent's chains
+  tokenOut: string;
+  amountIn: string; // base units
+  tokenOutDecimals: number;
+  quotedAt: number;
+};
+
+// Backend → solver
+export type QuoteRequest = {
+  type: "quote_request";
+  protocolVersion: number;
+  requestId: string;
+  solver: string;
+  intent: IntentInput;
+  commitment: QuoteTemplate;
+  deadlineMs: number; // epoch ms after which the answer is discarded
+};
+
+// Solver → backend
+export type QuoteResponse =
+  | {
+      type: "quote_response";
+      protocolVersion: number;
+      requestId: string;
+      solver: string;
+      expectedOut: string; // tokenOut, human units
+      expectedGasWei: string;
+      confidence: number; // 0-1
+      route?: string[];
+      signature: string; // EIP-191 signature over quoteDigest(...)
+    }
+  | { type: "decline"; protocolVersion: number; requestId: string; solver: string; reason: string };
+
+export type ExternalSolverErrorCode = "TIMEOUT" | "TRANSPORT" | "BAD_RESPONSE" | "BAD_SIGNATURE" | "DECLINED";
+
+export class ExternalSolverError extends Error {
+  constructor(public solver: string, public code: ExternalSolverErrorCode, message: string) {
+    super(message);
+    this.name = "ExternalSolverError";
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = Number(process.env.EXTERNAL_SOLVER_TIMEOUT_MS || 2000);
+export const MIN_TIMEOUT_MS = 100;
+export const MAX_TIMEOUT_MS = 10_000;
+
+const solvers = new Map<string, ExternalSolver>();
+
+export function registerExternalSolver(input: { name: string; endpoint: string; signer: string; timeoutMs?: number }): ExternalSolver {
+  const solver: ExternalSolver = {
+    name: input.name,
+    endpoint: input.endpoint,
+    signer: input.signer,
+    timeoutMs: input.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    registeredAt: Date.now(),
+  };
+  solvers.set(solver.name, solver);
+  return solver;
+}
+
+export function unregisterExternalSolver(name: string): boolean {
+  return solvers.delete(name);
+}
+
+export function getExternalSolver(name: string): ExternalSolver | undefined {
+  return solvers.get(name);
+}
+
+export function listExternalSolvers(): ExternalSolver[] {
+  return Array.from(solvers.values());
+}
+
+/** The commitment a quote response stands for: the request's template with the signer's output and gas. */
+export function responseCommitment(template: QuoteTemplate, signer: string, expectedOut: string, expectedGasWei: string): QuoteCommitment {
+  return {
+    solver: getAddress(signer),
+    tokenIn: getAddress(template.tokenIn),
+    tokenOut: getAddress(template.tokenOut),
+    amountIn: template.amountIn,
+    amountOut: toBaseUnits(expectedOut, template.tokenOutDecimals),
+    gasWei: toBaseUnits(expectedGasWei, 0),
+    quotedAt: template.quotedAt,
+  };
+}
+
+/**
+ * Digest a solver signs to commit to its quote for one request: the executionHash (hashQuoteCommitment) the
+ * winning quote is committed and filled under, so the signature covers exactly what the router enforces.
+ */
+export function quoteDigest(requestId: string, solver: string, executionHash: string): string {
+  return keccak256(AbiCoder.defaultAbiCoder().encode(["string", "string", "bytes32"], [requestId, solver, executionHash]));
+}
+
+/** Helper for solver implementations (and the mock solver): sign a quote response. */
+export async function signQuote(wallet: Wallet, request: QuoteRequest, expectedOut: string, expectedGasWei: string): Promise<string> {
+  const commitment = responseCommitment(request.commitment, wallet.address, expectedOut, expectedGasWei);
+  return wallet.signMessage(getBytes(quoteDigest(request.requestId, request.solver, hashQuoteCommitment(commitment))));
+}
+
+async function sendHttp(solver: ExternalSolver, request: QuoteRequest, signal: AbortSignal): Promise<unknown> {
+  const res = await fetch(solver.endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+    signal,
+  });
+  if (!res.ok) throw new ExternalSolverError(solver.name, "TRANSPORT", `HTTP ${res.status}`);
+  return res.json();
+}
+
+function sendWebSocket(solver: ExternalSolver, request: QuoteRequest, signal: AbortSignal): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(solver.endpoint);
+    const done = (fn: () => void) => { signal.removeEventListener("abort", onAbort); ws.close(); fn(); };
+    const onAbort = () => done(() => reject(new ExternalSolverError(solver.name, "TIMEOUT", `no answer within ${solver.timeoutMs}ms`)));
+    signal.addEventListener("abort", onAbort);
+    ws.on("open", () => ws.send(JSON.stringify(request)));
+    ws.on("message", (data) => {
+      let msg: any;
+      try { msg = JSON.parse(data.toString()); } catch { return; }
+      if (msg?.requestId === request.requestId) done(() => resolve(msg));
+    });
+    ws.on("error", (err) => done(() => reject(new ExternalSolverError(solver.name, "TRANSPORT", err.message))));
+  });
+}
+
+function parseResponse(solver: ExternalSolver, request: QuoteRequest, body: unknown): Extract<QuoteResponse, { type: "quote_response" }> {
+  const r = body as Record<string, unknown> | null;
+  if (!r || typeof r !== "object" || r.requestId !== request.requestId || r.solver !== solver.name) {
+    throw new ExternalSolverError(solver.name, "BAD_RESPONSE", "response does not match request");
+  }
+  if (r.type === "decline") {
+    throw new ExternalSolverError(solver.name, "DECLINED", typeof r.reason === "string" ? r.reason : "declined");
+  }
+  const numeric = (v: unknown) => typeof v === "string" && /^\d+(\.\d+)?$/.test(v);
+  if (
+    r.type !== "quote_response" ||
+    !numeric(r.expectedOut) ||
+    !numeric(r.expectedGasWei) ||
+    typeof r.confidence !== "number" || !(r.confidence >= 0 && r.confidence <= 1) ||
+    typeof r.signature !== "string" ||
+    (r.route !== undefined && !(Array.isArray(r.route) && r.route.every((x) => typeof x === "string")))
+  ) {
+    throw new ExternalSolverError(solver.name, "BAD_RESPONSE", "malformed quote_response");
+  }
+  return r as Extract<QuoteResponse, { type: "quote_response" }>;
+}
+
+/**
+ * Send the intent to a registered solver, verify its signed answer, and score it with the shared checks.
+ */
+export async function requestExternalQuote(solver: ExternalSolver, intent: IntentInput): Promise<SolverQuote> {
+  const started = Date.now();
+  const ctx = await getPriceContext(intent);
+  const request: QuoteRequest = {
+    type: "quote_request",
+    protocolVersion: PROTOCOL_VERSION,
+    requestId: randomUUID(),
+    solver: solver.name,
+    intent,
+    commitment: {
+      tokenIn: ctx.tokenIn.address,
+      tokenOut: ctx.tokenOut.address,
+      amountIn: toBaseUnits(intent.amountIn, ctx.tokenIn.decimals),
+      tokenOutDecimals: ctx.tokenOut.decimals,
+      quotedAt: Math.floor(started / 30_000) * 30,
+    },
+    deadlineMs: started + solver.timeoutMs,
+  };
+
+  const ctrl = new AbortController();
+  const t = setTimeout(() => ctrl.abort(), solver.timeoutMs);
+  let body: unknown;
+  try {
+    body = /^wss?:\/\//.test(solver.endpoint)
+      ? await sendWebSocket(solver, request, ctrl.signal)
+      : await sendHttp(solver, request, ctrl.signal);
+  } catch (err: unknown) {
+    if (err instanceof ExternalSolverError) throw err;
+    if (ctrl.signal.aborted) throw new ExternalSolverError(solver.name, "TIMEOUT", `no answer within ${solver.timeoutMs}ms`);
+    throw new ExternalSolverError(solver.name, "TRANSPORT", err instanceof Error ? err.message : String(err));
+  } finally {
+    clearTimeout(t);
+  }
+
+  const response = parseResponse(solver, request, body);
+  const commitment = responseCommitment(request.commitment, solver.signer, response.expectedOut, response.expectedGasWei);
+  let recovered: string;
+  try {
+    recovered = verifyMessage(getBytes(quoteDigest(request.requestId, solver.name, hashQuoteCommitment(commitment))), response.signature);
+  } catch {
+    throw new ExternalSolverError(solver.name, "BAD_SIGNATURE", "signature could not be decoded");
+  }
+  if (recovered.toLowerCase() !== solver.signer.toLowerCase()) {
+    throw new ExternalSolverError(solver.name, "BAD_SIGNATURE", `quote signed by ${recovered}, expected ${solver.signer}`);
+  }
+
+  return evaluateQuote(intent, solver.name, {
+    label: "External",
+    amountOut: BigInt(commitment.amountOut),
+    expectedGasWei: BigInt(commitment.gasWei),
+    confidence: Math.min(0.99, response.confidence),
+    fairOut: usdFairOut(intent, ctx),
+    route: response.route ?? [],
+    routePlan: null,
+    onchain: false,
+    quotedAt: commitment.quotedAt,
+    external: { endpoint: solver.endpoint, signer: solver.signer, signature: response.signature, latencyMs: Date.now() - started },
+  }, ctx);
+}
@@ -0,0 +1,204 @@
+// fillRelay.ts - Mock attester relay for cross-chain intents: reports destination fills to the origin chain
+// Follows CrossChainSettlement.OrderFilled on the destination and attests each fill of an open CrossChainEscrow order on MockFillAttester.
+
+import { Contract, Interface, JsonRpcProvider, Signer, Wallet } from "ethers";
+import { TxSender, TxSenderOptions, isTransientRpcError } from "./solverAgent.js";
+import { getChain } from "./chains.js";
+import { getChainProvider } from "./rpc.js";
+
+const SETTLEMENT_EVENTS = [
+  "event OrderFilled(bytes32 indexed orderId, address indexed solver, address indexed recipient, uint256 originChainId, address tokenOut, uint256 amountOut)",
+];
+const ESCROW_ABI = [
+  "function orderStatus(bytes32 orderId) view returns (uint8)",
+  "function settle(bytes32 orderId)",
+];
+const ATTESTER_ABI = [
+  "function attest(bytes32 orderId, address solver, uint256 amountOut)",
+  "function attestedFill(bytes32 orderId) view returns (address solver, uint256 amountOut)",
+];
+
+const settlementInterface = new Interface(SETTLEMENT_EVENTS);
+const attesterInterface = new Interface(ATTESTER_ABI);
+const escrowInterface = new Interface(ESCROW_ABI);
+const ORDER_OPEN = 1n;
+
+export type FillRelayOptions = TxSenderOptions & {
+  fromBlock?: number; // first destination block to scan; defaults to the head at the first poll
+  batchBlocks?: number;
+  confirmations?: number; // destination blocks a fill must be buried under before it is attested
+  settle?: boolean; // also call escrow.settle, paying the solver without waiting for them to claim
+  pollMs?: number;
+  onAttest?: (attestation: Attestation) => void;
+  onFailure?: (failure: RelayFailure) => void;
+};
+
+export type Attestation = {
+  orderId: string;
+  solver: string;
+  amountOut: string; // base units of tokenOut delivered on the destination
+  fillTxHash: string;
+  attestTxHash: string | null; // null when the fill was already attested and the relay only settled
+  settleTxHash: string | null;
+};
+
+// A fill the relay gave up on: attest or settle reverted (or was rejected) rather than failing transiently
+export type RelayFailure = {
+  orderId: string;
+  solver: string;
+  amountOut: string;
+  fillTxHash: string;
+  reason: string;
+};
+
+export type FillRelayChains = {
+  originChainId: number;
+  destChainId: number;
+  escrow: string; // CrossChainEscrow on the origin chain
+  attester: string; // MockFillAttester the escrow reads
+  settlement: string; // CrossChainSettlement on the destination chain
+};
+
+export class FillRelay {
+  private readonly escrow: Contract;
+  private readonly attester: Contract;
+  private readonly sender: TxSender;
+  private readonly batchBlocks: number;
+  private readonly confirmations: number;
+  private readonly settle: boolean;
+  private readonly pollMs: number;
+  private readonly onAttest?: (attestation: Attestation) => void;
+  private readonly onFailure?: (failure: RelayFailure) => void;
+  private nextBlock: number | null;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<unknown> | null = null;
+
+  constructor(
+    private readonly signer: Signer,
+    private readonly destination: Pick<JsonRpcProvider, "getBlockNumber" | "getLogs">,
+    private readonly chains: FillRelayChains,
+    opts: FillRelayOptions = {},
+  ) {
+    this.escrow = new Contract(chains.escrow, ESCROW_ABI, signer);
+    this.attester = new Contract(chains.attester, ATTESTER_ABI, signer);
+    this.sender = new TxSender(signer, opts);
+    this.nextBlock = opts.fromBlock ?? null;
+    this.batchBlocks = opts.batchBlocks ?? 2_000;
+    this.confirmations = opts.confirmations ?? 0;
+    this.settle = opts.settle ?? false;
+    this.pollMs = opts.pollMs ?? 10_000;
+    this.onAttest = opts.onAttest;
+    this.onFailure = opts.onFailure;
+  }
+
+  /**
+   * Scan the next batch of confirmed destination blocks and attest the fills found; returns the attestations made.
+   * A transient RPC failure ends the poll before the cursor moves, so the batch is rescanned; a fill whose attest
+   * or settle keeps reverting is reported to onFailure and passed over, so it can't hold up the fills behind it.
+   */
+  async pollOnce(): Promise<Attestation[]> {
+    const head = (await this.sender.withRetry(() => this.destination.getBlockNumber())) - this.confirmations;
+    if (this.nextBlock === null) this.nextBlock = Math.max(0, head);
+    if (this.nextBlock > head) return [];
+    const fromBlock = this.nextBlock;
+    const toBlock = Math.min(head, fromBlock + this.batchBlocks - 1);
+    const logs = await this.sender.withRetry(() => this.destination.getLogs({
+      address: this.chains.settlement,
+      fromBlock,
+      toBlock,
+      topics: [settlementInterface.getEvent("OrderFilled")!.topicHash],
+    }));
+
+    const attestations: Attestation[] = [];
+    for (const log of logs) {
+      const parsed = settlementInterface.parseLog({ topics: log.topics as string[], data: log.data });
+      if (!parsed || parsed.args.originChainId !== BigInt(this.chains.originChainId)) continue;
+      const { orderId, solver, amountOut } = parsed.args;
+      let attestation: Attestation | null;
+      try {
+        attestation = await this.relay(orderId, solver, amountOut, log.transactionHash);
+      } catch (err: unknown) {
+        if (isTransientRpcError(err)) throw err;
+        const reason = err instanceof Error ? (err as { shortMessage?: string }).shortMessage ?? err.message : String(err);
+        this.onFailure?.({ orderId, solver, amountOut: amountOut.toString(), fillTxHash: log.transactionHash, reason });
+        continue;
+      }
+      if (!attestation) continue;
+      attestations.push(attestation);
+      this.onAttest?.(attestation);
+    }
+    this.nextBlock = toBlock + 1;
+    return attestations;
+  }
+
+  // The orderId commits to the whole order, so an open escrow entry under it is the order that was filled
+  private async relay(orderId: string, solver: string, amountOut: bigint, fillTxHash: string): Promise<Attestation | null> {
+    const status: bigint = await this.sender.withRetry(() => this.escrow.orderStatus(orderId));
+    if (status !== ORDER_OPEN) return null;
+    const [attested]: [string] = await this.sender.withRetry(() => this.attester.attestedFill(orderId));
+    let attestTxHash: string | null = null;
+    if (BigInt(attested) === 0n) {
+      attestTxHash = await this.call(this.chains.attester, attesterInterface.encodeFunctionData("attest", [orderId, solver, amountOut]));
+    }
+    const settleTxHash = this.settle
+      ? await this.call(this.chains.escrow, escrowInterface.encodeFunctionData("settle", [orderId]))
+      : null;
+    if (!attestTxHash && !settleTxHash) return null;
+    return { orderId, solver, amountOut: amountOut.toString(), fillTxHash, attestTxHash, settleTxHash };
+  }
+
+  private async call(to: string, data: string): Promise<string> {
+    const gasLimit = ((await this.sender.withRetry(() => this.signer.estimateGas({ to, data }))) * 12n) / 10n;
+    const { receipt } = await this.sender.send({ to, data, gasLimit });
+    if (receipt.status !== 1) throw new Error(`relay transaction to ${to} reverted in ${receipt.hash}`);
+    return receipt.hash;
+  }
+
+  start(): void {
+    if (this.timer || this.running) return;
+    const tick = async () => {
+      this.running = this.pollOnce().catch((err: unknown) => {
+        console.warn(`[fill-relay] poll failed: ${err instanceof Error ? err.message : String(err)}`);
+      });
+      await this.running;
+      this.running = null;
+      if (this.timer) this.timer = setTimeout(tick, this.pollMs);
+    };
+    this.timer = setTimeout(tick, 0);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    await this.running;
+  }
+}
+
+/**
+ * Start relaying fills from FILL_RELAY_DEST_CHAIN_ID to FILL_RELAY_ORIGIN_CHAIN_ID with ATTESTER_PRIVATE_KEY, or
+ * return null when any of them, either chain's RPC endpoint, or the registry's escrow, attester or settlement
+ * address is missing.
+ */
+export function startFillRelayFromEnv(): FillRelay | null {
+  const key = process.env.ATTESTER_PRIVATE_KEY;
+  const originChainId = Number(process.env.FILL_RELAY_ORIGIN_CHAIN_ID);
+  const destChainId = Number(process.env.FILL_RELAY_DEST_CHAIN_ID);
+  const origin = getChain(originChainId), dest = getChain(destChainId);
+  const originProvider = getChainProvider(originChainId), destProvider = getChainProvider(destChainId);
+  if (!key || !originProvider || !destProvider || !origin?.escrowAddress || !origin.attesterAddress || !dest?.settlementAddress) return null;
+  const relay = new FillRelay(new Wallet(key, originProvider), destProvider, {
+    originChainId,
+    destChainId,
+    escrow: origin.escrowAddress,
+    attester: origin.attesterAddress,
+    settlement: dest.settlementAddress,
+  }, {
+    confirmations: Number(process.env.FILL_RELAY_CONFIRMATIONS || 0),
+    settle: process.env.FILL_RELAY_SETTLE === "true",
+    pollMs: Number(process.env.FILL_RELAY_POLL_MS || 10_000),
+    onAttest: (a) => console.log(`[fill-relay] attested order ${a.orderId}: ${a.amountOut} by ${a.solver} (${a.attestTxHash ?? a.settleTxHash})`),
+    onFailure: (f) => console.warn(`[fill-relay] skipped fill ${f.fillTxHash} of order ${f.orderId}: ${f.reason}`),
+  });
+  relay.start();
+  return relay;
+}
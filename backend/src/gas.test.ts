@@ -0,0 +1,62 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { Interface } from "ethers";
+import { GasFeeReader, GasFees, clearGasFeeCache, defaultGasFees, estimateRouteGas, getGasFees } from "./gas.js";
+
+const fees: GasFees = { baseFeeWei: "1000", priorityFeeWei: "10", l1FeePerKbWei: "5000", source: "rpc" };
+
+afterEach(() => clearGasFeeCache());
+
+describe("estimateRouteGas", () => {
+  it("sums per-venue hop gas, split overhead and the L1 data fee", () => {
+    const single = estimateRouteGas({ paths: [{ hops: [{ venue: "uniswap-v3" }] }] }, fees);
+    expect(single).toMatchObject({ gasUnits: 200_000, txBytes: 292, executionFeeWei: "202000000", l1DataFeeWei: "1460", totalWei: "202001460" });
+
+    const split = estimateRouteGas({
+      paths: [{ hops: [{ venue: "uniswap-v2" }, { venue: "uniswap-v3" }] }, { hops: [{ venue: "uniswap-v2" }] }],
+    }, fees);
+    expect(split.hops.map((h) => h.gasUnits)).toEqual([65_000, 110_000, 65_000]);
+    expect(split.gasUnits).toBe(90_000 + 25_000 + 240_000);
+  });
+});
+
+describe("getGasFees", () => {
+  const oracle = new Interface(["function getL1FeeUpperBound(uint256) view returns (uint256)"]);
+  function reader(opts: { l1?: bigint; fail?: boolean } = {}) {
+    const calls = { send: 0 };
+    const r: GasFeeReader = {
+      send: async (method: string) => {
+        calls.send++;
+        if (opts.fail) throw new Error("method not found");
+        expect(method).toBe("eth_feeHistory");
+        return { baseFeePerGas: ["0x64", "0x6e", "0x78"], reward: [["0x5"], ["0x1"], ["0x3"]] };
+      },
+      call: async () => {
+        if (opts.l1 === undefined) return "0x";
+        return oracle.encodeFunctionResult("getL1FeeUpperBound", [opts.l1]);
+      },
+    } as unknown as GasFeeReader;
+    return { r, calls };
+  }
+
+  it("reads the next base fee, median tip and L1 fee, cached between calls", async () => {
+    const { r, calls } = reader({ l1: 42n });
+    expect(await getGasFees(8453, r)).toEqual({ baseFeeWei: "120", priorityFeeWei: "3", l1FeePerKbWei: "42", source: "rpc" });
+    await getGasFees(8453, r);
+    expect(calls.send).toBe(1);
+  });
+
+  it("charges no L1 fee without the oracle and falls back to defaults when the RPC fails", async () => {
+    expect((await getGasFees(8453, reader().r)).l1FeePerKbWei).toBe("0");
+    clearGasFeeCache();
+    expect(await getGasFees(8453, reader({ fail: true }).r)).toEqual(defaultGasFees());
+    expect(await getGasFees(8453, null)).toMatchObject({ source: "default" });
+  });
+
+  it("caches per chain and reads the L1 oracle only on OP-stack chains", async () => {
+    const { r, calls } = reader({ l1: 42n });
+    expect((await getGasFees(8453, r)).l1FeePerKbWei).toBe("42");
+    expect((await getGasFees(42161, r)).l1FeePerKbWei).toBe("0");
+    expect(calls.send).toBe(2);
+    expect(defaultGasFees(1).l1FeePerKbWei).toBe("0");
+  });
+});
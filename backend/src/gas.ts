@@ -0,0 +1,154 @@
+// gas.ts - Gas cost estimates for quotes: route gas units x chain fees, plus the L1 data fee on OP-stack chains (Base)
+// Fees come per chain from eth_feeHistory and the GasPriceOracle predeploy; without an RPC endpoint the GAS_* defaults stand in.
+
+import { Interface, JsonRpcProvider } from "ethers";
+import { PoolConfig } from "./amm.js";
+import { defaultChainId, getChain } from "./chains.js";
+import { getChainProvider } from "./rpc.js";
+
+export type Venue = PoolConfig["venue"];
+
+// Wei amounts are decimal strings so quotes stay JSON-serializable
+export type GasFees = {
+  baseFeeWei: string; // next block's base fee
+  priorityFeeWei: string; // median tip over recent blocks
+  l1FeePerKbWei: string; // L1 data fee per 1000 bytes of transaction; "0" off OP-stack chains
+  source: "rpc" | "default";
+};
+
+export type GasEstimate = {
+  gasUnits: number;
+  hops: { venue: Venue; gasUnits: number }[];
+  txBytes: number;
+  baseFeeWei: string;
+  priorityFeeWei: string;
+  executionFeeWei: string; // gasUnits x (base + priority)
+  l1DataFeeWei: string;
+  totalWei: string;
+  feeSource: GasFees["source"];
+};
+
+// Route shape the estimate needs; a RoutePlan qualifies
+export type GasRoute = { paths: { hops: { venue: Venue }[] }[] };
+
+export type GasFeeReader = Pick<JsonRpcProvider, "send" | "call">;
+
+// Execution gas: fillIntent itself, each extra split path, and each swap hop by venue
+export const GAS_UNITS = {
+  fill: 90_000,
+  splitPath: 25_000,
+  hop: { "uniswap-v3": 110_000, "uniswap-v2": 65_000 } as Record<Venue, number>,
+};
+
+// Cross-chain intents: CrossChainSettlement.fill on the destination, CrossChainEscrow.settle on the origin
+export const CROSS_CHAIN_GAS_UNITS = { destinationFill: 85_000, originSettle: 60_000 };
+
+// Rough calldata size of a fill transaction and what each hop adds
+const TX_BYTES = { fill: 196, hop: 96, crossChainFill: 420, settle: 36 };
+
+const FEE_HISTORY_BLOCKS = 5;
+const FEE_CACHE_TTL_MS = 12_000;
+
+// OP-stack GasPriceOracle predeploy (Base, Optimism)
+const GAS_PRICE_ORACLE = "0x420000000000000000000000000000000000000F";
+const oracle = new Interface(["function getL1FeeUpperBound(uint256 unsignedTxSize) view returns (uint256)"]);
+
+const cached = new Map<number, { fees: GasFees; expiresAt: number }>();
+
+function isOpStack(chainId: number): boolean {
+  return getChain(chainId)?.l1DataFee === "op-stack";
+}
+
+/**
+ * Fees used without an RPC endpoint (or when it fails): Base mainnet ballpark, overridable by env.
+ * Chains without an L1 data fee get none.
+ */
+export function defaultGasFees(chainId = defaultChainId()): GasFees {
+  return {
+    baseFeeWei: process.env.GAS_BASE_FEE_WEI ?? "50000000", // 0.05 gwei
+    priorityFeeWei: process.env.GAS_PRIORITY_FEE_WEI ?? "1000000", // 0.001 gwei
+    l1FeePerKbWei: isOpStack(chainId) ? process.env.GAS_L1_FEE_PER_KB_WEI ?? "100000000000" : "0",
+    source: "default",
+  };
+}
+
+async function readL1FeePerKb(reader: GasFeeReader): Promise<bigint> {
+  try {
+    const data = await reader.call({ to: GAS_PRICE_ORACLE, data: oracle.encodeFunctionData("getL1FeeUpperBound", [1000]) });
+    return oracle.decodeFunctionResult("getL1FeeUpperBound", data)[0] as bigint;
+  } catch {
+    return 0n; // no oracle: not an OP-stack chain
+  }
+}
+
+/**
+ * Current fees on `chainId` from eth_feeHistory (next base fee, median 50th-percentile tip) and, on
+ * OP-stack chains, the L1 oracle; cached per chain for 12s. Falls back to defaultGasFees() without a
+ * reader or when the RPC call fails.
+ */
+export async function getGasFees(
+  chainId = defaultChainId(),
+  reader: GasFeeReader | null = getChainProvider(chainId),
+): Promise<GasFees> {
+  if (!reader) return defaultGasFees(chainId);
+  const hit = cached.get(chainId);
+  if (hit && hit.expiresAt > Date.now()) return hit.fees;
+  try {
+    const history = await reader.send("eth_feeHistory", [`0x${FEE_HISTORY_BLOCKS.toString(16)}`, "latest", [50]]) as {
+      baseFeePerGas: string[];
+      reward?: string[][];
+    };
+    const baseFee = BigInt(history.baseFeePerGas[history.baseFeePerGas.length - 1]);
+    const tips = (history.reward ?? []).map((r) => BigInt(r[0])).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    const tip = tips.length > 0 ? tips[Math.floor(tips.length / 2)] : 0n;
+    const fees: GasFees = {
+      baseFeeWei: baseFee.toString(),
+      priorityFeeWei: tip.toString(),
+      l1FeePerKbWei: isOpStack(chainId) ? (await readL1FeePerKb(reader)).toString() : "0",
+      source: "rpc",
+    };
+    cached.set(chainId, { fees, expiresAt: Date.now() + FEE_CACHE_TTL_MS });
+    return fees;
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.warn(`[gas] eth_feeHistory failed on chain ${chainId}, using default fees: ${msg}`);
+    return defaultGasFees(chainId);
+  }
+}
+
+export function clearGasFeeCache(): void {
+  cached.clear();
+}
+
+/** Gas units and total cost in wei of filling along `route` at `fees`. */
+export function estimateRouteGas(route: GasRoute, fees: GasFees): GasEstimate {
+  const hops = route.paths.flatMap((p) => p.hops.map((h) => ({ venue: h.venue, gasUnits: GAS_UNITS.hop[h.venue] })));
+  const gasUnits = GAS_UNITS.fill
+    + Math.max(0, route.paths.length - 1) * GAS_UNITS.splitPath
+    + hops.reduce((sum, h) => sum + h.gasUnits, 0);
+  return priceGas(gasUnits, hops, TX_BYTES.fill + hops.length * TX_BYTES.hop, fees);
+}
+
+/** Cost of the two transactions a cross-chain solver sends: the destination fill and the origin settle. */
+export function estimateCrossChainGas(destFees: GasFees, originFees: GasFees): { destination: GasEstimate; origin: GasEstimate } {
+  return {
+    destination: priceGas(CROSS_CHAIN_GAS_UNITS.destinationFill, [], TX_BYTES.crossChainFill, destFees),
+    origin: priceGas(CROSS_CHAIN_GAS_UNITS.originSettle, [], TX_BYTES.settle, originFees),
+  };
+}
+
+function priceGas(gasUnits: number, hops: GasEstimate["hops"], txBytes: number, fees: GasFees): GasEstimate {
+  const executionFee = BigInt(gasUnits) * (BigInt(fees.baseFeeWei) + BigInt(fees.priorityFeeWei));
+  const l1DataFee = (BigInt(fees.l1FeePerKbWei) * BigInt(txBytes)) / 1000n;
+  return {
+    gasUnits,
+    hops,
+    txBytes,
+    baseFeeWei: fees.baseFeeWei,
+    priorityFeeWei: fees.priorityFeeWei,
+    executionFeeWei: executionFee.toString(),
+    l1DataFeeWei: l1DataFee.toString(),
+    totalWei: (executionFee + l1DataFee).toString(),
+    feeSource: fees.source,
+  };
+}
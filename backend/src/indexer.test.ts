@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { existsSync, readFileSync } from "fs";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { Contract, ContractFactory, Filter, FilterByBlockHash, Interface, JsonRpcProvider, Log, Wallet, ZeroHash, keccak256, parseEther, toUtf8Bytes } from "ethers";
+import { ChainReader, IntentIndexer, ROUTER_EVENTS, SqliteIntentIndexStore, getIntentIndexStore, setIntentIndexStore } from "./indexer.js";
+import { INTENT_TYPES, intentDomain, listSignedIntents, submitSignedIntent } from "./signedIntents.js";
+import { app } from "./app.js";
+
+const ROUTER = "0x00000000000000000000000000000000000000aa";
+const USER = "0x0000000000000000000000000000000000000001";
+const SOLVER = "0x0000000000000000000000000000000000000002";
+const TOKEN_IN = "0x0000000000000000000000000000000000000010";
+const TOKEN_OUT = "0x0000000000000000000000000000000000000020";
+const iface = new Interface(ROUTER_EVENTS);
+
+// In-memory chain: block n holds the router logs emitted in it; fork() rewrites history from a height
+class FakeChain implements ChainReader {
+  blocks: { hash: string; events: [string, unknown[]][] }[] = [{ hash: keccak256(toUtf8Bytes("genesis")), events: [] }];
+  private salt = 0;
+
+  mine(...events: [string, unknown[]][]): number {
+    this.blocks.push({ hash: keccak256(toUtf8Bytes(`b${this.blocks.length}:${this.salt}`)), events });
+    return this.blocks.length - 1;
+  }
+
+  fork(height: number): void {
+    this.salt++;
+    this.blocks = this.blocks.slice(0, height);
+  }
+
+  async getBlockNumber() {
+    return this.blocks.length - 1;
+  }
+
+  async getBlock(n: unknown) {
+    const b = this.blocks[Number(n)];
+    return (b ? { number: Number(n), hash: b.hash } : null) as Awaited<ReturnType<ChainReader["getBlock"]>>;
+  }
+
+  async getLogs(filter: Filter | FilterByBlockHash) {
+    const { fromBlock, toBlock } = filter as Filter;
+    const logs: Log[] = [];
+    for (let n = Number(fromBlock); n <= Number(toBlock); n++) {
+      this.blocks[n]?.events.forEach(([name, args], index) => {
+        const { data, topics } = iface.encodeEventLog(name, args);
+        logs.push({ blockNumber: n, blockHash: this.blocks[n].hash, index, transactionHash: keccak256(toUtf8Bytes(`${n}:${index}`)), address: ROUTER, data, topics } as unknown as Log);
+      });
+    }
+    return logs;
+  }
+}
+
+const created = (id: number): [string, unknown[]] => ["IntentCreated", [id, USER, TOKEN_IN, TOKEN_OUT, 100n, 95n, 2_000_000_000n]];
+
+describe("IntentIndexer", () => {
+  let chain: FakeChain;
+  let store: SqliteIntentIndexStore;
+
+  beforeEach(() => {
+    chain = new FakeChain();
+    store = new SqliteIntentIndexStore(":memory:");
+  });
+
+  it("materializes the lifecycle and links fills to competitions", async () => {
+    const hash = keccak256(toUtf8Bytes("quote"));
+    chain.mine(created(1));
+    chain.mine(["QuoteCommitted", [1, SOLVER, 98n, hash]], ["IntentPartiallyFilled", [1, SOLVER, 60n, 59n, hash, 0n]]);
+    chain.mine(["IntentFilled", [1, SOLVER, 40n, hash, 0n]], created(2));
+    chain.mine(["IntentExpired", [2, 100n]]);
+    const linkHash = async (h: string) => (h === hash ? "comp-1" : null);
+    const indexer = new IntentIndexer(chain, ROUTER, store, { linkHash });
+
+    expect(await indexer.syncOnce()).toEqual({ fromBlock: 0, toBlock: 4, events: 6, reorgedTo: null });
+    const one = await store.getIntent("1");
+    expect(one).toMatchObject({ status: "filled", filledAmountIn: "100", amountOut: "99", createdBlock: 1, updatedBlock: 3 });
+    expect(one?.committedQuote).toEqual({ solver: SOLVER, amountOut: "98", quoteHash: hash, competitionId: "comp-1" });
+    expect(one?.fills.map((f) => [f.amountIn, f.amountOut, f.competitionId])).toEqual([["60", "59", "comp-1"], ["40", "40", "comp-1"]]);
+    expect(await store.getIntent("2")).toMatchObject({ status: "expired", refundAmount: "100" });
+  });
+
+  it("resumes from the stored cursor in batches", async () => {
+    for (let i = 1; i <= 5; i++) chain.mine(created(i));
+    await new IntentIndexer(chain, ROUTER, store, { batchBlocks: 3 }).syncOnce();
+    expect(await store.getCursor()).toEqual({ number: 2, hash: chain.blocks[2].hash });
+
+    const restarted = new IntentIndexer(chain, ROUTER, store, { batchBlocks: 3 });
+    expect(await restarted.syncOnce()).toMatchObject({ fromBlock: 3, toBlock: 5, events: 3 });
+    expect(await restarted.syncOnce()).toMatchObject({ events: 0 });
+    expect((await store.getIntent("5"))?.status).toBe("open");
+  });
+
+  it("lists open intents past their deadline for the keeper", async () => {
+    const withDeadline = (id: number, deadline: bigint): [string, unknown[]] => ["IntentCreated", [id, USER, TOKEN_IN, TOKEN_OUT, 100n, 95n, deadline]];
+    chain.mine(withDeadline(1, 500n), withDeadline(2, 300n), withDeadline(3, 900n), withDeadline(4, 100n));
+    chain.mine(["IntentPartiallyFilled", [2, SOLVER, 10n, 10n, ZeroHash, 0n]], ["IntentCancelled", [4]]);
+    await new IntentIndexer(chain, ROUTER, store).syncOnce();
+    expect((await store.listExpirable(600, 10)).map((i) => i.intentId)).toEqual(["2", "1"]);
+    expect((await store.listExpirable(600, 1)).map((i) => i.intentId)).toEqual(["2"]);
+  });
+
+  it("rolls back reorged blocks and re-indexes the new branch", async () => {
+    chain.mine(created(1));
+    chain.mine(["IntentPartiallyFilled", [1, SOLVER, 50n, 49n, ZeroHash, 0n]]);
+    chain.mine(["IntentCancelled", [1]], created(2));
+    const indexer = new IntentIndexer(chain, ROUTER, store);
+    await indexer.syncOnce();
+    expect((await store.getIntent("1"))?.status).toBe("cancelled");
+
+    chain.fork(3); // block 3 (cancel + intent 2) is replaced by an empty block and a full fill
+    chain.mine();
+    chain.mine(["IntentFilled", [1, SOLVER, 50n, ZeroHash, 0n]]);
+    expect(await indexer.syncOnce()).toMatchObject({ reorgedTo: 2, fromBlock: 3, toBlock: 4 });
+    expect(await store.getIntent("1")).toMatchObject({ status: "filled", refundAmount: null, filledAmountIn: "100" });
+    expect(await store.getIntent("2")).toBeNull();
+  });
+
+  it("drops pooled signed intents once their nonce is filled or invalidated onchain", async () => {
+    const domain = intentDomain({ chainId: 31337, verifyingContract: ROUTER });
+    const user = Wallet.createRandom();
+    const pooled = await Promise.all(["1", "2", "3"].map(async (nonce) => {
+      const intent = {
+        user: user.address, tokenIn: TOKEN_IN, tokenOut: TOKEN_OUT, amountIn: "100", minAmountOut: "95",
+        maxSlippageBps: 100, maxGasWei: "0", deadline: Math.floor(Date.now() / 1000) + 600, nonce,
+      };
+      return submitSignedIntent({ intent, signature: await user.signTypedData(domain, INTENT_TYPES, intent) }, domain);
+    }));
+
+    chain.mine(created(1), ["SignedIntentFilled", [1, user.address, 1n]]);
+    chain.mine(["NonceInvalidated", [user.address, 3n]]);
+    expect(await new IntentIndexer(chain, ROUTER, store).syncOnce()).toMatchObject({ events: 1 });
+    expect(listSignedIntents({ user: user.address }).map((r) => r.intentHash)).toEqual([pooled[1].intentHash]);
+    expect((await store.getIntent("1"))?.status).toBe("open");
+  });
+});
+
+describe("GET /intents/:id", () => {
+  let server: Server;
+  let base: string;
+
+  afterAll(async () => {
+    await getIntentIndexStore().close();
+    setIntentIndexStore(null);
+    await new Promise<void>((r) => server.close(() => r()));
+  });
+
+  it("serves indexed intents", async () => {
+    const chain = new FakeChain();
+    chain.mine(created(7));
+    const store = new SqliteIntentIndexStore(":memory:");
+    await new IntentIndexer(chain, ROUTER, store).syncOnce();
+    setIntentIndexStore(store);
+    server = app.listen(0);
+    await new Promise((r) => server.once("listening", r));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    expect(((await (await fetch(`${base}/intents/7`)).json()) as any)).toMatchObject({ intentId: "7", status: "open", user: USER });
+    expect((await fetch(`${base}/intents/8`)).status).toBe(404);
+    const bad = await fetch(`${base}/intents/abc`);
+    expect(bad.status).toBe(400);
+    expect(((await bad.json()) as any).code).toBe("INVALID_INTENT_ID");
+  });
+});
+
+// Runs against a local Hardhat node with compiled contracts:
+//   cd contracts && npx hardhat compile && npx hardhat node
+//   RPC_URL=http://127.0.0.1:8545 npm test
+const ARTIFACTS = new URL("../../contracts/artifacts/contracts/", import.meta.url);
+const artifact = (name: string) => JSON.parse(readFileSync(new URL(`${name}.sol/${name}.json`, ARTIFACTS), "utf8"));
+
+describe.skipIf(!process.env.RPC_URL || !existsSync(new URL("IntentRouter.sol/IntentRouter.json", ARTIFACTS)))("IntentIndexer (local node)", () => {
+  it("follows a deployed router through fills and a reorg", async () => {
+    const provider = new JsonRpcProvider(process.env.RPC_URL, undefined, { cacheTimeout: -1 });
+    const signer = await provider.getSigner(0);
+    const me = await signer.getAddress();
+    const deploy = async (name: string, ...args: unknown[]) => {
+      const { abi, bytecode } = artifact(name);
+      const c = await new ContractFactory(abi, bytecode, signer).deploy(...args);
+      await c.waitForDeployment();
+      return c as Contract;
+    };
+
+    const startBlock = await provider.getBlockNumber();
+    const tokenIn = await deploy("MockERC20", "Token In", "TIN", 18);
+    const tokenOut = await deploy("MockERC20", "Token Out", "TOUT", 18);
+    const router = await deploy("IntentRouter", me);
+    const routerAddr = await router.getAddress();
+    for (const tx of [
+      await router.setSolver(me, true),
+      await tokenIn.mint(me, parseEther("100")),
+      await tokenOut.mint(me, parseEther("100")),
+      await tokenIn.approve(routerAddr, parseEther("100")),
+      await tokenOut.approve(routerAddr, parseEther("100")),
+    ]) await tx.wait();
+
+    const { timestamp } = (await provider.getBlock("latest"))!;
+    await (await router.createIntent(await tokenIn.getAddress(), await tokenOut.getAddress(), parseEther("10"), parseEther("9"), 100, 0, timestamp + 3600)).wait();
+    const intentId = (await router.nextIntentId()) - 1n;
+    const hash = keccak256(toUtf8Bytes("indexer-e2e"));
+    await (await router.fillIntentPartial(intentId, parseEther("4"), parseEther("4"), hash)).wait();
+
+    const store = new SqliteIntentIndexStore(":memory:");
+    const indexer = new IntentIndexer(provider, routerAddr, store, { startBlock, linkHash: async (h) => (h === hash ? "comp-e2e" : null) });
+    const snapshot = await provider.send("evm_snapshot", []);
+    await (await router.cancelIntent(intentId)).wait();
+    await indexer.syncOnce();
+    expect(await store.getIntent(intentId.toString())).toMatchObject({ status: "cancelled", refundAmount: parseEther("6").toString() });
+
+    // Revert the cancel and mine past it: same heights, different hashes
+    await provider.send("evm_revert", [snapshot]);
+    await provider.send("evm_mine", []);
+    await provider.send("evm_mine", []);
+    const result = await indexer.syncOnce();
+    expect(result.reorgedTo).not.toBeNull();
+    const intent = await store.getIntent(intentId.toString());
+    expect(intent).toMatchObject({ status: "partially_filled", filledAmountIn: parseEther("4").toString(), refundAmount: null });
+    expect(intent?.fills[0].competitionId).toBe("comp-e2e");
+    await store.close();
+  });
+});
@@ -0,0 +1,477 @@
+// indexer.ts - Follows IntentRouter events into intent lifecycle records (GET /intents/:id)
+// Resumes from a stored block cursor and rolls back to the last block whose hash still matches after a reorg.
+
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import Database from "better-sqlite3";
+import { Interface, JsonRpcProvider, Log, ZeroHash } from "ethers";
+import { getRpcProvider } from "./rpc.js";
+import { getCompetitionStore } from "./storage.js";
+import { removeSignedIntentsByNonce } from "./signedIntents.js";
+
+export const ROUTER_EVENTS = [
+  "event IntentCreated(uint256 indexed intentId, address indexed user, address tokenIn, address tokenOut, uint256 amountIn, uint256 minAmountOut, uint64 deadline)",
+  "event IntentFilled(uint256 indexed intentId, address indexed solver, uint256 amountOut, bytes32 executionHash, uint256 feePaid)",
+  "event IntentPartiallyFilled(uint256 indexed intentId, address indexed solver, uint256 amountIn, uint256 amountOut, bytes32 executionHash, uint256 feePaid)",
+  "event IntentCancelled(uint256 indexed intentId)",
+  "event IntentExpired(uint256 indexed intentId, uint256 refundAmount)",
+  "event QuoteCommitted(uint256 indexed intentId, address indexed solver, uint256 amountOut, bytes32 quoteHash)",
+  // Signed-intent nonces used up onchain; they retire pooled signed intents rather than feed intent records
+  "event SignedIntentFilled(uint256 indexed intentId, address indexed user, uint256 nonce)",
+  "event NonceInvalidated(address indexed user, uint256 nonce)",
+];
+const NONCE_EVENTS = new Set(["SignedIntentFilled", "NonceInvalidated"]);
+
+const routerInterface = new Interface(ROUTER_EVENTS);
+const EVENT_TOPICS: string[] = [];
+routerInterface.forEachEvent((e) => EVENT_TOPICS.push(e.topicHash));
+
+const DEFAULT_BATCH_BLOCKS = 2_000;
+const DEFAULT_POLL_MS = 4_000;
+// Block hashes kept for reorg detection; a reorg deeper than this re-indexes from startBlock
+const REORG_WINDOW = 128;
+
+export type IntentLifecycleStatus = "open" | "partially_filled" | "filled" | "cancelled" | "expired";
+
+// One decoded router event; uint256 args are decimal strings
+export type IndexedEvent = {
+  blockNumber: number;
+  logIndex: number;
+  blockHash: string;
+  txHash: string;
+  intentId: string;
+  name: string;
+  args: Record<string, string>;
+  competitionId: string | null; // for fills and quote commitments, the /compete auction behind the hash
+};
+
+export type IndexedFill = {
+  solver: string;
+  amountIn: string; // base units
+  amountOut: string;
+  feePaid: string;
+  executionHash: string;
+  competitionId: string | null;
+  blockNumber: number;
+  txHash: string;
+};
+
+export type IndexedIntent = {
+  intentId: string;
+  user: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  minAmountOut: string;
+  deadline: number;
+  status: IntentLifecycleStatus;
+  filledAmountIn: string;
+  amountOut: string; // total delivered across fills
+  refundAmount: string | null; // tokenIn returned on cancel or expiry
+  committedQuote: { solver: string; amountOut: string; quoteHash: string; competitionId: string | null } | null;
+  fills: IndexedFill[];
+  createdBlock: number;
+  createdTx: string;
+  updatedBlock: number;
+};
+
+export type BlockRef = { number: number; hash: string };
+
+export interface IntentIndexStore {
+  getCursor(): Promise<BlockRef | null>;
+  /** Known block hashes, newest first, for finding the common ancestor after a reorg. */
+  getRecentBlocks(): Promise<BlockRef[]>;
+  /** Atomically store events, rebuild the intents they touch and advance the cursor. */
+  applyBatch(events: IndexedEvent[], cursor: BlockRef, blocks: BlockRef[]): Promise<void>;
+  /** Drop everything after `ancestor` (everything at all when null) and rebuild the affected intents. */
+  rollbackTo(ancestor: BlockRef | null): Promise<void>;
+  getIntent(intentId: string): Promise<IndexedIntent | null>;
+  /** Open or partially filled intents whose deadline is before `before` (unix seconds), oldest deadline first. */
+  listExpirable(before: number, limit: number): Promise<IndexedIntent[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Fold an intent's events (in chain order) into its lifecycle record. Null when the
+ * IntentCreated event was not indexed, e.g. startBlock is past the router deployment.
+ */
+export function materializeIntent(events: IndexedEvent[]): IndexedIntent | null {
+  const [created, ...rest] = events;
+  if (!created || created.name !== "IntentCreated") return null;
+  const a = created.args;
+  const intent: IndexedIntent = {
+    intentId: created.intentId,
+    user: a.user,
+    tokenIn: a.tokenIn,
+    tokenOut: a.tokenOut,
+    amountIn: a.amountIn,
+    minAmountOut: a.minAmountOut,
+    deadline: Number(a.deadline),
+    status: "open",
+    filledAmountIn: "0",
+    amountOut: "0",
+    refundAmount: null,
+    committedQuote: null,
+    fills: [],
+    createdBlock: created.blockNumber,
+    createdTx: created.txHash,
+    updatedBlock: created.blockNumber,
+  };
+
+  for (const e of rest) {
+    const filled = BigInt(intent.filledAmountIn);
+    switch (e.name) {
+      case "QuoteCommitted":
+        intent.committedQuote = { solver: e.args.solver, amountOut: e.args.amountOut, quoteHash: e.args.quoteHash, competitionId: e.competitionId };
+        break;
+      case "IntentPartiallyFilled":
+      case "IntentFilled": {
+        // IntentFilled closes the intent, so its input is whatever was still unfilled
+        const fillIn = e.name === "IntentFilled" ? BigInt(intent.amountIn) - filled : BigInt(e.args.amountIn);
+        intent.fills.push({
+          solver: e.args.solver,
+          amountIn: fillIn.toString(),
+          amountOut: e.args.amountOut,
+          feePaid: e.args.feePaid,
+          executionHash: e.args.executionHash,
+          competitionId: e.competitionId,
+          blockNumber: e.blockNumber,
+          txHash: e.txHash,
+        });
+        intent.filledAmountIn = (filled + fillIn).toString();
+        intent.amountOut = (BigInt(intent.amountOut) + BigInt(e.args.amountOut)).toString();
+        intent.status = e.name === "IntentFilled" ? "filled" : "partially_filled";
+        break;
+      }
+      case "IntentCancelled":
+        intent.status = "cancelled";
+        intent.refundAmount = (BigInt(intent.amountIn) - filled).toString();
+        break;
+      case "IntentExpired":
+        intent.status = "expired";
+        intent.refundAmount = e.args.refundAmount;
+        break;
+    }
+    intent.updatedBlock = e.blockNumber;
+  }
+  return intent;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS intent_events (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  block_hash TEXT NOT NULL,
+  tx_hash TEXT NOT NULL,
+  intent_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  args_json TEXT NOT NULL,
+  competition_id TEXT,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS intent_events_intent ON intent_events (intent_id, block_number, log_index);
+
+CREATE TABLE IF NOT EXISTS intents (
+  intent_id TEXT PRIMARY KEY,
+  user TEXT NOT NULL,
+  status TEXT NOT NULL,
+  deadline INTEGER NOT NULL,
+  updated_block INTEGER NOT NULL,
+  record_json TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS intents_status ON intents (status, deadline);
+
+CREATE TABLE IF NOT EXISTS indexer_blocks (
+  number INTEGER PRIMARY KEY,
+  hash TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS indexer_cursor (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  number INTEGER NOT NULL,
+  hash TEXT NOT NULL
+);
+`;
+
+type EventRow = {
+  block_number: number;
+  log_index: number;
+  block_hash: string;
+  tx_hash: string;
+  intent_id: string;
+  name: string;
+  args_json: string;
+  competition_id: string | null;
+};
+
+export class SqliteIntentIndexStore implements IntentIndexStore {
+  private db: Database.Database;
+
+  constructor(path: string) {
+    if (path !== ":memory:") mkdirSync(dirname(path), { recursive: true });
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  async getCursor(): Promise<BlockRef | null> {
+    return (this.db.prepare("SELECT number, hash FROM indexer_cursor WHERE id = 1").get() as BlockRef | undefined) ?? null;
+  }
+
+  async getRecentBlocks(): Promise<BlockRef[]> {
+    return this.db.prepare("SELECT number, hash FROM indexer_blocks ORDER BY number DESC").all() as BlockRef[];
+  }
+
+  async applyBatch(events: IndexedEvent[], cursor: BlockRef, blocks: BlockRef[]): Promise<void> {
+    const insertEvent = this.db.prepare(`
+      INSERT OR REPLACE INTO intent_events (block_number, log_index, block_hash, tx_hash, intent_id, name, args_json, competition_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)`);
+    const insertBlock = this.db.prepare("INSERT OR REPLACE INTO indexer_blocks (number, hash) VALUES (?, ?)");
+
+    this.db.transaction(() => {
+      for (const e of events) {
+        insertEvent.run(e.blockNumber, e.logIndex, e.blockHash, e.txHash, e.intentId, e.name, JSON.stringify(e.args), e.competitionId);
+      }
+      for (const b of [...blocks, cursor]) insertBlock.run(b.number, b.hash);
+      this.db.prepare("DELETE FROM indexer_blocks WHERE number < ?").run(cursor.number - REORG_WINDOW);
+      this.setCursor(cursor);
+      this.rebuild(new Set(events.map((e) => e.intentId)));
+    })();
+  }
+
+  async rollbackTo(ancestor: BlockRef | null): Promise<void> {
+    const after = ancestor ? ancestor.number : -1;
+    this.db.transaction(() => {
+      const touched = this.db.prepare("SELECT DISTINCT intent_id FROM intent_events WHERE block_number > ?").all(after) as { intent_id: string }[];
+      this.db.prepare("DELETE FROM intent_events WHERE block_number > ?").run(after);
+      this.db.prepare("DELETE FROM indexer_blocks WHERE number > ?").run(after);
+      if (ancestor) this.setCursor(ancestor);
+      else this.db.prepare("DELETE FROM indexer_cursor").run();
+      this.rebuild(new Set(touched.map((r) => r.intent_id)));
+    })();
+  }
+
+  async getIntent(intentId: string): Promise<IndexedIntent | null> {
+    const row = this.db.prepare("SELECT record_json FROM intents WHERE intent_id = ?").get(intentId) as { record_json: string } | undefined;
+    return row ? JSON.parse(row.record_json) : null;
+  }
+
+  async listExpirable(before: number, limit: number): Promise<IndexedIntent[]> {
+    const rows = this.db.prepare(`
+      SELECT record_json FROM intents
+      WHERE status IN ('open', 'partially_filled') AND deadline < ?
+      ORDER BY deadline, CAST(intent_id AS INTEGER) LIMIT ?`).all(before, limit) as { record_json: string }[];
+    return rows.map((r) => JSON.parse(r.record_json));
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  private setCursor(cursor: BlockRef): void {
+    this.db.prepare("INSERT OR REPLACE INTO indexer_cursor (id, number, hash) VALUES (1, ?, ?)").run(cursor.number, cursor.hash);
+  }
+
+  // Re-fold each touched intent from its stored events (runs inside the caller's transaction)
+  private rebuild(intentIds: Set<string>): void {
+    const select = this.db.prepare("SELECT * FROM intent_events WHERE intent_id = ? ORDER BY block_number, log_index");
+    const upsert = this.db.prepare(`
+      INSERT OR REPLACE INTO intents (intent_id, user, status, deadline, updated_block, record_json) VALUES (?, ?, ?, ?, ?, ?)`);
+    const remove = this.db.prepare("DELETE FROM intents WHERE intent_id = ?");
+    for (const id of intentIds) {
+      const rows = select.all(id) as EventRow[];
+      const intent = materializeIntent(rows.map((r) => ({
+        blockNumber: r.block_number,
+        logIndex: r.log_index,
+        blockHash: r.block_hash,
+        txHash: r.tx_hash,
+        intentId: r.intent_id,
+        name: r.name,
+        args: JSON.parse(r.args_json),
+        competitionId: r.competition_id,
+      })));
+      if (intent) upsert.run(id, intent.user.toLowerCase(), intent.status, intent.deadline, intent.updatedBlock, JSON.stringify(intent));
+      else remove.run(id);
+    }
+  }
+}
+
+export type ChainReader = Pick<JsonRpcProvider, "getBlockNumber" | "getBlock" | "getLogs">;
+
+export type IndexerOptions = {
+  startBlock?: number; // router deployment block
+  batchBlocks?: number;
+  confirmations?: number; // stay this many blocks behind head
+  pollMs?: number;
+  // executionHash -> competition id; defaults to the competition store
+  linkHash?: (hash: string) => Promise<string | null>;
+  // a signed-intent nonce was used onchain; defaults to dropping its intents from the signed-intent pool
+  onNonceUsed?: (user: string, nonce: string) => void;
+};
+
+export type SyncResult = { fromBlock: number; toBlock: number; events: number; reorgedTo: number | null };
+
+async function linkToCompetition(hash: string): Promise<string | null> {
+  return (await getCompetitionStore().findByExecutionHash(hash))?.competitionId ?? null;
+}
+
+function decodeArgs(log: Log): { name: string; args: Record<string, string> } | null {
+  const parsed = routerInterface.parseLog({ topics: log.topics as string[], data: log.data });
+  if (!parsed) return null;
+  const args: Record<string, string> = {};
+  parsed.fragment.inputs.forEach((input, i) => {
+    args[input.name] = String(parsed.args[i]);
+  });
+  return { name: parsed.name, args };
+}
+
+export class IntentIndexer {
+  private readonly startBlock: number;
+  private readonly batchBlocks: number;
+  private readonly confirmations: number;
+  private readonly pollMs: number;
+  private readonly linkHash: (hash: string) => Promise<string | null>;
+  private readonly onNonceUsed: (user: string, nonce: string) => void;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<unknown> | null = null;
+
+  constructor(
+    private readonly provider: ChainReader,
+    private readonly router: string,
+    private readonly store: IntentIndexStore,
+    opts: IndexerOptions = {},
+  ) {
+    this.startBlock = opts.startBlock ?? 0;
+    this.batchBlocks = opts.batchBlocks ?? DEFAULT_BATCH_BLOCKS;
+    this.confirmations = opts.confirmations ?? 0;
+    this.pollMs = opts.pollMs ?? DEFAULT_POLL_MS;
+    this.linkHash = opts.linkHash ?? linkToCompetition;
+    this.onNonceUsed = opts.onNonceUsed ?? ((user, nonce) => { removeSignedIntentsByNonce(router, user, nonce); });
+  }
+
+  /** Index one batch of blocks past the cursor, first undoing any reorged blocks. */
+  async syncOnce(): Promise<SyncResult> {
+    const head = (await this.provider.getBlockNumber()) - this.confirmations;
+    let cursor = await this.store.getCursor();
+    let reorgedTo: number | null = null;
+
+    if (cursor) {
+      const onchain = await this.provider.getBlock(cursor.number);
+      if (onchain?.hash !== cursor.hash) {
+        const ancestor = await this.findAncestor();
+        await this.store.rollbackTo(ancestor);
+        reorgedTo = ancestor ? ancestor.number : this.startBlock - 1;
+        console.warn(`[indexer] reorg at block ${cursor.number}; rolled back to ${reorgedTo}`);
+        cursor = ancestor;
+      }
+    }
+
+    const fromBlock = cursor ? cursor.number + 1 : this.startBlock;
+    if (fromBlock > head) return { fromBlock, toBlock: head, events: 0, reorgedTo };
+    const toBlock = Math.min(head, fromBlock + this.batchBlocks - 1);
+
+    const [logs, end] = await Promise.all([
+      this.provider.getLogs({ address: this.router, fromBlock, toBlock, topics: [EVENT_TOPICS] }),
+      this.provider.getBlock(toBlock),
+    ]);
+    if (!end?.hash) throw new Error(`block ${toBlock} not available`);
+    if (logs.some((l) => l.blockNumber === toBlock && l.blockHash !== end.hash)) throw new Error(`block ${toBlock} reorged during sync`);
+
+    const events: IndexedEvent[] = [];
+    const usedNonces: [string, string][] = [];
+    const blocks = new Map<number, string>();
+    for (const log of [...logs].sort((x, y) => x.blockNumber - y.blockNumber || x.index - y.index)) {
+      const decoded = decodeArgs(log);
+      if (!decoded) continue;
+      if (NONCE_EVENTS.has(decoded.name)) {
+        usedNonces.push([decoded.args.user, decoded.args.nonce]);
+        continue;
+      }
+      const hash = decoded.args.executionHash ?? decoded.args.quoteHash;
+      events.push({
+        blockNumber: log.blockNumber,
+        logIndex: log.index,
+        blockHash: log.blockHash,
+        txHash: log.transactionHash,
+        intentId: decoded.args.intentId,
+        name: decoded.name,
+        args: decoded.args,
+        competitionId: hash && hash !== ZeroHash ? await this.linkHash(hash) : null,
+      });
+      blocks.set(log.blockNumber, log.blockHash);
+    }
+
+    await this.store.applyBatch(events, { number: toBlock, hash: end.hash }, [...blocks].map(([number, hash]) => ({ number, hash })));
+    for (const [user, nonce] of usedNonces) this.onNonceUsed(user, nonce);
+    return { fromBlock, toBlock, events: events.length, reorgedTo };
+  }
+
+  /** Poll until stop(); errors (RPC hiccups, reorg mid-batch) are logged and retried on the next tick. */
+  start(): void {
+    if (this.timer || this.running) return;
+    const tick = async () => {
+      this.running = this.catchUp();
+      await this.running;
+      this.running = null;
+      if (this.timer) this.timer = setTimeout(tick, this.pollMs);
+    };
+    this.timer = setTimeout(tick, 0);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    await this.running;
+  }
+
+  private async catchUp(): Promise<void> {
+    try {
+      // Keep going while whole batches come back, so a cold start catches up without waiting a poll per batch
+      for (;;) {
+        const r = await this.syncOnce();
+        if (r.toBlock - r.fromBlock + 1 < this.batchBlocks || !this.timer) return;
+      }
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.warn(`[indexer] sync failed: ${msg}`);
+    }
+  }
+
+  // Newest stored block whose hash the chain still agrees with
+  private async findAncestor(): Promise<BlockRef | null> {
+    for (const known of await this.store.getRecentBlocks()) {
+      const onchain = await this.provider.getBlock(known.number);
+      if (onchain?.hash === known.hash) return known;
+    }
+    return null;
+  }
+}
+
+let indexStore: IntentIndexStore | null = null;
+
+/** Active intent index; opens SQLite at DATABASE_PATH (default data/ilm.sqlite) on first use. */
+export function getIntentIndexStore(): IntentIndexStore {
+  if (!indexStore) indexStore = new SqliteIntentIndexStore(process.env.DATABASE_PATH || "data/ilm.sqlite");
+  return indexStore;
+}
+
+export function setIntentIndexStore(next: IntentIndexStore | null): void {
+  indexStore = next;
+}
+
+/**
+ * Start following INTENT_ROUTER_ADDRESS over RPC_URL from INDEXER_START_BLOCK, or return null
+ * when either is unset.
+ */
+export function startIndexerFromEnv(): IntentIndexer | null {
+  const provider = getRpcProvider();
+  const router = process.env.INTENT_ROUTER_ADDRESS;
+  if (!provider || !router) return null;
+  const indexer = new IntentIndexer(provider, router, getIntentIndexStore(), {
+    startBlock: Number(process.env.INDEXER_START_BLOCK || 0),
+    confirmations: Number(process.env.INDEXER_CONFIRMATIONS || 0),
+    pollMs: Number(process.env.INDEXER_POLL_MS || DEFAULT_POLL_MS),
+  });
+  indexer.start();
+  return indexer;
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from "vitest";
+import { existsSync, readFileSync } from "fs";
+import { Contract, ContractFactory, JsonRpcProvider, Signer, parseEther } from "ethers";
+import { IntentIndexer, SqliteIntentIndexStore } from "./indexer.js";
+import { ExpiryKeeper, Refund } from "./keeper.js";
+import { TxSender } from "./solverAgent.js";
+
+// Runs against a local Hardhat node with compiled contracts:
+//   cd contracts && npx hardhat compile && npx hardhat node
+//   RPC_URL=http://127.0.0.1:8545 npm test
+const ARTIFACTS = new URL("../../contracts/artifacts/contracts/", import.meta.url);
+const artifact = (name: string) => JSON.parse(readFileSync(new URL(`${name}.sol/${name}.json`, ARTIFACTS), "utf8"));
+
+describe.skipIf(!process.env.RPC_URL || !existsSync(new URL("IntentRouter.sol/IntentRouter.json", ARTIFACTS)))("ExpiryKeeper (local node)", () => {
+  it("batch-expires indexed intents once their deadline passes and reports the refunds", async () => {
+    const provider = new JsonRpcProvider(process.env.RPC_URL, undefined, { cacheTimeout: -1 });
+    const owner = await provider.getSigner(0);
+    const user = await provider.getSigner(3);
+    const keeperSigner = await provider.getSigner(4);
+    const deploy = async (name: string, ...args: unknown[]) => {
+      const { abi, bytecode } = artifact(name);
+      const c = await new ContractFactory(abi, bytecode, owner).deploy(...args);
+      await c.waitForDeployment();
+      return c as Contract;
+    };
+
+    const startBlock = await provider.getBlockNumber();
+    const tokenIn = await deploy("MockERC20", "Token In", "TIN", 18);
+    const tokenOut = await deploy("MockERC20", "Token Out", "TOUT", 18);
+    const router = await deploy("IntentRouter", await owner.getAddress());
+    const routerAddr = await router.getAddress();
+    await (await tokenIn.mint(await user.getAddress(), parseEther("10"))).wait();
+    await (await (tokenIn.connect(user) as Contract).approve(routerAddr, parseEther("10"))).wait();
+
+    const asUser = router.connect(user) as Contract;
+    const create = async (amount: string, ttl: number) => {
+      const { timestamp } = (await provider.getBlock("latest"))!;
+      await (await asUser.createIntent(await tokenIn.getAddress(), await tokenOut.getAddress(), parseEther(amount), 1n, 100, 0, timestamp + ttl)).wait();
+      return ((await router.nextIntentId()) - 1n).toString();
+    };
+    const soon = await create("1", 60);
+    const alsoSoon = await create("2", 90);
+    const later = await create("3", 86_400);
+    const cancelled = await create("4", 30);
+    await (await asUser.cancelIntent(BigInt(cancelled))).wait();
+
+    const store = new SqliteIntentIndexStore(":memory:");
+    const indexer = new IntentIndexer(provider, routerAddr, store, { startBlock });
+    const reported: Refund[] = [];
+    const keeper = new ExpiryKeeper(keeperSigner, routerAddr, store, { confirmTimeoutMs: 2_000, onRefund: (r) => reported.push(r) });
+    await indexer.syncOnce();
+    expect(await keeper.runOnce()).toEqual([]);
+
+    await provider.send("evm_increaseTime", [120]);
+    await provider.send("evm_mine", []);
+    // A send that fails leaves the intents open onchain; the next run retries them
+    const send = vi.spyOn(TxSender.prototype, "send").mockRejectedValueOnce(new Error("nonce too low"));
+    await expect(keeper.runOnce()).rejects.toThrow("nonce too low");
+    send.mockRestore();
+    expect(reported).toEqual([]);
+    const refunds = await keeper.runOnce();
+    expect(refunds.map((r) => [r.intentId, r.refundAmount])).toEqual([[soon, parseEther("1").toString()], [alsoSoon, parseEther("2").toString()]]);
+    expect(new Set(refunds.map((r) => r.txHash)).size).toBe(1); // one batch transaction
+    expect(reported).toEqual(refunds);
+    expect(await tokenIn.balanceOf(await user.getAddress())).toBe(parseEther("7"));
+
+    // Until the indexer catches up the same intents are still listed; they must not be resent
+    expect(await keeper.runOnce()).toEqual([]);
+    await indexer.syncOnce();
+    expect(await store.getIntent(soon)).toMatchObject({ status: "expired", refundAmount: parseEther("1").toString() });
+    expect((await store.getIntent(later))?.status).toBe("open");
+    await store.close();
+  });
+});
@@ -0,0 +1,133 @@
+// keeper.ts - Expires intents past their deadline so escrowed tokenIn goes back to users
+// Reads open intents from the indexer's store and refunds them through IntentRouter.markExpiredBatch.
+
+import { Contract, Interface, Signer, Wallet } from "ethers";
+import { IntentIndexStore, getIntentIndexStore } from "./indexer.js";
+import { TxSender, TxSenderOptions } from "./solverAgent.js";
+import { getRpcProvider } from "./rpc.js";
+
+const ROUTER_ABI = [
+  "event IntentExpired(uint256 indexed intentId, uint256 refundAmount)",
+  "function markExpiredBatch(uint256[] intentIds) returns (uint256 expired)",
+];
+
+const routerInterface = new Interface(ROUTER_ABI);
+
+export type KeeperOptions = TxSenderOptions & {
+  batchSize?: number; // intents per markExpiredBatch call
+  pollMs?: number;
+  onRefund?: (refund: Refund) => void;
+};
+
+export type Refund = {
+  intentId: string;
+  user: string;
+  tokenIn: string;
+  refundAmount: string; // base units of tokenIn
+  txHash: string;
+};
+
+export class ExpiryKeeper {
+  private readonly router: Contract;
+  private readonly sender: TxSender;
+  private readonly batchSize: number;
+  private readonly pollMs: number;
+  private readonly onRefund?: (refund: Refund) => void;
+  // Expired by a mined batch or found not expirable onchain; skipped until the indexer stops listing them.
+  // A failed send leaves its intents out, so the next run retries them.
+  private readonly handled = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<unknown> | null = null;
+
+  constructor(private readonly signer: Signer, routerAddress: string, private readonly store: IntentIndexStore, opts: KeeperOptions = {}) {
+    this.router = new Contract(routerAddress, ROUTER_ABI, signer);
+    this.sender = new TxSender(signer, opts);
+    this.batchSize = opts.batchSize ?? 50;
+    this.pollMs = opts.pollMs ?? 15_000;
+    this.onRefund = opts.onRefund;
+  }
+
+  /** Expire one batch of intents whose deadline has passed onchain; returns the refunds made. */
+  async runOnce(): Promise<Refund[]> {
+    // Compare against chain time: markExpired checks block.timestamp, not the wall clock
+    const latest = await this.sender.withRetry(() => this.signer.provider!.getBlock("latest"));
+    if (!latest) return [];
+    const listed = await this.store.listExpirable(latest.timestamp, this.batchSize + this.handled.size);
+    const listedIds = new Set(listed.map((i) => i.intentId));
+    for (const id of this.handled) if (!listedIds.has(id)) this.handled.delete(id);
+
+    const due = listed.filter((i) => !this.handled.has(i.intentId)).slice(0, this.batchSize);
+    if (due.length === 0) return [];
+    const ids = due.map((i) => BigInt(i.intentId));
+
+    // The index can lag the chain (already filled, cancelled or expired); don't pay for an empty batch
+    const expirable: bigint = await this.sender.withRetry(() => this.router.markExpiredBatch.staticCall(ids));
+    if (expirable === 0n) {
+      due.forEach((i) => this.handled.add(i.intentId));
+      return [];
+    }
+
+    const data = routerInterface.encodeFunctionData("markExpiredBatch", [ids]);
+    const req = { to: this.router.target as string, data };
+    const gasLimit = ((await this.sender.withRetry(() => this.signer.estimateGas(req))) * 12n) / 10n;
+    const { receipt } = await this.sender.send({ ...req, gasLimit });
+    if (receipt.status !== 1) throw new Error(`markExpiredBatch reverted in ${receipt.hash}`);
+    due.forEach((i) => this.handled.add(i.intentId));
+
+    const byId = new Map(due.map((i) => [i.intentId, i]));
+    const refunds: Refund[] = [];
+    for (const log of receipt.logs) {
+      const parsed = routerInterface.parseLog({ topics: log.topics as string[], data: log.data });
+      if (parsed?.name !== "IntentExpired") continue;
+      const intent = byId.get(parsed.args.intentId.toString());
+      if (!intent) continue;
+      const refund = {
+        intentId: intent.intentId,
+        user: intent.user,
+        tokenIn: intent.tokenIn,
+        refundAmount: parsed.args.refundAmount.toString(),
+        txHash: receipt.hash,
+      };
+      refunds.push(refund);
+      this.onRefund?.(refund);
+    }
+    return refunds;
+  }
+
+  start(): void {
+    if (this.timer || this.running) return;
+    const tick = async () => {
+      this.running = this.runOnce().catch((err: unknown) => {
+        console.warn(`[keeper] expiry run failed: ${err instanceof Error ? err.message : String(err)}`);
+      });
+      await this.running;
+      this.running = null;
+      if (this.timer) this.timer = setTimeout(tick, this.pollMs);
+    };
+    this.timer = setTimeout(tick, 0);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    await this.running;
+  }
+}
+
+/**
+ * Start expiring intents with KEEPER_PRIVATE_KEY, or return null when it (or RPC_URL /
+ * INTENT_ROUTER_ADDRESS) is unset. Needs the indexer running to see open intents.
+ */
+export function startKeeperFromEnv(): ExpiryKeeper | null {
+  const provider = getRpcProvider();
+  const router = process.env.INTENT_ROUTER_ADDRESS;
+  const key = process.env.KEEPER_PRIVATE_KEY;
+  if (!provider || !router || !key) return null;
+  const keeper = new ExpiryKeeper(new Wallet(key, provider), router, getIntentIndexStore(), {
+    batchSize: Number(process.env.KEEPER_BATCH_SIZE || 50),
+    pollMs: Number(process.env.KEEPER_POLL_MS || 15_000),
+    onRefund: (r) => console.log(`[keeper] refunded intent ${r.intentId}: ${r.refundAmount} of ${r.tokenIn} to ${r.user} (${r.txHash})`),
+  });
+  keeper.start();
+  return keeper;
+}
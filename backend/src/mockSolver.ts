@@ -0,0 +1,104 @@
+// mockSolver.ts - Local external solver speaking the quote protocol over HTTP (POST /quote) and WebSocket (/ws)
+// Used by tests to run full auctions; `npm run mock-solver` starts one standalone.
+
+import express from "express";
+import { AddressInfo } from "net";
+import { Server, createServer } from "http";
+import { pathToFileURL } from "url";
+import { Wallet } from "ethers";
+import { WebSocketServer } from "ws";
+import { PROTOCOL_VERSION, QuoteRequest, QuoteResponse, signQuote } from "./externalSolvers.js";
+
+export type MockSolverOptions = {
+  name: string;
+  wallet?: Wallet; // signing key; random if omitted
+  prices?: Record<string, number>; // USD prices by symbol (case-insensitive)
+  edge?: number; // multiplier on the fair output
+  gasWei?: string;
+  confidence?: number;
+  delayMs?: number; // answer latency, to exercise timeouts
+  signedOut?: string; // sign this expectedOut instead of the one sent, to exercise signature checks
+  decline?: boolean;
+  port?: number; // 0 picks a free port
+};
+
+export type MockSolver = {
+  name: string;
+  signer: string;
+  httpUrl: string;
+  wsUrl: string;
+  close: () => Promise<void>;
+};
+
+const DEFAULT_PRICES: Record<string, number> = { weth: 3200, eth: 3200, usdc: 1, usdt: 1, dai: 1 };
+
+async function answer(opts: MockSolverOptions, wallet: Wallet, req: QuoteRequest): Promise<QuoteResponse> {
+  if (opts.delayMs) await new Promise((r) => setTimeout(r, opts.delayMs));
+  if (opts.decline) {
+    return { type: "decline", protocolVersion: PROTOCOL_VERSION, requestId: req.requestId, solver: opts.name, reason: "pair not supported" };
+  }
+  const prices = Object.fromEntries(Object.entries(opts.prices ?? DEFAULT_PRICES).map(([k, v]) => [k.toLowerCase(), v]));
+  const pIn = prices[req.intent.tokenIn.toLowerCase()] ?? 1;
+  const pOut = prices[req.intent.tokenOut.toLowerCase()] ?? 1;
+  const expectedOut = ((Number(req.intent.amountIn) * pIn / pOut) * (opts.edge ?? 0.999)).toFixed(6);
+  const expectedGasWei = opts.gasWei ?? "25000000000000";
+  return {
+    type: "quote_response",
+    protocolVersion: PROTOCOL_VERSION,
+    requestId: req.requestId,
+    solver: opts.name,
+    expectedOut,
+    expectedGasWei,
+    confidence: opts.confidence ?? 0.9,
+    route: ["mock-solver"],
+    signature: await signQuote(wallet, req, opts.signedOut ?? expectedOut, expectedGasWei),
+  };
+}
+
+export async function startMockSolver(opts: MockSolverOptions): Promise<MockSolver> {
+  const wallet = opts.wallet ?? (Wallet.createRandom() as unknown as Wallet);
+  const app = express();
+  app.use(express.json());
+  app.post("/quote", async (req, res) => {
+    res.json(await answer(opts, wallet, req.body as QuoteRequest));
+  });
+
+  const server: Server = createServer(app);
+  const wss = new WebSocketServer({ server, path: "/ws" });
+  wss.on("connection", (socket) => {
+    socket.on("message", async (data) => {
+      try {
+        const req = JSON.parse(data.toString()) as QuoteRequest;
+        if (req.type === "quote_request") socket.send(JSON.stringify(await answer(opts, wallet, req)));
+      } catch {
+        // ignore malformed frames
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(opts.port ?? 0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    name: opts.name,
+    signer: wallet.address,
+    httpUrl: `http://127.0.0.1:${port}/quote`,
+    wsUrl: `ws://127.0.0.1:${port}/ws`,
+    close: () => new Promise((resolve) => {
+      for (const client of wss.clients) client.terminate();
+      wss.close();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+// Standalone: MOCK_SOLVER_NAME, MOCK_SOLVER_PORT, MOCK_SOLVER_PRIVATE_KEY
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const solver = await startMockSolver({
+    name: process.env.MOCK_SOLVER_NAME || "mock-solver",
+    port: Number(process.env.MOCK_SOLVER_PORT || 8790),
+    wallet: process.env.MOCK_SOLVER_PRIVATE_KEY ? new Wallet(process.env.MOCK_SOLVER_PRIVATE_KEY) : undefined,
+  });
+  console.log(`Mock solver "${solver.name}" signing as ${solver.signer}`);
+  console.log(`  HTTP: ${solver.httpUrl}`);
+  console.log(`  WS:   ${solver.wsUrl}`);
+}
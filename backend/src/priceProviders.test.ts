@@ -0,0 +1,77 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  PriceProvider,
+  createFixtureProvider,
+  fetchProviderPrices,
+  registerPriceProvider,
+  setPriceProviderOrder,
+  setPriceProviderTimeout,
+  unregisterPriceProvider,
+} from "./priceProviders.js";
+
+const registered: string[] = [];
+function register(provider: PriceProvider): void {
+  registerPriceProvider(provider);
+  registered.push(provider.id);
+}
+
+afterEach(() => {
+  setPriceProviderOrder(null);
+  for (const id of registered.splice(0)) unregisterPriceProvider(id);
+});
+
+describe("price provider registry", () => {
+  it("queries providers in the configured priority order", async () => {
+    register(createFixtureProvider({ WETH: 3000 }, "feed-a"));
+    register(createFixtureProvider({ WETH: 3100, USDC: 1 }, "feed-b"));
+
+    setPriceProviderOrder(["feed-b", "feed-a"]);
+    const prices = await fetchProviderPrices(["WETH", "USDC"]);
+    expect(prices.get("WETH")).toEqual({ priceUsd: 3100, source: "feed-b" });
+    expect(prices.get("USDC")).toEqual({ priceUsd: 1, source: "feed-b" });
+  });
+
+  it("falls through to the next provider for tokens the first cannot price", async () => {
+    register(createFixtureProvider({ WETH: 3000 }, "feed-a"));
+    register(createFixtureProvider({ DEGEN: 0.01 }, "feed-b"));
+    setPriceProviderOrder(["feed-a", "feed-b"]);
+
+    const prices = await fetchProviderPrices(["WETH", "DEGEN", "NOPE"]);
+    expect(prices.get("WETH")?.source).toBe("feed-a");
+    expect(prices.get("DEGEN")?.source).toBe("feed-b");
+    expect(prices.has("NOPE")).toBe(false);
+  });
+
+  it("aborts a provider that exceeds its timeout and moves on", async () => {
+    register({
+      id: "slow",
+      fetchPrices: (_tokens, signal) => new Promise((_resolve, reject) => {
+        signal.addEventListener("abort", () => reject(new Error("aborted")));
+      }),
+    });
+    register(createFixtureProvider({ WETH: 3200 }, "feed-a"));
+    setPriceProviderTimeout("slow", 20);
+    setPriceProviderOrder(["slow", "feed-a"]);
+
+    const prices = await fetchProviderPrices(["WETH"]);
+    expect(prices.get("WETH")).toEqual({ priceUsd: 3200, source: "feed-a" });
+  });
+
+  it("skips tokens a provider does not support", async () => {
+    const seen: string[][] = [];
+    register({
+      id: "symbols-only",
+      supports: (t) => !t.startsWith("0x"),
+      fetchPrices: async (tokens) => { seen.push(tokens); return new Map(); },
+    });
+    setPriceProviderOrder(["symbols-only"]);
+
+    await fetchProviderPrices(["WETH", "0x4200000000000000000000000000000000000006"]);
+    expect(seen).toEqual([["WETH"]]);
+  });
+
+  it("rejects unknown ids and the reserved fallback id", () => {
+    expect(() => setPriceProviderOrder(["does-not-exist"])).toThrow(/Unknown price provider/);
+    expect(() => registerPriceProvider(createFixtureProvider({}, "fallback"))).toThrow(/reserved/);
+  });
+});
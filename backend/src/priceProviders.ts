@@ -0,0 +1,201 @@
+// priceProviders.ts - Pluggable USD price feeds for the solver
+// Providers are tried in priority order with per-provider timeouts; the first price found for a token wins.
+
+import { readFileSync } from "fs";
+import { defaultChainId, getChain } from "./chains.js";
+
+export type PriceProvider = {
+  id: string;
+  timeoutMs?: number;
+  // Optional filter, e.g. CoinGecko cannot price raw contract addresses
+  supports?: (token: string) => boolean;
+  // Resolve USD prices for the given tokens (symbols or 0x addresses on chainId), keyed by the input token
+  fetchPrices: (tokens: string[], signal: AbortSignal, chainId: number) => Promise<Map<string, number>>;
+};
+
+export type ProviderPrice = { priceUsd: number; source: string };
+
+const TOKEN_TO_CG: Record<string, string> = {
+  weth: "ethereum", eth: "ethereum", usdc: "usd-coin", usdt: "tether",
+  dai: "dai", wbtc: "wrapped-bitcoin", btc: "bitcoin", matic: "matic-network",
+  sol: "solana", avax: "avalanche-2", bnb: "binancecoin", link: "chainlink",
+  uni: "uniswap", aave: "aave", mkr: "maker", crv: "curve-dao-token",
+  arb: "arbitrum", op: "optimism", steth: "staked-ether", cbeth: "coinbase-wrapped-staked-eth",
+  aero: "aerodrome-finance", virtual: "virtual-protocol", degen: "degen-base",
+};
+
+export function cgId(sym: string): string {
+  return TOKEN_TO_CG[sym.toLowerCase()] ?? sym.toLowerCase();
+}
+
+export function isContractAddress(input: string): boolean {
+  return /^0x[a-fA-F0-9]{40}$/.test(input);
+}
+
+const DEFAULT_TIMEOUT_MS = Number(process.env.PRICE_PROVIDER_TIMEOUT_MS || 5000);
+
+/**
+ * CoinGecko simple-price API, batched by CoinGecko id. Symbols only.
+ */
+export const coinGeckoProvider: PriceProvider = {
+  id: "coingecko",
+  supports: (token) => !isContractAddress(token),
+  async fetchPrices(tokens, signal) {
+    const ids = Array.from(new Set(tokens.map(cgId)));
+    const url = `https://api.coingecko.com/api/v3/simple/price?ids=${ids.map(encodeURIComponent).join(",")}&vs_currencies=usd`;
+    const res = await fetch(url, { signal });
+    const out = new Map<string, number>();
+    if (!res.ok) return out;
+    const d = (await res.json()) as Record<string, { usd?: number }>;
+    for (const token of tokens) {
+      const p = d[cgId(token)]?.usd;
+      if (typeof p === "number") out.set(token, p);
+    }
+    return out;
+  },
+};
+
+async function dexScreenerPrice(token: string, signal: AbortSignal, chainId: number): Promise<number | null> {
+  const dexChain = getChain(chainId)?.dexScreenerId;
+  if (isContractAddress(token)) {
+    // An address only means this token on its own chain; chains DexScreener does not index have no price
+    if (!dexChain) return null;
+    const res = await fetch(`https://api.dexscreener.com/latest/dex/tokens/${token}`, { signal });
+    if (!res.ok) return null;
+    const data = (await res.json()) as any;
+    const pairs = (data.pairs || []).filter((p: any) => p.chainId === dexChain);
+    if (pairs.length === 0) return null;
+    const bestPair = pairs.sort((a: any, b: any) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0))[0];
+    const isBaseToken = bestPair.baseToken?.address?.toLowerCase() === token.toLowerCase();
+    const priceUsd = isBaseToken
+      ? parseFloat(bestPair.priceUsd || "0")
+      : (1 / parseFloat(bestPair.priceNative || "1")) * parseFloat(bestPair.priceUsd || "0");
+    return priceUsd > 0 ? priceUsd : null;
+  }
+
+  const res = await fetch(`https://api.dexscreener.com/latest/dex/search?q=${encodeURIComponent(token)}`, { signal });
+  if (!res.ok) return null;
+  const data = (await res.json()) as any;
+  const pairs = data.pairs || [];
+  const match = pairs.find((p: any) =>
+    p.chainId === dexChain &&
+    p.baseToken?.symbol?.toLowerCase() === token.toLowerCase()
+  ) || pairs.find((p: any) =>
+    p.baseToken?.symbol?.toLowerCase() === token.toLowerCase()
+  );
+  if (match) return parseFloat(match.priceUsd || "0") || null;
+  return null;
+}
+
+/**
+ * DexScreener search (symbols, the intent's chain preferred) and token lookup (contract addresses, that chain only).
+ */
+export const dexScreenerProvider: PriceProvider = {
+  id: "dexscreener",
+  async fetchPrices(tokens, signal, chainId) {
+    const out = new Map<string, number>();
+    const prices = await Promise.all(tokens.map((t) => dexScreenerPrice(t, signal, chainId).catch(() => null)));
+    tokens.forEach((t, i) => {
+      const p = prices[i];
+      if (p !== null) out.set(t, p);
+    });
+    return out;
+  },
+};
+
+/**
+ * Static price table for tests and offline environments.
+ * Keys are symbols (case-insensitive) or contract addresses.
+ */
+export function createFixtureProvider(prices: Record<string, number>, id = "fixture"): PriceProvider {
+  const table = new Map(Object.entries(prices).map(([k, v]) => [k.toLowerCase(), v]));
+  return {
+    id,
+    timeoutMs: 1000,
+    async fetchPrices(tokens) {
+      const out = new Map<string, number>();
+      for (const t of tokens) {
+        const p = table.get(t.toLowerCase()) ?? table.get(cgId(t));
+        if (p !== undefined) out.set(t, p);
+      }
+      return out;
+    },
+  };
+}
+
+// Registry
+const providers = new Map<string, PriceProvider>();
+let providerOrder: string[] | null = null;
+const timeoutOverrides = new Map<string, number>();
+
+export function registerPriceProvider(provider: PriceProvider): void {
+  if (provider.id === "fallback") throw new Error(`"fallback" is a reserved price source id`);
+  providers.set(provider.id, provider);
+}
+
+export function unregisterPriceProvider(id: string): void {
+  providers.delete(id);
+}
+
+/**
+ * Set the active providers and their priority. Unlisted providers stay registered but are not queried.
+ * Pass null to query every registered provider in registration order.
+ */
+export function setPriceProviderOrder(order: string[] | null): void {
+  if (order) {
+    const unknown = order.filter((id) => !providers.has(id));
+    if (unknown.length > 0) throw new Error(`Unknown price provider(s): ${unknown.join(", ")}`);
+  }
+  providerOrder = order ? [...order] : null;
+}
+
+export function setPriceProviderTimeout(id: string, timeoutMs: number): void {
+  timeoutOverrides.set(id, timeoutMs);
+}
+
+export function getActivePriceProviders(): PriceProvider[] {
+  const ids = providerOrder ?? Array.from(providers.keys());
+  return ids.map((id) => providers.get(id)).filter((p): p is PriceProvider => p !== undefined);
+}
+
+async function withTimeout(provider: PriceProvider, tokens: string[], chainId: number): Promise<Map<string, number>> {
+  const timeoutMs = timeoutOverrides.get(provider.id) ?? provider.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const ctrl = new AbortController();
+  const t = setTimeout(() => ctrl.abort(), timeoutMs);
+  try {
+    return await provider.fetchPrices(tokens, ctrl.signal, chainId);
+  } catch {
+    return new Map();
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+/**
+ * Query active providers in priority order until every token has a price (or providers run out).
+ * Addresses are read as tokens on `chainId`; tokens no provider could price are absent from the result.
+ */
+export async function fetchProviderPrices(tokens: string[], chainId = defaultChainId()): Promise<Map<string, ProviderPrice>> {
+  const result = new Map<string, ProviderPrice>();
+  for (const provider of getActivePriceProviders()) {
+    const missing = tokens.filter((t) => !result.has(t) && (provider.supports?.(t) ?? true));
+    if (missing.length === 0) continue;
+    const prices = await withTimeout(provider, missing, chainId);
+    for (const [token, priceUsd] of prices) {
+      if (Number.isFinite(priceUsd) && priceUsd > 0) result.set(token, { priceUsd, source: provider.id });
+    }
+    if (tokens.every((t) => result.has(t))) break;
+  }
+  return result;
+}
+
+// Built-in providers; PRICE_FIXTURE_FILE adds an offline table, PRICE_PROVIDERS picks the order
+registerPriceProvider(coinGeckoProvider);
+registerPriceProvider(dexScreenerProvider);
+if (process.env.PRICE_FIXTURE_FILE) {
+  const fixture = JSON.parse(readFileSync(process.env.PRICE_FIXTURE_FILE, "utf8")) as Record<string, number>;
+  registerPriceProvider(createFixtureProvider(fixture));
+}
+if (process.env.PRICE_PROVIDERS) {
+  setPriceProviderOrder(process.env.PRICE_PROVIDERS.split(",").map((s) => s.trim()).filter(Boolean));
+}
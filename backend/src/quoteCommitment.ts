@@ -0,0 +1,74 @@
+// quoteCommitment.ts - Onchain-verifiable quote commitments (IntentRouter.Quote)
+// executionHash = keccak256(abi.encode(Quote)), so IntentRouter.hashQuote and the backend agree bit for bit.
+
+import { AbiCoder, Signer, TypedDataDomain, ZeroAddress, getAddress, isAddress, keccak256 } from "ethers";
+import { TokenRef } from "./amm.js";
+
+// Mirrors IntentRouter.Quote; uint256 fields are base-unit decimal strings
+export type QuoteCommitment = {
+  solver: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  amountOut: string;
+  gasWei: string;
+  quotedAt: number; // unix seconds, start of the 30s quote window
+};
+
+export const QUOTE_TUPLE =
+  "tuple(address solver,address tokenIn,address tokenOut,uint256 amountIn,uint256 amountOut,uint256 gasWei,uint64 quotedAt)";
+
+// SOLVER_ADDRESSES="solver-alpha:0x...,solver-beta:0x..." — fill addresses of the built-in profiles
+function parseSolverAddresses(raw = process.env.SOLVER_ADDRESSES): Map<string, string> {
+  const out = new Map<string, string>();
+  for (const entry of (raw ?? "").split(",")) {
+    const [name, address] = entry.split(":").map((s) => s.trim());
+    if (name && address && isAddress(address)) out.set(name, getAddress(address));
+  }
+  return out;
+}
+
+/** Address that will call fillIntent for a built-in solver profile (zero address if unconfigured). */
+export function builtinSolverAddress(name: string): string {
+  return parseSolverAddresses().get(name) ?? ZeroAddress;
+}
+
+export function buildQuoteCommitment(input: {
+  solver: string;
+  tokenIn: TokenRef;
+  tokenOut: TokenRef;
+  amountIn: bigint; // base units
+  amountOut: bigint;
+  gasWei: bigint;
+  quotedAt: number;
+}): QuoteCommitment {
+  return {
+    solver: isAddress(input.solver) ? getAddress(input.solver) : ZeroAddress,
+    tokenIn: getAddress(input.tokenIn.address),
+    tokenOut: getAddress(input.tokenOut.address),
+    amountIn: input.amountIn.toString(),
+    amountOut: input.amountOut.toString(),
+    gasWei: input.gasWei.toString(),
+    quotedAt: input.quotedAt,
+  };
+}
+
+/** keccak256(abi.encode(Quote)) — the executionHash fillIntent checks against the committed quote. */
+export function hashQuoteCommitment(c: QuoteCommitment): string {
+  return keccak256(AbiCoder.defaultAbiCoder().encode([QUOTE_TUPLE], [c]));
+}
+
+export const QUOTE_ACCEPTANCE_TYPES = {
+  QuoteAcceptance: [
+    { name: "intentId", type: "uint256" },
+    { name: "quoteHash", type: "bytes32" },
+  ],
+};
+
+/**
+ * The solver's EIP-712 acceptance of a commitment to its quote for one intent (IntentRouter.hashQuoteAcceptance,
+ * domain as for signed intents). Bonded routers only take commitSignedQuote, so the solver agrees to the bond lock.
+ */
+export function signQuoteAcceptance(signer: Signer, domain: TypedDataDomain, intentId: bigint, c: QuoteCommitment): Promise<string> {
+  return signer.signTypedData(domain, QUOTE_ACCEPTANCE_TYPES, { intentId, quoteHash: hashQuoteCommitment(c) });
+}
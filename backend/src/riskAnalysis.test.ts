@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from "vitest";
+import express from "express";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { IntentInput, clearPriceCache } from "./solver.js";
+import { createFixtureProvider, registerPriceProvider, setPriceProviderOrder, unregisterPriceProvider } from "./priceProviders.js";
+import {
+  RiskAnalyzer,
+  RiskRating,
+  analyzeRouteRisk,
+  createHttpAnalyzer,
+  createScriptedAnalyzer,
+  getRiskMetrics,
+  registerRiskAnalyzer,
+  resetRiskControls,
+  setRiskAnalyzerOrder,
+  unregisterRiskAnalyzer,
+  validateRiskVerdict,
+} from "./riskAnalysis.js";
+import { app } from "./app.js";
+
+const intent: IntentInput = {
+  tokenIn: "WETH",
+  tokenOut: "USDC",
+  amountIn: "1.0",
+  minAmountOut: "1800",
+  maxSlippageBps: 100,
+  maxGasWei: "50000000000000",
+  deadline: 9999999999,
+};
+const quotes = [{ solver: "a" }, { solver: "b" }];
+
+const registered: string[] = [];
+function use(...list: RiskAnalyzer[]): void {
+  for (const a of list) {
+    registerRiskAnalyzer(a);
+    registered.push(a.id);
+  }
+  setRiskAnalyzerOrder(list.map((a) => a.id));
+}
+
+async function listen(server: Server): Promise<string> {
+  await new Promise((r) => server.once("listening", r));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+afterEach(() => {
+  setRiskAnalyzerOrder(null);
+  registered.splice(0).forEach(unregisterRiskAnalyzer);
+  resetRiskControls();
+});
+
+describe("validateRiskVerdict", () => {
+  it("reports every schema violation with its path", () => {
+    expect(validateRiskVerdict("x", { recommendation: "ok", quotes: [{ solver: "a", riskRating: "safe", riskNote: "" }] }).quotes).toHaveLength(1);
+    expect(() => validateRiskVerdict("x", { quotes: [{ solver: "a", riskRating: "risky", riskNote: 1 }] })).toThrow(
+      "x returned an invalid verdict: verdict.recommendation is required; verdict.quotes[0].riskRating must be one of safe, caution, danger; verdict.quotes[0].riskNote must be a string",
+    );
+    expect(() => validateRiskVerdict("x", "```json {}```")).toThrow(/verdict must be an object/);
+  });
+});
+
+describe("analyzeRouteRisk", () => {
+  it("falls through failing, slow and malformed analyzers to the next one", async () => {
+    const failing = createScriptedAnalyzer(() => { throw new Error("boom"); }, "failing");
+    const slow: RiskAnalyzer = { id: "slow", timeoutMs: 50, analyze: () => new Promise(() => {}) };
+    const malformed = createScriptedAnalyzer(() => ({ recommendation: "?", quotes: [{ solver: "a", riskRating: "fine" }] }), "malformed");
+    use(failing, slow, malformed, createScriptedAnalyzer({ a: "safe", b: "danger" }));
+
+    expect(await analyzeRouteRisk(intent, quotes)).toMatchObject({
+      analyzed: true,
+      analyzer: "scripted",
+      quotes: [{ solver: "a", riskRating: "safe" }, { solver: "b", riskRating: "danger" }],
+    });
+  });
+
+  it("skips disabled analyzers and returns unanalyzed when none answer", async () => {
+    use({ ...createScriptedAnalyzer({ a: "safe" }, "disabled"), enabled: () => false });
+    expect(await analyzeRouteRisk(intent, quotes)).toMatchObject({ analyzed: false, quotes: [{ riskRating: "unanalyzed" }, { riskRating: "unanalyzed" }] });
+  });
+
+  it("talks to an OpenAI-compatible model server with a json_schema response format", async () => {
+    const requests: any[] = [];
+    let content = JSON.stringify({ recommendation: "prefer a", quotes: [{ solver: "a", riskRating: "caution", riskNote: "thin" }] });
+    const model = express().use(express.json()).post("/v1/chat/completions", (req, res) => {
+      requests.push(req.body);
+      res.json({ choices: [{ message: { role: "assistant", content } }], usage: { prompt_tokens: 900, completion_tokens: 60 } });
+    });
+    const server = model.listen(0);
+    const url = await listen(server);
+    try {
+      use(createHttpAnalyzer({ url: `${url}/v1/chat/completions`, model: "local-7b", id: "local" }));
+      expect(await analyzeRouteRisk(intent, quotes)).toMatchObject({ analyzed: true, analyzer: "local", quotes: [{ solver: "a", riskRating: "caution" }] });
+      expect(requests[0]).toMatchObject({ model: "local-7b", response_format: { type: "json_schema", json_schema: { name: "risk_verdict" } } });
+
+      content = "I think these quotes look fine.";
+      expect(await analyzeRouteRisk(intent, [{ solver: "c" }])).toMatchObject({ analyzed: false, skipped: "ANALYZERS_FAILED" });
+      expect(getRiskMetrics().analyzers.local).toMatchObject({ model: "local-7b", calls: 2, failures: 1, inputTokens: 1800, outputTokens: 120 });
+    } finally {
+      await new Promise<void>((r) => server.close(() => r()));
+    }
+  });
+});
+
+describe("risk analysis cost controls", () => {
+  // Scripted analyzer that reports token usage and can be made to fail
+  function metered(id: string, tokens = 400) {
+    let calls = 0;
+    let fail = false;
+    const analyzer: RiskAnalyzer = {
+      id,
+      model: `${id}-model`,
+      async analyze(_intent, qs) {
+        calls++;
+        if (fail) throw new Error("provider unavailable");
+        const verdict = { recommendation: "ok", quotes: qs.map((q) => ({ solver: String(q.solver), riskRating: "safe", riskNote: "" })) };
+        return { verdict, usage: { inputTokens: tokens - 50, outputTokens: 50 } };
+      },
+    };
+    return { analyzer, calls: () => calls, setFail: (f: boolean) => { fail = f; } };
+  }
+
+  it("reuses the verdict for the same intent and quote set", async () => {
+    const m = metered("metered");
+    use(m.analyzer);
+    expect(await analyzeRouteRisk(intent, quotes)).toMatchObject({ analyzed: true, cached: false });
+    expect(await analyzeRouteRisk(intent, [...quotes].reverse())).toMatchObject({ analyzed: true, cached: true, analyzer: "metered" });
+    expect(await analyzeRouteRisk({ ...intent, amountIn: "2" }, quotes)).toMatchObject({ cached: false });
+    expect(m.calls()).toBe(2);
+    expect(getRiskMetrics().cache).toMatchObject({ hits: 1, misses: 2 });
+  });
+
+  it("skips the model once a client's token budget is spent", async () => {
+    const m = metered("metered", 60_000); // more than the default 50k budget in one call
+    use(m.analyzer);
+    expect((await analyzeRouteRisk(intent, quotes, { clientId: "alice" })).analyzed).toBe(true);
+    expect(await analyzeRouteRisk(intent, [{ solver: "c" }], { clientId: "alice" })).toMatchObject({
+      analyzed: false,
+      skipped: "BUDGET_EXHAUSTED",
+      quotes: [{ riskRating: "unanalyzed", riskNote: expect.stringMatching(/budget/) }],
+    });
+    expect((await analyzeRouteRisk(intent, [{ solver: "c" }], { clientId: "bob" })).analyzed).toBe(true);
+    expect(m.calls()).toBe(2);
+  });
+
+  it("keys /analyze budgets on the socket address, not a client-supplied X-Forwarded-For", async () => {
+    const m = metered("metered", 60_000);
+    use(m.analyzer);
+    const server = app.listen(0);
+    const base = await listen(server);
+    const analyze = async (forwardedFor: string, solver: string) => JSON.stringify(await (await fetch(`${base}/analyze`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Forwarded-For": forwardedFor },
+      body: JSON.stringify({ intent, quotes: [{ solver }] }),
+    })).json());
+    try {
+      expect(await analyze("203.0.113.1", "a")).not.toContain("BUDGET_EXHAUSTED");
+      expect(await analyze("203.0.113.2", "b")).toContain("BUDGET_EXHAUSTED");
+      expect(m.calls()).toBe(1);
+    } finally {
+      await new Promise<void>((r) => server.close(() => r()));
+    }
+  });
+
+  it("opens the circuit after repeated failures and falls back to the next analyzer", async () => {
+    const primary = metered("primary");
+    const backup = metered("backup");
+    use(primary.analyzer, backup.analyzer);
+    primary.setFail(true);
+    for (let i = 0; i < 3; i++) {
+      expect(await analyzeRouteRisk(intent, [{ solver: `q${i}` }])).toMatchObject({ analyzed: true, analyzer: "backup" });
+    }
+    await analyzeRouteRisk(intent, [{ solver: "q3" }]);
+    expect(primary.calls()).toBe(3); // circuit open: not called for the fourth request
+    expect(getRiskMetrics().analyzers).toMatchObject({
+      primary: { model: "primary-model", calls: 3, failures: 3, lastError: "provider unavailable", circuit: "open" },
+      backup: { calls: 4, failures: 0, inputTokens: 1400, outputTokens: 200, circuit: "closed" },
+    });
+
+    backup.setFail(true);
+    for (let i = 4; i < 7; i++) await analyzeRouteRisk(intent, [{ solver: `q${i}` }]);
+    expect(await analyzeRouteRisk(intent, [{ solver: "q7" }])).toMatchObject({ analyzed: false, skipped: "CIRCUIT_OPEN" });
+  });
+
+  it("only claims a half-open circuit's trial call when that analyzer is next", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      const primary = metered("primary");
+      const backup = metered("backup");
+      use(primary.analyzer, backup.analyzer);
+      primary.setFail(true);
+      backup.setFail(true);
+      for (let i = 0; i < 3; i++) await analyzeRouteRisk(intent, [{ solver: `q${i}` }]);
+      expect(getRiskMetrics().analyzers).toMatchObject({ primary: { circuit: "open" }, backup: { circuit: "open" } });
+
+      vi.setSystemTime(Date.now() + 61_000); // past the default cooldown: both half-open
+      primary.setFail(false);
+      backup.setFail(false);
+      expect(await analyzeRouteRisk(intent, [{ solver: "q3" }])).toMatchObject({ analyzed: true, analyzer: "primary" });
+      expect(backup.calls()).toBe(3); // the backup's trial call was left for when it is needed
+
+      primary.setFail(true);
+      expect(await analyzeRouteRisk(intent, [{ solver: "q4" }])).toMatchObject({ analyzed: true, analyzer: "backup" });
+      expect(getRiskMetrics().analyzers).toMatchObject({ primary: { circuit: "closed" }, backup: { circuit: "closed" } });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("/compete with a scripted analyzer", () => {
+  let server: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    delete process.env.RISK_MERGE_POLICY;
+    registerPriceProvider(createFixtureProvider({ WETH: 3200, USDC: 1 }));
+    setPriceProviderOrder(["fixture"]);
+    clearPriceCache();
+    server = app.listen(0);
+    base = await listen(server);
+  });
+
+  afterAll(() => {
+    setPriceProviderOrder(null);
+    unregisterPriceProvider("fixture");
+    clearPriceCache();
+    return new Promise<void>((r) => server.close(() => r()));
+  });
+
+  const compete = async (ratings: Record<string, RiskRating>, strictMode = false) => {
+    use(createScriptedAnalyzer(ratings));
+    const res = await fetch(`${base}/compete`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ intent, strictMode, solvers: [{ name: "solver-alpha" }, { name: "solver-beta" }] }),
+    });
+    return (await res.json()) as any;
+  };
+
+  // The winner is the best-scoring eligible quote; null eligible means no winner
+  it.each([
+    [{ "solver-alpha": "safe", "solver-beta": "safe" }, false, ["solver-alpha", "solver-beta"], undefined],
+    [{ "solver-alpha": "safe", "solver-beta": "caution" }, false, ["solver-alpha", "solver-beta"], undefined],
+    [{ "solver-alpha": "caution", "solver-beta": "caution" }, false, ["solver-alpha", "solver-beta"], undefined],
+    [{ "solver-alpha": "safe", "solver-beta": "danger" }, false, ["solver-alpha"], undefined],
+    [{ "solver-alpha": "caution", "solver-beta": "danger" }, false, ["solver-alpha"], undefined],
+    [{ "solver-alpha": "danger", "solver-beta": "danger" }, false, null, "ALL_DANGER"],
+    [{ "solver-alpha": "danger", "solver-beta": "danger" }, true, ["solver-alpha", "solver-beta"], "DANGER_OVERRIDE"],
+    [{ "solver-alpha": "danger" }, false, ["solver-beta"], undefined], // unrated by the AI: the rules' verdict stands
+  ] as [Record<string, RiskRating>, boolean, string[] | null, string | undefined][])("%j strict=%s", async (ratings, strict, eligible, code) => {
+    const body = await compete(ratings, strict);
+    const scored = [...body.quotes].sort((a: any, b: any) => b.score - a.score);
+    const winner = eligible ? scored.find((q: any) => eligible.includes(q.solver)).solver : null;
+    expect(body.best?.solver ?? null).toBe(winner);
+    expect(body.code).toBe(code);
+    expect(body.riskAnalysis).toMatchObject({ analyzed: true, analyzer: "scripted", policy: "strictest" });
+  });
+});
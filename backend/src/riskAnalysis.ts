@@ -1,4 +1,16 @@
+// riskAnalysis.ts - Pluggable AI risk analyzers (Anthropic, OpenAI-compatible HTTP model servers, scripted fakes)
+// Analyzers are tried in priority order with per-analyzer timeouts; the first verdict that passes the schema wins.
+
 import Anthropic from "@anthropic-ai/sdk";
+import {
+  CircuitBreaker,
+  RiskMetrics,
+  RiskSkipReason,
+  TokenBudgets,
+  TokenUsage,
+  VerdictCache,
+  riskCacheKey,
+} from "./riskControls.js";
 
 export type RiskRating = "safe" | "caution" | "danger" | "unanalyzed";
 
@@ -6,14 +18,99 @@ export type QuoteRisk = {
   solver: string;
   riskRating: RiskRating;
   riskNote: string;
+  rules?: string[]; // ids of the deterministic rules that fired
 };
 
+// strictest: the worse of rule and AI verdicts; ai_preferred: the AI verdict where it has one; rules_only: never ask the AI
+export type RiskMergePolicy = "strictest" | "ai_preferred" | "rules_only";
+
 export type RiskAnalysis = {
   analyzed: boolean;
   recommendation: string;
   quotes: QuoteRisk[];
+  analyzer?: string; // id of the analyzer whose verdict was used
+  cached?: boolean; // verdict reused from an identical earlier request
+  skipped?: RiskSkipReason; // why there is no AI verdict
+  policy?: RiskMergePolicy; // set when deterministic rule verdicts were merged in
+};
+
+// What an analyzer must answer, checked against RISK_VERDICT_SCHEMA
+export type RiskVerdict = {
+  recommendation: string;
+  quotes: { solver: string; riskRating: Exclude<RiskRating, "unanalyzed">; riskNote: string }[];
 };
 
+export type RiskAnalyzer = {
+  id: string;
+  model?: string; // reported in usage metrics
+  timeoutMs?: number;
+  // Optional gate, e.g. no API key configured; disabled analyzers are skipped
+  enabled?: () => boolean;
+  // Raw verdict for the quotes, validated by analyzeRouteRisk against RISK_VERDICT_SCHEMA, and the tokens it cost
+  analyze: (intent: Record<string, unknown>, quotes: Record<string, unknown>[], signal: AbortSignal) => Promise<{ verdict: unknown; usage?: TokenUsage }>;
+};
+
+type JsonSchema = {
+  type: "object" | "array" | "string";
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+};
+
+export const RISK_VERDICT_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["recommendation", "quotes"],
+  properties: {
+    recommendation: { type: "string" },
+    quotes: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["solver", "riskRating", "riskNote"],
+        properties: {
+          solver: { type: "string" },
+          riskRating: { type: "string", enum: ["safe", "caution", "danger"] },
+          riskNote: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+// Validate the subset of JSON Schema used above; returns one message per violation
+function schemaErrors(schema: JsonSchema, value: unknown, path: string): string[] {
+  if (schema.type === "string") {
+    if (typeof value !== "string") return [`${path} must be a string`];
+    return schema.enum && !schema.enum.includes(value) ? [`${path} must be one of ${schema.enum.join(", ")}`] : [];
+  }
+  if (schema.type === "array") {
+    if (!Array.isArray(value)) return [`${path} must be an array`];
+    return value.flatMap((v, i) => schemaErrors(schema.items!, v, `${path}[${i}]`));
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) return [`${path} must be an object`];
+  const obj = value as Record<string, unknown>;
+  const missing = (schema.required ?? []).filter((k) => !(k in obj)).map((k) => `${path}.${k} is required`);
+  const invalid = Object.entries(schema.properties ?? {})
+    .filter(([k]) => k in obj)
+    .flatMap(([k, s]) => schemaErrors(s, obj[k], `${path}.${k}`));
+  return [...missing, ...invalid];
+}
+
+export class RiskVerdictError extends Error {
+  constructor(public analyzer: string, public errors: string[]) {
+    super(`${analyzer} returned an invalid verdict: ${errors.join("; ")}`);
+    this.name = "RiskVerdictError";
+  }
+}
+
+/** Check a raw analyzer answer against RISK_VERDICT_SCHEMA. */
+export function validateRiskVerdict(analyzer: string, raw: unknown): RiskVerdict {
+  const errors = schemaErrors(RISK_VERDICT_SCHEMA, raw, "verdict");
+  if (errors.length > 0) throw new RiskVerdictError(analyzer, errors);
+  return raw as RiskVerdict;
+}
+
 function buildPrompt(intent: Record<string, unknown>, quotes: Record<string, unknown>[]): string {
   return `You are Intent Guard, an AI risk analyzer for DeFi trade routes.
 
@@ -32,98 +129,285 @@ Evaluate each quote on these criteria:
 4. Assess whether gas estimates are realistic for the chain and operation
 5. Assign each quote a risk rating: "safe", "caution", or "danger"
 
-Respond ONLY with valid JSON matching this exact schema (no markdown, no explanation outside the JSON):
-{
-  "recommendation": "<one-line overall recommendation>",
-  "quotes": [
-    {
-      "solver": "<solver name from the quote>",
-      "riskRating": "safe" | "caution" | "danger",
-      "riskNote": "<brief explanation of risk assessment>"
-    }
-  ]
-}`;
+Report a one-line overall recommendation and, for every quote, the solver name, its riskRating and a brief riskNote explaining the assessment.`;
+}
+
+const DEFAULT_TIMEOUT_MS = Number(process.env.RISK_ANALYZER_TIMEOUT_MS || 20_000);
+
+/**
+ * Claude via the Anthropic API. The verdict comes back as the input of a forced
+ * `report_risk` tool call whose input_schema is RISK_VERDICT_SCHEMA.
+ */
+export function createAnthropicAnalyzer(opts: { model: string; id?: string; apiKey?: string; timeoutMs?: number }): RiskAnalyzer {
+  const apiKey = () => opts.apiKey ?? process.env.ANTHROPIC_API_KEY;
+  return {
+    id: opts.id ?? `anthropic:${opts.model}`,
+    model: opts.model,
+    timeoutMs: opts.timeoutMs,
+    enabled: () => !!apiKey(),
+    async analyze(intent, quotes, signal) {
+      const client = new Anthropic({ apiKey: apiKey() });
+      const message = await client.messages.create({
+        model: opts.model,
+        max_tokens: 1024,
+        tools: [{
+          name: "report_risk",
+          description: "Report the risk assessment of every solver quote.",
+          input_schema: RISK_VERDICT_SCHEMA as Anthropic.Tool.InputSchema,
+        }],
+        tool_choice: { type: "tool", name: "report_risk" },
+        messages: [{ role: "user", content: buildPrompt(intent, quotes) }],
+      }, { signal });
+      const call = message.content.find((block) => block.type === "tool_use");
+      if (!call || call.type !== "tool_use") throw new Error(`${opts.model} did not call report_risk`);
+      return { verdict: call.input, usage: { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens } };
+    },
+  };
+}
+
+/**
+ * Any OpenAI-compatible chat completions endpoint (vLLM, llama.cpp, Ollama, hosted APIs).
+ * Asks for structured output with RISK_VERDICT_SCHEMA as the json_schema response format.
+ */
+export function createHttpAnalyzer(opts: { url: string; model?: string; id?: string; apiKey?: string; timeoutMs?: number }): RiskAnalyzer {
+  return {
+    id: opts.id ?? "http",
+    model: opts.model,
+    timeoutMs: opts.timeoutMs,
+    async analyze(intent, quotes, signal) {
+      const res = await fetch(opts.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(opts.apiKey ? { Authorization: `Bearer ${opts.apiKey}` } : {}) },
+        body: JSON.stringify({
+          model: opts.model,
+          temperature: 0,
+          messages: [
+            { role: "system", content: `Answer with a single JSON object matching this JSON Schema: ${JSON.stringify(RISK_VERDICT_SCHEMA)}` },
+            { role: "user", content: buildPrompt(intent, quotes) },
+          ],
+          response_format: { type: "json_schema", json_schema: { name: "risk_verdict", schema: RISK_VERDICT_SCHEMA } },
+        }),
+        signal,
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data = (await res.json()) as {
+        choices?: { message?: { content?: unknown } }[];
+        usage?: { prompt_tokens?: number; completion_tokens?: number };
+      };
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== "string") throw new Error("response has no message content");
+      const usage = data.usage ? { inputTokens: data.usage.prompt_tokens ?? 0, outputTokens: data.usage.completion_tokens ?? 0 } : undefined;
+      // Non-JSON content is passed on as a string: it fails the schema but its tokens still count
+      let verdict: unknown = content;
+      try { verdict = JSON.parse(content); } catch { /* left as text */ }
+      return { verdict, usage };
+    },
+  };
+}
+
+/**
+ * Deterministic analyzer for tests and offline demos: rates each solver from a table
+ * (solvers missing from it are left out of the verdict) or from a function of the quotes.
+ */
+export function createScriptedAnalyzer(
+  script: Record<string, RiskRating> | ((quotes: Record<string, unknown>[]) => unknown),
+  id = "scripted",
+): RiskAnalyzer {
+  return {
+    id,
+    timeoutMs: 1000,
+    async analyze(_intent, quotes) {
+      if (typeof script === "function") return { verdict: script(quotes) };
+      return {
+        verdict: {
+          recommendation: `Scripted verdict for ${quotes.length} quotes.`,
+          quotes: quotes
+            .map((q) => String(q.solver))
+            .filter((solver) => solver in script)
+            .map((solver) => ({ solver, riskRating: script[solver], riskNote: `scripted ${script[solver]}` })),
+        },
+      };
+    },
+  };
+}
+
+// Registry
+const analyzers = new Map<string, RiskAnalyzer>();
+let analyzerOrder: string[] | null = null;
+
+export function registerRiskAnalyzer(analyzer: RiskAnalyzer): void {
+  analyzers.set(analyzer.id, analyzer);
+}
+
+export function unregisterRiskAnalyzer(id: string): void {
+  analyzers.delete(id);
+}
+
+/**
+ * Set the active analyzers and their priority. Unlisted analyzers stay registered but are not used.
+ * Pass null to try every registered analyzer in registration order.
+ */
+export function setRiskAnalyzerOrder(order: string[] | null): void {
+  if (order) {
+    const unknown = order.filter((id) => !analyzers.has(id));
+    if (unknown.length > 0) throw new Error(`Unknown risk analyzer(s): ${unknown.join(", ")}`);
+  }
+  analyzerOrder = order ? [...order] : null;
+}
+
+export function getActiveRiskAnalyzers(): RiskAnalyzer[] {
+  const ids = analyzerOrder ?? Array.from(analyzers.keys());
+  return ids
+    .map((id) => analyzers.get(id))
+    .filter((a): a is RiskAnalyzer => a !== undefined && (a.enabled?.() ?? true));
+}
+
+async function withTimeout(
+  analyzer: RiskAnalyzer,
+  intent: Record<string, unknown>,
+  quotes: Record<string, unknown>[],
+): Promise<{ verdict: unknown; usage?: TokenUsage }> {
+  const timeoutMs = analyzer.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const ctrl = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      ctrl.abort();
+      reject(new Error(`no verdict within ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([analyzer.analyze(intent, quotes, ctrl.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Cost controls, shared by every request
+const verdictCache = new VerdictCache<RiskAnalysis>(Number(process.env.RISK_CACHE_TTL_MS ?? 30_000));
+const budgets = new TokenBudgets(Number(process.env.RISK_TOKEN_BUDGET ?? 50_000), Number(process.env.RISK_TOKEN_BUDGET_WINDOW_MS || 3_600_000));
+const breakers = new Map<string, CircuitBreaker>();
+const metrics = new RiskMetrics();
+
+function breakerFor(id: string): CircuitBreaker {
+  let b = breakers.get(id);
+  if (!b) {
+    b = new CircuitBreaker({
+      failureThreshold: Number(process.env.RISK_BREAKER_FAILURES || 3),
+      cooldownMs: Number(process.env.RISK_BREAKER_COOLDOWN_MS || 60_000),
+      slowCallMs: Number(process.env.RISK_SLOW_CALL_MS || 15_000),
+    });
+    breakers.set(id, b);
+  }
+  return b;
+}
+
+/** Usage per analyzer, cache effectiveness and budget settings, for GET /risk/metrics. */
+export function getRiskMetrics() {
+  return {
+    analyzers: metrics.snapshot((id) => breakerFor(id).state()),
+    cache: verdictCache.stats(),
+    budget: { tokensPerClient: budgets.limit, windowMs: budgets.windowMs },
+  };
 }
 
-function fallbackResult(quotes: Record<string, unknown>[]): RiskAnalysis {
+/** Drop cached verdicts, budgets, breaker state and metrics (tests, reconfiguration). */
+export function resetRiskControls(): void {
+  verdictCache.clear();
+  budgets.clear();
+  breakers.clear();
+  metrics.clear();
+}
+
+const SKIP_NOTES: Record<RiskSkipReason, string> = {
+  NO_ANALYZER: "no analyzer configured",
+  BUDGET_EXHAUSTED: "client token budget exhausted",
+  CIRCUIT_OPEN: "analyzers failing or slow, circuit open",
+  ANALYZERS_FAILED: "every analyzer failed",
+};
+
+function fallbackResult(quotes: Record<string, unknown>[], skipped: RiskSkipReason): RiskAnalysis {
   return {
     analyzed: false,
     recommendation: "Risk analysis unavailable — quotes returned without AI review.",
     quotes: quotes.map((q) => ({
       solver: (q.solver as string) || (q.name as string) || "unknown",
       riskRating: "unanalyzed" as RiskRating,
-      riskNote: "Analysis skipped — no API key or service unavailable.",
+      riskNote: `Analysis skipped — ${SKIP_NOTES[skipped]}.`,
     })),
+    skipped,
   };
 }
 
+/**
+ * AI verdict for the quotes. Identical requests within RISK_CACHE_TTL_MS reuse the verdict; otherwise
+ * the client's token budget and each analyzer's circuit breaker decide whether a model is called.
+ */
 export async function analyzeRouteRisk(
   intent: Record<string, unknown>,
   quotes: Record<string, unknown>[],
+  opts: { clientId?: string } = {},
 ): Promise<RiskAnalysis> {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-
-  if (!apiKey) {
-    console.warn("[IntentGuard] ANTHROPIC_API_KEY not set — skipping risk analysis.");
-    return fallbackResult(quotes);
+  const active = getActiveRiskAnalyzers();
+  if (active.length === 0) {
+    console.warn("[IntentGuard] No risk analyzer available (ANTHROPIC_API_KEY / RISK_MODEL_URL unset) — skipping risk analysis.");
+    return fallbackResult(quotes, "NO_ANALYZER");
   }
 
-  const client = new Anthropic({ apiKey });
-  const PRIMARY_MODEL = "claude-opus-4-6";
-  const FALLBACK_MODEL = "claude-sonnet-4-5-20250929";
+  const key = riskCacheKey(active.map((a) => a.id), intent, quotes);
+  const hit = verdictCache.get(key);
+  if (hit) return { ...hit, cached: true };
 
-  async function tryModel(model: string): Promise<RiskAnalysis | null> {
+  const client = opts.clientId ?? "anonymous";
+  if (budgets.remaining(client) <= 0) return fallbackResult(quotes, "BUDGET_EXHAUSTED");
+  // Try analyzers in priority order, e.g. the primary model first, then its fallback. Ask each breaker only
+  // when its analyzer is next: allow() claims a half-open breaker's trial call, which record() must release.
+  let called = false;
+  for (const analyzer of active) {
+    if (!breakerFor(analyzer.id).allow()) continue;
+    called = true;
+    const started = Date.now();
+    let usage: TokenUsage | undefined;
     try {
-      const message = await client.messages.create({
-        model,
-        max_tokens: 512,
-        messages: [
-          {
-            role: "user",
-            content: buildPrompt(intent, quotes),
-          },
-        ],
-      });
-      console.log(`[IntentGuard] AI analysis completed using ${model}`);
-
-      const textBlock = message.content.find((block) => block.type === "text");
-      if (!textBlock || textBlock.type !== "text") {
-        console.warn(`[IntentGuard] No text block from ${model}`);
-        return null;
-      }
-
-      let raw = textBlock.text.trim();
-      if (raw.startsWith("\`\`\`")) {
-        raw = raw.replace(/^\`\`\`(?:json)?\n?/, "").replace(/\n?\`\`\`$/, "");
-      }
-      const parsed = JSON.parse(raw) as {
-        recommendation: string;
-        quotes: { solver: string; riskRating: string; riskNote: string }[];
-      };
-
-      const validRatings = new Set<RiskRating>(["safe", "caution", "danger"]);
-
-      const enrichedQuotes: QuoteRisk[] = parsed.quotes.map((q) => ({
-        solver: q.solver || "unknown",
-        riskRating: validRatings.has(q.riskRating as RiskRating)
-          ? (q.riskRating as RiskRating)
-          : "caution",
-        riskNote: q.riskNote || "No details provided.",
-      }));
-
-      return {
+      const answer = await withTimeout(analyzer, intent, quotes);
+      usage = answer.usage;
+      // Tokens are spent whether or not the answer passes the schema
+      budgets.charge(client, (usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0));
+      const verdict = validateRiskVerdict(analyzer.id, answer.verdict);
+      const latencyMs = Date.now() - started;
+      metrics.record(analyzer.id, analyzer.model, { ok: true, latencyMs, usage });
+      breakerFor(analyzer.id).record(true, latencyMs);
+      console.log(`[IntentGuard] AI analysis completed using ${analyzer.id} in ${latencyMs}ms`);
+      const result: RiskAnalysis = {
         analyzed: true,
-        recommendation: parsed.recommendation || "No recommendation provided.",
-        quotes: enrichedQuotes,
+        recommendation: verdict.recommendation || "No recommendation provided.",
+        quotes: verdict.quotes.map((q) => ({ solver: q.solver, riskRating: q.riskRating, riskNote: q.riskNote || "No details provided." })),
+        analyzer: analyzer.id,
       };
+      verdictCache.set(key, result);
+      return { ...result, cached: false };
     } catch (err: unknown) {
       const msg = err instanceof Error ? err.message : String(err);
-      console.error(`[IntentGuard] ${model} failed: ${msg}`);
-      return null;
+      const latencyMs = Date.now() - started;
+      metrics.record(analyzer.id, analyzer.model, { ok: false, latencyMs, usage, error: msg });
+      breakerFor(analyzer.id).record(false, latencyMs);
+      console.error(`[IntentGuard] ${analyzer.id} failed: ${msg}`);
     }
   }
+  return fallbackResult(quotes, called ? "ANALYZERS_FAILED" : "CIRCUIT_OPEN");
+}
 
-  // Try Opus first, fall back to Sonnet if unavailable
-  const result = await tryModel(PRIMARY_MODEL) ?? await tryModel(FALLBACK_MODEL);
-  return result ?? fallbackResult(quotes);
+// Built-in analyzers: Claude (primary, then fallback model) when ANTHROPIC_API_KEY is set, an
+// OpenAI-compatible model server at RISK_MODEL_URL, and RISK_ANALYZERS to pick the order
+registerRiskAnalyzer(createAnthropicAnalyzer({ id: "anthropic", model: process.env.ANTHROPIC_MODEL || "claude-opus-4-6" }));
+registerRiskAnalyzer(createAnthropicAnalyzer({ id: "anthropic-fallback", model: process.env.ANTHROPIC_FALLBACK_MODEL || "claude-sonnet-4-5-20250929" }));
+if (process.env.RISK_MODEL_URL) {
+  registerRiskAnalyzer(createHttpAnalyzer({
+    url: process.env.RISK_MODEL_URL,
+    model: process.env.RISK_MODEL_NAME,
+    apiKey: process.env.RISK_MODEL_API_KEY,
+  }));
+}
+if (process.env.RISK_ANALYZERS) {
+  setRiskAnalyzerOrder(process.env.RISK_ANALYZERS.split(",").map((s) => s.trim()).filter(Boolean));
 }
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { CircuitBreaker, TokenBudgets, VerdictCache, riskCacheKey } from "./riskControls.js";
+
+describe("riskCacheKey", () => {
+  const intent = { tokenIn: "WETH", tokenOut: "USDC", amountIn: "1" };
+  const a = { solver: "a", expectedOut: "3200", expectedGasWei: "1", external: { latencyMs: 12 } };
+  const b = { solver: "b", expectedOut: "3190", expectedGasWei: "2" };
+
+  it("ignores quote order and volatile fields but not prices or the analyzer chain", () => {
+    const key = riskCacheKey(["x"], intent, [a, b]);
+    expect(riskCacheKey(["x"], { amountIn: "1", tokenOut: "USDC", tokenIn: "WETH" }, [b, { ...a, external: { latencyMs: 80 } }])).toBe(key);
+    expect(riskCacheKey(["x"], intent, [{ ...a, expectedOut: "3300" }, b])).not.toBe(key);
+    expect(riskCacheKey(["y", "x"], intent, [a, b])).not.toBe(key);
+  });
+});
+
+describe("VerdictCache", () => {
+  it("expires entries after the TTL and counts hits and misses", () => {
+    const cache = new VerdictCache<string>(1000);
+    cache.set("k", "v", 0);
+    expect(cache.get("k", 999)).toBe("v");
+    expect(cache.get("k", 1000)).toBeNull();
+    expect(cache.stats()).toMatchObject({ size: 0, hits: 1, misses: 1 });
+  });
+});
+
+describe("TokenBudgets", () => {
+  it("charges per client and refills when the window rolls over", () => {
+    const budgets = new TokenBudgets(100, 60_000);
+    budgets.charge("alice", 70, 0);
+    budgets.charge("alice", 40, 10);
+    expect(budgets.remaining("alice", 20)).toBe(0);
+    expect(budgets.remaining("bob", 20)).toBe(100);
+    expect(budgets.remaining("alice", 60_000)).toBe(100);
+    expect(new TokenBudgets(0, 60_000).remaining("alice")).toBe(Infinity);
+  });
+
+  it("forgets clients whose window has expired", () => {
+    const budgets = new TokenBudgets(100, 60_000);
+    budgets.charge("alice", 10, 0);
+    budgets.charge("bob", 10, 30_000);
+    expect(budgets.size()).toBe(2);
+    budgets.charge("carol", 10, 60_000);
+    expect(budgets.size()).toBe(2); // alice expired; bob's window is still open
+    budgets.charge("carol", 10, 120_000);
+    expect(budgets.size()).toBe(1);
+    expect(budgets.remaining("bob", 120_000)).toBe(100);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  it("opens after consecutive failures or slow calls and closes after a good trial call", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000, slowCallMs: 500 });
+    breaker.record(false, 10, 0);
+    breaker.record(true, 10, 0); // a fast success resets the count
+    breaker.record(false, 10, 0);
+    expect(breaker.state(0)).toBe("closed");
+    breaker.record(true, 800, 100); // slow
+    expect(breaker.state(100)).toBe("open");
+    expect(breaker.allow(500)).toBe(false);
+
+    expect(breaker.state(1100)).toBe("half_open");
+    expect(breaker.allow(1100)).toBe(true);
+    expect(breaker.allow(1100)).toBe(false); // one trial at a time
+    breaker.record(false, 10, 1200);
+    expect(breaker.state(1300)).toBe("open");
+
+    expect(breaker.allow(2200)).toBe(true);
+    breaker.record(true, 10, 2200);
+    expect(breaker.state(2200)).toBe("closed");
+  });
+});
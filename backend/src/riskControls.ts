@@ -0,0 +1,194 @@
+// riskControls.ts - Cost controls around AI risk analysis: verdict cache, per-client token budgets, circuit breakers, usage metrics
+// All state is in-process; analyzeRouteRisk consults it before every model call.
+
+import { createHash } from "crypto";
+
+export type TokenUsage = { inputTokens: number; outputTokens: number };
+
+// Why the AI verdict is missing from a response
+export type RiskSkipReason = "NO_ANALYZER" | "BUDGET_EXHAUSTED" | "CIRCUIT_OPEN" | "ANALYZERS_FAILED";
+
+// Fields that decide a verdict; latency, signatures and the like must not bust the cache
+const QUOTE_KEY_FIELDS = ["solver", "expectedOut", "expectedGasWei", "confidence", "impliedSlippageBps", "route", "valid"];
+
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === "object") {
+    const obj = value as Record<string, unknown>;
+    return Object.fromEntries(Object.keys(obj).sort().map((k) => [k, canonical(obj[k])]));
+  }
+  return value;
+}
+
+/** Cache key for a verdict: the analyzer chain, the intent and the quote set (order-insensitive). */
+export function riskCacheKey(analyzers: string[], intent: Record<string, unknown>, quotes: Record<string, unknown>[]): string {
+  const quoteSet = quotes
+    .map((q) => Object.fromEntries(QUOTE_KEY_FIELDS.filter((k) => k in q).map((k) => [k, q[k]])))
+    .sort((a, b) => String(a.solver).localeCompare(String(b.solver)));
+  return createHash("sha256").update(JSON.stringify(canonical({ analyzers, intent, quotes: quoteSet }))).digest("hex");
+}
+
+export class VerdictCache<T> {
+  private readonly entries = new Map<string, { value: T; expiresAt: number }>();
+  hits = 0;
+  misses = 0;
+
+  constructor(private readonly ttlMs: number, private readonly maxEntries = 1000) {}
+
+  get(key: string, now = Date.now()): T | null {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= now) {
+      if (entry) this.entries.delete(key);
+      this.misses++;
+      return null;
+    }
+    this.hits++;
+    return entry.value;
+  }
+
+  set(key: string, value: T, now = Date.now()): void {
+    if (this.ttlMs <= 0) return;
+    // Map iteration is insertion order, so the first key is the oldest
+    if (this.entries.size >= this.maxEntries) this.entries.delete(this.entries.keys().next().value!);
+    this.entries.set(key, { value, expiresAt: now + this.ttlMs });
+  }
+
+  stats() {
+    return { size: this.entries.size, hits: this.hits, misses: this.misses, ttlMs: this.ttlMs };
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+  }
+}
+
+/** Fixed-window token allowance per client. A limit of 0 disables budgets. */
+export class TokenBudgets {
+  private readonly windows = new Map<string, { used: number; resetAt: number }>();
+  private nextSweepAt = 0;
+
+  constructor(readonly limit: number, readonly windowMs: number) {}
+
+  remaining(client: string, now = Date.now()): number {
+    if (this.limit <= 0) return Infinity;
+    const w = this.windows.get(client);
+    return !w || w.resetAt <= now ? this.limit : Math.max(0, this.limit - w.used);
+  }
+
+  charge(client: string, tokens: number, now = Date.now()): void {
+    if (this.limit <= 0 || tokens <= 0) return;
+    this.sweep(now);
+    let w = this.windows.get(client);
+    if (!w || w.resetAt <= now) {
+      w = { used: 0, resetAt: now + this.windowMs };
+      this.windows.set(client, w);
+    }
+    w.used += tokens;
+  }
+
+  /** Clients with a window still open. */
+  size(): number {
+    return this.windows.size;
+  }
+
+  clear(): void {
+    this.windows.clear();
+  }
+
+  // Drop expired windows at most once per window length, so one-off clients don't stay in memory
+  private sweep(now: number): void {
+    if (now < this.nextSweepAt) return;
+    for (const [client, w] of this.windows) {
+      if (w.resetAt <= now) this.windows.delete(client);
+    }
+    this.nextSweepAt = now + this.windowMs;
+  }
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export type CircuitBreakerOptions = {
+  failureThreshold: number; // consecutive failures that open the circuit
+  cooldownMs: number; // how long it stays open before a trial call
+  slowCallMs: number; // successful calls slower than this count as failures
+};
+
+/**
+ * Consecutive-failure breaker. Open circuits reject calls until the cooldown passes, then let
+ * one trial call through (half open): success closes the circuit, failure re-opens it.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(private readonly opts: CircuitBreakerOptions) {}
+
+  state(now = Date.now()): CircuitState {
+    if (this.openedAt === null) return "closed";
+    return now - this.openedAt >= this.opts.cooldownMs ? "half_open" : "open";
+  }
+
+  allow(now = Date.now()): boolean {
+    const state = this.state(now);
+    if (state === "closed") return true;
+    if (state === "open" || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  record(ok: boolean, latencyMs: number, now = Date.now()): void {
+    this.trialInFlight = false;
+    if (ok && latencyMs <= this.opts.slowCallMs) {
+      this.failures = 0;
+      this.openedAt = null;
+      return;
+    }
+    this.failures++;
+    if (this.openedAt !== null || this.failures >= this.opts.failureThreshold) this.openedAt = now;
+  }
+}
+
+export type AnalyzerMetrics = {
+  model: string | null;
+  calls: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  avgLatencyMs: number;
+  lastError: string | null;
+  circuit: CircuitState;
+};
+
+export class RiskMetrics {
+  private readonly byAnalyzer = new Map<string, Omit<AnalyzerMetrics, "avgLatencyMs" | "circuit"> & { totalLatencyMs: number }>();
+
+  record(analyzer: string, model: string | undefined, call: { ok: boolean; latencyMs: number; usage?: TokenUsage; error?: string }): void {
+    let m = this.byAnalyzer.get(analyzer);
+    if (!m) {
+      m = { model: model ?? null, calls: 0, failures: 0, inputTokens: 0, outputTokens: 0, totalLatencyMs: 0, lastError: null };
+      this.byAnalyzer.set(analyzer, m);
+    }
+    m.calls++;
+    m.totalLatencyMs += call.latencyMs;
+    m.inputTokens += call.usage?.inputTokens ?? 0;
+    m.outputTokens += call.usage?.outputTokens ?? 0;
+    if (!call.ok) {
+      m.failures++;
+      m.lastError = call.error ?? "unknown error";
+    }
+  }
+
+  snapshot(circuit: (analyzer: string) => CircuitState): Record<string, AnalyzerMetrics> {
+    return Object.fromEntries(Array.from(this.byAnalyzer, ([id, { totalLatencyMs, ...m }]) => [
+      id,
+      { ...m, avgLatencyMs: m.calls > 0 ? Math.round(totalLatencyMs / m.calls) : 0, circuit: circuit(id) },
+    ]));
+  }
+
+  clear(): void {
+    this.byAnalyzer.clear();
+  }
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { IntentInput, SolverQuote, clearPriceCache, scoreIntent } from "./solver.js";
+import { createFixtureProvider, registerPriceProvider, setPriceProviderOrder, unregisterPriceProvider } from "./priceProviders.js";
+import { evaluateRiskRules, mergeRiskAnalyses } from "./riskRules.js";
+import { RiskAnalysis } from "./riskAnalysis.js";
+import { registerExternalSolver, unregisterExternalSolver } from "./externalSolvers.js";
+import { startMockSolver } from "./mockSolver.js";
+import { app } from "./app.js";
+
+const intent: IntentInput = {
+  tokenIn: "WETH",
+  tokenOut: "USDC",
+  amountIn: "1.0",
+  minAmountOut: "1800",
+  maxSlippageBps: 100,
+  maxGasWei: "50000000000000",
+  deadline: 9999999999,
+};
+const REFERENCE_OUT = 3200;
+
+let base: SolverQuote;
+const quote = (solver: string, patch: Partial<SolverQuote> = {}): SolverQuote => ({ ...base, solver, ...patch });
+
+beforeAll(async () => {
+  delete process.env.ANTHROPIC_API_KEY;
+  registerPriceProvider(createFixtureProvider({ WETH: 3200, USDC: 1 }));
+  setPriceProviderOrder(["fixture"]);
+  clearPriceCache();
+  base = await scoreIntent(intent, "solver-alpha");
+});
+
+afterAll(() => {
+  setPriceProviderOrder(null);
+  unregisterPriceProvider("fixture");
+  clearPriceCache();
+});
+
+describe("evaluateRiskRules", () => {
+  it("rates live-priced quotes near the reference as safe", async () => {
+    const quotes = await Promise.all(["solver-alpha", "solver-beta", "solver-gamma"].map((s) => scoreIntent(intent, s)));
+    const risks = evaluateRiskRules(intent, quotes, REFERENCE_OUT);
+    expect(risks.map((r) => [r.solver, r.riskRating, r.rules])).toEqual([
+      ["solver-alpha", "safe", []],
+      ["solver-beta", "safe", []],
+      ["solver-gamma", "safe", []],
+    ]);
+  });
+
+  it("flags price deviation and peer outliers", () => {
+    const risks = evaluateRiskRules(intent, [
+      quote("a", { expectedOut: "3200" }),
+      quote("b", { expectedOut: "3210" }),
+      quote("too-good", { expectedOut: "3600" }),
+    ], REFERENCE_OUT);
+    expect(risks[0].riskRating).toBe("safe");
+    expect(risks[2]).toMatchObject({ riskRating: "danger", rules: ["price-deviation", "peer-outlier"] });
+    expect(risks[2].riskNote).toMatch(/12\.50% above the reference price/);
+
+    // No reference and too few peers: neither rule can fire
+    expect(evaluateRiskRules(intent, [quote("too-good", { expectedOut: "3600" })], null)[0].riskRating).toBe("safe");
+  });
+
+  it("flags stale or missing prices, implausible gas, loose slippage and thin routes", () => {
+    const stale = { source: "fallback", timestamp: 0, isStale: true, reliabilityScore: 0.6 };
+    const [staleQ, unpriced, freeGas, thin] = evaluateRiskRules({ ...intent, maxSlippageBps: 400 }, [
+      quote("stale", { priceMeta: { tokenIn: stale, tokenOut: base.priceMeta.tokenOut } }),
+      quote("unpriced", { priceMeta: { tokenIn: base.priceMeta.tokenIn, tokenOut: { ...stale, reliabilityScore: 0.2 } } }),
+      quote("free-gas", { expectedGasWei: "0" }),
+      quote("thin", { routePlan: { ...({} as NonNullable<SolverQuote["routePlan"]>), priceImpactBps: 150 } }),
+    ], null);
+    expect(staleQ).toMatchObject({ riskRating: "caution", rules: ["stale-price", "slippage"] });
+    expect(unpriced).toMatchObject({ riskRating: "danger", rules: ["stale-price", "slippage"] });
+    expect(freeGas).toMatchObject({ riskRating: "danger", rules: ["implausible-gas", "slippage"] });
+    expect(thin).toMatchObject({ riskRating: "caution", rules: ["slippage", "low-liquidity"] });
+  });
+});
+
+describe("mergeRiskAnalyses", () => {
+  const rules = () => evaluateRiskRules(intent, [quote("flagged", { expectedGasWei: "0" }), quote("clean")], null);
+  const ai: RiskAnalysis = {
+    analyzed: true,
+    recommendation: "use clean",
+    quotes: [
+      { solver: "flagged", riskRating: "safe", riskNote: "looks fine" },
+      { solver: "clean", riskRating: "caution", riskNote: "slightly rich" },
+    ],
+  };
+  const ratings = (r: RiskAnalysis) => r.quotes.map((q) => q.riskRating);
+
+  it("applies the merge policy per quote", () => {
+    expect(ratings(mergeRiskAnalyses(rules(), ai, "strictest"))).toEqual(["danger", "caution"]);
+    expect(ratings(mergeRiskAnalyses(rules(), ai, "ai_preferred"))).toEqual(["safe", "caution"]);
+    const rulesOnly = mergeRiskAnalyses(rules(), ai, "rules_only");
+    expect(ratings(rulesOnly)).toEqual(["danger", "safe"]);
+    expect(rulesOnly).toMatchObject({ analyzed: false, policy: "rules_only", recommendation: "Rule checks flagged 1 of 2 quotes (1 danger)." });
+  });
+
+  it("falls back to the rules when the AI did not run", () => {
+    const unanalyzed: RiskAnalysis = { analyzed: false, recommendation: "", quotes: ai.quotes.map((q) => ({ ...q, riskRating: "unanalyzed" })) };
+    for (const policy of ["strictest", "ai_preferred"] as const) {
+      expect(ratings(mergeRiskAnalyses(rules(), unanalyzed, policy))).toEqual(["danger", "safe"]);
+    }
+  });
+});
+
+describe("/compete risk gate without an API key", () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    server = app.listen(0);
+    await new Promise((r) => server.once("listening", r));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>((r) => server.close(() => r())));
+
+  it("excludes a too-good-to-be-true quote from the winner pool", async () => {
+    const m = await startMockSolver({ name: "ext-too-good", edge: 1.2, gasWei: "15000000000000", confidence: 0.99 });
+    registerExternalSolver({ name: m.name, endpoint: m.httpUrl, signer: m.signer });
+    try {
+      const res = await fetch(`${url}/compete`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ intent, solvers: [{ name: "solver-alpha" }, { name: "solver-beta" }, { name: "ext-too-good" }] }),
+      });
+      const body = await res.json() as any;
+      expect(body.riskAnalysis).toMatchObject({ analyzed: false, policy: "strictest" });
+      const risk = body.riskAnalysis.quotes.find((q: any) => q.solver === "ext-too-good");
+      expect(risk).toMatchObject({ riskRating: "danger", rules: expect.arrayContaining(["price-deviation"]) });
+      expect(body.quotes.find((q: any) => q.solver === "ext-too-good").valid).toBe(true);
+      expect(body.best.solver).not.toBe("ext-too-good");
+    } finally {
+      unregisterExternalSolver(m.name);
+      await m.close();
+    }
+  });
+});
@@ -0,0 +1,214 @@
+// riskRules.ts - Deterministic risk rules that run on every competition, with or without the AI analyzer
+// Each rule rates a quote against the intent, a reference price and its peers; verdicts merge with the AI by policy.
+
+import { IntentInput, SolverQuote, getPriceContext, usdFairOut } from "./solver.js";
+import { isContractAddress } from "./priceProviders.js";
+import { QuoteRisk, RiskAnalysis, RiskMergePolicy, RiskRating, analyzeRouteRisk } from "./riskAnalysis.js";
+
+export type RiskRuleThresholds = {
+  deviationCautionPct: number; // |expectedOut / reference - 1|
+  deviationDangerPct: number;
+  outlierCautionPct: number; // |expectedOut / peer median - 1|, needs minPeers quotes
+  outlierDangerPct: number;
+  minPeers: number;
+  minGasWei: number; // below this a fill is implausibly cheap
+  maxGasWei: number; // above this the estimate is implausible whatever the intent allows
+  slippageCautionBps: number; // tolerance or implied slippage
+  slippageDangerBps: number;
+  impactCautionBps: number; // onchain route price impact
+  impactDangerBps: number;
+  minReliability: number; // priceMeta reliabilityScore below this is danger
+};
+
+export const DEFAULT_RISK_THRESHOLDS: RiskRuleThresholds = {
+  deviationCautionPct: 3,
+  deviationDangerPct: 10,
+  outlierCautionPct: 2,
+  outlierDangerPct: 5,
+  minPeers: 3,
+  minGasWei: 1e11,
+  maxGasWei: 1e16,
+  slippageCautionBps: 300,
+  slippageDangerBps: 500,
+  impactCautionBps: 100,
+  impactDangerBps: 300,
+  minReliability: 0.3,
+};
+
+export type RuleHit = { rule: string; rating: "caution" | "danger"; note: string };
+
+type RuleContext = {
+  intent: IntentInput;
+  quotes: SolverQuote[];
+  referenceOut: number | null; // fair output from live USD prices, null when only fallback prices exist
+  peerMedian: number | null;
+  t: RiskRuleThresholds;
+};
+
+type RiskRule = { id: string; check: (q: SolverQuote, ctx: RuleContext) => RuleHit | null };
+
+const SEVERITY: Record<RiskRating, number> = { unanalyzed: -1, safe: 0, caution: 1, danger: 2 };
+
+function worst(a: RiskRating, b: RiskRating): RiskRating {
+  return SEVERITY[b] > SEVERITY[a] ? b : a;
+}
+
+// Rate a measured value against caution/danger thresholds
+function grade(id: string, value: number, caution: number, danger: number, note: string): RuleHit | null {
+  if (!(value > caution)) return null;
+  return { rule: id, rating: value > danger ? "danger" : "caution", note };
+}
+
+function median(values: number[]): number {
+  const s = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+const pct = (x: number) => `${(x * 100).toFixed(2)}%`;
+
+export const RISK_RULES: RiskRule[] = [
+  {
+    id: "price-deviation",
+    check: (q, { referenceOut, t }) => {
+      if (!referenceOut) return null;
+      const dev = Number(q.expectedOut) / referenceOut - 1;
+      const side = dev > 0 ? "above" : "below";
+      return grade("price-deviation", Math.abs(dev) * 100, t.deviationCautionPct, t.deviationDangerPct, `quote ${pct(Math.abs(dev))} ${side} the reference price`);
+    },
+  },
+  {
+    id: "stale-price",
+    check: (q, { t }) => {
+      const metas = [q.priceMeta?.tokenIn, q.priceMeta?.tokenOut].filter((m) => m !== undefined);
+      const reliability = Math.min(...metas.map((m) => m.reliabilityScore));
+      if (reliability < t.minReliability) return { rule: "stale-price", rating: "danger", note: `no usable price (reliability ${reliability.toFixed(1)})` };
+      const stale = metas.filter((m) => m.isStale || m.source === "fallback");
+      if (stale.length === 0) return null;
+      return { rule: "stale-price", rating: "caution", note: `priced from ${stale.map((m) => (m.isStale ? `stale ${m.source}` : m.source)).join(" / ")} data` };
+    },
+  },
+  {
+    id: "implausible-gas",
+    check: (q, { t }) => {
+      const gas = Number(q.expectedGasWei);
+      if (!(gas > 0)) return { rule: "implausible-gas", rating: "danger", note: `gas estimate ${q.expectedGasWei} wei` };
+      if (gas < t.minGasWei) return { rule: "implausible-gas", rating: "caution", note: `gas estimate ${gas} wei is implausibly low` };
+      if (gas > t.maxGasWei) return { rule: "implausible-gas", rating: "caution", note: `gas estimate ${gas} wei is implausibly high` };
+      return null;
+    },
+  },
+  {
+    id: "slippage",
+    check: (q, { intent, t }) => {
+      const implied = Number(q.impliedSlippageBps) || 0;
+      const bps = Math.max(intent.maxSlippageBps, implied);
+      const what = implied > intent.maxSlippageBps ? `implied slippage ${implied}bps` : `slippage tolerance ${intent.maxSlippageBps}bps`;
+      return grade("slippage", bps, t.slippageCautionBps, t.slippageDangerBps, `${what} invites sandwiching`);
+    },
+  },
+  {
+    id: "peer-outlier",
+    check: (q, { quotes, peerMedian, t }) => {
+      if (!peerMedian) return null;
+      const dev = Number(q.expectedOut) / peerMedian - 1;
+      const side = dev > 0 ? "above" : "below";
+      return grade("peer-outlier", Math.abs(dev) * 100, t.outlierCautionPct, t.outlierDangerPct, `${pct(Math.abs(dev))} ${side} the median of ${quotes.length} quotes`);
+    },
+  },
+  {
+    id: "low-liquidity",
+    check: (q, { intent, t }) => {
+      if (q.routePlan) {
+        const impact = q.routePlan.priceImpactBps;
+        return grade("low-liquidity", impact, t.impactCautionBps, t.impactDangerBps, `route moves the pool price ${impact}bps`);
+      }
+      const unlisted = [intent.tokenIn, intent.tokenOut].filter(isContractAddress);
+      if (unlisted.length === 0) return null;
+      return { rule: "low-liquidity", rating: "caution", note: `liquidity unknown for unlisted token ${unlisted.join(", ")}` };
+    },
+  },
+];
+
+/**
+ * Run every rule over the quotes. `referenceOut` is the fair output from live prices;
+ * rules that need it are skipped when it is null.
+ */
+export function evaluateRiskRules(
+  intent: IntentInput,
+  quotes: SolverQuote[],
+  referenceOut: number | null,
+  thresholds: Partial<RiskRuleThresholds> = {},
+): QuoteRisk[] {
+  const t = { ...DEFAULT_RISK_THRESHOLDS, ...thresholds };
+  const outs = quotes.map((q) => Number(q.expectedOut)).filter((x) => x > 0);
+  const ctx: RuleContext = {
+    intent,
+    quotes,
+    referenceOut: referenceOut && referenceOut > 0 ? referenceOut : null,
+    peerMedian: outs.length >= t.minPeers ? median(outs) : null,
+    t,
+  };
+  return quotes.map((q) => {
+    const hits = RISK_RULES.map((r) => r.check(q, ctx)).filter((h): h is RuleHit => h !== null);
+    return {
+      solver: q.solver,
+      riskRating: hits.reduce<RiskRating>((r, h) => worst(r, h.rating), "safe"),
+      riskNote: hits.length > 0 ? hits.map((h) => `${h.rule}: ${h.note}`).join("; ") : "Passed all rule checks.",
+      rules: hits.map((h) => h.rule),
+    };
+  });
+}
+
+export const RISK_MERGE_POLICIES: RiskMergePolicy[] = ["strictest", "ai_preferred", "rules_only"];
+
+export function riskMergePolicyFromEnv(): RiskMergePolicy {
+  const p = process.env.RISK_MERGE_POLICY as RiskMergePolicy | undefined;
+  return p && RISK_MERGE_POLICIES.includes(p) ? p : "strictest";
+}
+
+/** Combine rule verdicts with the AI analysis, quote by quote. */
+export function mergeRiskAnalyses(rules: QuoteRisk[], ai: RiskAnalysis | null, policy: RiskMergePolicy): RiskAnalysis {
+  const aiUsed = ai?.analyzed === true && policy !== "rules_only";
+  const aiBySolver = new Map(aiUsed ? ai.quotes.map((q) => [q.solver, q]) : []);
+  const quotes = rules.map((r) => {
+    const a = aiBySolver.get(r.solver);
+    if (!a || a.riskRating === "unanalyzed") return r;
+    const riskRating = policy === "ai_preferred" ? a.riskRating : worst(r.riskRating, a.riskRating);
+    return { ...r, riskRating, riskNote: `${a.riskNote} Rules: ${r.riskNote}` };
+  });
+
+  const flagged = quotes.filter((q) => q.riskRating !== "safe").length;
+  const danger = quotes.filter((q) => q.riskRating === "danger").length;
+  const recommendation = aiUsed
+    ? ai.recommendation
+    : flagged === 0
+      ? "All quotes passed the rule checks."
+      : `Rule checks flagged ${flagged} of ${quotes.length} quotes${danger > 0 ? ` (${danger} danger)` : ""}.`;
+  return {
+    analyzed: aiUsed,
+    recommendation,
+    quotes,
+    ...(aiUsed ? { analyzer: ai.analyzer, cached: ai.cached } : {}),
+    ...(ai?.skipped ? { skipped: ai.skipped } : {}),
+    policy,
+  };
+}
+
+/**
+ * Risk verdict used by /compete and /analyze: the rule engine always runs, the AI analyzer
+ * runs unless the policy is rules_only, and the two are merged by `policy`. `clientId` is
+ * charged for the model tokens.
+ */
+export async function assessRouteRisk(
+  intent: IntentInput,
+  quotes: SolverQuote[],
+  opts: { policy?: RiskMergePolicy; clientId?: string } = {},
+): Promise<RiskAnalysis> {
+  const policy = opts.policy ?? riskMergePolicyFromEnv();
+  // Prices were just fetched for the quotes, so this is a cache hit
+  const ctx = await getPriceContext(intent);
+  const rules = evaluateRiskRules(intent, quotes, ctx.live ? usdFairOut(intent, ctx) : null);
+  const ai = policy === "rules_only" ? null : await analyzeRouteRisk(intent, quotes as unknown as Record<string, unknown>[], { clientId: opts.clientId });
+  return mergeRiskAnalyses(rules, ai, policy);
+}
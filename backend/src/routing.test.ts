@@ -0,0 +1,72 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { PoolConfig, PoolState, TokenRef, clearPools, registerPool } from "./amm.js";
+import { describeRoute, enumeratePaths, planRoute } from "./routing.js";
+
+const WETH: TokenRef = { address: "0x00000000000000000000000000000000000000a1", symbol: "WETH", decimals: 18 };
+const USDC: TokenRef = { address: "0x00000000000000000000000000000000000000b2", symbol: "USDC", decimals: 6 };
+const DEGEN: TokenRef = { address: "0x00000000000000000000000000000000000000c3", symbol: "DEGEN", decimals: 18 };
+
+const pools: PoolConfig[] = [
+  { address: "0x0000000000000000000000000000000000000001", venue: "uniswap-v2", token0: WETH, token1: USDC, feeBps: 30 },
+  { address: "0x0000000000000000000000000000000000000002", venue: "uniswap-v2", token0: WETH, token1: USDC, feeBps: 30 },
+  { address: "0x0000000000000000000000000000000000000003", venue: "uniswap-v2", token0: USDC, token1: DEGEN, feeBps: 30 },
+];
+
+const states = new Map<string, PoolState>([
+  [pools[0].address, { kind: "v2", reserve0: 100n * 10n ** 18n, reserve1: 320_000n * 10n ** 6n, feeBps: 30 }],
+  [pools[1].address, { kind: "v2", reserve0: 50n * 10n ** 18n, reserve1: 160_000n * 10n ** 6n, feeBps: 30 }],
+  [pools[2].address, { kind: "v2", reserve0: 1_000_000n * 10n ** 6n, reserve1: 100_000_000n * 10n ** 18n, feeBps: 30 }],
+]);
+
+afterAll(() => clearPools());
+
+describe("enumeratePaths", () => {
+  it("finds direct and two-hop paths within the hop limit", () => {
+    expect(enumeratePaths(pools, WETH, USDC, 1)).toHaveLength(2);
+    expect(enumeratePaths(pools, WETH, DEGEN, 1)).toHaveLength(0);
+    const twoHop = enumeratePaths(pools, WETH, DEGEN, 2);
+    expect(twoHop).toHaveLength(2);
+    expect(twoHop.every((p) => p.length === 2)).toBe(true);
+  });
+});
+
+describe("planRoute", () => {
+  it("routes WETH→USDC→DEGEN with per-hop amounts", () => {
+    const plan = planRoute(pools, states, "WETH", "DEGEN", "1", { maxHops: 2, maxPaths: 1, splitSteps: 1 })!;
+    expect(plan).not.toBeNull();
+    expect(plan.paths).toHaveLength(1);
+    const [first, second] = plan.paths[0].hops;
+    expect(first.tokenIn).toBe(WETH.address);
+    expect(first.tokenOut).toBe(USDC.address);
+    expect(second.tokenIn).toBe(USDC.address);
+    expect(second.amountIn).toBe(first.amountOut);
+    expect(second.amountOut).toBe(plan.amountOut);
+  });
+
+  it("returns null when the hop limit cannot reach tokenOut", () => {
+    expect(planRoute(pools, states, "WETH", "DEGEN", "1", { maxHops: 1, maxPaths: 1, splitSteps: 1 })).toBeNull();
+  });
+
+  it("splits large size across parallel pools and beats the single best pool", () => {
+    const single = planRoute(pools, states, "WETH", "USDC", "30", { maxHops: 1, maxPaths: 1, splitSteps: 1 })!;
+    const split = planRoute(pools, states, "WETH", "USDC", "30", { maxHops: 1, maxPaths: 2, splitSteps: 20 })!;
+    expect(split.paths).toHaveLength(2);
+    expect(BigInt(split.amountOut)).toBeGreaterThan(BigInt(single.amountOut));
+    expect(split.priceImpactBps).toBeLessThan(single.priceImpactBps);
+    // Deeper pool takes the larger share
+    expect(split.paths.find((p) => p.hops[0].pool === pools[0].address)!.shareBps).toBeGreaterThan(5000);
+    const total = split.paths.reduce((sum, p) => sum + BigInt(p.amountIn), 0n);
+    expect(total).toBe(BigInt(split.amountIn));
+  });
+
+  it("keeps small trades on one path", () => {
+    const plan = planRoute(pools, states, "WETH", "USDC", "0.001", { maxHops: 1, maxPaths: 2, splitSteps: 10 })!;
+    expect(plan.paths).toHaveLength(1);
+  });
+
+  it("describes routes by venue and token symbols", () => {
+    pools.forEach(registerPool);
+    const plan = planRoute(pools, states, "WETH", "DEGEN", "1", { maxHops: 2, maxPaths: 1, splitSteps: 1 })!;
+    expect(describeRoute(plan)).toEqual(["uniswap-v2 WETH>USDC>DEGEN"]);
+  });
+});
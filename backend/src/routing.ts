@@ -0,0 +1,277 @@
+// routing.ts - Multi-hop, split-aware route search over the registered pool graph
+// Tokens are nodes, pools are edges; each solver profile searches with its own RouteStrategy.
+
+import { JsonRpcProvider, parseUnits } from "ethers";
+import {
+  PoolConfig,
+  PoolState,
+  TokenRef,
+  fetchPoolState,
+  getPools,
+  impactBps,
+  matchesToken,
+  simulateSwap,
+  spotAmountOut,
+} from "./amm.js";
+import { defaultChainId } from "./chains.js";
+
+export type RouteStrategy = {
+  maxHops: number; // longest path explored, e.g. 2 for WETH→USDC→DEGEN
+  maxPaths: number; // parallel pool-disjoint paths the input may be split across
+  splitSteps: number; // granularity of the greedy split (amountIn / splitSteps per step)
+};
+
+// Amounts are base-unit integer strings so quotes stay JSON-serializable
+export type RouteHop = {
+  pool: string;
+  venue: PoolConfig["venue"];
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  amountOut: string;
+};
+
+export type RoutePath = {
+  shareBps: number;
+  amountIn: string;
+  amountOut: string;
+  hops: RouteHop[];
+};
+
+export type RoutePlan = {
+  tokenIn: TokenRef;
+  tokenOut: TokenRef;
+  amountIn: string;
+  amountOut: string;
+  spotOut: string;
+  priceImpactBps: number;
+  paths: RoutePath[];
+};
+
+type Edge = { pool: PoolConfig; from: TokenRef; to: TokenRef; zeroForOne: boolean };
+type PathSim = { amountOut: bigint; spotOut: bigint; hops: RouteHop[]; complete: boolean };
+
+const MAX_CANDIDATE_PATHS = 64;
+// A split must beat the single best path by this much to be worth the extra hops' gas
+const MIN_SPLIT_GAIN_BPS = 1n;
+
+function tokenKey(ref: TokenRef): string {
+  return ref.address.toLowerCase();
+}
+
+function findTokenRef(pools: PoolConfig[], token: string): TokenRef | null {
+  for (const p of pools) {
+    if (matchesToken(p.token0, token)) return p.token0;
+    if (matchesToken(p.token1, token)) return p.token1;
+  }
+  return null;
+}
+
+/**
+ * Enumerate simple paths (no repeated token or pool) from tokenIn to tokenOut of at most maxHops edges.
+ */
+export function enumeratePaths(pools: PoolConfig[], tokenIn: TokenRef, tokenOut: TokenRef, maxHops: number): Edge[][] {
+  const adjacency = new Map<string, Edge[]>();
+  for (const pool of pools) {
+    for (const [from, to, zeroForOne] of [[pool.token0, pool.token1, true], [pool.token1, pool.token0, false]] as const) {
+      const list = adjacency.get(tokenKey(from)) ?? [];
+      list.push({ pool, from, to, zeroForOne });
+      adjacency.set(tokenKey(from), list);
+    }
+  }
+
+  const paths: Edge[][] = [];
+  const target = tokenKey(tokenOut);
+  const walk = (node: string, path: Edge[], visited: Set<string>) => {
+    if (paths.length >= MAX_CANDIDATE_PATHS) return;
+    if (node === target && path.length > 0) { paths.push([...path]); return; }
+    if (path.length >= maxHops) return;
+    for (const edge of adjacency.get(node) ?? []) {
+      const next = tokenKey(edge.to);
+      if (visited.has(next) || path.some((e) => e.pool.address.toLowerCase() === edge.pool.address.toLowerCase())) continue;
+      visited.add(next);
+      path.push(edge);
+      walk(next, path, visited);
+      path.pop();
+      visited.delete(next);
+    }
+  };
+  walk(tokenKey(tokenIn), [], new Set([tokenKey(tokenIn)]));
+  return paths;
+}
+
+function simulatePath(path: Edge[], states: Map<string, PoolState>, amountIn: bigint): PathSim {
+  let amount = amountIn;
+  let spot = amountIn;
+  let complete = true;
+  const hops: RouteHop[] = [];
+  for (const edge of path) {
+    const state = states.get(edge.pool.address.toLowerCase())!;
+    const r = simulateSwap(state, edge.zeroForOne, amount);
+    spot = spotAmountOut(state, edge.zeroForOne, spot);
+    complete &&= r.complete;
+    hops.push({
+      pool: edge.pool.address,
+      venue: edge.pool.venue,
+      tokenIn: edge.from.address,
+      tokenOut: edge.to.address,
+      amountIn: amount.toString(),
+      amountOut: r.amountOut.toString(),
+    });
+    amount = r.amountOut;
+  }
+  return { amountOut: amount, spotOut: spot, hops, complete };
+}
+
+function sharesPool(a: Edge[], b: Edge[]): boolean {
+  const pools = new Set(a.map((e) => e.pool.address.toLowerCase()));
+  return b.some((e) => pools.has(e.pool.address.toLowerCase()));
+}
+
+/**
+ * Greedy split: hand out amountIn in splitSteps chunks, each to the path with the best marginal output.
+ * Only pool-disjoint paths are combined, since each path is simulated against untouched pool state.
+ */
+function splitAcross(paths: Edge[][], states: Map<string, PoolState>, amountIn: bigint, strategy: RouteStrategy): Map<number, bigint> {
+  const alloc = new Map<number, bigint>();
+  const outputs = new Map<number, bigint>();
+  const steps = BigInt(Math.max(1, strategy.splitSteps));
+  const chunk = amountIn / steps;
+  for (let step = 0n; step < steps; step++) {
+    const size = step === steps - 1n ? amountIn - chunk * (steps - 1n) : chunk;
+    let bestIdx = -1, bestGain = -1n;
+    paths.forEach((path, i) => {
+      const used = alloc.has(i);
+      if (!used) {
+        if (alloc.size >= strategy.maxPaths) return;
+        if (Array.from(alloc.keys()).some((j) => sharesPool(paths[j], path))) return;
+      }
+      const current = outputs.get(i) ?? 0n;
+      const sim = simulatePath(path, states, (alloc.get(i) ?? 0n) + size);
+      if (!sim.complete) return;
+      const gain = sim.amountOut - current;
+      if (gain > bestGain) { bestGain = gain; bestIdx = i; }
+    });
+    if (bestIdx < 0) break;
+    const next = (alloc.get(bestIdx) ?? 0n) + size;
+    alloc.set(bestIdx, next);
+    outputs.set(bestIdx, simulatePath(paths[bestIdx], states, next).amountOut);
+  }
+  return alloc;
+}
+
+/**
+ * Search the pool graph for the best way to swap amountIn (human units) of tokenIn into tokenOut.
+ * Returns null when the pair is not reachable within the strategy's hop limit or pools fail to load.
+ */
+export async function findRoute(
+  provider: JsonRpcProvider,
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: string,
+  strategy: RouteStrategy,
+  chainId = defaultChainId(),
+): Promise<RoutePlan | null> {
+  const pools = getPools(chainId);
+  const refIn = findTokenRef(pools, tokenIn);
+  const refOut = findTokenRef(pools, tokenOut);
+  if (!refIn || !refOut || tokenKey(refIn) === tokenKey(refOut)) return null;
+
+  // Load every pool touched by a candidate path once; paths through pools that fail are dropped
+  const touched = new Map<string, PoolConfig>();
+  for (const path of enumeratePaths(pools, refIn, refOut, strategy.maxHops)) {
+    for (const e of path) touched.set(e.pool.address.toLowerCase(), e.pool);
+  }
+  const states = new Map<string, PoolState>();
+  await Promise.all(Array.from(touched.entries()).map(async ([key, pool]) => {
+    try {
+      states.set(key, await fetchPoolState(provider, pool));
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.warn(`[routing] ${pool.venue} ${pool.address} state load failed: ${msg}`);
+    }
+  }));
+
+  return planRoute(pools, states, tokenIn, tokenOut, amountIn, strategy);
+}
+
+/**
+ * Route search over already-loaded pool state (keyed by lowercased pool address).
+ */
+export function planRoute(
+  pools: PoolConfig[],
+  states: Map<string, PoolState>,
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: string,
+  strategy: RouteStrategy,
+): RoutePlan | null {
+  const refIn = findTokenRef(pools, tokenIn);
+  const refOut = findTokenRef(pools, tokenOut);
+  if (!refIn || !refOut || tokenKey(refIn) === tokenKey(refOut)) return null;
+
+  const paths = enumeratePaths(pools, refIn, refOut, strategy.maxHops)
+    .filter((path) => path.every((e) => states.has(e.pool.address.toLowerCase())));
+  if (paths.length === 0) return null;
+
+  const raw = parseUnits(amountIn, refIn.decimals);
+
+  // Rank by full-size output, keep the strongest few as split candidates
+  const ranked = paths
+    .map((path) => ({ path, sim: simulatePath(path, states, raw) }))
+    .filter((x) => x.sim.complete)
+    .sort((a, b) => (b.sim.amountOut > a.sim.amountOut ? 1 : b.sim.amountOut < a.sim.amountOut ? -1 : 0));
+  if (ranked.length === 0) return null;
+
+  let allocation: { path: Edge[]; amountIn: bigint }[] = [{ path: ranked[0].path, amountIn: raw }];
+  let totalOut = ranked[0].sim.amountOut;
+
+  if (strategy.maxPaths > 1 && ranked.length > 1) {
+    const shortlist = ranked.slice(0, strategy.maxPaths * 2).map((x) => x.path);
+    const split = splitAcross(shortlist, states, raw, strategy);
+    const splitOut = Array.from(split.entries()).reduce((sum, [i, amt]) => sum + simulatePath(shortlist[i], states, amt).amountOut, 0n);
+    const splitTotal = Array.from(split.values()).reduce((a, b) => a + b, 0n);
+    if (splitTotal === raw && splitOut * 10_000n > totalOut * (10_000n + MIN_SPLIT_GAIN_BPS)) {
+      allocation = Array.from(split.entries()).map(([i, amt]) => ({ path: shortlist[i], amountIn: amt }));
+      totalOut = splitOut;
+    }
+  }
+
+  let spotOut = 0n;
+  const routePaths: RoutePath[] = allocation.map(({ path, amountIn: amt }) => {
+    const sim = simulatePath(path, states, amt);
+    spotOut += sim.spotOut;
+    return {
+      shareBps: Number((amt * 10_000n) / raw),
+      amountIn: amt.toString(),
+      amountOut: sim.amountOut.toString(),
+      hops: sim.hops,
+    };
+  });
+
+  return {
+    tokenIn: refIn,
+    tokenOut: refOut,
+    amountIn: raw.toString(),
+    amountOut: totalOut.toString(),
+    spotOut: spotOut.toString(),
+    priceImpactBps: impactBps(totalOut, spotOut),
+    paths: routePaths,
+  };
+}
+
+/** Compact human-readable labels for a plan, e.g. ["60% uniswap-v3 WETH>USDC", "40% uniswap-v2 WETH>USDC"]. */
+export function describeRoute(plan: RoutePlan, chainId = defaultChainId()): string[] {
+  const symbols = new Map<string, string>();
+  for (const p of getPools(chainId)) {
+    symbols.set(p.token0.address.toLowerCase(), p.token0.symbol);
+    symbols.set(p.token1.address.toLowerCase(), p.token1.symbol);
+  }
+  const sym = (a: string) => symbols.get(a.toLowerCase()) ?? a.slice(0, 8);
+  return plan.paths.map((path) => {
+    const tokens = [path.hops[0].tokenIn, ...path.hops.map((h) => h.tokenOut)].map(sym).join(">");
+    const venues = Array.from(new Set(path.hops.map((h) => h.venue))).join("+");
+    const share = plan.paths.length > 1 ? `${(path.shareBps / 100).toFixed(0)}% ` : "";
+    return `${share}${venues} ${tokens}`;
+  });
+}
@@ -0,0 +1,25 @@
+// rpc.ts - Shared JSON-RPC providers for onchain reads (pool state, gas, events), one per endpoint
+// RPC_URL points at Base, a Hardhat/anvil fork, or any EVM node; unset means onchain features are off. Other chains use RPC_URL_<chainId>.
+
+import { JsonRpcProvider } from "ethers";
+import { chainRpcUrl } from "./chains.js";
+
+const providers = new Map<string, JsonRpcProvider>();
+
+/**
+ * Return the provider for RPC_URL (or an explicit url), or null when none is configured.
+ */
+export function getRpcProvider(url = process.env.RPC_URL): JsonRpcProvider | null {
+  if (!url) return null;
+  let provider = providers.get(url);
+  if (!provider) {
+    provider = new JsonRpcProvider(url, undefined, { staticNetwork: true });
+    providers.set(url, provider);
+  }
+  return provider;
+}
+
+/** Provider for a registered chain (see chainRpcUrl), or null when that chain has no endpoint. */
+export function getChainProvider(chainId: number): JsonRpcProvider | null {
+  return getRpcProvider(chainRpcUrl(chainId));
+}
@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { AbiCoder, Interface, Signature, Wallet, concat, id, keccak256 } from "ethers";
+import {
+  INTENT_TYPES,
+  IntentDomain,
+  PermitReader,
+  SignedIntentMessage,
+  buildIntentTypedData,
+  hashSignedIntent,
+  intentDomain,
+  listSignedIntents,
+  recoverIntentSigner,
+  submitSignedIntent,
+  toFillArgs,
+} from "./signedIntents.js";
+import { app } from "./app.js";
+
+const ROUTER = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const domain: IntentDomain = intentDomain({ chainId: 31337, verifyingContract: ROUTER });
+const user = Wallet.createRandom();
+let nextNonce = 1;
+
+function message(overrides: Partial<SignedIntentMessage> = {}): SignedIntentMessage {
+  return {
+    user: user.address,
+    tokenIn: "0x4200000000000000000000000000000000000006",
+    tokenOut: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+    amountIn: "1000000000000000000",
+    minAmountOut: "3000000000",
+    maxSlippageBps: 100,
+    maxGasWei: "50000000000000",
+    deadline: Math.floor(Date.now() / 1000) + 600,
+    nonce: String(nextNonce++),
+    ...overrides,
+  };
+}
+
+const sign = (m: SignedIntentMessage, wallet = user) => wallet.signTypedData(domain, INTENT_TYPES, m);
+
+describe("signed intent typed data", () => {
+  it("builds a wallet payload whose signature recovers the user", async () => {
+    const m = message();
+    const typed = buildIntentTypedData(m, domain);
+    expect(typed.primaryType).toBe("Intent");
+    expect(typed.types.EIP712Domain.map((f) => f.name)).toEqual(["name", "version", "chainId", "verifyingContract"]);
+    expect(recoverIntentSigner(m, await sign(m), domain)).toBe(user.address);
+    expect(hashSignedIntent(m, domain)).toMatch(/^0x[0-9a-f]{64}$/);
+  });
+
+  it("binds the signature to chain and router", async () => {
+    const m = message();
+    const sig = await sign(m);
+    const otherChain = intentDomain({ chainId: 8453, verifyingContract: ROUTER });
+    expect(recoverIntentSigner(m, sig, otherChain)).not.toBe(user.address);
+  });
+});
+
+describe("submitSignedIntent", () => {
+  it("pools a valid intent and converts its permit into contract arguments", async () => {
+    const m = message();
+    const permitSig = Signature.from(await user.signMessage("permit")).serialized;
+    const rec = await submitSignedIntent({ intent: m, signature: await sign(m), permit: { kind: "erc2612", deadline: m.deadline, signature: permitSig } }, domain);
+    expect(rec.intentHash).toBe(hashSignedIntent(m, domain));
+    expect(listSignedIntents({ user: user.address }).map((r) => r.intentHash)).toContain(rec.intentHash);
+
+    const args = toFillArgs(rec);
+    expect(args.permitData.kind).toBe(1);
+    expect(args.permitData.r).toBe(Signature.from(permitSig).r);
+  });
+
+  it("rejects wrong signers, expired deadlines and reused nonces", async () => {
+    const m = message();
+    await expect(submitSignedIntent({ intent: m, signature: await sign(m, Wallet.createRandom()) }, domain))
+      .rejects.toMatchObject({ code: "BAD_SIGNATURE" });
+
+    const expired = message({ deadline: Math.floor(Date.now() / 1000) - 1 });
+    await expect(submitSignedIntent({ intent: expired, signature: await sign(expired) }, domain))
+      .rejects.toMatchObject({ code: "EXPIRED" });
+
+    await submitSignedIntent({ intent: m, signature: await sign(m) }, domain);
+    const replay = { ...m, minAmountOut: "1" };
+    await expect(submitSignedIntent({ intent: replay, signature: await sign(replay) }, domain))
+      .rejects.toMatchObject({ code: "NONCE_USED" });
+  });
+
+  it("caps each user's pooled intents and their deadlines, and evicts the nearest deadline when full", async () => {
+    const env = { ...process.env };
+    Object.assign(process.env, { MAX_SIGNED_INTENTS: String(listSignedIntents().length + 3), MAX_SIGNED_INTENTS_PER_USER: "2", MAX_SIGNED_INTENT_TTL_SEC: "3600" });
+    try {
+      const now = Math.floor(Date.now() / 1000);
+      const submitAs = async (wallet: typeof user, deadline: number) => {
+        const m = message({ user: wallet.address, deadline });
+        return submitSignedIntent({ intent: m, signature: await sign(m, wallet) }, domain);
+      };
+      const [alice, bob] = [Wallet.createRandom(), Wallet.createRandom()];
+      await expect(submitAs(alice, now + 3601)).rejects.toMatchObject({ code: "INVALID_INTENT" });
+      const soonest = await submitAs(alice, now + 300);
+      await submitAs(alice, now + 3600);
+      await expect(submitAs(alice, now + 600)).rejects.toMatchObject({ code: "TOO_MANY_INTENTS" });
+
+      await submitAs(bob, now + 900);
+      const pooled = listSignedIntents().length;
+      await submitAs(bob, now + 1200); // the pool is full: alice's nearest deadline makes room
+      expect(listSignedIntents()).toHaveLength(pooled);
+      expect(listSignedIntents().map((r) => r.intentHash)).not.toContain(soonest.intentHash);
+    } finally {
+      process.env = env;
+    }
+  });
+
+  it("accepts only permits for the intent's tokenIn, amountIn and router that outlive the intent", async () => {
+    const SEPARATOR = id("tokenIn permit domain");
+    const PERMIT2 = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+    const reads = new Interface([
+      "function DOMAIN_SEPARATOR() view returns (bytes32)",
+      "function nonces(address owner) view returns (uint256)",
+      "function permit2() view returns (address)",
+    ]);
+    const reader: PermitReader = {
+      call: async ({ data }) => {
+        const tx = reads.parseTransaction({ data: data as string })!;
+        const value = { DOMAIN_SEPARATOR: SEPARATOR, nonces: 0n, permit2: PERMIT2 }[tx.name];
+        return reads.encodeFunctionResult(tx.name, [value]);
+      },
+    };
+    const erc2612 = (m: SignedIntentMessage, value: string, deadline = m.deadline) => {
+      const structHash = keccak256(AbiCoder.defaultAbiCoder().encode(
+        ["bytes32", "address", "address", "uint256", "uint256", "uint256"],
+        [id("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)"), m.user, ROUTER, value, 0n, deadline],
+      ));
+      return { kind: "erc2612", deadline, signature: user.signingKey.sign(keccak256(concat(["0x1901", SEPARATOR, structHash]))).serialized };
+    };
+    const permit2 = async (m: SignedIntentMessage, token: string) => ({
+      kind: "permit2", deadline: m.deadline, nonce: "7",
+      signature: await user.signTypedData({ name: "Permit2", chainId: 31337, verifyingContract: PERMIT2 }, {
+        PermitTransferFrom: [
+          { name: "permitted", type: "TokenPermissions" }, { name: "spender", type: "address" },
+          { name: "nonce", type: "uint256" }, { name: "deadline", type: "uint256" },
+        ],
+        TokenPermissions: [{ name: "token", type: "address" }, { name: "amount", type: "uint256" }],
+      }, { permitted: { token, amount: m.amountIn }, spender: ROUTER, nonce: "7", deadline: m.deadline }),
+    });
+    const submit = async (m: SignedIntentMessage, permit: unknown) => submitSignedIntent({ intent: m, signature: await sign(m), permit }, domain, reader);
+
+    const ok = message();
+    await expect(submit(ok, erc2612(ok, ok.amountIn))).resolves.toMatchObject({ permit: { kind: "erc2612" } });
+    const viaPermit2 = message();
+    await expect(submit(viaPermit2, await permit2(viaPermit2, viaPermit2.tokenIn))).resolves.toMatchObject({ permit: { kind: "permit2" } });
+
+    const short = message();
+    await expect(submit(short, erc2612(short, short.amountIn, short.deadline - 1))).rejects.toMatchObject({ code: "INVALID_PERMIT" });
+    const wrongAmount = message();
+    await expect(submit(wrongAmount, erc2612(wrongAmount, "1"))).rejects.toMatchObject({ code: "INVALID_PERMIT" });
+    const wrongToken = message();
+    await expect(submit(wrongToken, await permit2(wrongToken, wrongToken.tokenOut))).rejects.toMatchObject({ code: "INVALID_PERMIT" });
+  });
+
+  it("rejects human-unit amounts", async () => {
+    const m = { ...message(), amountIn: "1.5" };
+    await expect(submitSignedIntent({ intent: m, signature: "0x" }, domain)).rejects.toMatchObject({ code: "INVALID_INTENT" });
+  });
+});
+
+describe("/signed-intents", () => {
+  let server: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    process.env.CHAIN_ID = "31337";
+    process.env.INTENT_ROUTER_ADDRESS = ROUTER;
+    server = app.listen(0);
+    await new Promise((r) => server.once("listening", r));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    delete process.env.CHAIN_ID;
+    delete process.env.INTENT_ROUTER_ADDRESS;
+    return new Promise<void>((r) => server.close(() => r()));
+  });
+
+  it("serves typed data, accepts the signed intent and lists it", async () => {
+    const m = message();
+    const typed = await (await fetch(`${base}/signed-intents/typed-data`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ intent: m }),
+    })).json() as any;
+    expect(typed.domain).toEqual(domain);
+
+    const signature = await user.signTypedData(typed.domain, INTENT_TYPES, typed.message);
+    const res = await fetch(`${base}/signed-intents`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ intent: m, signature }),
+    });
+    const rec = await res.json() as any;
+    expect(res.status).toBe(201);
+
+    const got = await fetch(`${base}/signed-intents/${rec.intentHash}`);
+    expect(got.status).toBe(200);
+    expect(((await got.json()) as any).intent.nonce).toBe(m.nonce);
+    expect((await fetch(`${base}/signed-intents/0x${"0".repeat(64)}`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,376 @@
+// signedIntents.ts - EIP-712 typed data for gasless intents submitted through IntentRouter.fillSignedIntent
+// Users sign once offchain; solvers pick signed intents from this pool and pay gas to create + fill them.
+
+import {
+  AbiCoder, Contract, Interface, JsonRpcProvider, Signature, TypedDataEncoder, concat, getAddress, id, isAddress, isError, keccak256,
+  recoverAddress, verifyTypedData,
+} from "ethers";
+import { chainRouterAddress, getChain } from "./chains.js";
+import { getChainProvider, getRpcProvider } from "./rpc.js";
+
+// Mirrors IntentRouter.SignedIntent; uint256 fields are base-unit decimal strings
+export type SignedIntentMessage = {
+  user: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  minAmountOut: string;
+  maxSlippageBps: number;
+  maxGasWei: string;
+  deadline: number; // unix seconds
+  nonce: string;
+};
+
+// How the router pulls tokenIn: existing allowance, ERC-2612 permit, or Permit2 SignatureTransfer
+export type PermitInput =
+  | { kind: "none" }
+  | { kind: "erc2612"; deadline: number; signature: string }
+  | { kind: "permit2"; deadline: number; nonce: string; signature: string };
+
+// Reads a permit check needs: the token's ERC-2612 domain and nonce, the router's Permit2
+export type PermitReader = Pick<JsonRpcProvider, "call">;
+
+export type IntentDomain = { name: "IntentRouter"; version: "1"; chainId: number; verifyingContract: string };
+
+export type SignedIntentRecord = {
+  intentHash: string;
+  intent: SignedIntentMessage;
+  signature: string;
+  permit: PermitInput;
+  chainId: number;
+  verifyingContract: string;
+  receivedAt: number;
+};
+
+export type SignedIntentErrorCode = "INVALID_INTENT" | "INVALID_PERMIT" | "BAD_SIGNATURE" | "EXPIRED" | "NONCE_USED" | "TOO_MANY_INTENTS" | "ROUTER_NOT_CONFIGURED" | "UNSUPPORTED_CHAIN";
+
+export class SignedIntentError extends Error {
+  constructor(public code: SignedIntentErrorCode, message: string) {
+    super(message);
+    this.name = "SignedIntentError";
+  }
+}
+
+export const INTENT_TYPES = {
+  Intent: [
+    { name: "user", type: "address" },
+    { name: "tokenIn", type: "address" },
+    { name: "tokenOut", type: "address" },
+    { name: "amountIn", type: "uint256" },
+    { name: "minAmountOut", type: "uint256" },
+    { name: "maxSlippageBps", type: "uint256" },
+    { name: "maxGasWei", type: "uint256" },
+    { name: "deadline", type: "uint64" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+const EIP712_DOMAIN_TYPE = [
+  { name: "name", type: "string" },
+  { name: "version", type: "string" },
+  { name: "chainId", type: "uint256" },
+  { name: "verifyingContract", type: "address" },
+];
+
+// Uniswap Permit2 SignatureTransfer; spender is the router, which pulls exactly the intent's tokenIn and amountIn
+const PERMIT2_TYPES = {
+  PermitTransferFrom: [
+    { name: "permitted", type: "TokenPermissions" },
+    { name: "spender", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  TokenPermissions: [
+    { name: "token", type: "address" },
+    { name: "amount", type: "uint256" },
+  ],
+};
+const ERC2612_PERMIT_TYPEHASH = id("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)");
+const permitReads = new Interface([
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function nonces(address owner) view returns (uint256)",
+  "function permit2() view returns (address)",
+]);
+
+const PERMIT_KIND = { none: 0, erc2612: 1, permit2: 2 } as const;
+
+const pool = new Map<string, SignedIntentRecord>();
+
+/**
+ * EIP-712 domain of the deployed router. Defaults come from CHAIN_ID and INTENT_ROUTER_ADDRESS.
+ */
+export function intentDomain(opts: { chainId?: number; verifyingContract?: string } = {}): IntentDomain {
+  const chainId = opts.chainId ?? Number(process.env.CHAIN_ID || 84532);
+  const verifyingContract = opts.verifyingContract ?? process.env.INTENT_ROUTER_ADDRESS;
+  if (!verifyingContract || !isAddress(verifyingContract)) {
+    throw new SignedIntentError("ROUTER_NOT_CONFIGURED", "INTENT_ROUTER_ADDRESS is not set");
+  }
+  return { name: "IntentRouter", version: "1", chainId, verifyingContract: getAddress(verifyingContract) };
+}
+
+/** Domain of the router deployed on a registered chain (INTENT_ROUTER_ADDRESS_<chainId> or the chain registry). */
+export function chainIntentDomain(chainId: number): IntentDomain {
+  if (!getChain(chainId)) throw new SignedIntentError("UNSUPPORTED_CHAIN", `chain ${chainId} is not registered`);
+  const verifyingContract = chainRouterAddress(chainId);
+  if (!verifyingContract || !isAddress(verifyingContract)) {
+    throw new SignedIntentError("ROUTER_NOT_CONFIGURED", `no IntentRouter configured for chain ${chainId}`);
+  }
+  return intentDomain({ chainId, verifyingContract });
+}
+
+/** Check field shapes; amounts must be positive base-unit integers. */
+export function validateSignedIntent(value: unknown): SignedIntentMessage {
+  const v = value as Record<string, unknown> | null;
+  const uint = (x: unknown) => typeof x === "string" && /^\d{1,78}$/.test(x);
+  if (
+    !v || typeof v !== "object" ||
+    typeof v.user !== "string" || !isAddress(v.user) ||
+    typeof v.tokenIn !== "string" || !isAddress(v.tokenIn) ||
+    typeof v.tokenOut !== "string" || !isAddress(v.tokenOut) ||
+    !uint(v.amountIn) || BigInt(v.amountIn as string) === 0n ||
+    !uint(v.minAmountOut) || BigInt(v.minAmountOut as string) === 0n ||
+    typeof v.maxSlippageBps !== "number" || !Number.isInteger(v.maxSlippageBps) || v.maxSlippageBps < 0 || v.maxSlippageBps > 10_000 ||
+    !uint(v.maxGasWei) ||
+    typeof v.deadline !== "number" || !Number.isInteger(v.deadline) || v.deadline <= 0 ||
+    !uint(v.nonce)
+  ) {
+    throw new SignedIntentError("INVALID_INTENT", "intent must use addresses and base-unit integer amounts");
+  }
+  return {
+    user: getAddress(v.user),
+    tokenIn: getAddress(v.tokenIn),
+    tokenOut: getAddress(v.tokenOut),
+    amountIn: v.amountIn as string,
+    minAmountOut: v.minAmountOut as string,
+    maxSlippageBps: v.maxSlippageBps,
+    maxGasWei: v.maxGasWei as string,
+    deadline: v.deadline,
+    nonce: v.nonce as string,
+  };
+}
+
+function validatePermit(value: unknown): PermitInput {
+  if (value === undefined) return { kind: "none" };
+  const p = value as Record<string, unknown> | null;
+  const sig = (x: unknown) => typeof x === "string" && /^0x[0-9a-fA-F]*$/.test(x);
+  if (p?.kind === "none") return { kind: "none" };
+  if (p?.kind === "erc2612" && typeof p.deadline === "number" && sig(p.signature)) {
+    return { kind: "erc2612", deadline: p.deadline, signature: p.signature as string };
+  }
+  if (p?.kind === "permit2" && typeof p.deadline === "number" && typeof p.nonce === "string" && /^\d+$/.test(p.nonce) && sig(p.signature)) {
+    return { kind: "permit2", deadline: p.deadline, nonce: p.nonce, signature: p.signature as string };
+  }
+  throw new SignedIntentError("INVALID_PERMIT", "permit must be none, erc2612 {deadline, signature} or permit2 {deadline, nonce, signature}");
+}
+
+async function readPermit(reader: PermitReader, to: string, fn: string, args: unknown[] = []) {
+  const data = await reader.call({ to, data: permitReads.encodeFunctionData(fn, args) });
+  return permitReads.decodeFunctionResult(fn, data)[0];
+}
+
+// Address the permit was signed by, for the router pulling the intent's tokenIn and amountIn
+async function permitSigner(permit: Exclude<PermitInput, { kind: "none" }>, intent: SignedIntentMessage, domain: IntentDomain, reader: PermitReader): Promise<string> {
+  const spender = domain.verifyingContract;
+  if (permit.kind === "erc2612") {
+    const [separator, nonce] = await Promise.all([
+      readPermit(reader, intent.tokenIn, "DOMAIN_SEPARATOR"),
+      readPermit(reader, intent.tokenIn, "nonces", [intent.user]),
+    ]);
+    const structHash = keccak256(AbiCoder.defaultAbiCoder().encode(
+      ["bytes32", "address", "address", "uint256", "uint256", "uint256"],
+      [ERC2612_PERMIT_TYPEHASH, intent.user, spender, intent.amountIn, nonce, permit.deadline],
+    ));
+    return recoverAddress(keccak256(concat(["0x1901", separator, structHash])), permit.signature);
+  }
+  const permit2: string = await readPermit(reader, spender, "permit2");
+  if (BigInt(permit2) === 0n) throw new SignedIntentError("INVALID_PERMIT", "the router has no Permit2 configured");
+  return verifyTypedData(
+    { name: "Permit2", chainId: domain.chainId, verifyingContract: permit2 },
+    PERMIT2_TYPES,
+    { permitted: { token: intent.tokenIn, amount: intent.amountIn }, spender, nonce: permit.nonce, deadline: permit.deadline },
+    permit.signature,
+  );
+}
+
+/**
+ * Check a permit lets the router pull exactly the intent's tokenIn and amountIn from the user, for at least as long
+ * as the intent is open. The signature check reads the chain (the token's permit domain, the router's Permit2);
+ * without an endpoint, or if those reads fail in transit, only the deadline is checked.
+ */
+async function checkPermit(permit: PermitInput, intent: SignedIntentMessage, domain: IntentDomain, reader: PermitReader | null): Promise<void> {
+  if (permit.kind === "none") return;
+  if (permit.deadline < intent.deadline) throw new SignedIntentError("INVALID_PERMIT", "permit expires before the intent");
+  if (!reader) return;
+  let signer: string;
+  try {
+    signer = await permitSigner(permit, intent, domain, reader);
+  } catch (err: unknown) {
+    if (err instanceof SignedIntentError) throw err;
+    if (isError(err, "CALL_EXCEPTION") || isError(err, "BAD_DATA")) {
+      throw new SignedIntentError("INVALID_PERMIT", permit.kind === "erc2612" ? "tokenIn does not support ERC-2612 permits" : "the router has no Permit2");
+    }
+    if (isError(err, "INVALID_ARGUMENT")) throw new SignedIntentError("INVALID_PERMIT", "permit signature could not be decoded");
+    const msg = err instanceof Error ? err.message : String(err);
+    console.warn(`[signedIntents] permit check failed: ${msg}`);
+    return;
+  }
+  if (signer !== intent.user) {
+    throw new SignedIntentError("INVALID_PERMIT", `permit signed by ${signer} does not cover ${intent.amountIn} of ${intent.tokenIn} for ${intent.user}`);
+  }
+}
+
+/**
+ * Payload for eth_signTypedData_v4 (EIP712Domain included, as wallets expect).
+ */
+export function buildIntentTypedData(intent: SignedIntentMessage, domain: IntentDomain = intentDomain()) {
+  return {
+    types: { EIP712Domain: EIP712_DOMAIN_TYPE, ...INTENT_TYPES },
+    primaryType: "Intent" as const,
+    domain,
+    message: intent,
+  };
+}
+
+/** Digest the user signs; equals IntentRouter.hashIntent on the same chain and router. */
+export function hashSignedIntent(intent: SignedIntentMessage, domain: IntentDomain = intentDomain()): string {
+  return TypedDataEncoder.hash(domain, INTENT_TYPES, intent);
+}
+
+export function recoverIntentSigner(intent: SignedIntentMessage, signature: string, domain: IntentDomain = intentDomain()): string {
+  try {
+    return verifyTypedData(domain, INTENT_TYPES, intent, signature);
+  } catch {
+    throw new SignedIntentError("BAD_SIGNATURE", "signature could not be decoded");
+  }
+}
+
+async function nonceUsedOnchain(domain: IntentDomain, user: string, nonce: string): Promise<boolean> {
+  // Chains without their own endpoint keep reading RPC_URL, as the CHAIN_ID default domain always has
+  const provider = getChainProvider(domain.chainId) ?? getRpcProvider();
+  if (!provider) return false;
+  const router = new Contract(domain.verifyingContract, ["function usedNonces(address,uint256) view returns (bool)"], provider);
+  try {
+    return await router.usedNonces(user, nonce);
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.warn(`[signedIntents] nonce lookup failed: ${msg}`);
+    return false;
+  }
+}
+
+// Read per submission so operators (and tests) can retune the pool without a restart
+function poolLimits() {
+  return {
+    total: Number(process.env.MAX_SIGNED_INTENTS || 1000),
+    perUser: Number(process.env.MAX_SIGNED_INTENTS_PER_USER || 20),
+    maxTtlSec: Number(process.env.MAX_SIGNED_INTENT_TTL_SEC || 7 * 24 * 3600),
+  };
+}
+
+function prune(now: number): void {
+  for (const [hash, rec] of pool) {
+    if (rec.intent.deadline <= now) pool.delete(hash);
+  }
+}
+
+function evictNearestDeadline(): void {
+  let nearest: SignedIntentRecord | null = null;
+  for (const rec of pool.values()) {
+    if (!nearest || rec.intent.deadline < nearest.intent.deadline) nearest = rec;
+  }
+  if (!nearest) return;
+  pool.delete(nearest.intentHash);
+  console.warn(`[signedIntents] pool full: evicted ${nearest.intentHash} (deadline ${nearest.intent.deadline})`);
+}
+
+/**
+ * Verify a signed intent (and its permit) and add it to the pool solvers read from. Each user may pool
+ * MAX_SIGNED_INTENTS_PER_USER intents with deadlines up to MAX_SIGNED_INTENT_TTL_SEC ahead.
+ */
+export async function submitSignedIntent(
+  input: { intent: unknown; signature: unknown; permit?: unknown },
+  domain: IntentDomain = intentDomain(),
+  reader: PermitReader | null = getChainProvider(domain.chainId) ?? getRpcProvider(),
+): Promise<SignedIntentRecord> {
+  const intent = validateSignedIntent(input.intent);
+  const permit = validatePermit(input.permit);
+  if (typeof input.signature !== "string") throw new SignedIntentError("BAD_SIGNATURE", "signature is required");
+
+  const now = Math.floor(Date.now() / 1000);
+  const limits = poolLimits();
+  if (intent.deadline <= now) throw new SignedIntentError("EXPIRED", "intent deadline has passed");
+  if (intent.deadline > now + limits.maxTtlSec) {
+    throw new SignedIntentError("INVALID_INTENT", `deadline may be at most ${limits.maxTtlSec}s ahead`);
+  }
+
+  const signer = recoverIntentSigner(intent, input.signature, domain);
+  if (signer !== intent.user) throw new SignedIntentError("BAD_SIGNATURE", `intent signed by ${signer}, expected ${intent.user}`);
+  await checkPermit(permit, intent, domain, reader);
+
+  prune(now);
+  const taken = Array.from(pool.values()).some((r) => r.intent.user === intent.user && r.intent.nonce === intent.nonce && r.chainId === domain.chainId);
+  if (taken || await nonceUsedOnchain(domain, intent.user, intent.nonce)) {
+    throw new SignedIntentError("NONCE_USED", `nonce ${intent.nonce} already used by ${intent.user}`);
+  }
+  const pooled = Array.from(pool.values()).filter((r) => r.intent.user === intent.user).length;
+  if (pooled >= limits.perUser) {
+    throw new SignedIntentError("TOO_MANY_INTENTS", `${intent.user} already has ${pooled} pooled intents (max ${limits.perUser})`);
+  }
+  // A full pool drops the intents closest to expiry rather than turning new users away
+  while (pool.size >= limits.total && pool.size > 0) evictNearestDeadline();
+
+  const record: SignedIntentRecord = {
+    intentHash: hashSignedIntent(intent, domain),
+    intent,
+    signature: input.signature,
+    permit,
+    chainId: domain.chainId,
+    verifyingContract: domain.verifyingContract,
+    receivedAt: Date.now(),
+  };
+  pool.set(record.intentHash, record);
+  return record;
+}
+
+export function getSignedIntent(intentHash: string): SignedIntentRecord | undefined {
+  return pool.get(intentHash.toLowerCase());
+}
+
+/** Unexpired signed intents, newest first, optionally for one user. */
+export function listSignedIntents(filter: { user?: string } = {}): SignedIntentRecord[] {
+  prune(Math.floor(Date.now() / 1000));
+  const user = filter.user && isAddress(filter.user) ? getAddress(filter.user) : undefined;
+  return Array.from(pool.values())
+    .filter((r) => !user || r.intent.user === user)
+    .sort((a, b) => b.receivedAt - a.receivedAt);
+}
+
+/**
+ * Drop the pooled intents of `router` that an onchain nonce use retired: fillSignedIntent (SignedIntentFilled)
+ * or invalidateNonce (NonceInvalidated). Returns how many were removed.
+ */
+export function removeSignedIntentsByNonce(router: string, user: string, nonce: string): number {
+  const [verifyingContract, owner] = [getAddress(router), getAddress(user)];
+  let removed = 0;
+  for (const [hash, rec] of pool) {
+    if (rec.verifyingContract !== verifyingContract || rec.intent.user !== owner || rec.intent.nonce !== nonce) continue;
+    pool.delete(hash);
+    removed++;
+  }
+  return removed;
+}
+
+/**
+ * Arguments for IntentRouter.fillSignedIntent(intent, signature, permitData, ...) from a pooled record.
+ */
+export function toFillArgs(record: SignedIntentRecord) {
+  const { permit } = record;
+  const permitData = { kind: PERMIT_KIND[permit.kind], deadline: 0, v: 0, r: `0x${"0".repeat(64)}`, s: `0x${"0".repeat(64)}`, nonce: "0", signature: "0x" };
+  if (permit.kind === "erc2612") {
+    const sig = Signature.from(permit.signature);
+    Object.assign(permitData, { deadline: permit.deadline, v: sig.v, r: sig.r, s: sig.s });
+  } else if (permit.kind === "permit2") {
+    Object.assign(permitData, { deadline: permit.deadline, nonce: permit.nonce, signature: permit.signature });
+  }
+  return { intent: record.intent, signature: record.signature, permitData };
+}
@@ -1,5 +1,8 @@
-import { describe, it, expect } from "vitest";
-import { scoreIntent, IntentInput, SolverQuote } from "./solver.js";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { scoreIntent, IntentInput, SolverQuote, clearPriceCache, applyScoringPolicy, evaluateQuote, getPriceContext } from "./solver.js";
+import { AbiCoder, formatUnits, keccak256 } from "ethers";
+import { QUOTE_TUPLE } from "./quoteCommitment.js";
+import { createFixtureProvider, registerPriceProvider, setPriceProviderOrder, unregisterPriceProvider } from "./priceProviders.js";
 
 const baseIntent: IntentInput = {
   tokenIn: "WETH",
@@ -11,6 +14,19 @@ const baseIntent: IntentInput = {
   deadline: 9999999999,
 };
 
+// Offline, deterministic prices for every test in this file
+beforeAll(() => {
+  registerPriceProvider(createFixtureProvider({ WETH: 3200, USDC: 1 }));
+  setPriceProviderOrder(["fixture"]);
+  clearPriceCache();
+});
+
+afterAll(() => {
+  setPriceProviderOrder(null);
+  unregisterPriceProvider("fixture");
+  clearPriceCache();
+});
+
 describe("scoreIntent", () => {
   it("returns a valid SolverQuote with required fields", async () => {
     const quote = await scoreIntent(baseIntent, "solver-alpha");
@@ -45,6 +61,20 @@ describe("scoreIntent", () => {
     expect(unique.size).toBeGreaterThanOrEqual(2);
   });
 
+  it("explains the score as weighted components and re-weights under another policy", async () => {
+    const quote = await scoreIntent(baseIntent, "solver-alpha");
+    const { policy, weights, components, inputs } = quote.scoreBreakdown;
+    expect(policy).toBe("balanced");
+    expect(weights).toEqual({ price: 0.5, gas: 0.3, confidence: 0.2 });
+    expect(inputs).toMatchObject({ expectedOut: Number(quote.expectedOut), minAmountOut: 1800, maxGasWei: 5e13 });
+    const weighted = (w: typeof weights) => components.price * w.price + components.gas * w.gas + components.confidence * w.confidence;
+    expect(quote.score).toBeCloseTo(weighted(weights), 3);
+
+    const gasOnly = applyScoringPolicy(quote, { name: "custom", weights: { price: 0, gas: 1, confidence: 0 } });
+    expect(gasOnly.score).toBeCloseTo(Math.min(0.99, components.gas), 3);
+    expect(gasOnly.scoreBreakdown).toMatchObject({ policy: "custom", components });
+  });
+
   it("score is bounded between 0 and 1", async () => {
     const quote = await scoreIntent(baseIntent, "solver-alpha");
     expect(quote.score).toBeGreaterThanOrEqual(0);
@@ -90,10 +120,20 @@ describe("scoreIntent", () => {
     expect(typeof quote.impliedSlippageBps).toBe("number");
   });
 
+  it("estimates gas from the profile's route and the chain fees", async () => {
+    const [alpha, beta] = await Promise.all([scoreIntent(baseIntent, "solver-alpha"), scoreIntent(baseIntent, "solver-beta")]);
+    expect(alpha.gasEstimate).toMatchObject({ feeSource: process.env.RPC_URL ? "rpc" : "default", hops: [{ venue: "uniswap-v3" }] });
+    expect(alpha.expectedGasWei).toBe(alpha.gasEstimate!.totalWei);
+    expect(beta.gasEstimate!.gasUnits).toBeGreaterThan(alpha.gasEstimate!.gasUnits);
+    expect(beta.scoreBreakdown.components.gas).toBeLessThan(alpha.scoreBreakdown.components.gas);
+  });
+
   it("uses default profile for unknown solver name", async () => {
     const quote = await scoreIntent(baseIntent, "solver-unknown");
     expect(quote.solver).toBe("solver-unknown");
-    expect(quote.route).toEqual(["GenericAMM"]);
+    // No RPC endpoint or pools in tests: nothing to route through
+    expect(quote.route).toEqual([]);
+    expect(quote.routePlan).toBeNull();
   });
 
   it("execution hash is deterministic within same time bucket", async () => {
@@ -102,11 +142,28 @@ describe("scoreIntent", () => {
     expect(q1.executionHash).toBe(q2.executionHash);
   });
 
+  it("execution hash is the keccak256 ABI encoding of the onchain quote commitment", async () => {
+    process.env.SOLVER_ADDRESSES = "solver-alpha:0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+    try {
+      const quote = await scoreIntent(baseIntent, "solver-alpha");
+      const c = quote.commitment;
+      expect(c.solver).toBe("0x70997970C51812dc3A010C7d01b50e0d17dc79C8");
+      expect(c.tokenIn).toBe("0x4200000000000000000000000000000000000006");
+      expect(c.amountIn).toBe("1000000000000000000");
+      // USDC has 6 decimals: expectedOut "3198.123456" -> 3198123456
+      expect(c.amountOut).toBe(quote.expectedOut.replace(".", ""));
+      expect(c.quotedAt % 30).toBe(0);
+      expect(quote.executionHash).toBe(keccak256(AbiCoder.defaultAbiCoder().encode([QUOTE_TUPLE], [c])));
+    } finally {
+      delete process.env.SOLVER_ADDRESSES;
+    }
+  });
+
   it("price metadata includes valid source and reliability", async () => {
     const quote = await scoreIntent(baseIntent, "solver-alpha");
     const { tokenIn, tokenOut } = quote.priceMeta;
     for (const meta of [tokenIn, tokenOut]) {
-      expect(["coingecko", "dexscreener", "fallback"]).toContain(meta.source);
+      expect(["fixture", "fallback"]).toContain(meta.source);
       expect(typeof meta.timestamp).toBe("number");
       expect(typeof meta.isStale).toBe("boolean");
       expect(meta.reliabilityScore).toBeGreaterThanOrEqual(0);
@@ -115,6 +172,34 @@ describe("scoreIntent", () => {
   });
 });
 
+describe("evaluateQuote base units", () => {
+  const propose = async (intent: IntentInput, amountOut: bigint, expectedGasWei = 10n ** 13n) =>
+    evaluateQuote(intent, "solver-alpha", {
+      label: "Test", amountOut, expectedGasWei, confidence: 0.9, fairOut: 3200, route: [], routePlan: null, onchain: false,
+    }, await getPriceContext(intent));
+
+  it("checks minAmountOut in tokenOut base units and returns raw and human amounts", async () => {
+    const exact = await propose({ ...baseIntent, minAmountOut: "3200.000001" }, 3_200_000_001n);
+    expect(exact.checks.minOutPass).toBe(true);
+    expect(exact.expectedOut).toBe("3200.000001");
+    expect(exact.baseUnits).toEqual({ decimalsIn: 18, decimalsOut: 6, amountIn: "1000000000000000000", expectedOut: "3200000001", minAmountOut: "3200000001" });
+    expect(exact.commitment).toMatchObject({ amountIn: exact.baseUnits.amountIn, amountOut: exact.baseUnits.expectedOut });
+
+    expect((await propose({ ...baseIntent, minAmountOut: "3200.000002" }, 3_200_000_001n)).checks.minOutPass).toBe(false);
+  });
+
+  it("compares gas beyond float precision", async () => {
+    const cap = { ...baseIntent, maxGasWei: "1000000000000000000000" };
+    expect((await propose(cap, 3_200_000_000n, 10n ** 21n)).checks.gasPass).toBe(true);
+    expect((await propose(cap, 3_200_000_000n, 10n ** 21n + 1n)).checks.gasPass).toBe(false);
+  });
+
+  it("formats synthesized quotes with the output token's decimals", async () => {
+    const quote = await scoreIntent(baseIntent, "solver-alpha");
+    expect(formatUnits(quote.baseUnits.expectedOut, 6)).toBe(quote.expectedOut);
+  });
+});
+
 describe("winner selection logic", () => {
   it("danger-only scenario returns no winner", async () => {
     // Simulate the server.ts logic locally
@@ -1,7 +1,16 @@
 // solver.ts - Real token-price solver for the ILM Intent Router
-// Fetches live prices from CoinGecko + DexScreener, caches 30s, per-solver profiles.
-
-import { createHash } from "crypto";
+// Fetches live prices from the registered price providers (CoinGecko + DexScreener by default), caches 30s, per-solver profiles.
+
+import { formatUnits } from "ethers";
+import { TokenRef } from "./amm.js";
+import { cgId, fetchProviderPrices, isContractAddress } from "./priceProviders.js";
+import { RoutePlan, RouteStrategy, describeRoute, findRoute } from "./routing.js";
+import { getChainProvider } from "./rpc.js";
+import { defaultChainId, getChain } from "./chains.js";
+import { GasEstimate, estimateCrossChainGas, estimateRouteGas, getGasFees } from "./gas.js";
+import { CrossChainQuote, bridgeFeeOut, crossChainContracts, estimateBridge } from "./crossChain.js";
+import { floatToBaseUnits, resolveTokenOnchain, toBaseUnits } from "./tokens.js";
+import { QuoteCommitment, buildQuoteCommitment, builtinSolverAddress, hashQuoteCommitment } from "./quoteCommitment.js";
 
 export type IntentInput = {
   tokenIn: string;
@@ -11,29 +20,79 @@ export type IntentInput = {
   maxSlippageBps: number;
   maxGasWei: string;
   deadline: number;
+  chainId?: number; // registered chain (see chains.ts); defaults to DEFAULT_CHAIN_ID
+  destChainId?: number; // chain tokenOut is delivered on; set to a different chain for a cross-chain intent
 };
 
+/** Chain an intent executes on (for a cross-chain intent, where tokenIn is escrowed). */
+export function intentChainId(intent: IntentInput): number {
+  return intent.chainId ?? defaultChainId();
+}
+
+/** Chain tokenOut is delivered on. */
+export function intentDestChainId(intent: IntentInput): number {
+  return intent.destChainId ?? intentChainId(intent);
+}
+
 export type PriceMetadata = {
-  source: "coingecko" | "dexscreener" | "fallback";
+  source: string; // registered price provider id, or "fallback"
   timestamp: number;
   isStale: boolean;
   reliabilityScore: number; // 0-1: 1=live, 0.5=cached, 0.2=fallback
 };
 
+export type ScoringWeights = { price: number; gas: number; confidence: number };
+
+export type ScoringPolicy = { name: string; weights: ScoringWeights };
+
+// Named policies a /compete caller can pick; weights sum to 1
+export const SCORING_PRESETS: Record<string, ScoringWeights> = {
+  balanced: { price: 0.5, gas: 0.3, confidence: 0.2 },
+  "price-first": { price: 0.8, gas: 0.1, confidence: 0.1 },
+  "gas-first": { price: 0.2, gas: 0.7, confidence: 0.1 },
+};
+
+export const DEFAULT_SCORING_POLICY: ScoringPolicy = { name: "balanced", weights: SCORING_PRESETS.balanced };
+
+// Why a quote scored what it did: score = sum of weights[k] * components[k], capped at 0.99
+export type ScoreBreakdown = {
+  policy: string;
+  weights: ScoringWeights;
+  components: { price: number; gas: number; confidence: number }; // each 0-1
+  inputs: { expectedOut: number; minAmountOut: number; priceRatio: number; expectedGasWei: number; maxGasWei: number; confidence: number };
+};
+
+// Amounts exactly as IntentRouter sees them: integer strings in each token's smallest unit
+export type BaseUnitAmounts = {
+  decimalsIn: number;
+  decimalsOut: number;
+  amountIn: string;
+  expectedOut: string;
+  minAmountOut: string;
+};
+
 export type SolverQuote = {
   solver: string;
-  expectedOut: string;
+  expectedOut: string; // human units: baseUnits.expectedOut formatted with decimalsOut
   expectedGasWei: string;
   confidence: number;
   score: number;
+  scoreBreakdown: ScoreBreakdown;
+  baseUnits: BaseUnitAmounts;
   valid: boolean;
   checks: { minOutPass: boolean; gasPass: boolean; slippagePass: boolean; priceReliable: boolean };
   impliedSlippageBps: number;
-  priceSource: "live" | "fallback";
+  priceSource: "onchain" | "live" | "fallback";
   priceMeta: { tokenIn: PriceMetadata; tokenOut: PriceMetadata };
   reason: string;
   route: string[];
-  executionHash: string;
+  routePlan: RoutePlan | null;
+  gasEstimate?: GasEstimate; // how expectedGasWei was derived; absent when an external solver declares its own
+  crossChain?: CrossChainQuote; // bridge leg of a cross-chain intent; expectedGasWei is then both chains' gas
+  executionHash: string; // keccak256(abi.encode(commitment)), checked by IntentRouter.fillIntent
+  commitment: QuoteCommitment; // IntentRouter.Quote the user passes to commitQuote
+  // Present for quotes answered by a registered external solver
+  external?: { endpoint: string; signer: string; signature: string; latencyMs: number };
 };
 
 export type TokenInfo = {
@@ -46,25 +105,8 @@ export type TokenInfo = {
   logoUrl?: string;
 };
 
-const TOKEN_TO_CG: Record<string, string> = {
-  weth: "ethereum", eth: "ethereum", usdc: "usd-coin", usdt: "tether",
-  dai: "dai", wbtc: "wrapped-bitcoin", btc: "bitcoin", matic: "matic-network",
-  sol: "solana", avax: "avalanche-2", bnb: "binancecoin", link: "chainlink",
-  uni: "uniswap", aave: "aave", mkr: "maker", crv: "curve-dao-token",
-  arb: "arbitrum", op: "optimism", steth: "staked-ether", cbeth: "coinbase-wrapped-staked-eth",
-  aero: "aerodrome-finance", virtual: "virtual-protocol", degen: "degen-base",
-};
-
-function cgId(sym: string): string {
-  return TOKEN_TO_CG[sym.toLowerCase()] ?? sym.toLowerCase();
-}
-
-function isContractAddress(input: string): boolean {
-  return /^0x[a-fA-F0-9]{40}$/.test(input);
-}
-
 // Price cache (30s TTL)
-interface CacheEntry { priceUsd: number; ts: number; source: "coingecko" | "dexscreener" | "fallback"; }
+interface CacheEntry { priceUsd: number; ts: number; source: string; }
 const CACHE_TTL = 30_000;
 const STALE_THRESHOLD = 120_000; // 2 minutes
 const cache = new Map<string, CacheEntry>();
@@ -76,7 +118,7 @@ function buildPriceMeta(entry: CacheEntry | null, fallbackUsed: boolean, hasKnow
   }
   const age = Date.now() - entry.ts;
   const isStale = age > STALE_THRESHOLD;
-  const reliabilityScore = isStale ? 0.4 : (entry.source === "coingecko" ? 1.0 : 0.8);
+  const reliabilityScore = isStale ? 0.4 : (entry.source === "dexscreener" ? 0.8 : 1.0);
   return { source: entry.source, timestamp: entry.ts, isStale, reliabilityScore };
 }
 
@@ -84,11 +126,11 @@ function buildPriceMeta(entry: CacheEntry | null, fallbackUsed: boolean, hasKnow
 const tokenInfoCache = new Map<string, { info: TokenInfo; ts: number }>();
 
 /**
- * Resolve a contract address to token info via DexScreener
+ * Resolve a contract address on `chainId` to token info via DexScreener
  */
-export async function resolveContractAddress(address: string): Promise<TokenInfo | null> {
+export async function resolveContractAddress(address: string, chainId = defaultChainId()): Promise<TokenInfo | null> {
   const key = address.toLowerCase();
-  const cached = tokenInfoCache.get(key);
+  const cached = tokenInfoCache.get(`${chainId}:${key}`);
   if (cached && Date.now() - cached.ts < 60_000) return cached.info;
 
   try {
@@ -104,9 +146,10 @@ export async function resolveContractAddress(address: string): Promise<TokenInfo
     const pairs = data.pairs || [];
     if (pairs.length === 0) return null;
 
-    // Find the pair with highest liquidity on Base chain (or any chain)
-    const basePairs = pairs.filter((p: any) => p.chainId === "base");
-    const bestPair = (basePairs.length > 0 ? basePairs : pairs)
+    // Find the pair with highest liquidity on the requested chain (or any chain)
+    const dexChain = getChain(chainId)?.dexScreenerId;
+    const chainPairs = pairs.filter((p: any) => p.chainId === dexChain);
+    const bestPair = (chainPairs.length > 0 ? chainPairs : pairs)
       .sort((a: any, b: any) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0))[0];
 
     const isBaseToken = bestPair.baseToken?.address?.toLowerCase() === key;
@@ -119,13 +162,13 @@ export async function resolveContractAddress(address: string): Promise<TokenInfo
       symbol: tokenData?.symbol || "UNKNOWN",
       name: tokenData?.name || "Unknown Token",
       address: address,
-      decimals: 18, // default, frontend can override
+      decimals: (await resolveTokenOnchain(address, chainId)).decimals,
       priceUsd: priceUsd > 0 ? priceUsd : null,
       source: "dexscreener",
       logoUrl: bestPair.info?.imageUrl,
     };
 
-    tokenInfoCache.set(key, { info, ts: Date.now() });
+    tokenInfoCache.set(`${chainId}:${key}`, { info, ts: Date.now() });
     return info;
   } catch {
     return null;
@@ -133,9 +176,11 @@ export async function resolveContractAddress(address: string): Promise<TokenInfo
 }
 
 /**
- * Search tokens by name/symbol via DexScreener
+ * Search tokens by name/symbol via DexScreener, limited to `chainId`
  */
-export async function searchTokens(query: string): Promise<TokenInfo[]> {
+export async function searchTokens(query: string, chainId = defaultChainId()): Promise<TokenInfo[]> {
+  const dexChain = getChain(chainId)?.dexScreenerId;
+  if (!dexChain) return []; // DexScreener does not index this chain
   try {
     const ctrl = new AbortController();
     const t = setTimeout(() => ctrl.abort(), 8000);
@@ -148,12 +193,12 @@ export async function searchTokens(query: string): Promise<TokenInfo[]> {
     const data = await res.json() as any;
     const pairs = data.pairs || [];
 
-    // Filter to Base chain only
-    const basePairs = pairs.filter((p: any) => p.chainId === "base");
+    // Filter to the requested chain only
+    const chainPairs = pairs.filter((p: any) => p.chainId === dexChain);
 
     // Deduplicate by token address
     const seen = new Map<string, TokenInfo>();
-    for (const pair of basePairs) {
+    for (const pair of chainPairs) {
       for (const side of ["baseToken", "quoteToken"] as const) {
         const token = pair[side];
         if (!token?.address) continue;
@@ -186,123 +231,76 @@ export async function searchTokens(query: string): Promise<TokenInfo[]> {
   }
 }
 
-async function fetchPair(tIn: string, tOut: string): Promise<{ priceIn: number | null; priceOut: number | null }> {
-  // If inputs are contract addresses, use DexScreener
-  if (isContractAddress(tIn) || isContractAddress(tOut)) {
-    let priceIn: number | null = null;
-    let priceOut: number | null = null;
-
-    if (isContractAddress(tIn)) {
-      const info = await resolveContractAddress(tIn);
-      priceIn = info?.priceUsd ?? null;
-    } else {
-      priceIn = await fetchSinglePrice(tIn);
-    }
+// Symbols price the same everywhere; an address is a token on one chain
+function priceKey(token: string, chainId: number): string {
+  return isContractAddress(token) ? `${chainId}:${token.toLowerCase()}` : cgId(token);
+}
 
-    if (isContractAddress(tOut)) {
-      const info = await resolveContractAddress(tOut);
-      priceOut = info?.priceUsd ?? null;
+/**
+ * Resolve USD prices through the provider registry: fresh cache first, then providers
+ * in priority order, then whatever stale cache entry is left.
+ */
+async function fetchPrices(tokens: string[], chainId: number): Promise<Map<string, number | null>> {
+  const now = Date.now();
+  const out = new Map<string, number | null>();
+  const missing: string[] = [];
+  for (const t of tokens) {
+    const c = cache.get(priceKey(t, chainId));
+    if (c && now - c.ts < CACHE_TTL) out.set(t, c.priceUsd);
+    else if (!missing.includes(t)) missing.push(t);
+  }
+  if (missing.length === 0) return out;
+
+  const fetched = await fetchProviderPrices(missing, chainId);
+  for (const t of missing) {
+    const hit = fetched.get(t);
+    if (hit) {
+      cache.set(priceKey(t, chainId), { priceUsd: hit.priceUsd, ts: Date.now(), source: hit.source });
+      out.set(t, hit.priceUsd);
     } else {
-      priceOut = await fetchSinglePrice(tOut);
+      out.set(t, cache.get(priceKey(t, chainId))?.priceUsd ?? null);
     }
-
-    return { priceIn, priceOut };
   }
+  return out;
+}
 
-  // Standard CoinGecko flow for known symbols
-  const idIn = cgId(tIn), idOut = cgId(tOut);
-  const now = Date.now();
-  const cIn = cache.get(idIn), cOut = cache.get(idOut);
-  if (cIn && now - cIn.ts < CACHE_TTL && cOut && now - cOut.ts < CACHE_TTL) {
-    return { priceIn: cIn.priceUsd, priceOut: cOut.priceUsd };
+async function fetchPair(tIn: string, tOut: string, chainIn: number, chainOut: number): Promise<{ priceIn: number | null; priceOut: number | null }> {
+  if (chainIn !== chainOut) {
+    const [pricesIn, pricesOut] = await Promise.all([fetchPrices([tIn], chainIn), fetchPrices([tOut], chainOut)]);
+    return { priceIn: pricesIn.get(tIn) ?? null, priceOut: pricesOut.get(tOut) ?? null };
   }
-  // Primary: CoinGecko
-  try {
-    const url = `https://api.coingecko.com/api/v3/simple/price?ids=${encodeURIComponent(idIn)},${encodeURIComponent(idOut)}&vs_currencies=usd`;
-    const ctrl = new AbortController();
-    const t = setTimeout(() => ctrl.abort(), 5000);
-    const res = await fetch(url, { signal: ctrl.signal });
-    clearTimeout(t);
-    if (res.ok) {
-      const d = (await res.json()) as Record<string, { usd?: number }>;
-      const pIn = d[idIn]?.usd ?? null, pOut = d[idOut]?.usd ?? null;
-      if (pIn !== null) cache.set(idIn, { priceUsd: pIn, ts: Date.now(), source: "coingecko" });
-      if (pOut !== null) cache.set(idOut, { priceUsd: pOut, ts: Date.now(), source: "coingecko" });
-      if (pIn !== null && pOut !== null) return { priceIn: pIn, priceOut: pOut };
-    }
-  } catch {}
-  // Fallback: DexScreener for any missing prices
-  let priceIn = cIn?.priceUsd ?? null;
-  let priceOut = cOut?.priceUsd ?? null;
-  if (priceIn === null) priceIn = await fetchPriceFromDexScreener(tIn);
-  if (priceOut === null) priceOut = await fetchPriceFromDexScreener(tOut);
-  if (priceIn !== null) cache.set(idIn, { priceUsd: priceIn, ts: Date.now(), source: "dexscreener" });
-  if (priceOut !== null) cache.set(idOut, { priceUsd: priceOut, ts: Date.now(), source: "dexscreener" });
-  return { priceIn, priceOut };
+  const prices = await fetchPrices([tIn, tOut], chainIn);
+  return { priceIn: prices.get(tIn) ?? null, priceOut: prices.get(tOut) ?? null };
 }
 
-async function fetchPriceFromDexScreener(sym: string): Promise<number | null> {
-  try {
-    const ctrl = new AbortController();
-    const t = setTimeout(() => ctrl.abort(), 5000);
-    const res = await fetch(`https://api.dexscreener.com/latest/dex/search?q=${encodeURIComponent(sym)}`, {
-      signal: ctrl.signal,
-    });
-    clearTimeout(t);
-    if (!res.ok) return null;
-    const data = (await res.json()) as any;
-    const pairs = data.pairs || [];
-    const match = pairs.find((p: any) =>
-      p.chainId === "base" &&
-      p.baseToken?.symbol?.toLowerCase() === sym.toLowerCase()
-    ) || pairs.find((p: any) =>
-      p.baseToken?.symbol?.toLowerCase() === sym.toLowerCase()
-    );
-    if (match) return parseFloat(match.priceUsd || "0") || null;
-    return null;
-  } catch {
-    return null;
-  }
+export async function fetchSinglePrice(sym: string, chainId = defaultChainId()): Promise<number | null> {
+  const prices = await fetchPrices([sym], chainId);
+  return prices.get(sym) ?? null;
 }
 
-async function fetchSinglePrice(sym: string): Promise<number | null> {
-  const id = cgId(sym);
-  const now = Date.now();
-  const c = cache.get(id);
-  if (c && now - c.ts < CACHE_TTL) return c.priceUsd;
-  // Primary: CoinGecko
-  try {
-    const url = `https://api.coingecko.com/api/v3/simple/price?ids=${encodeURIComponent(id)}&vs_currencies=usd`;
-    const ctrl = new AbortController();
-    const t = setTimeout(() => ctrl.abort(), 5000);
-    const res = await fetch(url, { signal: ctrl.signal });
-    clearTimeout(t);
-    if (res.ok) {
-      const d = (await res.json()) as Record<string, { usd?: number }>;
-      const p = d[id]?.usd ?? null;
-      if (p !== null) { cache.set(id, { priceUsd: p, ts: Date.now(), source: "coingecko" }); return p; }
-    }
-  } catch {}
-  // Fallback: DexScreener
-  const dexPrice = await fetchPriceFromDexScreener(sym);
-  if (dexPrice !== null) {
-    cache.set(id, { priceUsd: dexPrice, ts: Date.now(), source: "dexscreener" });
-    return dexPrice;
-  }
-  return c?.priceUsd ?? null;
+/** Drop all cached prices (tests, provider reconfiguration). */
+export function clearPriceCache(): void {
+  cache.clear();
 }
 
-// Solver profiles
+// Solver profiles: each searches the pool graph with its own strategy
 interface Profile {
   label: string; priceEdgeMean: number; priceEdgeStd: number;
-  baseGas: number; gasVar: number; baseConf: number; route: string[];
+  baseConf: number; strategy: RouteStrategy;
 }
 const PROFILES: Record<string, Profile> = {
-  "solver-alpha": { label: "Speed-optimized", priceEdgeMean: 0.998, priceEdgeStd: 0.001, baseGas: 2.1e13, gasVar: 3e12, baseConf: 0.88, route: ["UniV3-Direct"] },
-  "solver-beta":  { label: "Price-optimized", priceEdgeMean: 1.003, priceEdgeStd: 0.002, baseGas: 3.8e13, gasVar: 6e12, baseConf: 0.82, route: ["UniV3-Pool", "CurveTriCrypto", "BalancerWeighted"] },
-  "solver-gamma": { label: "Balanced",        priceEdgeMean: 1.001, priceEdgeStd: 0.0015, baseGas: 2.8e13, gasVar: 4e12, baseConf: 0.85, route: ["UniV3-Pool", "SushiV2"] },
+  "solver-alpha": { label: "Speed-optimized", priceEdgeMean: 0.998, priceEdgeStd: 0.001, baseConf: 0.88, strategy: { maxHops: 1, maxPaths: 1, splitSteps: 1 } },
+  "solver-beta":  { label: "Price-optimized", priceEdgeMean: 1.003, priceEdgeStd: 0.002, baseConf: 0.82, strategy: { maxHops: 3, maxPaths: 3, splitSteps: 20 } },
+  "solver-gamma": { label: "Balanced",        priceEdgeMean: 1.001, priceEdgeStd: 0.0015, baseConf: 0.85, strategy: { maxHops: 2, maxPaths: 2, splitSteps: 10 } },
 };
-const DEFAULT_PROFILE: Profile = { label: "Unknown", priceEdgeMean: 0.999, priceEdgeStd: 0.002, baseGas: 3e13, gasVar: 5e12, baseConf: 0.80, route: ["GenericAMM"] };
+export function isBuiltinSolver(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(PROFILES, name);
+}
+
+export function listBuiltinSolvers(): { name: string; label: string; strategy: RouteStrategy }[] {
+  return Object.entries(PROFILES).map(([name, p]) => ({ name, label: p.label, strategy: p.strategy }));
+}
+const DEFAULT_PROFILE: Profile = { label: "Unknown", priceEdgeMean: 0.999, priceEdgeStd: 0.002, baseConf: 0.80, strategy: { maxHops: 1, maxPaths: 1, splitSteps: 1 } };
 
 // Seeded PRNG (FNV-1a)
 function seededRandom(seed: string): () => number {
@@ -319,43 +317,185 @@ const FALLBACK: Record<string, number> = {
 };
 function fallback(sym: string): number { return FALLBACK[cgId(sym)] ?? 1; }
 
-export async function scoreIntent(intent: IntentInput, solver = "solver-alpha"): Promise<SolverQuote> {
-  const p = PROFILES[solver] ?? DEFAULT_PROFILE;
-  const bucket = Math.floor(Date.now() / 30_000);
-  const rand = seededRandom(`${solver}:${intent.tokenIn}:${intent.tokenOut}:${intent.amountIn}:${bucket}`);
+// Reference prices and resolved tokens for an intent, shared by built-in and external solvers
+export type PriceContext = {
+  pIn: number;
+  pOut: number;
+  live: boolean; // both prices came from a provider and passed the sanity check
+  metaIn: PriceMetadata;
+  metaOut: PriceMetadata;
+  tokenIn: TokenRef;
+  tokenOut: TokenRef;
+};
 
-  const { priceIn: rawPriceIn, priceOut: rawPriceOut } = await fetchPair(intent.tokenIn, intent.tokenOut);
+// What a solver proposes, before the shared constraint checks and scoring
+export type QuoteProposal = {
+  label: string;
+  amountOut: bigint; // base units of tokenOut
+  expectedGasWei: bigint;
+  confidence: number;
+  fairOut: number; // reference output the implied slippage is measured against
+  route: string[];
+  routePlan: RoutePlan | null;
+  gasEstimate?: GasEstimate;
+  crossChain?: CrossChainQuote;
+  onchain: boolean;
+  quotedAt?: number; // commitment date a solver already signed; default: start of the current 30s window
+  external?: SolverQuote["external"];
+};
+
+export async function getPriceContext(intent: IntentInput): Promise<PriceContext> {
+  const chainId = intentChainId(intent), destChainId = intentDestChainId(intent);
+  const [{ priceIn: rawPriceIn, priceOut: rawPriceOut }, tokenIn, tokenOut] = await Promise.all([
+    fetchPair(intent.tokenIn, intent.tokenOut, chainId, destChainId),
+    resolveTokenOnchain(intent.tokenIn, chainId),
+    resolveTokenOnchain(intent.tokenOut, destChainId),
+  ]);
 
   // Sanity check: reject live prices that deviate >20x from known fallback
   const fbIn = fallback(intent.tokenIn), fbOut = fallback(intent.tokenOut);
   const saneIn = rawPriceIn !== null && fbIn > 0 && (rawPriceIn / fbIn > 20 || rawPriceIn / fbIn < 0.05) ? null : rawPriceIn;
   const saneOut = rawPriceOut !== null && fbOut > 0 && (rawPriceOut / fbOut > 20 || rawPriceOut / fbOut < 0.05) ? null : rawPriceOut;
 
-  const usedFallbackIn = saneIn === null;
-  const usedFallbackOut = saneOut === null;
-  const pIn = saneIn ?? fbIn;
-  const pOut = saneOut ?? fbOut;
-
   // Build price metadata per token
-  const idIn = isContractAddress(intent.tokenIn) ? intent.tokenIn.toLowerCase() : cgId(intent.tokenIn);
-  const idOut = isContractAddress(intent.tokenOut) ? intent.tokenOut.toLowerCase() : cgId(intent.tokenOut);
-  const metaIn = buildPriceMeta(cache.get(idIn) ?? null, usedFallbackIn, fbIn > 0);
-  const metaOut = buildPriceMeta(cache.get(idOut) ?? null, usedFallbackOut, fbOut > 0);
+  const metaIn = buildPriceMeta(cache.get(priceKey(intent.tokenIn, chainId)) ?? null, saneIn === null, fbIn > 0);
+  const metaOut = buildPriceMeta(cache.get(priceKey(intent.tokenOut, destChainId)) ?? null, saneOut === null, fbOut > 0);
 
+  return { pIn: saneIn ?? fbIn, pOut: saneOut ?? fbOut, live: saneIn !== null && saneOut !== null, metaIn, metaOut, tokenIn, tokenOut };
+}
+
+/** Fair output from USD reference prices (no impact, no fees). */
+export function usdFairOut(intent: IntentInput, ctx: PriceContext): number {
   const amountIn = Number(intent.amountIn);
-  const fairOut = pOut > 0 ? (amountIn * pIn) / pOut : amountIn;
+  return ctx.pOut > 0 ? (amountIn * ctx.pIn) / ctx.pOut : amountIn;
+}
+
+export async function scoreIntent(intent: IntentInput, solver = "solver-alpha"): Promise<SolverQuote> {
+  const p = PROFILES[solver] ?? DEFAULT_PROFILE;
+  const bucket = Math.floor(Date.now() / 30_000);
+  const rand = seededRandom(`${solver}:${intent.tokenIn}:${intent.tokenOut}:${intent.amountIn}:${bucket}`);
+
+  const ctx = await getPriceContext(intent);
+  if (intentDestChainId(intent) !== intentChainId(intent)) return scoreCrossChainIntent(intent, solver, ctx, rand);
+
+  // Onchain quote: route search + exact swap simulation when the intent's chain has an RPC endpoint
+  const chainId = intentChainId(intent);
+  const provider = getChainProvider(chainId);
+  const plan = provider ? await findRoute(provider, intent.tokenIn, intent.tokenOut, intent.amountIn, p.strategy, chainId) : null;
+
+  let fairOut: number, amountOut: bigint;
+  if (plan) {
+    // Fair value is the pre-trade mid price net of LP fees, so the gap is pure size-dependent impact
+    fairOut = Number(formatUnits(plan.spotOut, plan.tokenOut.decimals));
+    amountOut = BigInt(plan.amountOut);
+  } else {
+    fairOut = usdFairOut(intent, ctx);
+
+    // Box-Muller for normal distribution
+    const u1 = Math.max(1e-10, rand()), u2 = rand();
+    const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+    amountOut = floatToBaseUnits(fairOut * (p.priceEdgeMean + z * p.priceEdgeStd), ctx.tokenOut.decimals);
+  }
+
+  // Gas for the route actually found, else for the profile's longest route through V3 pools
+  const gasRoute = plan ?? { paths: [{ hops: Array.from({ length: p.strategy.maxHops }, () => ({ venue: "uniswap-v3" as const })) }] };
+  const gasEstimate = estimateRouteGas(gasRoute, await getGasFees(chainId, provider));
+  const expectedGasWei = BigInt(gasEstimate.totalWei);
+
+  const dataBonus = ctx.live ? 0.05 : -0.05;
+  const confidence = Math.min(0.99, Math.max(0.5, p.baseConf + dataBonus + (rand() - 0.5) * 0.06));
+
+  return evaluateQuote(intent, solver, {
+    label: p.label,
+    amountOut,
+    expectedGasWei,
+    confidence,
+    fairOut,
+    route: plan ? describeRoute(plan, chainId) : [],
+    routePlan: plan,
+    gasEstimate,
+    onchain: plan !== null,
+  }, ctx);
+}
+
+// Cross-chain: the solver delivers tokenOut from its own inventory on the destination and is repaid from
+// the origin escrow, so there is no route to search; the fair output is net of the bridge estimate's fee
+async function scoreCrossChainIntent(intent: IntentInput, solver: string, ctx: PriceContext, rand: () => number): Promise<SolverQuote> {
+  const p = PROFILES[solver] ?? DEFAULT_PROFILE;
+  const originChainId = intentChainId(intent), destChainId = intentDestChainId(intent);
+  const bridge = estimateBridge(originChainId, destChainId);
+  const usdOut = usdFairOut(intent, ctx);
+  const feeOut = Math.min(usdOut, bridgeFeeOut(bridge, usdOut, ctx.pOut));
+  const fairOut = usdOut - feeOut;
 
-  // Box-Muller for normal distribution
   const u1 = Math.max(1e-10, rand()), u2 = rand();
   const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
-  const edge = p.priceEdgeMean + z * p.priceEdgeStd;
-  const expectedOut = fairOut * edge;
+  const amountOut = floatToBaseUnits(fairOut * (p.priceEdgeMean + z * p.priceEdgeStd), ctx.tokenOut.decimals);
+
+  const [destFees, originFees] = await Promise.all([getGasFees(destChainId), getGasFees(originChainId)]);
+  const gas = estimateCrossChainGas(destFees, originFees);
+  const expectedGasWei = BigInt(gas.destination.totalWei) + BigInt(gas.origin.totalWei);
+
+  const dataBonus = ctx.live ? 0.05 : -0.05;
+  const confidence = Math.min(0.99, Math.max(0.5, p.baseConf + dataBonus + (rand() - 0.5) * 0.06));
+
+  return evaluateQuote(intent, solver, {
+    label: p.label,
+    amountOut,
+    expectedGasWei,
+    confidence,
+    fairOut,
+    route: [`${bridge.bridge} ${getChain(originChainId)?.name ?? originChainId}>${getChain(destChainId)?.name ?? destChainId}`],
+    routePlan: null,
+    crossChain: {
+      originChainId,
+      destChainId,
+      ...bridge,
+      bridgeFeeOut: floatToBaseUnits(feeOut, ctx.tokenOut.decimals).toString(),
+      ...crossChainContracts(originChainId, destChainId),
+      gas,
+    },
+    onchain: false,
+  }, ctx);
+}
 
-  const gasJitter = rand() * p.gasVar;
-  const expectedGasWei = Math.floor(p.baseGas + gasJitter);
+function weightedScore(components: ScoreBreakdown["components"], weights: ScoringWeights): number {
+  const raw = components.price * weights.price + components.gas * weights.gas + components.confidence * weights.confidence;
+  return Number(Math.max(0, Math.min(0.99, raw)).toFixed(3));
+}
 
-  const minOutPass = expectedOut >= Number(intent.minAmountOut);
-  const gasPass = expectedGasWei <= Number(intent.maxGasWei);
+/** Re-weight a quote's score components under another scoring policy. */
+export function applyScoringPolicy(quote: SolverQuote, policy: ScoringPolicy): SolverQuote {
+  return {
+    ...quote,
+    score: weightedScore(quote.scoreBreakdown.components, policy.weights),
+    scoreBreakdown: { ...quote.scoreBreakdown, policy: policy.name, weights: policy.weights },
+  };
+}
+
+/**
+ * Apply the deterministic constraint checks and decomposed scoring to a proposal.
+ * Every quote — built-in profile or external solver — goes through here.
+ */
+export function evaluateQuote(intent: IntentInput, solver: string, proposal: QuoteProposal, ctx: PriceContext): SolverQuote {
+  const bucket = Math.floor(Date.now() / 30_000);
+  const { amountOut, expectedGasWei, confidence, fairOut } = proposal;
+  const { metaIn, metaOut } = ctx;
+  // A route plan resolved its own tokens from the pool registry
+  const tokenIn = proposal.routePlan?.tokenIn ?? ctx.tokenIn;
+  const tokenOut = proposal.routePlan?.tokenOut ?? ctx.tokenOut;
+
+  // Constraint checks in base units, exactly as IntentRouter compares them
+  const amountIn = BigInt(proposal.routePlan?.amountIn ?? toBaseUnits(intent.amountIn, tokenIn.decimals));
+  const minAmountOut = BigInt(toBaseUnits(intent.minAmountOut, tokenOut.decimals));
+  const maxGasWei = BigInt(toBaseUnits(intent.maxGasWei, 0));
+  const minOutPass = amountOut >= minAmountOut;
+  const gasPass = expectedGasWei <= maxGasWei;
+
+  // Floats from here on: ratios for slippage and scoring only
+  const expectedOut = Number(formatUnits(amountOut, tokenOut.decimals));
+  const gasWei = Number(expectedGasWei);
+  const edge = fairOut > 0 ? expectedOut / fairOut : 1;
 
   // Slippage enforcement: implied slippage vs fair value
   const impliedSlippageBps = fairOut > 0
@@ -367,12 +507,9 @@ export async function scoreIntent(intent: IntentInput, solver = "solver-alpha"):
   const priceReliable = metaIn.reliabilityScore >= 0.5 && metaOut.reliabilityScore >= 0.5;
   const valid = minOutPass && gasPass && slippagePass && priceReliable;
 
-  const dataBonus = (saneIn !== null && saneOut !== null) ? 0.05 : -0.05;
-  const confidence = Math.min(0.99, Math.max(0.5, p.baseConf + dataBonus + (rand() - 0.5) * 0.06));
-
   // Decomposed scoring — no saturation, meaningful differentiation
-  const minOut = Number(intent.minAmountOut);
-  const maxGas = Number(intent.maxGasWei);
+  const minOut = Number(formatUnits(minAmountOut, tokenOut.decimals));
+  const maxGas = Number(maxGasWei);
 
   // Price quality (50%): log-scaled improvement over minimum
   const priceRatio = minOut > 0 ? expectedOut / minOut : 1;
@@ -382,40 +519,72 @@ export async function scoreIntent(intent: IntentInput, solver = "solver-alpha"):
 
   // Gas efficiency (30%): headroom below max gas
   const gasScore = maxGas > 0 && gasPass
-    ? 0.5 + 0.5 * (1 - expectedGasWei / maxGas)
+    ? 0.5 + 0.5 * (1 - gasWei / maxGas)
     : (gasPass ? 0.5 : 0.1);
 
   // Confidence (20%)
   const confScore = confidence;
 
-  const score = Math.max(0, Math.min(0.99, priceScore * 0.50 + gasScore * 0.30 + confScore * 0.20));
+  const round4 = (x: number) => Number(x.toFixed(4));
+  const components = { price: round4(priceScore), gas: round4(gasScore), confidence: round4(confScore) };
+  const { weights } = DEFAULT_SCORING_POLICY;
+  const score = weightedScore(components, weights);
 
-  const priceSource: "live" | "fallback" = (saneIn !== null && saneOut !== null) ? "live" : "fallback";
+  const priceSource: "onchain" | "live" | "fallback" = proposal.onchain ? "onchain" : ctx.live ? "live" : "fallback";
+  const venue = proposal.route.length > 0 ? `, via ${proposal.route.join(" | ")}` : "";
   let reason: string;
   if (valid) {
-    reason = `Meets all constraints (${p.label}, ${priceSource} prices, edge ${((edge - 1) * 100).toFixed(2)}%, slippage ${impliedSlippageBps}bps)`;
+    reason = `Meets all constraints (${proposal.label}, ${priceSource} prices${venue}, edge ${((edge - 1) * 100).toFixed(2)}%, slippage ${impliedSlippageBps}bps)`;
   } else {
     const fails: string[] = [];
-    if (!minOutPass) fails.push(`min-output (expected ${expectedOut.toFixed(6)} < ${intent.minAmountOut})`);
+    if (!minOutPass) fails.push(`min-output (expected ${formatUnits(amountOut, tokenOut.decimals)} < ${intent.minAmountOut})`);
     if (!gasPass) fails.push(`max-gas (est ${expectedGasWei} > ${intent.maxGasWei})`);
     if (!slippagePass) fails.push(`slippage (implied ${impliedSlippageBps}bps > max ${intent.maxSlippageBps}bps)`);
     if (!priceReliable) fails.push(`price-reliability (in=${metaIn.reliabilityScore.toFixed(1)}, out=${metaOut.reliabilityScore.toFixed(1)})`);
     reason = `Fails: ${fails.join(', ')}`;
   }
 
-  // Cryptographic execution hash: SHA-256 of canonicalized quote payload
-  const canonicalPayload = JSON.stringify({
-    solver, tokenIn: intent.tokenIn, tokenOut: intent.tokenOut,
-    amountIn: intent.amountIn, expectedOut: expectedOut.toFixed(8),
-    expectedGasWei: String(expectedGasWei), timestamp: bucket,
+  // Execution hash: keccak256 of the ABI-encoded quote, identical to IntentRouter.hashQuote
+  const commitment = buildQuoteCommitment({
+    solver: proposal.external?.signer ?? builtinSolverAddress(solver),
+    tokenIn,
+    tokenOut,
+    amountIn,
+    amountOut,
+    gasWei: expectedGasWei,
+    quotedAt: proposal.quotedAt ?? bucket * 30,
   });
-  const executionHash = "0x" + createHash("sha256").update(canonicalPayload).digest("hex");
+  const executionHash = hashQuoteCommitment(commitment);
 
   return {
-    solver, expectedOut: expectedOut.toFixed(6), expectedGasWei: String(expectedGasWei),
-    confidence: Number(confidence.toFixed(2)), score: Number(score.toFixed(3)), valid,
+    solver, expectedOut: formatUnits(amountOut, tokenOut.decimals), expectedGasWei: expectedGasWei.toString(),
+    confidence: Number(confidence.toFixed(2)), score, valid,
+    scoreBreakdown: {
+      policy: DEFAULT_SCORING_POLICY.name,
+      weights,
+      components,
+      inputs: {
+        expectedOut,
+        minAmountOut: minOut,
+        priceRatio: round4(priceRatio),
+        expectedGasWei: gasWei,
+        maxGasWei: maxGas,
+        confidence: Number(confidence.toFixed(2)),
+      },
+    },
+    baseUnits: {
+      decimalsIn: tokenIn.decimals,
+      decimalsOut: tokenOut.decimals,
+      amountIn: amountIn.toString(),
+      expectedOut: amountOut.toString(),
+      minAmountOut: minAmountOut.toString(),
+    },
     checks: { minOutPass, gasPass, slippagePass, priceReliable }, impliedSlippageBps, priceSource,
     priceMeta: { tokenIn: metaIn, tokenOut: metaOut },
-    reason, route: p.route, executionHash,
+    reason, route: proposal.route, routePlan: proposal.routePlan,
+    ...(proposal.gasEstimate ? { gasEstimate: proposal.gasEstimate } : {}),
+    ...(proposal.crossChain ? { crossChain: proposal.crossChain } : {}),
+    executionHash, commitment,
+    ...(proposal.external ? { external: proposal.external } : {}),
   };
 }
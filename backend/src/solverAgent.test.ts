@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { existsSync, readFileSync } from "fs";
+import { Contract, ContractFactory, JsonRpcProvider, Signer, TransactionRequest, makeError, parseEther, parseUnits } from "ethers";
+import { FillOutcome, SolverAgent, TxSender } from "./solverAgent.js";
+import { clearPriceCache } from "./solver.js";
+import { signQuoteAcceptance } from "./quoteCommitment.js";
+import { createFixtureProvider, registerPriceProvider, setPriceProviderOrder, unregisterPriceProvider } from "./priceProviders.js";
+
+// Signer whose node mines only the transaction hashes listed in `mined`
+function fakeSigner(opts: { mined: string[]; failFirstSend?: boolean }) {
+  const sent: TransactionRequest[] = [];
+  let failed = false;
+  const signer = {
+    provider: {
+      getFeeData: async () => ({ maxFeePerGas: 100n, maxPriorityFeePerGas: 10n, gasPrice: null }),
+      getTransactionReceipt: async (hash: string) => (opts.mined.includes(hash) ? { hash, status: 1 } : null),
+    },
+    getNonce: async () => 7,
+    sendTransaction: async (req: TransactionRequest) => {
+      if (opts.failFirstSend && !failed) {
+        failed = true;
+        throw makeError("connection reset", "NETWORK_ERROR");
+      }
+      sent.push(req);
+      return { hash: `0x${sent.length}` };
+    },
+  } as unknown as Signer;
+  return { signer, sent };
+}
+
+describe("TxSender", () => {
+  it("retries transient failures and re-sends at the same nonce with bumped fees", async () => {
+    const { signer, sent } = fakeSigner({ mined: ["0x2"], failFirstSend: true });
+    const sender = new TxSender(signer, { confirmTimeoutMs: 10, retryDelayMs: 1, gasBumpPct: 15 });
+    const { receipt, bumps } = await sender.send({ to: "0x0000000000000000000000000000000000000001" });
+    expect(receipt.hash).toBe("0x2");
+    expect(bumps).toBe(1);
+    expect(sent.map((s) => [s.nonce, s.maxFeePerGas, s.maxPriorityFeePerGas])).toEqual([[7, 100n, 10n], [7, 116n, 12n]]);
+
+    await sender.send({ to: "0x0000000000000000000000000000000000000001" }).catch(() => undefined);
+    expect(sent[2].nonce).toBe(8);
+  });
+
+  it("stops bumping at the fee cap", async () => {
+    const { signer, sent } = fakeSigner({ mined: [] });
+    const sender = new TxSender(signer, { confirmTimeoutMs: 10, maxBumps: 5 });
+    await expect(sender.send({ to: "0x0000000000000000000000000000000000000001" }, 130n)).rejects.toThrow(/not mined after 2 attempts/);
+    expect(sent.map((s) => s.maxFeePerGas)).toEqual([100n, 116n]);
+  });
+});
+
+// Runs against a local Hardhat node with compiled contracts:
+//   cd contracts && npx hardhat compile && npx hardhat node
+//   RPC_URL=http://127.0.0.1:8545 npm test
+const ARTIFACTS = new URL("../../contracts/artifacts/contracts/", import.meta.url);
+const artifact = (name: string) => JSON.parse(readFileSync(new URL(`${name}.sol/${name}.json`, ARTIFACTS), "utf8"));
+
+describe.skipIf(!process.env.RPC_URL || !existsSync(new URL("IntentRouter.sol/IntentRouter.json", ARTIFACTS)))("SolverAgent (local node)", () => {
+  const provider = new JsonRpcProvider(process.env.RPC_URL, undefined, { cacheTimeout: -1 });
+  let router: Contract, weth: Contract, usdc: Contract;
+  let user: Signer, solver: Signer;
+  let agent: SolverAgent;
+
+  const deploy = async (name: string, from: Signer, ...args: unknown[]) => {
+    const { abi, bytecode } = artifact(name);
+    const c = await new ContractFactory(abi, bytecode, from).deploy(...args);
+    await c.waitForDeployment();
+    return c as Contract;
+  };
+
+  async function createIntent(minAmountOut: bigint): Promise<bigint> {
+    const { timestamp } = (await provider.getBlock("latest"))!;
+    const r = router.connect(user) as Contract;
+    await (await r.createIntent(await weth.getAddress(), await usdc.getAddress(), parseEther("1"), minAmountOut, 500, 0, timestamp + 3600)).wait();
+    return (await router.nextIntentId()) - 1n;
+  }
+
+  beforeAll(async () => {
+    registerPriceProvider(createFixtureProvider({ WETH: 3200, ETH: 3200, USDC: 1 }));
+    setPriceProviderOrder(["fixture"]);
+    clearPriceCache();
+    const owner = await provider.getSigner(0);
+    user = await provider.getSigner(1);
+    solver = await provider.getSigner(2);
+    weth = await deploy("MockERC20", owner, "Wrapped Ether", "WETH", 18);
+    usdc = await deploy("MockERC20", owner, "USD Coin", "USDC", 6);
+    router = await deploy("IntentRouter", owner, await owner.getAddress());
+    const routerAddr = await router.getAddress();
+    for (const tx of [
+      await router.setSolver(await solver.getAddress(), true),
+      await weth.mint(await user.getAddress(), parseEther("10")),
+      await usdc.mint(await solver.getAddress(), parseUnits("100000", 6)),
+      await (weth.connect(user) as Contract).approve(routerAddr, parseEther("10")),
+    ]) await tx.wait();
+    agent = new SolverAgent(solver, routerAddr, { confirmTimeoutMs: 300, retryDelayMs: 50 });
+    await agent.pollOnce(); // start watching from here
+  });
+
+  afterAll(async () => {
+    await provider.send("evm_setAutomine", [true]);
+    setPriceProviderOrder(null);
+    unregisterPriceProvider("fixture");
+    clearPriceCache();
+  });
+
+  it("fills new intents that clear minAmountOut and skips the rest", async () => {
+    const fillable = await createIntent(parseUnits("2800", 6));
+    const greedy = await createIntent(parseUnits("9000", 6));
+    const outcomes = await agent.pollOnce();
+
+    const byId = Object.fromEntries(outcomes.map((o) => [o.intentId, o]));
+    expect(byId[fillable.toString()]).toMatchObject({ status: "filled" });
+    expect(byId[greedy.toString()]).toMatchObject({ status: "skipped", reason: expect.stringMatching(/min-output|minAmountOut/) });
+    const inx = await router.intents(fillable);
+    expect(inx.status).toBe(1n);
+    expect(inx.amountOut).toBe(BigInt(byId[fillable.toString()].amountOut!));
+    expect(inx.winningSolver).toBe(await solver.getAddress());
+    expect(await agent.pollOnce()).toEqual([]);
+  });
+
+  it("bumps gas on a stuck fill and honours a committed quote", async () => {
+    const intentId = await createIntent(parseUnits("2800", 6));
+    const quote = {
+      solver: await solver.getAddress(), tokenIn: await weth.getAddress(), tokenOut: await usdc.getAddress(),
+      amountIn: parseEther("1"), amountOut: parseUnits("3000", 6), gasWei: 0n, quotedAt: 0n,
+    };
+    await (await (router.connect(user) as Contract).commitQuote(intentId, quote)).wait();
+
+    await provider.send("evm_setAutomine", [false]);
+    const result = new Promise<FillOutcome>((resolve) => agent.handleIntent(intentId).then(resolve));
+    await new Promise((r) => setTimeout(r, 900)); // past the first confirm timeout
+    await provider.send("evm_setAutomine", [true]);
+    await provider.send("evm_mine", []);
+    const outcome = await result;
+
+    expect(outcome).toMatchObject({ status: "filled", amountOut: parseUnits("3000", 6).toString() });
+    expect(outcome.gasBumps).toBeGreaterThan(0);
+    expect((await router.intents(intentId)).executionHash).toBe(await router.hashQuote(quote));
+  });
+
+  it("fills native ETH output by sending it as the fill's value", async () => {
+    const { timestamp } = (await provider.getBlock("latest"))!;
+    const native = await router.NATIVE_ETH();
+    await (await (router.connect(user) as Contract).createIntent(await weth.getAddress(), native, parseEther("1"), parseEther("0.9"), 500, 0, timestamp + 3600)).wait();
+    const intentId = (await router.nextIntentId()) - 1n;
+    const before = await provider.getBalance(await user.getAddress());
+
+    const outcome = await agent.handleIntent(intentId);
+    expect(outcome).toMatchObject({ status: "filled" });
+    const amountOut = BigInt(outcome.amountOut!);
+    expect(await provider.getBalance(await user.getAddress()) - before).toBe(amountOut - amountOut / 1000n); // 10 bps fee
+    expect(await weth.balanceOf(await solver.getAddress())).toBeGreaterThan(0n);
+  });
+
+  it("needs minSolverBond and waits out another solver's exclusivity window", async () => {
+    const owner = await provider.getSigner(0);
+    await (await router.setBondPolicy(parseEther("1"), parseEther("0.25"), 600)).wait();
+    await (await router.postBond({ value: parseEther("1") })).wait(); // the owner stands in for the auction winner
+    try {
+      const intentId = await createIntent(parseUnits("2800", 6));
+      const quote = {
+        solver: await owner.getAddress(), tokenIn: await weth.getAddress(), tokenOut: await usdc.getAddress(),
+        amountIn: parseEther("1").toString(), amountOut: parseUnits("3000", 6).toString(), gasWei: "0", quotedAt: 0,
+      };
+      const domain = { name: "IntentRouter", version: "1", chainId: (await provider.getNetwork()).chainId, verifyingContract: await router.getAddress() };
+      const acceptance = await signQuoteAcceptance(owner, domain, intentId, quote);
+      await expect((router.connect(user) as Contract).commitQuote(intentId, quote)).rejects.toThrow(); // SolverSignatureRequired
+      await (await (router.connect(user) as Contract).commitSignedQuote(intentId, quote, acceptance)).wait();
+      expect(await agent.handleIntent(intentId)).toMatchObject({ status: "skipped", reason: "solver bond below minSolverBond" });
+
+      await (await (router.connect(solver) as Contract).postBond({ value: parseEther("1") })).wait();
+      // A fresh agent: the bond went out from the solver's account behind the first agent's nonce tracking
+      const bonded = new SolverAgent(solver, await router.getAddress(), { confirmTimeoutMs: 300, retryDelayMs: 50 });
+      expect(await bonded.handleIntent(intentId)).toMatchObject({ status: "skipped", reason: expect.stringMatching(/quote committed to/) });
+
+      await provider.send("evm_increaseTime", [601]);
+      await provider.send("evm_mine", []);
+      expect(await bonded.handleIntent(intentId)).toMatchObject({ status: "filled" });
+      expect(await router.solverBonds(await owner.getAddress())).toBe(parseEther("0.75")); // slashed to the user
+    } finally {
+      await (await router.setBondPolicy(0, 0, 0)).wait();
+    }
+  });
+});
@@ -0,0 +1,374 @@
+// solverAgent.ts - Long-running solver that watches IntentRouter for new intents and fills the ones it can win
+// Quotes each intent with scoreIntent for its profile, re-checks minAmountOut, approves tokenOut and calls fillIntent.
+
+import { pathToFileURL } from "url";
+import {
+  Contract, Interface, MaxUint256, Signer, TransactionReceipt, TransactionRequest, Wallet, ZeroHash, formatUnits, getAddress, isError,
+} from "ethers";
+import { IntentInput, scoreIntent } from "./solver.js";
+import { toBaseUnits } from "./tokens.js";
+import { getRpcProvider } from "./rpc.js";
+
+const ROUTER_ABI = [
+  "event IntentCreated(uint256 indexed intentId, address indexed user, address tokenIn, address tokenOut, uint256 amountIn, uint256 minAmountOut, uint64 deadline)",
+  "function intents(uint256) view returns (address user, address tokenIn, address tokenOut, uint256 amountIn, uint256 minAmountOut, uint256 maxSlippageBps, uint256 maxGasWei, uint64 deadline, uint8 status, address winningSolver, uint256 amountOut, bytes32 executionHash)",
+  "function filledAmountIn(uint256) view returns (uint256)",
+  "function quoteCommitments(uint256) view returns (address solver, uint256 amountOut, bytes32 quoteHash, uint64 exclusiveUntil, uint256 bondLocked)",
+  "function minSolverBond() view returns (uint256)",
+  "function solverBonds(address) view returns (uint256)",
+  "function fillIntent(uint256 intentId, uint256 amountOut, bytes32 executionHash) payable",
+];
+
+// IntentRouter.NATIVE_ETH: tokenIn/tokenOut of intents that escrow or deliver native ETH
+const NATIVE_ETH = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+const ERC20_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function balanceOf(address) view returns (uint256)",
+  "function allowance(address, address) view returns (uint256)",
+  "function approve(address, uint256) returns (bool)",
+];
+
+const routerInterface = new Interface(ROUTER_ABI);
+const erc20Interface = new Interface(ERC20_ABI);
+const INTENT_CREATED = routerInterface.getEvent("IntentCreated")!.topicHash;
+
+// IntentRouter.IntentStatus
+const STATUS_OPEN = 0n;
+const STATUS_PARTIALLY_FILLED = 4n;
+
+const RECEIPT_POLL_MS = 250;
+const MAX_LOG_RANGE = 2_000;
+
+export type TxSenderOptions = {
+  confirmTimeoutMs?: number; // wait this long for a receipt before re-sending with higher fees
+  gasBumpPct?: number; // fee increase per re-send (nodes require >= 10% to replace)
+  maxBumps?: number;
+  maxRetries?: number; // attempts per RPC call on transient failures
+  retryDelayMs?: number; // doubled after each failed attempt
+};
+
+type Fees = { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } | { gasPrice: bigint };
+
+export type SentTransaction = { receipt: TransactionReceipt; bumps: number };
+
+/** Transient RPC failures worth retrying; reverts and bad input are not. */
+export function isTransientRpcError(err: unknown): boolean {
+  if (isError(err, "NETWORK_ERROR") || isError(err, "TIMEOUT") || isError(err, "SERVER_ERROR")) return true;
+  const msg = err instanceof Error ? err.message : String(err);
+  return /ECONNRESET|ECONNREFUSED|ETIMEDOUT|socket hang up|fetch failed|rate limit|429/i.test(msg);
+}
+
+/**
+ * Sends transactions from one account: assigns nonces locally, retries transient RPC failures and
+ * re-sends a stuck transaction at the same nonce with bumped fees until one of its versions is mined.
+ */
+export class TxSender {
+  private nonce: number | null = null;
+  private readonly confirmTimeoutMs: number;
+  private readonly gasBumpPct: bigint;
+  private readonly maxBumps: number;
+  private readonly maxRetries: number;
+  private readonly retryDelayMs: number;
+
+  constructor(private readonly signer: Signer, opts: TxSenderOptions = {}) {
+    this.confirmTimeoutMs = opts.confirmTimeoutMs ?? 30_000;
+    this.gasBumpPct = BigInt(opts.gasBumpPct ?? 15);
+    this.maxBumps = opts.maxBumps ?? 3;
+    this.maxRetries = opts.maxRetries ?? 3;
+    this.retryDelayMs = opts.retryDelayMs ?? 500;
+  }
+
+  async withRetry<T>(fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await fn();
+      } catch (err: unknown) {
+        if (attempt + 1 >= this.maxRetries || !isTransientRpcError(err)) throw err;
+        await new Promise((r) => setTimeout(r, this.retryDelayMs * 2 ** attempt));
+      }
+    }
+  }
+
+  /**
+   * Send `req` and wait until it is mined. maxFeePerGas caps bumping (e.g. the intent's maxGasWei / gasLimit).
+   */
+  async send(req: TransactionRequest, maxFeePerGas?: bigint): Promise<SentTransaction> {
+    const nonce = await this.nextNonce();
+    let fees = await this.currentFees();
+    const hashes: string[] = [];
+
+    for (let bumps = 0; bumps <= this.maxBumps; bumps++) {
+      try {
+        const tx = await this.withRetry(() => this.signer.sendTransaction({ ...req, ...fees, nonce }));
+        hashes.push(tx.hash);
+      } catch (err: unknown) {
+        // Nothing went out at this nonce, so hand it back
+        if (hashes.length === 0) {
+          this.nonce = null;
+          throw err;
+        }
+        // An earlier version was mined (nonce used) or the bump was too small: keep waiting on what was sent
+        if (!isError(err, "NONCE_EXPIRED") && !isError(err, "REPLACEMENT_UNDERPRICED")) throw err;
+      }
+
+      const receipt = await this.waitForAny(hashes);
+      if (receipt) return { receipt, bumps };
+
+      const next = this.bump(fees);
+      if (maxFeePerGas !== undefined && ("gasPrice" in next ? next.gasPrice : next.maxFeePerGas) > maxFeePerGas) break;
+      fees = next;
+    }
+
+    // Still pending: resync from the node so later transactions don't queue behind a guessed nonce
+    const last = await this.waitForAny(hashes, this.confirmTimeoutMs);
+    if (last) return { receipt: last, bumps: hashes.length - 1 };
+    this.nonce = null;
+    throw new Error(`transaction at nonce ${nonce} not mined after ${hashes.length} attempts`);
+  }
+
+  private async nextNonce(): Promise<number> {
+    if (this.nonce === null) this.nonce = await this.withRetry(() => this.signer.getNonce("pending"));
+    return this.nonce++;
+  }
+
+  private async currentFees(): Promise<Fees> {
+    const data = await this.withRetry(() => this.signer.provider!.getFeeData());
+    if (data.maxFeePerGas !== null && data.maxPriorityFeePerGas !== null) {
+      return { maxFeePerGas: data.maxFeePerGas, maxPriorityFeePerGas: data.maxPriorityFeePerGas };
+    }
+    return { gasPrice: data.gasPrice ?? 0n };
+  }
+
+  private bump(fees: Fees): Fees {
+    const up = (v: bigint) => (v * (100n + this.gasBumpPct)) / 100n + 1n;
+    return "gasPrice" in fees
+      ? { gasPrice: up(fees.gasPrice) }
+      : { maxFeePerGas: up(fees.maxFeePerGas), maxPriorityFeePerGas: up(fees.maxPriorityFeePerGas) };
+  }
+
+  // First receipt among the versions sent at one nonce, or null after timeoutMs
+  private async waitForAny(hashes: string[], timeoutMs = this.confirmTimeoutMs): Promise<TransactionReceipt | null> {
+    const provider = this.signer.provider!;
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      for (const hash of hashes) {
+        const receipt = await provider.getTransactionReceipt(hash).catch(() => null);
+        if (receipt) return receipt;
+      }
+      if (Date.now() >= deadline) return null;
+      await new Promise((r) => setTimeout(r, RECEIPT_POLL_MS));
+    }
+  }
+}
+
+export type SolverAgentOptions = TxSenderOptions & {
+  profile?: string; // built-in solver profile passed to scoreIntent
+  startBlock?: number; // default: the block after head at the first poll
+  pollMs?: number;
+  requireCommitment?: boolean; // only fill intents whose quote was committed to this solver
+  onOutcome?: (outcome: FillOutcome) => void;
+};
+
+export type FillOutcome = {
+  intentId: string;
+  status: "filled" | "skipped" | "failed" | "waiting"; // waiting: retried on the next poll
+  reason?: string;
+  amountOut?: string; // base units delivered
+  txHash?: string;
+  gasBumps?: number;
+};
+
+type TokenMeta = { symbol: string; decimals: number };
+
+const ceilDiv = (a: bigint, b: bigint) => (a + b - 1n) / b;
+
+export class SolverAgent {
+  private readonly router: Contract;
+  private readonly sender: TxSender;
+  private readonly profile: string;
+  private readonly pollMs: number;
+  private readonly requireCommitment: boolean;
+  private readonly onOutcome?: (outcome: FillOutcome) => void;
+  private readonly tokens = new Map<string, TokenMeta>();
+  private readonly approved = new Set<string>();
+  private readonly pending = new Set<bigint>();
+  private nextBlock: number | null;
+  private address: string | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<unknown> | null = null;
+
+  constructor(private readonly signer: Signer, routerAddress: string, opts: SolverAgentOptions = {}) {
+    this.router = new Contract(routerAddress, ROUTER_ABI, signer);
+    this.sender = new TxSender(signer, opts);
+    this.profile = opts.profile ?? "solver-alpha";
+    this.pollMs = opts.pollMs ?? 4_000;
+    this.requireCommitment = opts.requireCommitment ?? false;
+    this.onOutcome = opts.onOutcome;
+    this.nextBlock = opts.startBlock ?? null;
+  }
+
+  /** Pick up IntentCreated logs since the last poll and try every pending intent once. */
+  async pollOnce(): Promise<FillOutcome[]> {
+    const provider = this.signer.provider!;
+    const head = await this.sender.withRetry(() => provider.getBlockNumber());
+    if (this.nextBlock === null) this.nextBlock = head + 1;
+    while (this.nextBlock <= head) {
+      const toBlock = Math.min(head, this.nextBlock + MAX_LOG_RANGE - 1);
+      const logs = await this.sender.withRetry(() => provider.getLogs({
+        address: this.router.target as string, fromBlock: this.nextBlock!, toBlock, topics: [INTENT_CREATED],
+      }));
+      for (const log of logs) this.pending.add(BigInt(log.topics[1]));
+      this.nextBlock = toBlock + 1;
+    }
+
+    const outcomes: FillOutcome[] = [];
+    for (const intentId of [...this.pending]) {
+      const outcome = await this.handleIntent(intentId);
+      if (outcome.status !== "waiting") this.pending.delete(intentId);
+      outcomes.push(outcome);
+      this.onOutcome?.(outcome);
+    }
+    return outcomes;
+  }
+
+  start(): void {
+    if (this.timer || this.running) return;
+    const tick = async () => {
+      this.running = this.pollOnce().catch((err: unknown) => {
+        console.warn(`[solverAgent] poll failed: ${err instanceof Error ? err.message : String(err)}`);
+      });
+      await this.running;
+      this.running = null;
+      if (this.timer) this.timer = setTimeout(tick, this.pollMs);
+    };
+    this.timer = setTimeout(tick, 0);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    await this.running;
+  }
+
+  /** Quote and, if it still clears the intent's floor, fill the unfilled remainder of one intent. */
+  async handleIntent(intentId: bigint): Promise<FillOutcome> {
+    const id = intentId.toString();
+    try {
+      return await this.tryFill(intentId);
+    } catch (err: unknown) {
+      const reason = err instanceof Error ? (err as { shortMessage?: string }).shortMessage ?? err.message : String(err);
+      return { intentId: id, status: isTransientRpcError(err) ? "waiting" : "failed", reason };
+    }
+  }
+
+  private async tryFill(intentId: bigint): Promise<FillOutcome> {
+    const id = intentId.toString();
+    const provider = this.signer.provider!;
+    const me = (this.address ??= getAddress(await this.signer.getAddress()));
+    const call = <T>(fn: () => Promise<T>) => this.sender.withRetry(fn);
+
+    const inx = await call(() => this.router.intents(intentId));
+    if (inx.status !== STATUS_OPEN && inx.status !== STATUS_PARTIALLY_FILLED) {
+      return { intentId: id, status: "skipped", reason: "intent is no longer open" };
+    }
+    const latest = await call(() => provider.getBlock("latest"));
+    if (latest && Number(inx.deadline) <= latest.timestamp) return { intentId: id, status: "skipped", reason: "deadline passed" };
+
+    const [minBond, bond]: bigint[] = await Promise.all([call(() => this.router.minSolverBond()), call(() => this.router.solverBonds(me))]);
+    if (bond < minBond) return { intentId: id, status: "skipped", reason: "solver bond below minSolverBond" };
+
+    // A commitment with an exclusivity window binds only until the window closes; after it anyone may fill
+    const commitment = await call(() => this.router.quoteCommitments(intentId));
+    const windowOpen = commitment.exclusiveUntil === 0n || !latest || BigInt(latest.timestamp) < commitment.exclusiveUntil;
+    const committed = commitment.quoteHash !== ZeroHash && windowOpen;
+    if (committed && getAddress(commitment.solver) !== me) {
+      return { intentId: id, status: "skipped", reason: `quote committed to ${commitment.solver}` };
+    }
+    if (!committed && this.requireCommitment) return { intentId: id, status: "waiting", reason: "no quote committed yet" };
+
+    // Quote the unfilled remainder against its pro-rata floor, exactly as _fill checks it
+    const amountIn: bigint = inx.amountIn;
+    const remaining = amountIn - (await call(() => this.router.filledAmountIn(intentId)) as bigint);
+    const minOut = ceilDiv(inx.minAmountOut * remaining, amountIn);
+    const [tokenIn, tokenOut] = await Promise.all([this.tokenMeta(inx.tokenIn), this.tokenMeta(inx.tokenOut)]);
+    const intent: IntentInput = {
+      tokenIn: tokenIn.symbol,
+      tokenOut: tokenOut.symbol,
+      amountIn: formatUnits(remaining, tokenIn.decimals),
+      minAmountOut: formatUnits(minOut, tokenOut.decimals),
+      maxSlippageBps: Number(inx.maxSlippageBps),
+      maxGasWei: (inx.maxGasWei === 0n ? MaxUint256 : inx.maxGasWei).toString(),
+      deadline: Number(inx.deadline),
+    };
+    const quote = await scoreIntent(intent, this.profile);
+    const quotedOut = BigInt(toBaseUnits(quote.expectedOut, tokenOut.decimals));
+    if (!quote.valid) return { intentId: id, status: "skipped", reason: quote.reason };
+    if (quotedOut < minOut) return { intentId: id, status: "skipped", reason: "quote below minAmountOut" };
+
+    // A committed quote is a promise: deliver what was committed, under its hash
+    const amountOut = committed ? ceilDiv(commitment.amountOut * remaining, amountIn) : quotedOut;
+    const executionHash: string = committed ? commitment.quoteHash : quote.executionHash;
+
+    // Native output is sent as the fill's value; ERC20 output is pulled by the router
+    const native = getAddress(inx.tokenOut) === NATIVE_ETH;
+    const balance: bigint = native
+      ? await call(() => provider.getBalance(me))
+      : await call(() => new Contract(inx.tokenOut, ERC20_ABI, provider).balanceOf(me));
+    if (balance < amountOut) {
+      return { intentId: id, status: "skipped", reason: "insufficient tokenOut balance" };
+    }
+    if (!native) await this.ensureAllowance(inx.tokenOut, me, amountOut);
+
+    const data = routerInterface.encodeFunctionData("fillIntent", [intentId, amountOut, executionHash]);
+    const req: TransactionRequest = { to: this.router.target as string, data, ...(native ? { value: amountOut } : {}) };
+    const gasLimit = ((await call(() => this.signer.estimateGas(req))) * 12n) / 10n;
+    // maxGasWei caps gas used x gas price; bound the price by it so bumping can't break the cap
+    const maxFeePerGas = inx.maxGasWei > 0n ? inx.maxGasWei / gasLimit : undefined;
+
+    const { receipt, bumps } = await this.sender.send({ ...req, gasLimit }, maxFeePerGas);
+    if (receipt.status !== 1) return { intentId: id, status: "failed", reason: "fill reverted", txHash: receipt.hash, gasBumps: bumps };
+    return { intentId: id, status: "filled", amountOut: amountOut.toString(), txHash: receipt.hash, gasBumps: bumps };
+  }
+
+  private async tokenMeta(address: string): Promise<TokenMeta> {
+    if (getAddress(address) === NATIVE_ETH) return { symbol: "ETH", decimals: 18 };
+    const cached = this.tokens.get(address);
+    if (cached) return cached;
+    const token = new Contract(address, ERC20_ABI, this.signer.provider);
+    const [symbol, decimals] = await this.sender.withRetry(() => Promise.all([token.symbol(), token.decimals()]));
+    const meta = { symbol: String(symbol), decimals: Number(decimals) };
+    this.tokens.set(address, meta);
+    return meta;
+  }
+
+  private async ensureAllowance(tokenAddress: string, owner: string, amount: bigint): Promise<void> {
+    if (this.approved.has(tokenAddress)) return;
+    const token = new Contract(tokenAddress, ERC20_ABI, this.signer.provider);
+    const spender = this.router.target as string;
+    if ((await this.sender.withRetry(() => token.allowance(owner, spender)) as bigint) < amount) {
+      const data = erc20Interface.encodeFunctionData("approve", [spender, MaxUint256]);
+      const { receipt } = await this.sender.send({ to: tokenAddress, data });
+      if (receipt.status !== 1) throw new Error(`approve of ${tokenAddress} reverted`);
+    }
+    this.approved.add(tokenAddress);
+  }
+}
+
+// Standalone: RPC_URL, INTENT_ROUTER_ADDRESS, SOLVER_PRIVATE_KEY, SOLVER_PROFILE, SOLVER_AGENT_START_BLOCK
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const provider = getRpcProvider();
+  const router = process.env.INTENT_ROUTER_ADDRESS;
+  const key = process.env.SOLVER_PRIVATE_KEY;
+  if (!provider || !router || !key) throw new Error("RPC_URL, INTENT_ROUTER_ADDRESS and SOLVER_PRIVATE_KEY are required");
+  const wallet = new Wallet(key, provider);
+  const agent = new SolverAgent(wallet, router, {
+    profile: process.env.SOLVER_PROFILE || "solver-alpha",
+    startBlock: process.env.SOLVER_AGENT_START_BLOCK ? Number(process.env.SOLVER_AGENT_START_BLOCK) : undefined,
+    requireCommitment: process.env.SOLVER_REQUIRE_COMMITMENT === "true",
+    onOutcome: (o) => console.log(`[solverAgent] intent ${o.intentId}: ${o.status}${o.reason ? ` (${o.reason})` : ""}${o.txHash ? ` ${o.txHash}` : ""}`),
+  });
+  agent.start();
+  console.log(`Solver agent "${process.env.SOLVER_PROFILE || "solver-alpha"}" filling as ${wallet.address} on ${router}`);
+}
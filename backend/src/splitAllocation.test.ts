@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { parseUnits } from "ethers";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { IntentInput, SolverQuote, clearPriceCache } from "./solver.js";
+import { createFixtureProvider, registerPriceProvider, setPriceProviderOrder, unregisterPriceProvider } from "./priceProviders.js";
+import { QuoteFn, allocateSplit } from "./splitAllocation.js";
+import { app } from "./app.js";
+
+const intent: IntentInput = {
+  tokenIn: "WETH",
+  tokenOut: "USDC",
+  amountIn: "4",
+  minAmountOut: "8000",
+  maxSlippageBps: 300,
+  maxGasWei: "50000000000000",
+  deadline: 9999999999,
+};
+
+function quote(solver: string, expectedOut: number, valid = true): SolverQuote {
+  return {
+    solver,
+    expectedOut: expectedOut.toFixed(6),
+    expectedGasWei: "20000000000000",
+    confidence: 0.9,
+    score: 0.8,
+    scoreBreakdown: {} as SolverQuote["scoreBreakdown"],
+    baseUnits: { decimalsIn: 18, decimalsOut: 6, amountIn: "0", expectedOut: parseUnits(expectedOut.toFixed(6), 6).toString(), minAmountOut: "0" },
+    valid,
+    checks: { minOutPass: valid, gasPass: true, slippagePass: true, priceReliable: true },
+    impliedSlippageBps: 0,
+    priceSource: "live",
+    priceMeta: {} as SolverQuote["priceMeta"],
+    reason: "",
+    route: [],
+    routePlan: null,
+    executionHash: `0x${solver}`,
+    commitment: {} as SolverQuote["commitment"],
+  };
+}
+
+// Per-solver output curves in tokenOut for x tokenIn
+function curves(fns: Record<string, (x: number) => number>, invalid: (solver: string, x: number) => boolean = () => false): QuoteFn {
+  return async (sub, solver) => {
+    const x = Number(sub.amountIn);
+    return quote(solver, fns[solver](x), !invalid(solver, x));
+  };
+}
+
+const concave = (x: number) => 3200 * x - 200 * x * x;
+
+describe("allocateSplit", () => {
+  it("splits when price impact makes two fills beat one", async () => {
+    const fn = curves({ a: concave, b: concave });
+    const best = quote("a", concave(4));
+    const alloc = await allocateSplit(intent, best, [best, quote("b", concave(4))], fn);
+    expect(alloc.split).toBe(true);
+    expect(alloc.legs.map((l) => [l.solver, l.shareBps, l.amountIn, l.minAmountOut])).toEqual([
+      ["a", 5000, "2", "4000"],
+      ["b", 5000, "2", "4000"],
+    ]);
+    expect(Number(alloc.totalExpectedOut)).toBeCloseTo(2 * concave(2), 4);
+    expect(alloc.improvementBps).toBeGreaterThan(0);
+  });
+
+  it("keeps the single best quote when splitting does not pay", async () => {
+    const linear = (x: number) => 3200 * x;
+    const best = quote("a", linear(4));
+    const alloc = await allocateSplit(intent, best, [best, quote("b", 3190 * 4)], curves({ a: linear, b: (x) => 3190 * x }));
+    expect(alloc.split).toBe(false);
+    expect(alloc.legs).toEqual([expect.objectContaining({ solver: "a", shareBps: 10_000, amountIn: "4", executionHash: "0xa" })]);
+  });
+
+  it("respects maxLegs and skips sizes a solver cannot quote validly", async () => {
+    const fn = curves({ a: concave, b: concave, c: concave }, (solver, x) => solver === "b" && x < 4);
+    const best = quote("a", concave(4));
+    const alloc = await allocateSplit(intent, best, [best, quote("b", concave(4)), quote("c", concave(4))], fn, { maxLegs: 2 });
+    expect(alloc.legs.map((l) => l.solver).sort()).toEqual(["a", "c"]);
+    expect(alloc.legs.reduce((s, l) => s + l.shareBps, 0)).toBe(10_000);
+  });
+});
+
+describe("/compete split", () => {
+  let server: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    delete process.env.ANTHROPIC_API_KEY;
+    registerPriceProvider(createFixtureProvider({ WETH: 3200, USDC: 1 }));
+    setPriceProviderOrder(["fixture"]);
+    clearPriceCache();
+    server = app.listen(0);
+    await new Promise((r) => server.once("listening", r));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    setPriceProviderOrder(null);
+    unregisterPriceProvider("fixture");
+    clearPriceCache();
+    return new Promise<void>((r) => server.close(() => r()));
+  });
+
+  const compete = (split: unknown) => fetch(`${base}/compete`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ intent, split, solvers: [{ name: "solver-alpha" }, { name: "solver-beta" }, { name: "solver-gamma" }] }),
+  });
+
+  it("returns an allocation covering the whole intent", async () => {
+    const res = await compete({ steps: 4, maxLegs: 2 });
+    const body = await res.json() as any;
+    expect(res.status).toBe(200);
+    expect(body.allocation.legs.length).toBeLessThanOrEqual(2);
+    expect(body.allocation.legs.reduce((s: number, l: any) => s + l.shareBps, 0)).toBe(10_000);
+    if (!body.allocation.split) expect(body.allocation.legs[0].solver).toBe(body.best.solver);
+  });
+
+  it("rejects malformed split options", async () => {
+    const res = await compete({ steps: 1 });
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as any).code).toBe("INVALID_SPLIT");
+  });
+});
@@ -0,0 +1,133 @@
+// splitAllocation.ts - Split a large intent across several solvers' quotes (filled onchain via fillIntentPartial)
+// Each candidate is re-quoted at fractions of the intent and the input is handed out greedily by marginal output.
+
+import { formatUnits, parseUnits } from "ethers";
+import { IntentInput, SolverQuote } from "./solver.js";
+import { QuoteCommitment } from "./quoteCommitment.js";
+
+export type SplitOptions = {
+  steps?: number; // granularity: the intent is allocated in 1/steps slices
+  maxLegs?: number; // most solvers one intent is split across
+};
+
+export type SplitLeg = {
+  solver: string;
+  shareBps: number;
+  amountIn: string; // human units, like IntentInput
+  minAmountOut: string; // pro-rata share of the intent's minAmountOut
+  expectedOut: string;
+  expectedGasWei: string;
+  executionHash: string;
+  commitment: QuoteCommitment;
+};
+
+export type SplitAllocation = {
+  split: boolean; // false: the single best quote was kept
+  legs: SplitLeg[];
+  totalExpectedOut: string;
+  singleExpectedOut: string;
+  improvementBps: number;
+};
+
+export type QuoteFn = (intent: IntentInput, solver: string) => Promise<SolverQuote>;
+
+export const DEFAULT_SPLIT_STEPS = 4;
+export const DEFAULT_SPLIT_LEGS = 3;
+// Each extra leg is another fill transaction; a split must beat the single quote by this much
+const MIN_SPLIT_GAIN_BPS = 5;
+
+// Exact k/n share of a decimal amount string (18-decimal fixed point; falls back to float for exotic input)
+function scaleAmount(amount: string, num: number, den: number): string {
+  try {
+    const scaled = (parseUnits(amount, 18) * BigInt(num)) / BigInt(den);
+    return formatUnits(scaled, 18).replace(/\.0$/, "");
+  } catch {
+    return String((Number(amount) * num) / den);
+  }
+}
+
+function subIntent(intent: IntentInput, k: number, steps: number): IntentInput {
+  if (k === steps) return intent;
+  return {
+    ...intent,
+    amountIn: scaleAmount(intent.amountIn, k, steps),
+    minAmountOut: scaleAmount(intent.minAmountOut, k, steps),
+  };
+}
+
+function toLeg(intent: IntentInput, quote: SolverQuote, k: number, steps: number): SplitLeg {
+  const sub = subIntent(intent, k, steps);
+  return {
+    solver: quote.solver,
+    shareBps: Math.round((k * 10_000) / steps),
+    amountIn: sub.amountIn,
+    minAmountOut: sub.minAmountOut,
+    expectedOut: quote.expectedOut,
+    expectedGasWei: quote.expectedGasWei,
+    executionHash: quote.executionHash,
+    commitment: quote.commitment,
+  };
+}
+
+/**
+ * Allocate the intent across candidates (valid, risk-approved quotes for the full size) when that
+ * beats the single best quote. Candidates are re-quoted at k/steps of the input via quoteFn.
+ */
+export async function allocateSplit(
+  intent: IntentInput,
+  best: SolverQuote,
+  candidates: SolverQuote[],
+  quoteFn: QuoteFn,
+  opts: SplitOptions = {},
+): Promise<SplitAllocation> {
+  const steps = opts.steps ?? DEFAULT_SPLIT_STEPS;
+  const maxLegs = opts.maxLegs ?? DEFAULT_SPLIT_LEGS;
+  const single: SplitAllocation = {
+    split: false,
+    legs: [toLeg(intent, best, steps, steps)],
+    totalExpectedOut: best.expectedOut,
+    singleExpectedOut: best.expectedOut,
+    improvementBps: 0,
+  };
+  const pool = candidates.filter((q) => q.valid);
+  if (pool.length < 2 || maxLegs < 2 || steps < 2) return single;
+
+  // curves[i][k]: candidate i's quote for k/steps of the input (index 0 unused)
+  const curves: (SolverQuote | null)[][] = await Promise.all(pool.map(async (q) => {
+    const sizes = await Promise.allSettled(
+      Array.from({ length: steps - 1 }, (_, j) => quoteFn(subIntent(intent, j + 1, steps), q.solver)),
+    );
+    return [null, ...sizes.map((r) => (r.status === "fulfilled" && r.value.valid ? r.value : null)), q];
+  }));
+  // Outputs compared in tokenOut base units, so the split total is exactly what the legs commit to
+  const out = (q: SolverQuote | null | undefined) => (q ? BigInt(q.baseUnits.expectedOut) : 0n);
+
+  const alloc = pool.map(() => 0);
+  for (let step = 0; step < steps; step++) {
+    const legs = alloc.filter((k) => k > 0).length;
+    let bestIdx = -1, bestGain: bigint | null = null;
+    alloc.forEach((k, i) => {
+      if (k === 0 && legs >= maxLegs) return;
+      const next = curves[i][k + 1];
+      if (!next) return;
+      const gain = out(next) - out(curves[i][k]);
+      if (bestGain === null || gain > bestGain) { bestGain = gain; bestIdx = i; }
+    });
+    if (bestIdx < 0) return single;
+    alloc[bestIdx]++;
+  }
+
+  const chosen = alloc.map((k, i) => ({ k, quote: curves[i][k] })).filter((x) => x.k > 0);
+  const total = chosen.reduce((sum, x) => sum + out(x.quote), 0n);
+  const singleOut = out(best);
+  const improvementBps = singleOut > 0n ? Math.round(Number((total * 1_000_000n) / singleOut) / 100) - 10_000 : 0;
+  if (chosen.length < 2 || improvementBps < MIN_SPLIT_GAIN_BPS) return single;
+
+  return {
+    split: true,
+    legs: chosen.map((x) => toLeg(intent, x.quote!, x.k, steps)),
+    totalExpectedOut: formatUnits(total, best.baseUnits.decimalsOut),
+    singleExpectedOut: best.expectedOut,
+    improvementBps,
+  };
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { IntentInput, SolverQuote, clearPriceCache } from "./solver.js";
+import { createFixtureProvider, registerPriceProvider, setPriceProviderOrder, unregisterPriceProvider } from "./priceProviders.js";
+import { CompetitionRecord, InvalidCursorError, SqliteCompetitionStore, getCompetitionStore, setCompetitionStore } from "./storage.js";
+import { app } from "./app.js";
+
+const intent: IntentInput = {
+  tokenIn: "WETH",
+  tokenOut: "USDC",
+  amountIn: "1.0",
+  minAmountOut: "1800",
+  maxSlippageBps: 100,
+  maxGasWei: "50000000000000",
+  deadline: 9999999999,
+};
+
+function quote(solver: string, score: number, valid = true): SolverQuote {
+  return { solver, score, valid, expectedOut: "3190.000000", executionHash: `0x${solver}` } as SolverQuote;
+}
+
+function competition(id: string, overrides: Partial<CompetitionRecord> = {}): CompetitionRecord {
+  return {
+    id,
+    createdAt: 1_700_000_000_000,
+    intent,
+    strictMode: false,
+    quotes: [quote("solver-alpha", 0.8), quote("solver-beta", 0.6)],
+    riskRatings: { "solver-alpha": "safe", "solver-beta": "danger" },
+    riskAnalysis: { analyzed: true, recommendation: "alpha", quotes: [] },
+    winner: "solver-alpha",
+    code: null,
+    warning: null,
+    solverErrors: [],
+    allocation: null,
+    ...overrides,
+  };
+}
+
+describe("SqliteCompetitionStore", () => {
+  it("round-trips a competition with its quotes and ratings", async () => {
+    const store = new SqliteCompetitionStore(":memory:");
+    const rec = competition("c1", { solverErrors: [{ solver: "ext", code: "TIMEOUT", error: "slow" }] });
+    await store.saveCompetition(rec);
+    expect(await store.getCompetition("c1")).toEqual(rec);
+    expect(await store.getCompetition("missing")).toBeNull();
+    expect(await store.findByExecutionHash("0xsolver-beta")).toEqual({ competitionId: "c1", solver: "solver-beta" });
+    expect(await store.findByExecutionHash("0xnope")).toBeNull();
+    await store.close();
+  });
+
+  it("derives reputation from every recorded competition", async () => {
+    const store = new SqliteCompetitionStore(":memory:");
+    await store.saveCompetition(competition("c1"));
+    await store.saveCompetition(competition("c2", {
+      createdAt: 1_700_000_060_000,
+      quotes: [quote("solver-alpha", 0.4), quote("solver-beta", 0.5)],
+      riskRatings: { "solver-alpha": "danger", "solver-beta": "danger" },
+      winner: null,
+      code: "ALL_DANGER",
+    }));
+    const rep = Object.fromEntries((await store.getReputation()).map((r) => [r.solver, r]));
+    expect(rep["solver-alpha"]).toMatchObject({ totalQuotes: 2, safeQuotes: 1, dangerQuotes: 1, wins: 1, lastSeen: 1_700_000_060_000 });
+    expect(rep["solver-alpha"].avgScore).toBeCloseTo(0.6);
+    expect(rep["solver-beta"]).toMatchObject({ totalQuotes: 2, safeQuotes: 0, dangerQuotes: 2, wins: 0 });
+    await store.close();
+  });
+
+  it("filters history and pages through it newest first", async () => {
+    const store = new SqliteCompetitionStore(":memory:");
+    const base = 1_700_000_000_000;
+    for (let i = 0; i < 5; i++) await store.saveCompetition(competition(`c${i}`, { createdAt: base + i * 1000 }));
+    await store.saveCompetition(competition("dai", { createdAt: base + 500, intent: { ...intent, tokenOut: "DAI" } }));
+    await store.saveCompetition(competition("danger", {
+      createdAt: base + 2000,
+      quotes: [quote("solver-gamma", 0.3)],
+      riskRatings: { "solver-gamma": "danger" },
+      winner: null,
+      code: "ALL_DANGER",
+    }));
+
+    const first = await store.listCompetitions({ tokenIn: "weth", tokenOut: "usdc", solver: "solver-alpha" }, { limit: 2 });
+    expect(first.competitions.map((c) => c.id)).toEqual(["c4", "c3"]);
+    const second = await store.listCompetitions({ tokenIn: "weth", tokenOut: "usdc", solver: "solver-alpha" }, { limit: 2, cursor: first.nextCursor! });
+    expect(second.competitions.map((c) => c.id)).toEqual(["c2", "c1"]);
+    const last = await store.listCompetitions({ tokenIn: "weth", tokenOut: "usdc", solver: "solver-alpha" }, { limit: 2, cursor: second.nextCursor! });
+    expect(last).toEqual({ competitions: [expect.objectContaining({ id: "c0" })], nextCursor: null });
+
+    expect((await store.listCompetitions({ from: base + 1000, to: base + 3000 }, { limit: 10 })).competitions.map((c) => c.id))
+      .toEqual(["danger", "c2", "c1"]);
+    const noWinner = await store.listCompetitions({ outcome: "no_winner", codes: ["ALL_DANGER"] }, { limit: 10 });
+    expect(noWinner.competitions).toEqual([expect.objectContaining({ id: "danger", riskRatings: { "solver-gamma": "danger" } })]);
+    await expect(store.listCompetitions({}, { limit: 1, cursor: "bogus" })).rejects.toBeInstanceOf(InvalidCursorError);
+    await store.close();
+  });
+});
+
+describe("/compete history", () => {
+  let server: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    delete process.env.ANTHROPIC_API_KEY;
+    registerPriceProvider(createFixtureProvider({ WETH: 3200, USDC: 1 }));
+    setPriceProviderOrder(["fixture"]);
+    clearPriceCache();
+    setCompetitionStore(new SqliteCompetitionStore(":memory:"));
+    server = app.listen(0);
+    await new Promise((r) => server.once("listening", r));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    setPriceProviderOrder(null);
+    unregisterPriceProvider("fixture");
+    clearPriceCache();
+    await getCompetitionStore().close();
+    setCompetitionStore(null);
+    await new Promise<void>((r) => server.close(() => r()));
+  });
+
+  it("records each auction and rebuilds /reputation from storage", async () => {
+    const res = await fetch(`${base}/compete`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ intent, solvers: [{ name: "solver-alpha" }, { name: "solver-beta" }] }),
+    });
+    const body = await res.json() as any;
+    expect(typeof body.competitionId).toBe("string");
+
+    const stored = await getCompetitionStore().getCompetition(body.competitionId);
+    expect(stored?.quotes.map((q) => q.solver)).toEqual(["solver-alpha", "solver-beta"]);
+    expect(stored?.winner).toBe(body.best?.solver ?? null);
+    expect(stored?.code).toBe(body.code ?? null);
+
+    const rep = await (await fetch(`${base}/reputation`)).json() as any;
+    expect(rep.solvers.map((s: any) => s.solver).sort()).toEqual(["solver-alpha", "solver-beta"]);
+    expect(rep.solvers.every((s: any) => s.totalQuotes === 1)).toBe(true);
+
+    const list = await (await fetch(`${base}/competitions?tokenIn=WETH&tokenOut=USDC&solver=solver-beta&limit=1`)).json() as any;
+    expect(list.competitions.map((c: any) => c.id)).toEqual([body.competitionId]);
+    expect(list.nextCursor).toBeNull();
+    const one = await fetch(`${base}/competitions/${body.competitionId}`);
+    expect(((await one.json()) as any).quotes).toHaveLength(2);
+  });
+
+  it("rejects bad history queries and unknown ids", async () => {
+    const bad = await fetch(`${base}/competitions?code=NOPE`);
+    expect(bad.status).toBe(400);
+    expect(((await bad.json()) as any).code).toBe("INVALID_FILTER");
+    expect(((await (await fetch(`${base}/competitions?cursor=bogus`)).json()) as any).code).toBe("INVALID_CURSOR");
+    const missing = await fetch(`${base}/competitions/nope`);
+    expect(missing.status).toBe(404);
+    expect(((await missing.json()) as any).code).toBe("COMPETITION_NOT_FOUND");
+  });
+});
@@ -0,0 +1,285 @@
+// storage.ts - Durable competition history and solver reputation
+// SQLite (better-sqlite3) by default at DATABASE_PATH; any CompetitionStore can be swapped in with setCompetitionStore.
+
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import Database from "better-sqlite3";
+import { IntentInput, SolverQuote } from "./solver.js";
+import { RiskAnalysis } from "./riskAnalysis.js";
+import { SplitAllocation } from "./splitAllocation.js";
+
+export type SolverError = { solver: string; code: string; error: string };
+
+// One /compete auction: request, every quote with the risk rating used for selection, and the outcome
+export type CompetitionRecord = {
+  id: string;
+  createdAt: number; // epoch ms
+  intent: IntentInput;
+  strictMode: boolean;
+  quotes: SolverQuote[];
+  riskRatings: Record<string, string>; // solver -> rating the winner selection used
+  riskAnalysis: RiskAnalysis | null;
+  winner: string | null;
+  code: string | null; // warning code (ALL_DANGER, NO_VALID_QUOTES, NO_BONDED_SOLVERS, BOND_POLICY_UNAVAILABLE, NO_SAFE_QUOTES, DANGER_OVERRIDE); null on a clean win
+  warning: string | null;
+  solverErrors: SolverError[];
+  allocation: SplitAllocation | null;
+};
+
+export type SolverReputation = {
+  solver: string;
+  totalQuotes: number;
+  safeQuotes: number;
+  dangerQuotes: number;
+  wins: number;
+  avgScore: number;
+  lastSeen: number;
+};
+
+export type CompetitionOutcome = "winner" | "no_winner";
+
+export type CompetitionFilter = {
+  tokenIn?: string; // symbol or address, case-insensitive
+  tokenOut?: string;
+  solver?: string; // quoted in the auction
+  winner?: string;
+  from?: number; // createdAt >= from (epoch ms)
+  to?: number; // createdAt < to (epoch ms)
+  outcome?: CompetitionOutcome;
+  codes?: string[]; // warning codes, e.g. ALL_DANGER
+};
+
+export type CompetitionPage = { competitions: CompetitionRecord[]; nextCursor: string | null };
+
+export interface CompetitionStore {
+  saveCompetition(record: CompetitionRecord): Promise<void>;
+  getCompetition(id: string): Promise<CompetitionRecord | null>;
+  /** Newest first; pass the previous page's nextCursor to continue. */
+  listCompetitions(filter: CompetitionFilter, page: { limit: number; cursor?: string }): Promise<CompetitionPage>;
+  /** Most recent auction that produced this executionHash, as a quote or a split leg. */
+  findByExecutionHash(executionHash: string): Promise<{ competitionId: string; solver: string } | null>;
+  /** Per-solver aggregates over every recorded competition. */
+  getReputation(): Promise<SolverReputation[]>;
+  close(): Promise<void>;
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("cursor is not valid");
+    this.name = "InvalidCursorError";
+  }
+}
+
+// Opaque keyset cursor over (createdAt, id), newest first
+export function encodeCursor(record: Pick<CompetitionRecord, "createdAt" | "id">): string {
+  return Buffer.from(`${record.createdAt}:${record.id}`).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): { createdAt: number; id: string } {
+  const raw = Buffer.from(cursor, "base64url").toString();
+  const sep = raw.indexOf(":");
+  const createdAt = Number(raw.slice(0, sep));
+  if (sep <= 0 || !Number.isInteger(createdAt) || sep === raw.length - 1) throw new InvalidCursorError();
+  return { createdAt, id: raw.slice(sep + 1) };
+}
+
+const SCHEMA_VERSION = 1;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS competitions (
+  id TEXT PRIMARY KEY,
+  created_at INTEGER NOT NULL,
+  token_in TEXT NOT NULL,
+  token_out TEXT NOT NULL,
+  amount_in TEXT NOT NULL,
+  strict_mode INTEGER NOT NULL,
+  winner TEXT,
+  code TEXT,
+  warning TEXT,
+  intent_json TEXT NOT NULL,
+  risk_json TEXT,
+  solver_errors_json TEXT NOT NULL,
+  allocation_json TEXT
+);
+CREATE INDEX IF NOT EXISTS competitions_created_at ON competitions (created_at, id);
+
+CREATE TABLE IF NOT EXISTS quotes (
+  competition_id TEXT NOT NULL REFERENCES competitions (id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  solver TEXT NOT NULL,
+  score REAL NOT NULL,
+  valid INTEGER NOT NULL,
+  risk_rating TEXT NOT NULL,
+  is_winner INTEGER NOT NULL,
+  quote_json TEXT NOT NULL,
+  PRIMARY KEY (competition_id, position)
+);
+CREATE INDEX IF NOT EXISTS quotes_solver ON quotes (solver, competition_id);
+CREATE INDEX IF NOT EXISTS competitions_pair ON competitions (token_in, token_out, created_at);
+CREATE INDEX IF NOT EXISTS quotes_execution_hash ON quotes (json_extract(quote_json, '$.executionHash'));
+`;
+
+type CompetitionRow = {
+  id: string;
+  created_at: number;
+  strict_mode: number;
+  winner: string | null;
+  code: string | null;
+  warning: string | null;
+  intent_json: string;
+  risk_json: string | null;
+  solver_errors_json: string;
+  allocation_json: string | null;
+};
+
+type QuoteRow = { solver: string; risk_rating: string; quote_json: string };
+
+export class SqliteCompetitionStore implements CompetitionStore {
+  private db: Database.Database;
+
+  constructor(path: string) {
+    if (path !== ":memory:") mkdirSync(dirname(path), { recursive: true });
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("foreign_keys = ON");
+    this.db.exec(SCHEMA);
+    this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+  }
+
+  async saveCompetition(r: CompetitionRecord): Promise<void> {
+    const insertCompetition = this.db.prepare(`
+      INSERT INTO competitions (id, created_at, token_in, token_out, amount_in, strict_mode, winner, code, warning,
+                                intent_json, risk_json, solver_errors_json, allocation_json)
+      VALUES (@id, @createdAt, @tokenIn, @tokenOut, @amountIn, @strictMode, @winner, @code, @warning,
+              @intentJson, @riskJson, @solverErrorsJson, @allocationJson)`);
+    const insertQuote = this.db.prepare(`
+      INSERT INTO quotes (competition_id, position, solver, score, valid, risk_rating, is_winner, quote_json)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)`);
+
+    this.db.transaction(() => {
+      insertCompetition.run({
+        id: r.id,
+        createdAt: r.createdAt,
+        tokenIn: r.intent.tokenIn.toLowerCase(),
+        tokenOut: r.intent.tokenOut.toLowerCase(),
+        amountIn: r.intent.amountIn,
+        strictMode: r.strictMode ? 1 : 0,
+        winner: r.winner,
+        code: r.code,
+        warning: r.warning,
+        intentJson: JSON.stringify(r.intent),
+        riskJson: r.riskAnalysis ? JSON.stringify(r.riskAnalysis) : null,
+        solverErrorsJson: JSON.stringify(r.solverErrors),
+        allocationJson: r.allocation ? JSON.stringify(r.allocation) : null,
+      });
+      r.quotes.forEach((q, i) => {
+        insertQuote.run(
+          r.id, i, q.solver, q.score, q.valid ? 1 : 0,
+          r.riskRatings[q.solver] ?? "unanalyzed", q.solver === r.winner ? 1 : 0, JSON.stringify(q),
+        );
+      });
+    })();
+  }
+
+  async getCompetition(id: string): Promise<CompetitionRecord | null> {
+    const row = this.db.prepare("SELECT * FROM competitions WHERE id = ?").get(id) as CompetitionRow | undefined;
+    return row ? this.hydrate(row) : null;
+  }
+
+  async listCompetitions(filter: CompetitionFilter, page: { limit: number; cursor?: string }): Promise<CompetitionPage> {
+    const where: string[] = [];
+    const params: (string | number)[] = [];
+    if (filter.tokenIn) { where.push("token_in = ?"); params.push(filter.tokenIn.toLowerCase()); }
+    if (filter.tokenOut) { where.push("token_out = ?"); params.push(filter.tokenOut.toLowerCase()); }
+    if (filter.solver) { where.push("EXISTS (SELECT 1 FROM quotes q WHERE q.competition_id = competitions.id AND q.solver = ?)"); params.push(filter.solver); }
+    if (filter.winner) { where.push("winner = ?"); params.push(filter.winner); }
+    if (filter.from !== undefined) { where.push("created_at >= ?"); params.push(filter.from); }
+    if (filter.to !== undefined) { where.push("created_at < ?"); params.push(filter.to); }
+    if (filter.outcome) where.push(filter.outcome === "winner" ? "winner IS NOT NULL" : "winner IS NULL");
+    if (filter.codes?.length) { where.push(`code IN (${filter.codes.map(() => "?").join(", ")})`); params.push(...filter.codes); }
+    if (page.cursor) {
+      const c = decodeCursor(page.cursor);
+      where.push("(created_at < ? OR (created_at = ? AND id < ?))");
+      params.push(c.createdAt, c.createdAt, c.id);
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const rows = this.db.prepare(`
+      SELECT * FROM competitions
+      ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ?`).all(...params, page.limit + 1) as CompetitionRow[];
+    const competitions = rows.slice(0, page.limit).map((row) => this.hydrate(row));
+    return {
+      competitions,
+      nextCursor: rows.length > page.limit ? encodeCursor(competitions[competitions.length - 1]) : null,
+    };
+  }
+
+  async findByExecutionHash(executionHash: string): Promise<{ competitionId: string; solver: string } | null> {
+    const hash = executionHash.toLowerCase();
+    const quoted = this.db.prepare(`
+      SELECT q.competition_id AS competitionId, q.solver AS solver
+      FROM quotes q JOIN competitions c ON c.id = q.competition_id
+      WHERE json_extract(q.quote_json, '$.executionHash') = ?
+      ORDER BY c.created_at DESC LIMIT 1`).get(hash) as { competitionId: string; solver: string } | undefined;
+    if (quoted) return quoted;
+    // Split legs are re-quoted at a fraction of the intent, so their hashes only live in the allocation
+    const leg = this.db.prepare(`
+      SELECT c.id AS competitionId, json_extract(l.value, '$.solver') AS solver
+      FROM competitions c, json_each(c.allocation_json, '$.legs') l
+      WHERE c.allocation_json IS NOT NULL AND json_extract(l.value, '$.executionHash') = ?
+      ORDER BY c.created_at DESC LIMIT 1`).get(hash) as { competitionId: string; solver: string } | undefined;
+    return leg ?? null;
+  }
+
+  async getReputation(): Promise<SolverReputation[]> {
+    return this.db.prepare(`
+      SELECT q.solver AS solver,
+             COUNT(*) AS totalQuotes,
+             SUM(q.risk_rating IN ('safe', 'caution')) AS safeQuotes,
+             SUM(q.risk_rating = 'danger') AS dangerQuotes,
+             SUM(q.is_winner) AS wins,
+             AVG(q.score) AS avgScore,
+             MAX(c.created_at) AS lastSeen
+      FROM quotes q JOIN competitions c ON c.id = q.competition_id
+      GROUP BY q.solver`).all() as SolverReputation[];
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  private hydrate(row: CompetitionRow): CompetitionRecord {
+    const quoteRows = this.db
+      .prepare("SELECT solver, risk_rating, quote_json FROM quotes WHERE competition_id = ? ORDER BY position")
+      .all(row.id) as QuoteRow[];
+    return {
+      id: row.id,
+      createdAt: row.created_at,
+      intent: JSON.parse(row.intent_json),
+      strictMode: row.strict_mode === 1,
+      quotes: quoteRows.map((q) => JSON.parse(q.quote_json)),
+      riskRatings: Object.fromEntries(quoteRows.map((q) => [q.solver, q.risk_rating])),
+      riskAnalysis: row.risk_json ? JSON.parse(row.risk_json) : null,
+      winner: row.winner,
+      code: row.code,
+      warning: row.warning,
+      solverErrors: JSON.parse(row.solver_errors_json),
+      allocation: row.allocation_json ? JSON.parse(row.allocation_json) : null,
+    };
+  }
+}
+
+let store: CompetitionStore | null = null;
+
+/** Active store; opens SQLite at DATABASE_PATH (default data/ilm.sqlite) on first use. */
+export function getCompetitionStore(): CompetitionStore {
+  if (!store) store = new SqliteCompetitionStore(process.env.DATABASE_PATH || "data/ilm.sqlite");
+  return store;
+}
+
+/** Swap the storage backend (e.g. a hosted database). Closing the previous store is the caller's call. */
+export function setCompetitionStore(next: CompetitionStore | null): void {
+  store = next;
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { Interface } from "ethers";
+import { TokenReader, clearTokenCache, floatToBaseUnits, resolveToken, resolveTokenOnchain, toBaseUnits } from "./tokens.js";
+
+const UNLISTED = "0x00000000000000000000000000000000000000d4";
+
+afterEach(() => clearTokenCache());
+
+describe("resolveTokenOnchain", () => {
+  const erc20 = new Interface(["function decimals() view returns (uint8)"]);
+  function reader(decimals: number) {
+    const calls: string[] = [];
+    const r = {
+      call: async (tx: { to: string }) => {
+        calls.push(tx.to);
+        return erc20.encodeFunctionResult("decimals", [decimals]);
+      },
+    } as unknown as TokenReader;
+    return { r, calls };
+  }
+
+  it("reads decimals() once for unlisted addresses and never for listed tokens", async () => {
+    const { r, calls } = reader(8);
+    expect((await resolveTokenOnchain(UNLISTED, 8453, r)).decimals).toBe(8);
+    expect((await resolveTokenOnchain(UNLISTED, 8453, r)).decimals).toBe(8);
+    expect(resolveToken(UNLISTED).decimals).toBe(8);
+    expect(await resolveTokenOnchain("USDC", 8453, r)).toMatchObject({ symbol: "USDC", decimals: 6 });
+    expect(calls).toHaveLength(1);
+  });
+
+  it("keeps decimals and token lists per chain", async () => {
+    await resolveTokenOnchain(UNLISTED, 8453, reader(8).r);
+    expect(resolveToken(UNLISTED, 10).decimals).toBe(18);
+    expect((await resolveTokenOnchain(UNLISTED, 10, reader(6).r)).decimals).toBe(6);
+    expect(resolveToken(UNLISTED, 8453).decimals).toBe(8);
+    expect(resolveToken("USDC", 42161).address).toBe("0xaf88d065e77c8cC2239327C5EDb3A432268e5831");
+    expect(resolveToken("ETH", 1)).toMatchObject({ symbol: "WETH", address: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2" });
+  });
+
+  it("assumes 18 decimals without an RPC endpoint", async () => {
+    expect((await resolveTokenOnchain(UNLISTED, 8453, null)).decimals).toBe(18);
+  });
+});
+
+describe("base-unit conversion", () => {
+  it("truncates excess precision instead of rounding", () => {
+    expect(toBaseUnits("1.2345679", 6)).toBe("1234567");
+    expect(toBaseUnits("123456789012345678901234.5", 18)).toBe("123456789012345678901234500000000000000000");
+    expect(floatToBaseUnits(3193.6, 6)).toBe(3_193_600_000n);
+    expect(floatToBaseUnits(0.1 + 0.2, 18)).toBe(300_000_000_000_000_000n);
+  });
+});
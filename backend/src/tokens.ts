@@ -0,0 +1,78 @@
+// tokens.ts - Token resolution (symbol or address to address + decimals) and exact base-unit conversion
+// Per chain: pool registry first, then the chain's token list, then ERC20 decimals() over the chain's RPC endpoint for unlisted addresses.
+
+import { Interface, JsonRpcProvider, ZeroAddress, getAddress, isAddress, parseUnits } from "ethers";
+import { TokenRef, getPools, matchesToken } from "./amm.js";
+import { defaultChainId, getChain } from "./chains.js";
+import { getChainProvider } from "./rpc.js";
+
+export type TokenReader = Pick<JsonRpcProvider, "call">;
+
+const erc20 = new Interface(["function decimals() view returns (uint8)"]);
+// decimals() answers by chainId and lowercased address; a token's decimals never change
+const onchainDecimals = new Map<string, number>();
+const decimalsKey = (token: string, chainId: number) => `${chainId}:${token.toLowerCase()}`;
+
+function knownToken(token: string, chainId: number): TokenRef | null {
+  for (const p of getPools(chainId)) {
+    if (matchesToken(p.token0, token)) return p.token0;
+    if (matchesToken(p.token1, token)) return p.token1;
+  }
+  const chain = getChain(chainId);
+  if (!chain) return null;
+  // The native token trades as its wrapped form (ETH -> WETH)
+  const { symbol, wrapped } = chain.nativeToken;
+  const lookup = wrapped && token.toLowerCase() === symbol.toLowerCase() ? wrapped : token;
+  return chain.tokens.find((t) => matchesToken(t, lookup)) ?? null;
+}
+
+/**
+ * Resolve a symbol or address to a token on `chainId`: pool registry first, then the chain's token list.
+ * Unknown addresses use decimals() already read by resolveTokenOnchain, else 18; unknown symbols
+ * resolve to the zero address.
+ */
+export function resolveToken(token: string, chainId = defaultChainId()): TokenRef {
+  const known = knownToken(token, chainId);
+  if (known) return known;
+  if (!isAddress(token)) return { symbol: token, address: ZeroAddress, decimals: 18 };
+  return { symbol: token, address: getAddress(token), decimals: onchainDecimals.get(decimalsKey(token, chainId)) ?? 18 };
+}
+
+/** resolveToken, reading decimals() onchain for addresses neither the pools nor the token list know. */
+export async function resolveTokenOnchain(
+  token: string,
+  chainId = defaultChainId(),
+  reader: TokenReader | null = getChainProvider(chainId),
+): Promise<TokenRef> {
+  const ref = resolveToken(token, chainId);
+  const key = decimalsKey(token, chainId);
+  if (!reader || !isAddress(token) || knownToken(token, chainId) || onchainDecimals.has(key)) return ref;
+  try {
+    const data = await reader.call({ to: ref.address, data: erc20.encodeFunctionData("decimals") });
+    const decimals = Number(erc20.decodeFunctionResult("decimals", data)[0]);
+    onchainDecimals.set(key, decimals);
+    return { ...ref, decimals };
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.warn(`[tokens] decimals() failed for ${ref.address} on chain ${chainId}, assuming 18: ${msg}`);
+    return ref;
+  }
+}
+
+export function clearTokenCache(): void {
+  onchainDecimals.clear();
+}
+
+// parseUnits rejects excess precision; truncate instead of rounding up so the floor is never overstated
+export function toBaseUnits(amount: string, decimals: number): string {
+  const [whole, frac = ""] = amount.split(".");
+  return parseUnits(frac ? `${whole}.${frac.slice(0, decimals)}` : whole, decimals).toString();
+}
+
+/** Base units of a float amount (synthesized quotes), kept to 6 decimals and truncated like toBaseUnits. */
+export function floatToBaseUnits(amount: number, decimals: number): bigint {
+  if (!(amount > 0)) return 0n;
+  // toFixed switches to exponent notation from 1e21; a fraction is noise at that size anyway
+  if (amount >= 1e21) return BigInt(Math.floor(amount)) * 10n ** BigInt(decimals);
+  return BigInt(toBaseUnits(amount.toFixed(6), decimals));
+}
@@ -0,0 +1,8 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    // Competition history goes to a throwaway in-memory SQLite database during tests
+    env: { DATABASE_PATH: ":memory:" },
+  },
+});
@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @dev Minimal ERC20 interface for cross-chain escrow and delivery.
+interface IERC20 {
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+    function transfer(address to, uint256 amount) external returns (bool);
+}
+
+/// @notice Cross-chain intent: tokenIn escrowed on the origin chain, tokenOut delivered on the destination chain.
+///         keccak256(abi.encode(order)) is the order id on both chains.
+struct CrossChainOrder {
+    address user;
+    uint256 originChainId;
+    address escrow; // CrossChainEscrow holding tokenIn on the origin chain
+    address tokenIn;
+    uint256 amountIn;
+    uint256 destChainId;
+    address tokenOut; // token address on the destination chain
+    address recipient; // receives tokenOut on the destination chain
+    uint256 minAmountOut;
+    uint64 fillDeadline; // last destination-chain timestamp a fill is accepted
+    uint256 nonce;
+}
+
+/// @notice Proof step between the chains: which solver filled an order on its destination chain.
+///         Implementations range from a trusted relayer (MockFillAttester) to a bridge or light-client message.
+interface IFillAttester {
+    /// @return solver Filler of orderId on the destination chain, zero while no fill is attested
+    /// @return amountOut tokenOut delivered to the recipient
+    function attestedFill(bytes32 orderId) external view returns (address solver, uint256 amountOut);
+}
@@ -0,0 +1,163 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {CrossChainOrder, IERC20, IFillAttester} from "./CrossChain.sol";
+
+/// @title CrossChainEscrow (origin chain)
+/// @notice Users escrow tokenIn for delivery of tokenOut on another chain. Once the attester reports the
+///         destination fill, escrow is released to the solver; unfilled orders refund after fillDeadline + refundDelay.
+contract CrossChainEscrow {
+    // Reentrancy guard (lightweight, no OZ import)
+    bool private _locked;
+
+    modifier nonReentrant() {
+        require(!_locked, "reentrant");
+        _locked = true;
+        _;
+        _locked = false;
+    }
+
+    enum OrderStatus {
+        None,
+        Open,
+        Settled,
+        Refunded
+    }
+
+    address public owner;
+    IFillAttester public attester;
+    /// @notice Time after fillDeadline during which an attestation may still arrive before refunds open.
+    uint64 public refundDelay;
+    uint256 public nextNonce = 1;
+
+    mapping(bytes32 => CrossChainOrder) private _orders;
+    mapping(bytes32 => OrderStatus) public orderStatus;
+
+    event CrossChainIntentOpened(bytes32 indexed orderId, address indexed user, uint256 indexed destChainId, CrossChainOrder order);
+    event CrossChainIntentSettled(bytes32 indexed orderId, address indexed solver, uint256 amountOut);
+    event CrossChainIntentRefunded(bytes32 indexed orderId, uint256 refundAmount);
+    event AttesterUpdated(address indexed attester);
+    event RefundDelayUpdated(uint64 refundDelay);
+    event OwnershipTransferred(address indexed oldOwner, address indexed newOwner);
+
+    error NotOwner();
+    error InvalidIntent();
+    error InvalidStatus();
+    error FillNotAttested();
+    error OutputTooLow();
+    error RefundNotDue();
+    error TransferFailed();
+
+    constructor(address _attester, uint64 _refundDelay) {
+        owner = msg.sender;
+        attester = IFillAttester(_attester);
+        refundDelay = _refundDelay;
+    }
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    function setAttester(address _attester) external onlyOwner {
+        attester = IFillAttester(_attester);
+        emit AttesterUpdated(_attester);
+    }
+
+    function setRefundDelay(uint64 _refundDelay) external onlyOwner {
+        refundDelay = _refundDelay;
+        emit RefundDelayUpdated(_refundDelay);
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        require(newOwner != address(0), "zero owner");
+        address old = owner;
+        owner = newOwner;
+        emit OwnershipTransferred(old, newOwner);
+    }
+
+    /// @notice Escrow amountIn of tokenIn for at least minAmountOut of tokenOut paid to recipient on destChainId.
+    function open(
+        address tokenIn,
+        uint256 amountIn,
+        uint256 destChainId,
+        address tokenOut,
+        address recipient,
+        uint256 minAmountOut,
+        uint64 fillDeadline
+    ) external nonReentrant returns (bytes32 orderId) {
+        if (amountIn == 0 || minAmountOut == 0 || recipient == address(0)) revert InvalidIntent();
+        if (destChainId == block.chainid || fillDeadline <= block.timestamp) revert InvalidIntent();
+
+        CrossChainOrder memory order = CrossChainOrder({
+            user: msg.sender,
+            originChainId: block.chainid,
+            escrow: address(this),
+            tokenIn: tokenIn,
+            amountIn: amountIn,
+            destChainId: destChainId,
+            tokenOut: tokenOut,
+            recipient: recipient,
+            minAmountOut: minAmountOut,
+            fillDeadline: fillDeadline,
+            nonce: nextNonce++
+        });
+        orderId = keccak256(abi.encode(order));
+        _orders[orderId] = order;
+        orderStatus[orderId] = OrderStatus.Open;
+
+        _safeTransferFrom(tokenIn, msg.sender, address(this), amountIn);
+
+        emit CrossChainIntentOpened(orderId, msg.sender, destChainId, order);
+    }
+
+    /// @notice Release escrowed tokenIn to the solver the attester reports as the destination filler. Callable by anyone.
+    ///         An attestation below minAmountOut never settles; the order refunds once due instead.
+    function settle(bytes32 orderId) external nonReentrant {
+        if (orderStatus[orderId] != OrderStatus.Open) revert InvalidStatus();
+        CrossChainOrder storage order = _orders[orderId];
+        (address solver, uint256 amountOut) = attester.attestedFill(orderId);
+        if (solver == address(0)) revert FillNotAttested();
+        if (amountOut < order.minAmountOut) revert OutputTooLow();
+
+        orderStatus[orderId] = OrderStatus.Settled;
+        _safeTransfer(order.tokenIn, solver, order.amountIn);
+
+        emit CrossChainIntentSettled(orderId, solver, amountOut);
+    }
+
+    /// @notice Return escrowed tokenIn to the user once fillDeadline + refundDelay has passed with no attested fill,
+    ///         or with one that delivered less than minAmountOut (which can never settle). Callable by anyone.
+    function refund(bytes32 orderId) external nonReentrant {
+        if (orderStatus[orderId] != OrderStatus.Open) revert InvalidStatus();
+        CrossChainOrder storage order = _orders[orderId];
+        if (block.timestamp <= uint256(order.fillDeadline) + refundDelay) revert RefundNotDue();
+        (address solver, uint256 amountOut) = attester.attestedFill(orderId);
+        if (solver != address(0) && amountOut >= order.minAmountOut) revert InvalidStatus(); // filled: settle instead
+
+        orderStatus[orderId] = OrderStatus.Refunded;
+        _safeTransfer(order.tokenIn, order.user, order.amountIn);
+
+        emit CrossChainIntentRefunded(orderId, order.amountIn);
+    }
+
+    function getOrder(bytes32 orderId) external view returns (CrossChainOrder memory) {
+        return _orders[orderId];
+    }
+
+    function _safeTransfer(address token, address to, uint256 amount) internal {
+        _callOptionalReturn(token, abi.encodeCall(IERC20.transfer, (to, amount)));
+    }
+
+    function _safeTransferFrom(address token, address from, address to, uint256 amount) internal {
+        _callOptionalReturn(token, abi.encodeCall(IERC20.transferFrom, (from, to, amount)));
+    }
+
+    /// @dev SafeERC20-style call, as in IntentRouter: accepts tokens that return nothing (USDT) and rejects
+    ///      a false return, a revert or a token address without code.
+    function _callOptionalReturn(address token, bytes memory data) private {
+        if (token.code.length == 0) revert TransferFailed();
+        (bool ok, bytes memory ret) = token.call(data);
+        if (!ok || (ret.length != 0 && (ret.length != 32 || !abi.decode(ret, (bool))))) revert TransferFailed();
+    }
+}
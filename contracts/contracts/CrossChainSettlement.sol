@@ -0,0 +1,64 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {CrossChainOrder, IERC20} from "./CrossChain.sol";
+
+/// @title CrossChainSettlement (destination chain)
+/// @notice Solvers deliver tokenOut for orders escrowed on another chain. Each order fills once, before its
+///         fillDeadline; the recorded fill is what an attester relays back to the origin CrossChainEscrow.
+contract CrossChainSettlement {
+    // Reentrancy guard (lightweight, no OZ import)
+    bool private _locked;
+
+    modifier nonReentrant() {
+        require(!_locked, "reentrant");
+        _locked = true;
+        _;
+        _locked = false;
+    }
+
+    struct Fill {
+        address solver;
+        uint256 amountOut;
+        uint64 filledAt;
+    }
+
+    mapping(bytes32 => Fill) public fills;
+
+    event OrderFilled(
+        bytes32 indexed orderId,
+        address indexed solver,
+        address indexed recipient,
+        uint256 originChainId,
+        address tokenOut,
+        uint256 amountOut
+    );
+
+    error WrongChain();
+    error DeadlinePassed();
+    error OutputTooLow();
+    error AlreadyFilled();
+    error TransferFailed();
+
+    /// @notice Deliver amountOut of order.tokenOut from the solver to order.recipient.
+    function fill(CrossChainOrder calldata order, uint256 amountOut) external nonReentrant returns (bytes32 orderId) {
+        if (order.destChainId != block.chainid) revert WrongChain();
+        if (block.timestamp > order.fillDeadline) revert DeadlinePassed();
+        if (amountOut < order.minAmountOut) revert OutputTooLow();
+        orderId = keccak256(abi.encode(order));
+        if (fills[orderId].solver != address(0)) revert AlreadyFilled();
+
+        fills[orderId] = Fill({solver: msg.sender, amountOut: amountOut, filledAt: uint64(block.timestamp)});
+        _callOptionalReturn(order.tokenOut, abi.encodeCall(IERC20.transferFrom, (msg.sender, order.recipient, amountOut)));
+
+        emit OrderFilled(orderId, msg.sender, order.recipient, order.originChainId, order.tokenOut, amountOut);
+    }
+
+    /// @dev SafeERC20-style call, as in IntentRouter: accepts tokens that return nothing (USDT) and rejects
+    ///      a false return, a revert or a token address without code.
+    function _callOptionalReturn(address token, bytes memory data) private {
+        if (token.code.length == 0) revert TransferFailed();
+        (bool ok, bytes memory ret) = token.call(data);
+        if (!ok || (ret.length != 0 && (ret.length != 32 || !abi.decode(ret, (bool))))) revert TransferFailed();
+    }
+}
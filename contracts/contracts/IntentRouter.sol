@@ -1,7 +1,8 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-/// @dev Minimal ERC20 interface for escrow transfers.
+/// @dev Minimal ERC20 interface for escrow transfers. transfer/transferFrom are only called through
+///      _safeTransfer/_safeTransferFrom, which also accept tokens that return nothing (USDT).
 interface IERC20 {
     function transferFrom(address from, address to, uint256 amount) external returns (bool);
     function transfer(address to, uint256 amount) external returns (bool);
@@ -9,9 +10,52 @@ interface IERC20 {
     function approve(address spender, uint256 amount) external returns (bool);
 }
 
+/// @dev WETH9 subset for wrapping native ETH into escrow and unwrapping refunds.
+interface IWETH {
+    function deposit() external payable;
+    function withdraw(uint256 amount) external;
+}
+
+/// @dev Reference price source for the onchain slippage bound.
+interface IPriceOracle {
+    /// @return amountOut fair output for amountIn of tokenIn, in tokenOut base units (no fees, no impact)
+    function quote(address tokenIn, address tokenOut, uint256 amountIn) external view returns (uint256 amountOut);
+}
+
+/// @dev ERC-2612 permit extension.
+interface IERC20Permit {
+    function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) external;
+}
+
+/// @dev Uniswap Permit2 SignatureTransfer subset used for gasless escrow.
+interface ISignatureTransfer {
+    struct TokenPermissions {
+        address token;
+        uint256 amount;
+    }
+
+    struct PermitTransferFrom {
+        TokenPermissions permitted;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    struct SignatureTransferDetails {
+        address to;
+        uint256 requestedAmount;
+    }
+
+    function permitTransferFrom(
+        PermitTransferFrom memory permit,
+        SignatureTransferDetails calldata transferDetails,
+        address owner,
+        bytes calldata signature
+    ) external;
+}
+
 /// @title IntentRouter (ILM MVP)
 /// @notice Users post intents with constraints; approved solver executes and settles.
-///         Real ERC20 escrow, token transfers on fill/cancel/expire.
+///         Real ERC20 (or native ETH) escrow, token transfers on fill/cancel/expire.
 contract IntentRouter {
     // Reentrancy guard (lightweight, no OZ import)
     bool private _locked;
@@ -27,7 +71,8 @@ contract IntentRouter {
         Open,
         Filled,
         Cancelled,
-        Expired
+        Expired,
+        PartiallyFilled
     }
 
     struct Intent {
@@ -40,11 +85,73 @@ contract IntentRouter {
         uint256 maxGasWei;
         uint64 deadline;
         IntentStatus status;
-        address winningSolver;
+        address winningSolver; // solver of the most recent fill
+        uint256 amountOut; // total tokenOut delivered across fills
+        bytes32 executionHash; // hash of the most recent fill
+    }
+
+    /// @notice Offchain-signed intent (EIP-712). Amounts are in token base units.
+    struct SignedIntent {
+        address user;
+        address tokenIn;
+        address tokenOut;
+        uint256 amountIn;
+        uint256 minAmountOut;
+        uint256 maxSlippageBps;
+        uint256 maxGasWei;
+        uint64 deadline;
+        uint256 nonce;
+    }
+
+    /// @notice How fillSignedIntent pulls tokenIn from the user.
+    enum PermitKind {
+        None, // plain ERC20 allowance to this contract
+        ERC2612, // token.permit(v, r, s)
+        Permit2 // Permit2 permitTransferFrom(nonce, signature)
+    }
+
+    struct PermitData {
+        PermitKind kind;
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+        uint256 nonce; // Permit2 nonce
+        bytes signature; // Permit2 signature
+    }
+
+    /// @notice Winning quote as scored offchain. keccak256(abi.encode(quote)) is the executionHash the backend reports.
+    struct Quote {
+        address solver;
+        address tokenIn;
+        address tokenOut;
+        uint256 amountIn;
+        uint256 amountOut; // quoted output in base units; the fill may not deliver less
+        uint256 gasWei;
+        uint64 quotedAt;
+    }
+
+    struct QuoteCommitment {
+        address solver;
         uint256 amountOut;
-        bytes32 executionHash;
+        bytes32 quoteHash;
+        uint64 exclusiveUntil; // end of the solver's exclusivity window; 0 = binding until filled
+        uint256 bondLocked; // slashAmount locked from the solver's bond until it completes the fill or the window closes
     }
 
+    bytes32 public constant INTENT_TYPEHASH = keccak256(
+        "Intent(address user,address tokenIn,address tokenOut,uint256 amountIn,uint256 minAmountOut,uint256 maxSlippageBps,uint256 maxGasWei,uint64 deadline,uint256 nonce)"
+    );
+    /// @notice EIP-712 type a solver signs to accept an intent's commitment to its quote (and the bond lock).
+    bytes32 public constant QUOTE_ACCEPTANCE_TYPEHASH = keccak256("QuoteAcceptance(uint256 intentId,bytes32 quoteHash)");
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 private immutable _cachedDomainSeparator;
+    uint256 private immutable _cachedChainId;
+
+    /// @notice tokenIn/tokenOut value standing for native ETH.
+    address public constant NATIVE_ETH = 0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE;
+
     uint256 public nextIntentId = 1;
     uint256 public protocolFeeBps = 10; // 0.10%
     address public feeRecipient;
@@ -52,6 +159,41 @@ contract IntentRouter {
 
     mapping(uint256 => Intent) public intents;
     mapping(address => bool) public approvedSolvers;
+    /// @notice tokenIn released to solvers so far, per intent (partial fills).
+    mapping(uint256 => uint256) public filledAmountIn;
+    /// @notice Replay protection for signed intents: user => nonce => used/cancelled.
+    mapping(address => mapping(uint256 => bool)) public usedNonces;
+    /// @notice Quote the user accepted for an intent; while it binds, only that solver can fill, with that hash.
+    mapping(uint256 => QuoteCommitment) public quoteCommitments;
+    address public permit2;
+    /// @notice Reference oracle for maxSlippageBps; unset disables the slippage bound.
+    IPriceOracle public priceOracle;
+    /// @notice Wrapped native token createIntentETH wraps into; unset disables wrapping.
+    IWETH public weth;
+    /// @notice Intents whose WETH tokenIn was wrapped from ETH at creation; their refunds are unwrapped.
+    mapping(uint256 => bool) public wrappedNative;
+    /// @notice Native refunds the user's address did not accept, claimable with claimNativeRefund.
+    mapping(address => uint256) public pendingNativeRefunds;
+    /// @notice ERC20 refunds (user => token => amount) the token would not send at expiry, e.g. to a blacklisted
+    ///         address; claimable with claimTokenRefund.
+    mapping(address => mapping(address => uint256)) public pendingTokenRefunds;
+    /// @notice Tokens allowed to deliver less than the amount sent (fee-on-transfer). Others must arrive in full.
+    mapping(address => bool) public feeOnTransferTokens;
+    /// @notice Native ETH each solver has bonded with postBond.
+    mapping(address => uint256) public solverBonds;
+    /// @notice Part of each solver's bond locked by commitments still inside (or past, unslashed) their window.
+    mapping(address => uint256) public lockedBonds;
+    /// @notice QuoteAcceptance digests already committed; each solver acceptance locks (and can slash) its bond once.
+    mapping(bytes32 => bool) public usedQuoteAcceptances;
+    /// @notice Bond a solver must hold to fill or to win a commitment; 0 disables the requirement.
+    uint256 public minSolverBond;
+    /// @notice Bond locked per commitment and paid to the user if the solver misses its exclusivity window.
+    uint256 public slashAmount;
+    /// @notice Seconds a committed solver may fill alone; 0 keeps commitments binding until filled, unbonded.
+    uint64 public exclusivityWindow;
+
+    /// @dev Gas not visible to gasleft(): intrinsic cost, calldata and the outer call frame.
+    uint256 public constant FILL_GAS_OVERHEAD = 40_000;
 
     event IntentCreated(
         uint256 indexed intentId,
@@ -71,11 +213,34 @@ contract IntentRouter {
         uint256 feePaid
     );
 
+    event IntentPartiallyFilled(
+        uint256 indexed intentId,
+        address indexed solver,
+        uint256 amountIn,
+        uint256 amountOut,
+        bytes32 executionHash,
+        uint256 feePaid
+    );
+
     event IntentCancelled(uint256 indexed intentId);
+    event IntentExpired(uint256 indexed intentId, uint256 refundAmount);
     event SolverApproved(address indexed solver, bool approved);
     event ProtocolFeeUpdated(uint256 bps);
     event FeeRecipientUpdated(address indexed newRecipient);
     event OwnershipTransferred(address indexed oldOwner, address indexed newOwner);
+    event QuoteCommitted(uint256 indexed intentId, address indexed solver, uint256 amountOut, bytes32 quoteHash);
+    event NonceInvalidated(address indexed user, uint256 nonce);
+    event SignedIntentFilled(uint256 indexed intentId, address indexed user, uint256 nonce);
+    event Permit2Updated(address indexed permit2);
+    event PriceOracleUpdated(address indexed oracle);
+    event WethUpdated(address indexed weth);
+    event FeeOnTransferTokenSet(address indexed token, bool allowed);
+    event NativeRefundDeferred(address indexed user, uint256 amount);
+    event TokenRefundDeferred(address indexed user, address indexed token, uint256 amount);
+    event BondPolicyUpdated(uint256 minSolverBond, uint256 slashAmount, uint64 exclusivityWindow);
+    event BondPosted(address indexed solver, uint256 amount, uint256 total);
+    event BondWithdrawn(address indexed solver, uint256 amount);
+    event SolverSlashed(uint256 indexed intentId, address indexed solver, address indexed user, uint256 amount);
 
     error NotOwner();
     error NotIntentOwner();
@@ -85,10 +250,31 @@ contract IntentRouter {
     error SolverNotApproved();
     error OutputTooLow();
     error TransferFailed();
+    error InvalidSignature();
+    error SignatureExpired();
+    error NonceAlreadyUsed();
+    error Permit2NotSet();
+    error InvalidQuote();
+    error SolverMismatch();
+    error ExecutionHashMismatch();
+    error OutputBelowQuote();
+    error SlippageExceeded(uint256 amountOut, uint256 minAllowed);
+    error GasCostExceeded(uint256 gasCostWei, uint256 maxGasWei);
+    error OracleUnavailable();
+    error InvalidFillAmount();
+    error WethNotSet();
+    error NativeValueMismatch();
+    error FeeOnTransferNotSupported(address token, uint256 sent, uint256 received);
+    error InsufficientBond(address solver, uint256 available, uint256 required);
+    error NotSlashable();
+    error SolverSignatureRequired();
+    error QuoteAlreadyAccepted();
 
     constructor(address _feeRecipient) {
         owner = msg.sender;
         feeRecipient = _feeRecipient;
+        _cachedChainId = block.chainid;
+        _cachedDomainSeparator = _buildDomainSeparator();
     }
 
     modifier onlyOwner() {
@@ -113,6 +299,37 @@ contract IntentRouter {
         emit FeeRecipientUpdated(newRecipient);
     }
 
+    function setPermit2(address _permit2) external onlyOwner {
+        permit2 = _permit2;
+        emit Permit2Updated(_permit2);
+    }
+
+    function setPriceOracle(address oracle) external onlyOwner {
+        priceOracle = IPriceOracle(oracle);
+        emit PriceOracleUpdated(oracle);
+    }
+
+    function setWeth(address _weth) external onlyOwner {
+        weth = IWETH(_weth);
+        emit WethUpdated(_weth);
+    }
+
+    /// @notice Accept a fee-on-transfer token: escrow and fills then account for the amount actually received.
+    function setFeeOnTransferToken(address token, bool allowed) external onlyOwner {
+        feeOnTransferTokens[token] = allowed;
+        emit FeeOnTransferTokenSet(token, allowed);
+    }
+
+    /// @notice Bonding rules. With a window, the commitment locks slashAmount of the winner's bond; it is
+    ///         released when the winner completes the fill inside the window and paid to the user otherwise.
+    function setBondPolicy(uint256 _minSolverBond, uint256 _slashAmount, uint64 _exclusivityWindow) external onlyOwner {
+        require(_slashAmount <= _minSolverBond, "slash above bond");
+        minSolverBond = _minSolverBond;
+        slashAmount = _slashAmount;
+        exclusivityWindow = _exclusivityWindow;
+        emit BondPolicyUpdated(_minSolverBond, _slashAmount, _exclusivityWindow);
+    }
+
     function transferOwnership(address newOwner) external onlyOwner {
         require(newOwner != address(0), "zero owner");
         address old = owner;
@@ -120,7 +337,8 @@ contract IntentRouter {
         emit OwnershipTransferred(old, newOwner);
     }
 
-    /// @notice Post an intent and escrow amountIn of tokenIn into the contract.
+    /// @notice Post an intent and escrow amountIn of tokenIn into the contract. For an allowed fee-on-transfer
+    ///         token the intent's amountIn is what the contract received.
     function createIntent(
         address tokenIn,
         address tokenOut,
@@ -130,16 +348,393 @@ contract IntentRouter {
         uint256 maxGasWei,
         uint64 deadline
     ) external nonReentrant returns (uint256 intentId) {
+        _validateIntent(amountIn, minAmountOut, maxSlippageBps, deadline);
+        if (tokenIn == NATIVE_ETH) revert InvalidIntent(); // native input goes through createIntentETH
+
+        uint256 received = _pullIn(tokenIn, msg.sender, amountIn);
+        intentId = _storeIntent(msg.sender, tokenIn, tokenOut, received, minAmountOut, maxSlippageBps, maxGasWei, deadline);
+    }
+
+    /// @notice Post an intent selling msg.value of native ETH. With wrap, the ETH is escrowed as WETH and solvers
+    ///         receive WETH; otherwise tokenIn is NATIVE_ETH and solvers receive ETH. Refunds return ETH either way.
+    function createIntentETH(
+        address tokenOut,
+        uint256 minAmountOut,
+        uint256 maxSlippageBps,
+        uint256 maxGasWei,
+        uint64 deadline,
+        bool wrap
+    ) external payable nonReentrant returns (uint256 intentId) {
+        _validateIntent(msg.value, minAmountOut, maxSlippageBps, deadline);
+
+        address tokenIn = NATIVE_ETH;
+        if (wrap) {
+            if (address(weth) == address(0)) revert WethNotSet();
+            weth.deposit{value: msg.value}();
+            tokenIn = address(weth);
+        }
+
+        intentId = _storeIntent(msg.sender, tokenIn, tokenOut, msg.value, minAmountOut, maxSlippageBps, maxGasWei, deadline);
+        if (wrap) wrappedNative[intentId] = true;
+    }
+
+    /// @notice Withdraw native refunds that could not be pushed to the caller when their intent expired.
+    function claimNativeRefund() external nonReentrant {
+        uint256 amount = pendingNativeRefunds[msg.sender];
+        pendingNativeRefunds[msg.sender] = 0;
+        (bool ok, ) = msg.sender.call{value: amount}("");
+        if (!ok) revert TransferFailed();
+    }
+
+    /// @notice Withdraw ERC20 refunds of token that could not be sent to the caller when their intent expired,
+    ///         to `to` (another address when the token refuses the caller's).
+    function claimTokenRefund(address token, address to) external nonReentrant {
+        uint256 amount = pendingTokenRefunds[msg.sender][token];
+        pendingTokenRefunds[msg.sender][token] = 0;
+        _safeTransfer(token, to, amount);
+    }
+
+    /// @notice Add msg.value to the caller's solver bond.
+    function postBond() external payable {
+        require(msg.value > 0, "zero bond");
+        solverBonds[msg.sender] += msg.value;
+        emit BondPosted(msg.sender, msg.value, solverBonds[msg.sender]);
+    }
+
+    /// @notice Withdraw unlocked bond. Bond locked by open commitments stays until they are filled or slashed.
+    function withdrawBond(uint256 amount) external nonReentrant {
+        uint256 available = solverBonds[msg.sender] - lockedBonds[msg.sender];
+        if (amount > available) revert InsufficientBond(msg.sender, available, amount);
+        solverBonds[msg.sender] -= amount;
+        _sendNative(msg.sender, amount, false);
+        emit BondWithdrawn(msg.sender, amount);
+    }
+
+    /// @notice Pay the locked bond of a commitment whose solver missed its exclusivity window to the intent's
+    ///         user. Callable by anyone; fills, cancellation and expiry after the window slash the same way.
+    function slashSolver(uint256 intentId) external nonReentrant {
+        QuoteCommitment storage c = quoteCommitments[intentId];
+        if (c.bondLocked == 0 || block.timestamp <= c.exclusiveUntil) revert NotSlashable();
+        _settleBond(intentId);
+    }
+
+    /// @dev Only WETH sends ETH outside a payable entry point (unwrapping refunds).
+    receive() external payable {
+        if (msg.sender != address(weth)) revert NativeValueMismatch();
+    }
+
+    /// @notice User commits the winning quote; fillIntent then requires its solver, hash and output.
+    ///         With an exclusivityWindow the commitment locks the solver's bond, so commitSignedQuote is required.
+    function commitQuote(uint256 intentId, Quote calldata quote) external {
+        if (exclusivityWindow > 0) revert SolverSignatureRequired();
+        _commitQuote(intentId, quote);
+    }
+
+    /// @notice commitQuote with the solver's EIP-712 QuoteAcceptance signature for this intent and quote. The
+    ///         commitment then holds until the exclusivity window closes, backed by slashAmount of the solver's bond.
+    ///         Each acceptance commits once, so a replay after the window can't slash the solver again.
+    function commitSignedQuote(uint256 intentId, Quote calldata quote, bytes calldata solverSignature) external {
+        bytes32 digest = hashQuoteAcceptance(intentId, quote);
+        if (_recover(digest, solverSignature) != quote.solver) revert InvalidSignature();
+        if (usedQuoteAcceptances[digest]) revert QuoteAlreadyAccepted();
+        usedQuoteAcceptances[digest] = true;
+        _commitQuote(intentId, quote);
+    }
+
+    /// @notice EIP-712 digest a solver signs to accept the commitment of `quote` to `intentId`.
+    function hashQuoteAcceptance(uint256 intentId, Quote calldata quote) public view returns (bytes32) {
+        bytes32 structHash = keccak256(abi.encode(QUOTE_ACCEPTANCE_TYPEHASH, intentId, hashQuote(quote)));
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+    }
+
+    function _commitQuote(uint256 intentId, Quote calldata quote) internal {
+        Intent storage inx = intents[intentId];
+        if (inx.user != msg.sender) revert NotIntentOwner();
+        if (inx.status != IntentStatus.Open) revert InvalidStatus();
+        if (block.timestamp > inx.deadline) revert DeadlinePassed();
+        if (
+            quote.solver == address(0) ||
+            quote.tokenIn != inx.tokenIn ||
+            quote.tokenOut != inx.tokenOut ||
+            quote.amountIn != inx.amountIn ||
+            quote.amountOut < inx.minAmountOut
+        ) revert InvalidQuote();
+
+        _settleBond(intentId); // a re-commit frees (or, past its window, slashes) the previous solver's bond
+        uint64 exclusiveUntil;
+        uint256 bondLocked;
+        if (exclusivityWindow > 0) {
+            exclusiveUntil = uint64(_min(block.timestamp + exclusivityWindow, inx.deadline));
+            bondLocked = _lockBond(quote.solver);
+        }
+
+        bytes32 quoteHash = hashQuote(quote);
+        quoteCommitments[intentId] = QuoteCommitment({
+            solver: quote.solver,
+            amountOut: quote.amountOut,
+            quoteHash: quoteHash,
+            exclusiveUntil: exclusiveUntil,
+            bondLocked: bondLocked
+        });
+        emit QuoteCommitted(intentId, quote.solver, quote.amountOut, quoteHash);
+    }
+
+    /// @notice Solver fills the remaining input of an intent with real token transfers.
+    ///         For NATIVE_ETH output the solver sends exactly amountOut as msg.value.
+    function fillIntent(
+        uint256 intentId,
+        uint256 amountOut,
+        bytes32 executionHash
+    ) external payable nonReentrant {
+        uint256 startGas = gasleft();
+        _checkSolver();
+        Intent storage inx = intents[intentId];
+        _fill(intentId, inx.amountIn - filledAmountIn[intentId], amountOut, executionHash, startGas);
+    }
+
+    /// @notice Solver fills part of an intent: amountIn of tokenIn for at least the pro-rata minAmountOut.
+    function fillIntentPartial(
+        uint256 intentId,
+        uint256 amountIn,
+        uint256 amountOut,
+        bytes32 executionHash
+    ) external payable nonReentrant {
+        uint256 startGas = gasleft();
+        _checkSolver();
+        _fill(intentId, amountIn, amountOut, executionHash, startGas);
+    }
+
+    /// @notice Solver submits a user's EIP-712 signed intent and fills it in one transaction.
+    ///         tokenIn is pulled from the user via allowance, ERC-2612 permit or Permit2; the user pays no gas.
+    function fillSignedIntent(
+        SignedIntent calldata intent,
+        bytes calldata signature,
+        PermitData calldata permitData,
+        uint256 amountOut,
+        bytes32 executionHash
+    ) external payable nonReentrant returns (uint256 intentId) {
+        uint256 startGas = gasleft();
+        _checkSolver();
+        if (block.timestamp > intent.deadline) revert SignatureExpired();
+        if (intent.tokenIn == NATIVE_ETH) revert InvalidIntent(); // native ETH can't be pulled from a signer
+        if (usedNonces[intent.user][intent.nonce]) revert NonceAlreadyUsed();
+        if (_recover(hashIntent(intent), signature) != intent.user) revert InvalidSignature();
+        _validateIntent(intent.amountIn, intent.minAmountOut, intent.maxSlippageBps, intent.deadline);
+
+        usedNonces[intent.user][intent.nonce] = true;
+        intentId = _storeSignedIntent(intent, _pullWithPermit(intent, permitData));
+        _fill(intentId, intents[intentId].amountIn, amountOut, executionHash, startGas);
+        emit SignedIntentFilled(intentId, intent.user, intent.nonce);
+    }
+
+    /// @notice User invalidates a signed intent nonce before any solver submits it.
+    function invalidateNonce(uint256 nonce) external {
+        if (usedNonces[msg.sender][nonce]) revert NonceAlreadyUsed();
+        usedNonces[msg.sender][nonce] = true;
+        emit NonceInvalidated(msg.sender, nonce);
+    }
+
+    /// @notice EIP-712 domain separator (recomputed if the chain id changes after a fork).
+    function domainSeparator() public view returns (bytes32) {
+        return block.chainid == _cachedChainId ? _cachedDomainSeparator : _buildDomainSeparator();
+    }
+
+    /// @notice Execution hash of a quote: keccak256 of its ABI encoding.
+    function hashQuote(Quote calldata quote) public pure returns (bytes32) {
+        return keccak256(abi.encode(quote));
+    }
+
+    /// @notice EIP-712 digest the user signs for a SignedIntent.
+    function hashIntent(SignedIntent calldata intent) public view returns (bytes32) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                INTENT_TYPEHASH,
+                intent.user,
+                intent.tokenIn,
+                intent.tokenOut,
+                intent.amountIn,
+                intent.minAmountOut,
+                intent.maxSlippageBps,
+                intent.maxGasWei,
+                intent.deadline,
+                intent.nonce
+            )
+        );
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+    }
+
+    /// @notice User cancels their open (or partially filled) intent and reclaims the unfilled tokenIn.
+    function cancelIntent(uint256 intentId) external nonReentrant {
+        Intent storage inx = intents[intentId];
+        if (inx.user != msg.sender) revert NotIntentOwner();
+        if (inx.status != IntentStatus.Open && inx.status != IntentStatus.PartiallyFilled) revert InvalidStatus();
+
+        inx.status = IntentStatus.Cancelled;
+        _settleBond(intentId);
+        _refund(intentId, inx.amountIn - filledAmountIn[intentId], false);
+
+        emit IntentCancelled(intentId);
+    }
+
+    /// @notice Anyone can mark an intent as expired after deadline; unfilled escrowed tokenIn returns to user.
+    function markExpired(uint256 intentId) external nonReentrant {
+        Intent storage inx = intents[intentId];
+        if (inx.status != IntentStatus.Open && inx.status != IntentStatus.PartiallyFilled) revert InvalidStatus();
+        if (block.timestamp <= inx.deadline) revert InvalidIntent();
+        _expire(intentId);
+    }
+
+    /// @notice Expire every listed intent that is past its deadline and still open; others are skipped
+    ///         so one stale id doesn't revert a keeper's batch.
+    /// @return expired Number of intents expired and refunded.
+    function markExpiredBatch(uint256[] calldata intentIds) external nonReentrant returns (uint256 expired) {
+        for (uint256 i = 0; i < intentIds.length; i++) {
+            Intent storage inx = intents[intentIds[i]];
+            if (inx.user == address(0)) continue; // never created: the zero status reads as Open
+            if (inx.status != IntentStatus.Open && inx.status != IntentStatus.PartiallyFilled) continue;
+            if (block.timestamp <= inx.deadline) continue;
+            _expire(intentIds[i]);
+            expired++;
+        }
+    }
+
+    function _expire(uint256 intentId) internal {
+        Intent storage inx = intents[intentId];
+        inx.status = IntentStatus.Expired;
+        _settleBond(intentId);
+
+        uint256 refund = inx.amountIn - filledAmountIn[intentId];
+        // Anyone may expire an intent: a user address that rejects ETH or tokenIn must not block it (or a keeper's batch)
+        _refund(intentId, refund, true);
+
+        emit IntentExpired(intentId, refund);
+    }
+
+    /// @dev Return unfilled tokenIn to the intent's user, as ETH for native and wrapped-native intents.
+    ///      With deferOnFailure a failed transfer is credited to pendingNativeRefunds or pendingTokenRefunds
+    ///      instead of reverting.
+    function _refund(uint256 intentId, uint256 amount, bool deferOnFailure) internal {
+        Intent storage inx = intents[intentId];
+        if (inx.tokenIn != NATIVE_ETH && !wrappedNative[intentId]) {
+            if (!deferOnFailure) {
+                _safeTransfer(inx.tokenIn, inx.user, amount);
+            } else if (!_tryCallOptionalReturn(inx.tokenIn, abi.encodeCall(IERC20.transfer, (inx.user, amount)))) {
+                pendingTokenRefunds[inx.user][inx.tokenIn] += amount;
+                emit TokenRefundDeferred(inx.user, inx.tokenIn, amount);
+            }
+            return;
+        }
+        if (wrappedNative[intentId]) IWETH(inx.tokenIn).withdraw(amount);
+        _sendNative(inx.user, amount, deferOnFailure);
+    }
+
+    /// @dev Send ETH; with deferOnFailure a rejected transfer is credited to pendingNativeRefunds instead of reverting.
+    function _sendNative(address to, uint256 amount, bool deferOnFailure) internal {
+        (bool ok, ) = to.call{value: amount}("");
+        if (ok) return;
+        if (!deferOnFailure) revert TransferFailed();
+        pendingNativeRefunds[to] += amount;
+        emit NativeRefundDeferred(to, amount);
+    }
+
+    /// @dev Fills need an approved solver holding at least minSolverBond.
+    function _checkSolver() internal view {
+        if (!approvedSolvers[msg.sender]) revert SolverNotApproved();
+        uint256 bond = solverBonds[msg.sender];
+        if (bond < minSolverBond) revert InsufficientBond(msg.sender, bond, minSolverBond);
+    }
+
+    /// @dev Lock slashAmount of a bonded solver's bond for a new commitment.
+    function _lockBond(address solver) internal returns (uint256) {
+        uint256 bond = solverBonds[solver];
+        if (bond < minSolverBond) revert InsufficientBond(solver, bond, minSolverBond);
+        uint256 available = bond - lockedBonds[solver];
+        if (available < slashAmount) revert InsufficientBond(solver, available, slashAmount);
+        lockedBonds[solver] += slashAmount;
+        return slashAmount;
+    }
+
+    /// @dev Unlock a commitment's bond: back to the solver while its window is open, slashed to the
+    ///      intent's user once the window has closed.
+    function _settleBond(uint256 intentId) internal {
+        QuoteCommitment storage c = quoteCommitments[intentId];
+        uint256 amount = c.bondLocked;
+        if (amount == 0) return;
+        c.bondLocked = 0;
+        lockedBonds[c.solver] -= amount;
+        if (block.timestamp <= c.exclusiveUntil) return;
+
+        solverBonds[c.solver] -= amount;
+        address user = intents[intentId].user;
+        _sendNative(user, amount, true); // a user that rejects ETH can't block fills or a keeper's batch
+        emit SolverSlashed(intentId, c.solver, user, amount);
+    }
+
+    /// @dev Send amount of token (or native ETH) held by this contract to `to`.
+    function _transferOut(address token, address to, uint256 amount) internal {
+        if (token == NATIVE_ETH) {
+            (bool ok, ) = to.call{value: amount}("");
+            if (!ok) revert TransferFailed();
+        } else {
+            _safeTransfer(token, to, amount);
+        }
+    }
+
+    /// @dev Pull amount of token from `from` and return what actually arrived, measured by balance delta.
+    ///      Short deliveries revert unless the token is an allowed fee-on-transfer token.
+    function _pullIn(address token, address from, uint256 amount) internal returns (uint256 received) {
+        if (token.code.length == 0) revert TransferFailed();
+        uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+        _safeTransferFrom(token, from, address(this), amount);
+        received = _received(token, amount, balanceBefore);
+    }
+
+    function _received(address token, uint256 sent, uint256 balanceBefore) internal view returns (uint256 received) {
+        received = IERC20(token).balanceOf(address(this)) - balanceBefore;
+        if (received == 0 || (received != sent && !feeOnTransferTokens[token])) {
+            revert FeeOnTransferNotSupported(token, sent, received);
+        }
+    }
+
+    /// @dev SafeERC20-style transfer: reverts on failure, a false return, or a call to an address without code;
+    ///      an empty return counts as success (USDT).
+    function _safeTransfer(address token, address to, uint256 amount) internal {
+        _callOptionalReturn(token, abi.encodeCall(IERC20.transfer, (to, amount)));
+    }
+
+    function _safeTransferFrom(address token, address from, address to, uint256 amount) internal {
+        _callOptionalReturn(token, abi.encodeCall(IERC20.transferFrom, (from, to, amount)));
+    }
+
+    function _callOptionalReturn(address token, bytes memory data) private {
+        if (!_tryCallOptionalReturn(token, data)) revert TransferFailed();
+    }
+
+    function _tryCallOptionalReturn(address token, bytes memory data) private returns (bool) {
+        if (token.code.length == 0) return false;
+        (bool ok, bytes memory ret) = token.call(data);
+        return ok && (ret.length == 0 || (ret.length == 32 && abi.decode(ret, (bool))));
+    }
+
+    function _validateIntent(uint256 amountIn, uint256 minAmountOut, uint256 maxSlippageBps, uint64 deadline) internal view {
         if (amountIn == 0 || minAmountOut == 0) revert InvalidIntent();
         if (deadline <= block.timestamp) revert InvalidIntent();
         if (maxSlippageBps > 10_000) revert InvalidIntent();
+    }
 
-        bool ok = IERC20(tokenIn).transferFrom(msg.sender, address(this), amountIn);
-        if (!ok) revert TransferFailed();
-
+    function _storeIntent(
+        address user,
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        uint256 minAmountOut,
+        uint256 maxSlippageBps,
+        uint256 maxGasWei,
+        uint64 deadline
+    ) internal returns (uint256 intentId) {
         intentId = nextIntentId++;
         intents[intentId] = Intent({
-            user: msg.sender,
+            user: user,
             tokenIn: tokenIn,
             tokenOut: tokenOut,
             amountIn: amountIn,
@@ -153,70 +748,153 @@ contract IntentRouter {
             executionHash: bytes32(0)
         });
 
-        emit IntentCreated(intentId, msg.sender, tokenIn, tokenOut, amountIn, minAmountOut, deadline);
+        emit IntentCreated(intentId, user, tokenIn, tokenOut, amountIn, minAmountOut, deadline);
     }
 
-    /// @notice Solver fills an open intent with real token transfers.
-    function fillIntent(
-        uint256 intentId,
-        uint256 amountOut,
-        bytes32 executionHash
-    ) external nonReentrant {
-        if (!approvedSolvers[msg.sender]) revert SolverNotApproved();
+    /// @dev Store a signed intent with the tokenIn amount actually escrowed.
+    function _storeSignedIntent(SignedIntent calldata intent, uint256 received) internal returns (uint256) {
+        return _storeIntent(
+            intent.user,
+            intent.tokenIn,
+            intent.tokenOut,
+            received,
+            intent.minAmountOut,
+            intent.maxSlippageBps,
+            intent.maxGasWei,
+            intent.deadline
+        );
+    }
 
+    /// @dev Fill fillAmountIn of the intent's remaining input. startGas is gasleft() at entry of the external
+    ///      fill call, for the maxGasWei check. Output floors (minAmountOut, committed quote, oracle bound)
+    ///      scale pro-rata with the filled share and apply to the tokenOut the contract actually received.
+    function _fill(uint256 intentId, uint256 fillAmountIn, uint256 amountOut, bytes32 executionHash, uint256 startGas) internal {
         Intent storage inx = intents[intentId];
-        if (inx.status != IntentStatus.Open) revert InvalidStatus();
+        if (inx.status != IntentStatus.Open && inx.status != IntentStatus.PartiallyFilled) revert InvalidStatus();
         if (block.timestamp > inx.deadline) revert DeadlinePassed();
-        if (amountOut < inx.minAmountOut) revert OutputTooLow();
+        uint256 filledBefore = filledAmountIn[intentId];
+        if (fillAmountIn == 0 || fillAmountIn > inx.amountIn - filledBefore) revert InvalidFillAmount();
+
+        amountOut = _receiveOutput(inx.tokenOut, amountOut);
+        _checkOutput(intentId, fillAmountIn, amountOut, executionHash);
 
-        inx.status = IntentStatus.Filled;
+        filledAmountIn[intentId] = filledBefore + fillAmountIn;
+        bool complete = filledBefore + fillAmountIn == inx.amountIn;
+        // Only a complete fill inside the window frees the bond; a late fill slashes it
+        if (complete || block.timestamp > quoteCommitments[intentId].exclusiveUntil) _settleBond(intentId);
+        inx.status = complete ? IntentStatus.Filled : IntentStatus.PartiallyFilled;
         inx.winningSolver = msg.sender;
-        inx.amountOut = amountOut;
+        inx.amountOut += amountOut;
         inx.executionHash = executionHash;
 
         uint256 fee = (amountOut * protocolFeeBps) / 10_000;
         uint256 userAmount = amountOut - fee;
+        _transferOut(inx.tokenOut, inx.user, userAmount);
+        if (fee > 0) _transferOut(inx.tokenOut, feeRecipient, fee);
+        _transferOut(inx.tokenIn, msg.sender, fillAmountIn);
+
+        // Gas accounting: each fill's cost at the solver's gas price must fit the user's cap (0 = uncapped)
+        if (inx.maxGasWei > 0) {
+            uint256 gasCostWei = (startGas - gasleft() + FILL_GAS_OVERHEAD) * tx.gasprice;
+            if (gasCostWei > inx.maxGasWei) revert GasCostExceeded(gasCostWei, inx.maxGasWei);
+        }
 
-        bool ok1 = IERC20(inx.tokenOut).transferFrom(msg.sender, address(this), amountOut);
-        if (!ok1) revert TransferFailed();
+        if (complete) {
+            emit IntentFilled(intentId, msg.sender, amountOut, executionHash, fee);
+        } else {
+            emit IntentPartiallyFilled(intentId, msg.sender, fillAmountIn, amountOut, executionHash, fee);
+        }
+    }
 
-        bool ok2 = IERC20(inx.tokenOut).transfer(inx.user, userAmount);
-        if (!ok2) revert TransferFailed();
+    /// @dev Take the solver's output: native as msg.value, ERC20 pulled and counted as received.
+    function _receiveOutput(address tokenOut, uint256 amountOut) internal returns (uint256) {
+        if (tokenOut == NATIVE_ETH) {
+            if (msg.value != amountOut) revert NativeValueMismatch();
+            return amountOut;
+        }
+        if (msg.value != 0) revert NativeValueMismatch();
+        return _pullIn(tokenOut, msg.sender, amountOut);
+    }
 
-        if (fee > 0) {
-            bool ok3 = IERC20(inx.tokenOut).transfer(feeRecipient, fee);
-            if (!ok3) revert TransferFailed();
+    /// @dev Output floors for a fill: pro-rata minAmountOut, the committed quote while it binds, the oracle bound.
+    function _checkOutput(uint256 intentId, uint256 fillAmountIn, uint256 amountOut, bytes32 executionHash) internal view {
+        Intent storage inx = intents[intentId];
+        if (amountOut < _proRata(inx.minAmountOut, fillAmountIn, inx.amountIn)) revert OutputTooLow();
+
+        QuoteCommitment storage c = quoteCommitments[intentId];
+        if (c.quoteHash != bytes32(0) && (c.exclusiveUntil == 0 || block.timestamp <= c.exclusiveUntil)) {
+            if (msg.sender != c.solver) revert SolverMismatch();
+            if (executionHash != c.quoteHash) revert ExecutionHashMismatch();
+            if (amountOut < _proRata(c.amountOut, fillAmountIn, inx.amountIn)) revert OutputBelowQuote();
         }
+        _checkSlippage(inx, fillAmountIn, amountOut);
+    }
 
-        bool ok4 = IERC20(inx.tokenIn).transfer(msg.sender, inx.amountIn);
-        if (!ok4) revert TransferFailed();
+    function _min(uint256 a, uint256 b) internal pure returns (uint256) {
+        return a < b ? a : b;
+    }
 
-        emit IntentFilled(intentId, msg.sender, amountOut, executionHash, fee);
+    /// @dev ceil(amount * part / total), so pro-rata floors never round in the solver's favour.
+    function _proRata(uint256 amount, uint256 part, uint256 total) internal pure returns (uint256) {
+        return (amount * part + total - 1) / total;
     }
 
-    /// @notice User cancels their open intent and reclaims escrowed tokenIn.
-    function cancelIntent(uint256 intentId) external nonReentrant {
-        Intent storage inx = intents[intentId];
-        if (inx.user != msg.sender) revert NotIntentOwner();
-        if (inx.status != IntentStatus.Open) revert InvalidStatus();
+    /// @dev Bound amountOut for fillAmountIn by the oracle's fair output minus maxSlippageBps.
+    function _checkSlippage(Intent storage inx, uint256 fillAmountIn, uint256 amountOut) internal view {
+        if (address(priceOracle) == address(0)) return;
+        uint256 fairOut;
+        try priceOracle.quote(inx.tokenIn, inx.tokenOut, fillAmountIn) returns (uint256 out) {
+            fairOut = out;
+        } catch {
+            revert OracleUnavailable();
+        }
+        if (fairOut == 0) revert OracleUnavailable();
+        uint256 minAllowed = (fairOut * (10_000 - inx.maxSlippageBps)) / 10_000;
+        if (amountOut < minAllowed) revert SlippageExceeded(amountOut, minAllowed);
+    }
 
-        inx.status = IntentStatus.Cancelled;
+    /// @dev Pull the signed intent's tokenIn and return the amount received (see _pullIn).
+    function _pullWithPermit(SignedIntent calldata intent, PermitData calldata p) internal returns (uint256 received) {
+        if (intent.tokenIn.code.length == 0) revert TransferFailed();
+        if (p.kind == PermitKind.Permit2) {
+            if (permit2 == address(0)) revert Permit2NotSet();
+            uint256 balanceBefore = IERC20(intent.tokenIn).balanceOf(address(this));
+            ISignatureTransfer(permit2).permitTransferFrom(
+                ISignatureTransfer.PermitTransferFrom({
+                    permitted: ISignatureTransfer.TokenPermissions({token: intent.tokenIn, amount: intent.amountIn}),
+                    nonce: p.nonce,
+                    deadline: p.deadline
+                }),
+                ISignatureTransfer.SignatureTransferDetails({to: address(this), requestedAmount: intent.amountIn}),
+                intent.user,
+                p.signature
+            );
+            return _received(intent.tokenIn, intent.amountIn, balanceBefore);
+        }
 
-        bool ok = IERC20(inx.tokenIn).transfer(inx.user, inx.amountIn);
-        if (!ok) revert TransferFailed();
+        if (p.kind == PermitKind.ERC2612) {
+            // A front-run permit leaves the allowance in place; the transferFrom below is the real check
+            try IERC20Permit(intent.tokenIn).permit(intent.user, address(this), intent.amountIn, p.deadline, p.v, p.r, p.s) {}
+            catch {}
+        }
 
-        emit IntentCancelled(intentId);
+        return _pullIn(intent.tokenIn, intent.user, intent.amountIn);
     }
 
-    /// @notice Anyone can mark an intent as expired after deadline; escrowed tokenIn returns to user.
-    function markExpired(uint256 intentId) external nonReentrant {
-        Intent storage inx = intents[intentId];
-        if (inx.status != IntentStatus.Open) revert InvalidStatus();
-        if (block.timestamp <= inx.deadline) revert InvalidIntent();
-
-        inx.status = IntentStatus.Expired;
+    function _buildDomainSeparator() private view returns (bytes32) {
+        return keccak256(
+            abi.encode(DOMAIN_TYPEHASH, keccak256("IntentRouter"), keccak256("1"), block.chainid, address(this))
+        );
+    }
 
-        bool ok = IERC20(inx.tokenIn).transfer(inx.user, inx.amountIn);
-        if (!ok) revert TransferFailed();
+    /// @dev ecrecover for 65-byte signatures; rejects malleable (high-s) signatures.
+    function _recover(bytes32 digest, bytes calldata signature) private pure returns (address signer) {
+        if (signature.length != 65) revert InvalidSignature();
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        if (uint256(s) > 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0) revert InvalidSignature();
+        signer = ecrecover(digest, v, r, s);
+        if (signer == address(0)) revert InvalidSignature();
     }
 }
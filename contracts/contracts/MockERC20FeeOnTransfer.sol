@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./MockERC20.sol";
+
+/// @dev MockERC20 that burns feeBps of every transfer, so recipients get less than the amount sent.
+contract MockERC20FeeOnTransfer is MockERC20 {
+    uint256 public feeBps;
+
+    constructor(string memory _name, string memory _symbol, uint8 _decimals, uint256 _feeBps) MockERC20(_name, _symbol, _decimals) {
+        feeBps = _feeBps;
+    }
+
+    function transfer(address to, uint256 amount) external override returns (bool) {
+        _move(msg.sender, to, amount);
+        return true;
+    }
+
+    function transferFrom(address from, address to, uint256 amount) external override returns (bool) {
+        if (allowance[from][msg.sender] != type(uint256).max) {
+            require(allowance[from][msg.sender] >= amount, "insufficient allowance");
+            allowance[from][msg.sender] -= amount;
+        }
+        _move(from, to, amount);
+        return true;
+    }
+
+    function _move(address from, address to, uint256 amount) private {
+        require(balanceOf[from] >= amount, "insufficient balance");
+        uint256 fee = (amount * feeBps) / 10_000;
+        balanceOf[from] -= amount;
+        balanceOf[to] += amount - fee;
+        totalSupply -= fee;
+        emit Transfer(from, to, amount - fee);
+        if (fee > 0) emit Transfer(from, address(0), fee);
+    }
+}
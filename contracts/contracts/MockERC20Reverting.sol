@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./MockERC20.sol";
+
+/// @dev MockERC20 whose transfers can be switched to revert or to return false.
+contract MockERC20Reverting is MockERC20 {
+    enum FailMode {
+        None,
+        Revert,
+        ReturnFalse
+    }
+
+    FailMode public failMode;
+
+    constructor(string memory _name, string memory _symbol, uint8 _decimals) MockERC20(_name, _symbol, _decimals) {}
+
+    function setFailMode(FailMode mode) external {
+        failMode = mode;
+    }
+
+    function transfer(address to, uint256 amount) external override returns (bool) {
+        if (failMode == FailMode.Revert) revert("transfer disabled");
+        if (failMode == FailMode.ReturnFalse) return false;
+        require(balanceOf[msg.sender] >= amount, "insufficient balance");
+        balanceOf[msg.sender] -= amount;
+        balanceOf[to] += amount;
+        emit Transfer(msg.sender, to, amount);
+        return true;
+    }
+
+    function transferFrom(address from, address to, uint256 amount) external override returns (bool) {
+        if (failMode == FailMode.Revert) revert("transfer disabled");
+        if (failMode == FailMode.ReturnFalse) return false;
+        require(balanceOf[from] >= amount, "insufficient balance");
+        if (allowance[from][msg.sender] != type(uint256).max) {
+            require(allowance[from][msg.sender] >= amount, "insufficient allowance");
+            allowance[from][msg.sender] -= amount;
+        }
+        balanceOf[from] -= amount;
+        balanceOf[to] += amount;
+        emit Transfer(from, to, amount);
+        return true;
+    }
+}
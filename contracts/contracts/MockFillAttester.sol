@@ -0,0 +1,48 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IFillAttester} from "./CrossChain.sol";
+
+/// @dev Trusted-relayer attester for local and test setups: approved attesters (e.g. the backend's
+///      FillRelay) copy CrossChainSettlement fills from the destination chain. Not a proof; swap in a
+///      bridge- or light-client-backed IFillAttester for production.
+contract MockFillAttester is IFillAttester {
+    struct Attestation {
+        address solver;
+        uint256 amountOut;
+    }
+
+    address public owner;
+    mapping(address => bool) public attesters;
+    mapping(bytes32 => Attestation) private _fills;
+
+    event AttesterSet(address indexed attester, bool allowed);
+    event FillAttested(bytes32 indexed orderId, address indexed solver, uint256 amountOut);
+
+    error NotOwner();
+    error NotAttester();
+    error AlreadyAttested();
+
+    constructor() {
+        owner = msg.sender;
+        attesters[msg.sender] = true;
+    }
+
+    function setAttester(address attester, bool allowed) external {
+        if (msg.sender != owner) revert NotOwner();
+        attesters[attester] = allowed;
+        emit AttesterSet(attester, allowed);
+    }
+
+    function attest(bytes32 orderId, address solver, uint256 amountOut) external {
+        if (!attesters[msg.sender]) revert NotAttester();
+        if (_fills[orderId].solver != address(0)) revert AlreadyAttested();
+        _fills[orderId] = Attestation({solver: solver, amountOut: amountOut});
+        emit FillAttested(orderId, solver, amountOut);
+    }
+
+    function attestedFill(bytes32 orderId) external view returns (address solver, uint256 amountOut) {
+        Attestation storage a = _fills[orderId];
+        return (a.solver, a.amountOut);
+    }
+}
@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+interface IERC20Like {
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
+/// @dev Stand-in for Uniswap Permit2 SignatureTransfer. Tracks nonces and moves tokens
+///      from an approved owner, but does not verify the owner's signature.
+contract MockPermit2 {
+    struct TokenPermissions {
+        address token;
+        uint256 amount;
+    }
+
+    struct PermitTransferFrom {
+        TokenPermissions permitted;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    struct SignatureTransferDetails {
+        address to;
+        uint256 requestedAmount;
+    }
+
+    mapping(address => mapping(uint256 => bool)) public usedNonces;
+
+    function permitTransferFrom(
+        PermitTransferFrom memory permit,
+        SignatureTransferDetails calldata transferDetails,
+        address owner,
+        bytes calldata
+    ) external {
+        require(block.timestamp <= permit.deadline, "signature expired");
+        require(transferDetails.requestedAmount <= permit.permitted.amount, "invalid amount");
+        require(!usedNonces[owner][permit.nonce], "invalid nonce");
+        usedNonces[owner][permit.nonce] = true;
+        require(
+            IERC20Like(permit.permitted.token).transferFrom(owner, transferDetails.to, transferDetails.requestedAmount),
+            "transfer failed"
+        );
+    }
+}
@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @dev Settable reference oracle for slippage-bound tests. Rates are tokenOut per tokenIn, scaled by 1e18.
+contract MockPriceOracle {
+    mapping(address => mapping(address => uint256)) public rates;
+    bool public broken;
+
+    function setRate(address tokenIn, address tokenOut, uint256 rate) external {
+        rates[tokenIn][tokenOut] = rate;
+    }
+
+    function setBroken(bool _broken) external {
+        broken = _broken;
+    }
+
+    function quote(address tokenIn, address tokenOut, uint256 amountIn) external view returns (uint256) {
+        require(!broken, "oracle down");
+        return (amountIn * rates[tokenIn][tokenOut]) / 1e18;
+    }
+}
@@ -0,0 +1,66 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @dev Uniswap V3 pool state mock for offchain quoting tests — exposes the same
+///      view surface (slot0, liquidity, ticks, tickBitmap) with owner-free setters. No swaps.
+contract MockUniswapV3Pool {
+    struct Slot0 {
+        uint160 sqrtPriceX96;
+        int24 tick;
+        uint16 observationIndex;
+        uint16 observationCardinality;
+        uint16 observationCardinalityNext;
+        uint8 feeProtocol;
+        bool unlocked;
+    }
+
+    struct TickInfo {
+        uint128 liquidityGross;
+        int128 liquidityNet;
+        uint256 feeGrowthOutside0X128;
+        uint256 feeGrowthOutside1X128;
+        int56 tickCumulativeOutside;
+        uint160 secondsPerLiquidityOutsideX128;
+        uint32 secondsOutside;
+        bool initialized;
+    }
+
+    address public token0;
+    address public token1;
+    uint24 public fee;
+    int24 public tickSpacing;
+
+    Slot0 public slot0;
+    uint128 public liquidity;
+    mapping(int24 => TickInfo) public ticks;
+    mapping(int16 => uint256) public tickBitmap;
+
+    constructor(address _token0, address _token1, uint24 _fee, int24 _tickSpacing) {
+        token0 = _token0;
+        token1 = _token1;
+        fee = _fee;
+        tickSpacing = _tickSpacing;
+    }
+
+    function initialize(uint160 sqrtPriceX96, int24 tick) external {
+        slot0 = Slot0(sqrtPriceX96, tick, 0, 1, 1, 0, true);
+    }
+
+    function setLiquidity(uint128 _liquidity) external {
+        liquidity = _liquidity;
+    }
+
+    /// @notice Initialize a tick with the given net liquidity and flip its bitmap bit.
+    function setTick(int24 tick, int128 liquidityNet) external {
+        require(tick % tickSpacing == 0, "tick not spaced");
+        TickInfo storage info = ticks[tick];
+        info.liquidityNet = liquidityNet;
+        info.liquidityGross = uint128(liquidityNet < 0 ? -liquidityNet : liquidityNet);
+        info.initialized = true;
+
+        int24 compressed = tick / tickSpacing;
+        int16 wordPos = int16(compressed >> 8);
+        uint8 bitPos = uint8(uint24(compressed % 256));
+        tickBitmap[wordPos] |= (1 << bitPos);
+    }
+}
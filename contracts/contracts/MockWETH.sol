@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./MockERC20.sol";
+
+/// @dev MockERC20 with WETH9 deposit/withdraw, for native ETH intent tests.
+contract MockWETH is MockERC20 {
+    event Deposit(address indexed dst, uint256 wad);
+    event Withdrawal(address indexed src, uint256 wad);
+
+    constructor() MockERC20("Wrapped Ether", "WETH", 18) {}
+
+    function deposit() public payable {
+        totalSupply += msg.value;
+        balanceOf[msg.sender] += msg.value;
+        emit Deposit(msg.sender, msg.value);
+    }
+
+    function withdraw(uint256 wad) external {
+        require(balanceOf[msg.sender] >= wad, "insufficient balance");
+        balanceOf[msg.sender] -= wad;
+        totalSupply -= wad;
+        (bool ok, ) = msg.sender.call{value: wad}("");
+        require(ok, "eth transfer failed");
+        emit Withdrawal(msg.sender, wad);
+    }
+
+    receive() external payable {
+        deposit();
+    }
+}
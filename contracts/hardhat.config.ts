@@ -5,16 +5,39 @@ import * as dotenv from "dotenv";
 dotenv.config({ path: ".env" });
 
 const PRIVATE_KEY = process.env.DEPLOYER_PRIVATE_KEY || "";
-const BASE_SEPOLIA_RPC_URL = process.env.BASE_SEPOLIA_RPC_URL || "https://sepolia.base.org";
+const accounts = PRIVATE_KEY ? [PRIVATE_KEY] : [];
 
 const config: HardhatUserConfig = {
-  solidity: "0.8.24",
+  solidity: {
+    version: "0.8.24",
+    // IntentRouter is over the 24 KB code-size limit unoptimized
+    settings: { optimizer: { enabled: true, runs: 200 } },
+  },
   networks: {
+    // HARDHAT_CHAIN_ID lets a second local node (`hardhat node --port 8546`) stand in for another chain
+    hardhat: { chainId: Number(process.env.HARDHAT_CHAIN_ID || 31337) },
+    localhost: { url: process.env.LOCALHOST_RPC_URL || "http://127.0.0.1:8545" },
+    localhost2: { url: process.env.LOCALHOST2_RPC_URL || "http://127.0.0.1:8546" },
+    base: {
+      url: process.env.BASE_RPC_URL || "https://mainnet.base.org",
+      accounts,
+      chainId: 8453,
+    },
     baseSepolia: {
-      url: BASE_SEPOLIA_RPC_URL,
-      accounts: PRIVATE_KEY ? [PRIVATE_KEY] : [],
+      url: process.env.BASE_SEPOLIA_RPC_URL || "https://sepolia.base.org",
+      accounts,
       chainId: 84532,
     },
+    optimism: {
+      url: process.env.OPTIMISM_RPC_URL || "https://mainnet.optimism.io",
+      accounts,
+      chainId: 10,
+    },
+    arbitrum: {
+      url: process.env.ARBITRUM_RPC_URL || "https://arb1.arbitrum.io/rpc",
+      accounts,
+      chainId: 42161,
+    },
   },
 };
 
@@ -97,10 +97,24 @@ async function main() {
 
   await sleep(5000);
 
-  // 5) Fill intent
-  console.log("\n--- Step 5: Fill intent ---");
+  // 5) Commit the winning quote, then fill against it
+  console.log("\n--- Step 5: Commit quote + fill intent ---");
   const amountOut = ethers.parseUnits("3200", 6);
-  const execHash = ethers.keccak256(ethers.toUtf8Bytes(`solver:${me}:intent:${intentId}`));
+  const quote = {
+    solver: me,
+    tokenIn: wethAddr,
+    tokenOut: usdcAddr,
+    amountIn,
+    amountOut,
+    gasWei: BigInt("30000000000000"),
+    quotedAt: BigInt(Math.floor(Date.now() / 1000)),
+  };
+  const execHash = await intentRouter.hashQuote(quote);
+  const txCommit = await intentRouter.commitQuote(intentId, quote);
+  await txCommit.wait();
+  console.log("commitQuote tx:", txCommit.hash);
+
+  await sleep(5000);
 
   const tx3 = await intentRouter.fillIntent(intentId, amountOut, execHash);
   await tx3.wait();
@@ -125,6 +139,7 @@ async function main() {
     txs: {
       setSolver: tx1.hash,
       createIntent: tx2.hash,
+      commitQuote: txCommit.hash,
       fillIntent: tx3.hash,
     },
   }, null, 2));
@@ -1,4 +1,11 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+
+// Deploys IntentRouter to the selected --network and records it in deployments/<network>.json
+// (DEPLOYMENTS_DIR overrides the directory) for scripts/deployMulti.ts and the backend chain registry.
+// DEPLOY_CROSS_CHAIN=true also deploys MockFillAttester, CrossChainEscrow (refund delay CROSS_CHAIN_REFUND_DELAY
+// seconds, default 3600) and CrossChainSettlement; ATTESTER_ADDRESS is added as an attester besides the deployer.
 
 async function main() {
   const feeRecipient = process.env.FEE_RECIPIENT;
@@ -9,7 +16,41 @@ async function main() {
   await contract.waitForDeployment();
 
   const addr = await contract.getAddress();
-  console.log("IntentRouter deployed:", addr);
+  // WETH_ADDRESS: wrapped native token createIntentETH(wrap = true) escrows into
+  if (process.env.WETH_ADDRESS) await (await contract.setWeth(process.env.WETH_ADDRESS)).wait();
+  // SOLVER_MIN_BOND / SOLVER_SLASH_AMOUNT (ETH) and EXCLUSIVITY_WINDOW_SECONDS: solver bonding, off unless set
+  if (process.env.SOLVER_MIN_BOND) {
+    await (await contract.setBondPolicy(
+      ethers.parseEther(process.env.SOLVER_MIN_BOND),
+      ethers.parseEther(process.env.SOLVER_SLASH_AMOUNT || "0"),
+      Number(process.env.EXCLUSIVITY_WINDOW_SECONDS || 0),
+    )).wait();
+  }
+  const { chainId } = await ethers.provider.getNetwork();
+  console.log(`IntentRouter deployed on ${network.name} (chain ${chainId}):`, addr);
+
+  const crossChain = process.env.DEPLOY_CROSS_CHAIN === "true" ? await deployCrossChain() : {};
+
+  const dir = process.env.DEPLOYMENTS_DIR || "deployments";
+  mkdirSync(dir, { recursive: true });
+  const record = { network: network.name, chainId: Number(chainId), routerAddress: addr, ...crossChain, feeRecipient, deployedAt: new Date().toISOString() };
+  writeFileSync(join(dir, `${network.name}.json`), JSON.stringify(record, null, 2));
+}
+
+async function deployCrossChain() {
+  const attester = await ethers.deployContract("MockFillAttester");
+  await attester.waitForDeployment();
+  const attesterAddress = await attester.getAddress();
+  if (process.env.ATTESTER_ADDRESS) await (await attester.setAttester(process.env.ATTESTER_ADDRESS, true)).wait();
+
+  const escrow = await ethers.deployContract("CrossChainEscrow", [attesterAddress, Number(process.env.CROSS_CHAIN_REFUND_DELAY || 3600)]);
+  await escrow.waitForDeployment();
+  const settlement = await ethers.deployContract("CrossChainSettlement");
+  await settlement.waitForDeployment();
+
+  const addresses = { escrowAddress: await escrow.getAddress(), attesterAddress, settlementAddress: await settlement.getAddress() };
+  console.log("Cross-chain contracts:", addresses);
+  return addresses;
 }
 
 main().catch((error) => {
@@ -0,0 +1,61 @@
+import { ethers } from "hardhat";
+import { writeFileSync } from "fs";
+
+// Deploys mock tokens + Uniswap V3/V2 pool state to a local Hardhat/anvil node and writes the
+// backend pool registry (AMM_POOLS_FILE) so the solver can quote against them. MOCK_POOLS_CHAIN_ID tags
+// the pools with a chain; untagged pools belong to the backend's DEFAULT_CHAIN_ID.
+
+function sqrt(value: bigint): bigint {
+  if (value < 2n) return value;
+  let x = value, y = (x + 1n) / 2n;
+  while (y < x) { x = y; y = (x + value / x) / 2n; }
+  return x;
+}
+
+async function main() {
+  const out = process.env.MOCK_POOLS_OUT || "mock-pools.json";
+  const MockERC20 = await ethers.getContractFactory("MockERC20");
+  const weth = await MockERC20.deploy("Wrapped Ether", "WETH", 18);
+  const usdc = await MockERC20.deploy("USD Coin", "USDC", 6);
+  const degen = await MockERC20.deploy("Degen", "DEGEN", 18);
+  const [wethAddr, usdcAddr, degenAddr] = await Promise.all([weth.getAddress(), usdc.getAddress(), degen.getAddress()]);
+  const WETH = { address: wethAddr, symbol: "WETH", decimals: 18 };
+  const USDC = { address: usdcAddr, symbol: "USDC", decimals: 6 };
+  const DEGEN = { address: degenAddr, symbol: "DEGEN", decimals: 18 };
+
+  // V3 WETH/USDC at 3200 USDC per WETH, 0.3% fee, two nested liquidity ranges
+  const V3Pool = await ethers.getContractFactory("MockUniswapV3Pool");
+  const v3 = await V3Pool.deploy(wethAddr, usdcAddr, 3000, 60);
+  const sqrtPriceX96 = sqrt((3200n * 10n ** 6n << 192n) / 10n ** 18n);
+  const tick = Math.floor(Math.log(3200e6 / 1e18) / Math.log(1.0001));
+  const center = Math.floor(tick / 60) * 60;
+  const inner = 10n ** 17n, outer = 3n * 10n ** 16n;
+  await (await v3.initialize(sqrtPriceX96, tick)).wait();
+  await (await v3.setLiquidity(inner + outer)).wait();
+  await (await v3.setTick(center - 600, inner)).wait();
+  await (await v3.setTick(center + 600, -inner)).wait();
+  await (await v3.setTick(center - 6000, outer)).wait();
+  await (await v3.setTick(center + 6000, -outer)).wait();
+
+  // V2 pairs: WETH/USDC (shallower than V3) and USDC/DEGEN for multi-hop routes
+  const V2Pair = await ethers.getContractFactory("MockUniswapV2Pair");
+  const v2 = await V2Pair.deploy(wethAddr, usdcAddr);
+  await (await v2.setReserves(ethers.parseEther("50"), ethers.parseUnits("160000", 6))).wait();
+  const v2Degen = await V2Pair.deploy(usdcAddr, degenAddr);
+  await (await v2Degen.setReserves(ethers.parseUnits("200000", 6), ethers.parseEther("20000000"))).wait();
+
+  const chain = process.env.MOCK_POOLS_CHAIN_ID ? { chainId: Number(process.env.MOCK_POOLS_CHAIN_ID) } : {};
+  const pools = [
+    { address: await v3.getAddress(), venue: "uniswap-v3", token0: WETH, token1: USDC, ...chain },
+    { address: await v2.getAddress(), venue: "uniswap-v2", token0: WETH, token1: USDC, feeBps: 30, ...chain },
+    { address: await v2Degen.getAddress(), venue: "uniswap-v2", token0: USDC, token1: DEGEN, feeBps: 30, ...chain },
+  ];
+  writeFileSync(out, JSON.stringify(pools, null, 2));
+  console.log(`Mock pools written to ${out}`);
+  console.log(JSON.stringify(pools, null, 2));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,46 @@
+import { execFileSync } from "child_process";
+import { readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+
+// Deploys IntentRouter to every network in DEPLOY_NETWORKS (comma-separated hardhat network names,
+// e.g. "base,optimism,arbitrum" or "localhost,localhost2") one after another, then merges the
+// deployments/<network>.json records (router, plus the cross-chain contracts with DEPLOY_CROSS_CHAIN=true) into CHAINS_OUT (default chains.json) for the backend's CHAINS_FILE.
+// Run with plain ts-node: each network gets its own `hardhat run scripts/deploy.ts --network <name>`.
+
+type ChainEntry = {
+  chainId: number;
+  name: string;
+  routerAddress: string;
+  escrowAddress?: string;
+  attesterAddress?: string;
+  settlementAddress?: string;
+};
+
+function main() {
+  const networks = (process.env.DEPLOY_NETWORKS || "").split(",").map((n) => n.trim()).filter(Boolean);
+  if (networks.length === 0) throw new Error("DEPLOY_NETWORKS is required, e.g. base,optimism");
+  const dir = process.env.DEPLOYMENTS_DIR || "deployments";
+  const out = process.env.CHAINS_OUT || "chains.json";
+
+  const chains: ChainEntry[] = [];
+  for (const network of networks) {
+    execFileSync("npx", ["hardhat", "run", "scripts/deploy.ts", "--network", network], {
+      stdio: "inherit",
+      env: { ...process.env, DEPLOYMENTS_DIR: dir },
+    });
+    const record = JSON.parse(readFileSync(join(dir, `${network}.json`), "utf8")) as Omit<ChainEntry, "name">;
+    chains.push({
+      chainId: record.chainId,
+      name: network,
+      routerAddress: record.routerAddress,
+      escrowAddress: record.escrowAddress,
+      attesterAddress: record.attesterAddress,
+      settlementAddress: record.settlementAddress,
+    });
+  }
+
+  writeFileSync(out, JSON.stringify(chains, null, 2));
+  console.log(`Chain registry entries for ${networks.join(", ")} written to ${out}`);
+}
+
+main();
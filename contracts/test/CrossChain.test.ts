@@ -0,0 +1,191 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+describe("Cross-chain intents", function () {
+  const DEST_CHAIN_ID = 8453n;
+  const REFUND_DELAY = 600;
+
+  async function deployFixture() {
+    const [owner, user, solver, relayer, other] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    const tokenIn = await MockERC20.deploy("Token In", "TIN", 18);
+    const tokenOut = await MockERC20.deploy("Token Out", "TOUT", 6);
+
+    const attester = await ethers.deployContract("MockFillAttester");
+    await attester.setAttester(relayer.address, true);
+    const escrow = await ethers.deployContract("CrossChainEscrow", [await attester.getAddress(), REFUND_DELAY]);
+    const settlement = await ethers.deployContract("CrossChainSettlement");
+
+    await tokenIn.mint(user.address, ethers.parseEther("100"));
+    await tokenIn.connect(user).approve(await escrow.getAddress(), ethers.MaxUint256);
+    await tokenOut.mint(solver.address, ethers.parseUnits("100000", 6));
+    await tokenOut.connect(solver).approve(await settlement.getAddress(), ethers.MaxUint256);
+
+    return { owner, user, solver, relayer, other, tokenIn, tokenOut, attester, escrow, settlement };
+  }
+
+  async function openOrder(f: Awaited<ReturnType<typeof deployFixture>>) {
+    const fillDeadline = (await time.latest()) + 3600;
+    const tx = await f.escrow.connect(f.user).open(
+      await f.tokenIn.getAddress(), ethers.parseEther("1"), DEST_CHAIN_ID, await f.tokenOut.getAddress(),
+      f.user.address, ethers.parseUnits("3000", 6), fillDeadline,
+    );
+    const receipt = await tx.wait();
+    const log = receipt!.logs.map((l) => f.escrow.interface.parseLog(l)).find((l) => l?.name === "CrossChainIntentOpened")!;
+    return { orderId: log.args.orderId as string, order: await f.escrow.getOrder(log.args.orderId), fillDeadline };
+  }
+
+  describe("CrossChainEscrow", function () {
+    it("escrows tokenIn and identifies the order by the hash of its encoding", async function () {
+      const f = await loadFixture(deployFixture);
+      const { orderId, order } = await openOrder(f);
+
+      expect(await f.tokenIn.balanceOf(await f.escrow.getAddress())).to.equal(ethers.parseEther("1"));
+      expect(await f.escrow.orderStatus(orderId)).to.equal(1n); // Open
+      expect(order.originChainId).to.equal(31337n);
+      expect(order.destChainId).to.equal(DEST_CHAIN_ID);
+      const encoded = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["tuple(address,uint256,address,address,uint256,uint256,address,address,uint256,uint64,uint256)"],
+        [[...order]],
+      );
+      expect(ethers.keccak256(encoded)).to.equal(orderId);
+    });
+
+    it("rejects same-chain destinations and past deadlines", async function () {
+      const f = await loadFixture(deployFixture);
+      const now = await time.latest();
+      const args = [await f.tokenIn.getAddress(), ethers.parseEther("1")] as const;
+      const tokenOut = await f.tokenOut.getAddress();
+      await expect(f.escrow.connect(f.user).open(...args, 31337n, tokenOut, f.user.address, 1n, now + 3600))
+        .to.be.revertedWithCustomError(f.escrow, "InvalidIntent");
+      await expect(f.escrow.connect(f.user).open(...args, DEST_CHAIN_ID, tokenOut, f.user.address, 1n, now))
+        .to.be.revertedWithCustomError(f.escrow, "InvalidIntent");
+    });
+
+    it("releases escrow to the attested solver", async function () {
+      const f = await loadFixture(deployFixture);
+      const { orderId } = await openOrder(f);
+
+      await expect(f.escrow.settle(orderId)).to.be.revertedWithCustomError(f.escrow, "FillNotAttested");
+      await expect(f.attester.connect(f.other).attest(orderId, f.solver.address, ethers.parseUnits("3100", 6)))
+        .to.be.revertedWithCustomError(f.attester, "NotAttester");
+
+      await f.attester.connect(f.relayer).attest(orderId, f.solver.address, ethers.parseUnits("3100", 6));
+      await expect(f.escrow.connect(f.other).settle(orderId))
+        .to.emit(f.escrow, "CrossChainIntentSettled")
+        .withArgs(orderId, f.solver.address, ethers.parseUnits("3100", 6));
+      expect(await f.tokenIn.balanceOf(f.solver.address)).to.equal(ethers.parseEther("1"));
+      await expect(f.escrow.settle(orderId)).to.be.revertedWithCustomError(f.escrow, "InvalidStatus");
+    });
+
+    it("refunds after fillDeadline + refundDelay unless a fill was attested", async function () {
+      const f = await loadFixture(deployFixture);
+      const { orderId, fillDeadline } = await openOrder(f);
+
+      await time.increaseTo(fillDeadline + REFUND_DELAY - 1); // the refund lands at exactly fillDeadline + refundDelay
+      await expect(f.escrow.refund(orderId)).to.be.revertedWithCustomError(f.escrow, "RefundNotDue");
+      await expect(f.escrow.connect(f.other).refund(orderId))
+        .to.emit(f.escrow, "CrossChainIntentRefunded")
+        .withArgs(orderId, ethers.parseEther("1"));
+      expect(await f.tokenIn.balanceOf(f.user.address)).to.equal(ethers.parseEther("100"));
+
+      const late = await openOrder(f);
+      await f.attester.connect(f.relayer).attest(late.orderId, f.solver.address, ethers.parseUnits("3000", 6));
+      await time.increaseTo(late.fillDeadline + REFUND_DELAY + 1);
+      await expect(f.escrow.refund(late.orderId)).to.be.revertedWithCustomError(f.escrow, "InvalidStatus");
+      await f.escrow.settle(late.orderId);
+    });
+
+    it("refunds an order whose attested fill delivered less than minAmountOut", async function () {
+      const f = await loadFixture(deployFixture);
+      const { orderId, fillDeadline } = await openOrder(f);
+
+      await f.attester.connect(f.relayer).attest(orderId, f.solver.address, ethers.parseUnits("2999", 6));
+      await expect(f.escrow.settle(orderId)).to.be.revertedWithCustomError(f.escrow, "OutputTooLow");
+      await expect(f.escrow.refund(orderId)).to.be.revertedWithCustomError(f.escrow, "RefundNotDue");
+
+      await time.increaseTo(fillDeadline + REFUND_DELAY + 1);
+      await expect(f.escrow.refund(orderId))
+        .to.emit(f.escrow, "CrossChainIntentRefunded")
+        .withArgs(orderId, ethers.parseEther("1"));
+      expect(await f.tokenIn.balanceOf(f.user.address)).to.equal(ethers.parseEther("100"));
+    });
+
+    it("moves tokens that return nothing from transfer and transferFrom", async function () {
+      const f = await loadFixture(deployFixture);
+      const usdt = await ethers.deployContract("MockERC20NoReturn", ["Tether", "USDT", 6]);
+      await usdt.mint(f.user.address, ethers.parseUnits("10", 6));
+      await usdt.connect(f.user).approve(await f.escrow.getAddress(), ethers.MaxUint256);
+      const fillDeadline = (await time.latest()) + 3600;
+      const tx = await f.escrow.connect(f.user).open(
+        await usdt.getAddress(), ethers.parseUnits("10", 6), DEST_CHAIN_ID, await f.tokenOut.getAddress(),
+        f.user.address, 1n, fillDeadline,
+      );
+      const log = (await tx.wait())!.logs.map((l) => f.escrow.interface.parseLog(l)).find((l) => l?.name === "CrossChainIntentOpened")!;
+
+      await f.attester.connect(f.relayer).attest(log.args.orderId, f.solver.address, 1n);
+      await f.escrow.settle(log.args.orderId);
+      expect(await usdt.balanceOf(f.solver.address)).to.equal(ethers.parseUnits("10", 6));
+
+      await expect(f.escrow.connect(f.user).open(
+        f.other.address, 1n, DEST_CHAIN_ID, await f.tokenOut.getAddress(), f.user.address, 1n, fillDeadline,
+      )).to.be.revertedWithCustomError(f.escrow, "TransferFailed"); // no code at tokenIn
+    });
+  });
+
+  describe("CrossChainSettlement", function () {
+    // An order escrowed elsewhere whose destination is this chain
+    async function inboundOrder(f: Awaited<ReturnType<typeof deployFixture>>, overrides: Record<string, unknown> = {}) {
+      return {
+        user: f.user.address,
+        originChainId: DEST_CHAIN_ID,
+        escrow: f.other.address,
+        tokenIn: f.other.address,
+        amountIn: ethers.parseEther("1"),
+        destChainId: 31337n,
+        tokenOut: await f.tokenOut.getAddress(),
+        recipient: f.user.address,
+        minAmountOut: ethers.parseUnits("3000", 6),
+        fillDeadline: (await time.latest()) + 3600,
+        nonce: 1n,
+        ...overrides,
+      };
+    }
+
+    it("delivers tokenOut to the recipient once and records the fill", async function () {
+      const f = await loadFixture(deployFixture);
+      const order = await inboundOrder(f);
+      const amountOut = ethers.parseUnits("3050", 6);
+
+      const tx = f.settlement.connect(f.solver).fill(order, amountOut);
+      await expect(tx).to.emit(f.settlement, "OrderFilled");
+      expect(await f.tokenOut.balanceOf(f.user.address)).to.equal(amountOut);
+      const orderId = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(
+        ["tuple(address user,uint256 originChainId,address escrow,address tokenIn,uint256 amountIn,uint256 destChainId,address tokenOut,address recipient,uint256 minAmountOut,uint64 fillDeadline,uint256 nonce)"],
+        [order],
+      ));
+      const fill = await f.settlement.fills(orderId);
+      expect([fill.solver, fill.amountOut]).to.deep.equal([f.solver.address, amountOut]);
+      await expect(f.settlement.connect(f.solver).fill(order, amountOut))
+        .to.be.revertedWithCustomError(f.settlement, "AlreadyFilled");
+    });
+
+    it("rejects other chains, late fills and short output", async function () {
+      const f = await loadFixture(deployFixture);
+      const s = f.settlement.connect(f.solver);
+      await expect(s.fill(await inboundOrder(f, { destChainId: 10n }), ethers.parseUnits("3050", 6)))
+        .to.be.revertedWithCustomError(f.settlement, "WrongChain");
+      await expect(s.fill(await inboundOrder(f), ethers.parseUnits("2999", 6)))
+        .to.be.revertedWithCustomError(f.settlement, "OutputTooLow");
+      const order = await inboundOrder(f);
+      await time.increaseTo(order.fillDeadline + 1);
+      await expect(s.fill(order, ethers.parseUnits("3050", 6)))
+        .to.be.revertedWithCustomError(f.settlement, "DeadlinePassed");
+    });
+  });
+});
@@ -219,7 +219,7 @@ describe("IntentRouter", function () {
       const { intentId, amountIn, deadline } = await createDefaultIntent(fixture);
       await time.increaseTo(deadline + 1);
       const before = await tokenIn.balanceOf(user.address);
-      await router.markExpired(intentId);
+      await expect(router.markExpired(intentId)).to.emit(router, "IntentExpired").withArgs(intentId, amountIn);
       expect((await tokenIn.balanceOf(user.address)) - before).to.equal(amountIn);
     });
 
@@ -239,6 +239,28 @@ describe("IntentRouter", function () {
       await router.connect(other).markExpired(intentId);
       expect((await tokenIn.balanceOf(user.address)) - before).to.equal(amountIn);
     });
+
+    it("markExpiredBatch should expire past-deadline intents and skip the rest", async function () {
+      const fixture = await loadFixture(deployFixture);
+      const { router, tokenIn, user, solver, other } = fixture;
+      const a = await createDefaultIntent(fixture);
+      const b = await createDefaultIntent(fixture);
+      const filled = await createDefaultIntent(fixture);
+      await router.connect(solver).fillIntent(filled.intentId, ethers.parseEther("98"), ethers.ZeroHash);
+      await time.increaseTo(b.deadline + 1);
+      const late = await createDefaultIntent(fixture);
+
+      const ids = [a.intentId, b.intentId, filled.intentId, late.intentId, 999n];
+      expect(await router.connect(other).markExpiredBatch.staticCall(ids)).to.equal(2n);
+      const before = await tokenIn.balanceOf(user.address);
+      await expect(router.connect(other).markExpiredBatch(ids))
+        .to.emit(router, "IntentExpired").withArgs(a.intentId, a.amountIn)
+        .and.to.emit(router, "IntentExpired").withArgs(b.intentId, b.amountIn);
+      expect((await tokenIn.balanceOf(user.address)) - before).to.equal(a.amountIn + b.amountIn);
+      expect((await router.intents(late.intentId)).status).to.equal(0);
+      expect((await router.intents(filled.intentId)).status).to.equal(1);
+      expect(await router.connect(other).markExpiredBatch.staticCall(ids)).to.equal(0n);
+    });
   });
 
   describe("Access control", function () {
@@ -296,4 +318,832 @@ describe("IntentRouter", function () {
       expect((await tokenOut.balanceOf(user.address)) - userBefore).to.equal(amountOut);
     });
   });
+
+  describe("Partial fills", function () {
+    const PARTIALLY_FILLED = 4;
+
+    async function partialFixture() {
+      const fixture = await deployFixture();
+      const { router, tokenOut, solver2 } = fixture;
+      await router.setSolver(solver2.address, true);
+      await tokenOut.mint(solver2.address, fixture.mintAmount);
+      await tokenOut.connect(solver2).approve(await router.getAddress(), ethers.MaxUint256);
+      const created = await createDefaultIntent(fixture); // 100 in, min 95 out
+      return { ...fixture, ...created };
+    }
+
+    it("should let several solvers fill fractions until complete", async function () {
+      const { router, tokenIn, tokenOut, user, solver, solver2, intentId } = await loadFixture(partialFixture);
+      const h1 = ethers.keccak256(ethers.toUtf8Bytes("p1"));
+      const h2 = ethers.keccak256(ethers.toUtf8Bytes("p2"));
+
+      await expect(router.connect(solver).fillIntentPartial(intentId, ethers.parseEther("40"), ethers.parseEther("39"), h1))
+        .to.emit(router, "IntentPartiallyFilled")
+        .withArgs(intentId, solver.address, ethers.parseEther("40"), ethers.parseEther("39"), h1, ethers.parseEther("0.039"));
+      expect((await router.intents(intentId)).status).to.equal(PARTIALLY_FILLED);
+      expect(await router.filledAmountIn(intentId)).to.equal(ethers.parseEther("40"));
+
+      await expect(router.connect(solver2).fillIntentPartial(intentId, ethers.parseEther("60"), ethers.parseEther("58"), h2))
+        .to.emit(router, "IntentFilled");
+      const inx = await router.intents(intentId);
+      expect(inx.status).to.equal(1); // Filled
+      expect(inx.amountOut).to.equal(ethers.parseEther("97"));
+      expect(inx.winningSolver).to.equal(solver2.address);
+      expect(await tokenIn.balanceOf(solver.address)).to.equal(ethers.parseEther("40"));
+      expect(await tokenIn.balanceOf(solver2.address)).to.equal(ethers.parseEther("60"));
+      expect(await tokenOut.balanceOf(user.address)).to.equal(ethers.parseEther("97") - ethers.parseEther("0.097"));
+    });
+
+    it("should enforce minAmountOut pro-rata", async function () {
+      const { router, solver, intentId } = await loadFixture(partialFixture);
+      // 50% of the input must return at least 50% of 95
+      await expect(router.connect(solver).fillIntentPartial(intentId, ethers.parseEther("50"), ethers.parseEther("47.4"), ethers.ZeroHash))
+        .to.be.revertedWithCustomError(router, "OutputTooLow");
+      await router.connect(solver).fillIntentPartial(intentId, ethers.parseEther("50"), ethers.parseEther("47.5"), ethers.ZeroHash);
+    });
+
+    it("should reject zero and over-sized fills", async function () {
+      const { router, solver, intentId } = await loadFixture(partialFixture);
+      await expect(router.connect(solver).fillIntentPartial(intentId, 0, ethers.parseEther("1"), ethers.ZeroHash))
+        .to.be.revertedWithCustomError(router, "InvalidFillAmount");
+      await router.connect(solver).fillIntentPartial(intentId, ethers.parseEther("70"), ethers.parseEther("67"), ethers.ZeroHash);
+      await expect(router.connect(solver).fillIntentPartial(intentId, ethers.parseEther("31"), ethers.parseEther("30"), ethers.ZeroHash))
+        .to.be.revertedWithCustomError(router, "InvalidFillAmount");
+    });
+
+    it("fillIntent should fill the remainder of a partially filled intent", async function () {
+      const { router, solver, solver2, intentId } = await loadFixture(partialFixture);
+      await router.connect(solver).fillIntentPartial(intentId, ethers.parseEther("25"), ethers.parseEther("24"), ethers.ZeroHash);
+      await router.connect(solver2).fillIntent(intentId, ethers.parseEther("72"), ethers.ZeroHash);
+      expect(await router.filledAmountIn(intentId)).to.equal(ethers.parseEther("100"));
+      expect((await router.intents(intentId)).status).to.equal(1);
+    });
+
+    it("should let the user cancel the unfilled remainder", async function () {
+      const { router, tokenIn, user, solver, intentId, mintAmount } = await loadFixture(partialFixture);
+      await router.connect(solver).fillIntentPartial(intentId, ethers.parseEther("30"), ethers.parseEther("29"), ethers.ZeroHash);
+      await expect(router.connect(user).cancelIntent(intentId)).to.emit(router, "IntentCancelled");
+      expect(await tokenIn.balanceOf(user.address)).to.equal(mintAmount - ethers.parseEther("30"));
+      expect(await tokenIn.balanceOf(await router.getAddress())).to.equal(0n);
+      await expect(router.connect(solver).fillIntentPartial(intentId, ethers.parseEther("10"), ethers.parseEther("10"), ethers.ZeroHash))
+        .to.be.revertedWithCustomError(router, "InvalidStatus");
+    });
+
+    it("markExpired should return only the unfilled remainder", async function () {
+      const { router, tokenIn, user, solver, intentId, deadline, mintAmount } = await loadFixture(partialFixture);
+      await router.connect(solver).fillIntentPartial(intentId, ethers.parseEther("60"), ethers.parseEther("58"), ethers.ZeroHash);
+      await time.increaseTo(deadline + 1);
+      await expect(router.markExpired(intentId)).to.emit(router, "IntentExpired").withArgs(intentId, ethers.parseEther("40"));
+      expect(await tokenIn.balanceOf(user.address)).to.equal(mintAmount - ethers.parseEther("60"));
+    });
+  });
+
+  describe("Onchain constraints", function () {
+    async function oracleFixture() {
+      const fixture = await deployFixture();
+      const MockPriceOracle = await ethers.getContractFactory("MockPriceOracle");
+      const oracle = await MockPriceOracle.deploy();
+      await oracle.setRate(await fixture.tokenIn.getAddress(), await fixture.tokenOut.getAddress(), ethers.parseEther("1"));
+      await fixture.router.setPriceOracle(await oracle.getAddress());
+      return { ...fixture, oracle };
+    }
+
+    async function createWithGasCap(fixture: Awaited<ReturnType<typeof deployFixture>>, maxGasWei: bigint) {
+      const { router, tokenIn, tokenOut, user } = fixture;
+      const deadline = (await time.latest()) + 3600;
+      await router.connect(user).createIntent(await tokenIn.getAddress(), await tokenOut.getAddress(), ethers.parseEther("100"), ethers.parseEther("95"), 200, maxGasWei, deadline);
+      return (await router.nextIntentId()) - 1n;
+    }
+
+    it("should reject output beyond maxSlippageBps of the oracle price", async function () {
+      const fixture = await loadFixture(oracleFixture);
+      const { router, solver } = fixture;
+      const { intentId } = await createDefaultIntent(fixture);
+      // fair 100, 200 bps tolerance -> at least 98; 97 still clears minAmountOut (95)
+      await expect(router.connect(solver).fillIntent(intentId, ethers.parseEther("97"), ethers.ZeroHash))
+        .to.be.revertedWithCustomError(router, "SlippageExceeded")
+        .withArgs(ethers.parseEther("97"), ethers.parseEther("98"));
+      await router.connect(solver).fillIntent(intentId, ethers.parseEther("98"), ethers.ZeroHash);
+    });
+
+    it("should revert when the oracle cannot price the pair", async function () {
+      const fixture = await loadFixture(oracleFixture);
+      const { router, solver, oracle, tokenIn, tokenOut } = fixture;
+      const { intentId } = await createDefaultIntent(fixture);
+      await oracle.setBroken(true);
+      await expect(router.connect(solver).fillIntent(intentId, ethers.parseEther("98"), ethers.ZeroHash))
+        .to.be.revertedWithCustomError(router, "OracleUnavailable");
+      await oracle.setBroken(false);
+      await oracle.setRate(await tokenIn.getAddress(), await tokenOut.getAddress(), 0);
+      await expect(router.connect(solver).fillIntent(intentId, ethers.parseEther("98"), ethers.ZeroHash))
+        .to.be.revertedWithCustomError(router, "OracleUnavailable");
+    });
+
+    it("should reject fills whose gas cost exceeds maxGasWei", async function () {
+      const fixture = await loadFixture(deployFixture);
+      const { router, solver } = fixture;
+      const { intentId } = await createDefaultIntent(fixture); // maxGasWei 0.01 ETH
+      await expect(
+        router.connect(solver).fillIntent(intentId, ethers.parseEther("98"), ethers.ZeroHash, { gasPrice: ethers.parseUnits("1000", "gwei") })
+      ).to.be.revertedWithCustomError(router, "GasCostExceeded");
+      await router.connect(solver).fillIntent(intentId, ethers.parseEther("98"), ethers.ZeroHash, { gasPrice: ethers.parseUnits("1", "gwei") });
+    });
+
+    it("should treat maxGasWei 0 as uncapped", async function () {
+      const fixture = await loadFixture(deployFixture);
+      const { router, solver } = fixture;
+      const tight = await createWithGasCap(fixture, 1000n);
+      await expect(router.connect(solver).fillIntent(tight, ethers.parseEther("98"), ethers.ZeroHash))
+        .to.be.revertedWithCustomError(router, "GasCostExceeded");
+      const uncapped = await createWithGasCap(fixture, 0n);
+      await router.connect(solver).fillIntent(uncapped, ethers.parseEther("98"), ethers.ZeroHash, { gasPrice: ethers.parseUnits("1000", "gwei") });
+    });
+
+    it("setPriceOracle: non-owner reverts", async function () {
+      const { router, other } = await loadFixture(deployFixture);
+      await expect(router.connect(other).setPriceOracle(other.address))
+        .to.be.revertedWithCustomError(router, "NotOwner");
+    });
+  });
+
+  describe("Quote commitment", function () {
+    const QUOTE_TUPLE = "tuple(address solver,address tokenIn,address tokenOut,uint256 amountIn,uint256 amountOut,uint256 gasWei,uint64 quotedAt)";
+
+    async function committedFixture() {
+      const fixture = await deployFixture();
+      const created = await createDefaultIntent(fixture);
+      const { router, tokenIn, tokenOut, solver, solver2, user } = fixture;
+      await router.setSolver(solver2.address, true);
+      await tokenOut.mint(solver2.address, fixture.mintAmount);
+      await tokenOut.connect(solver2).approve(await router.getAddress(), ethers.MaxUint256);
+      const quote = {
+        solver: solver.address,
+        tokenIn: await tokenIn.getAddress(),
+        tokenOut: await tokenOut.getAddress(),
+        amountIn: created.amountIn,
+        amountOut: ethers.parseEther("98"),
+        gasWei: 30_000_000_000_000n,
+        quotedAt: BigInt(await time.latest()),
+      };
+      const quoteHash = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode([QUOTE_TUPLE], [quote]));
+      await router.connect(user).commitQuote(created.intentId, quote);
+      return { ...fixture, ...created, quote, quoteHash };
+    }
+
+    it("should hash quotes the same way as the backend ABI encoding", async function () {
+      const { router, quote, quoteHash, intentId } = await loadFixture(committedFixture);
+      expect(await router.hashQuote(quote)).to.equal(quoteHash);
+      const c = await router.quoteCommitments(intentId);
+      expect(c.solver).to.equal(quote.solver);
+      expect(c.amountOut).to.equal(quote.amountOut);
+      expect(c.quoteHash).to.equal(quoteHash);
+    });
+
+    it("should emit QuoteCommitted", async function () {
+      const fixture = await loadFixture(deployFixture);
+      const { router, tokenIn, tokenOut, user, solver } = fixture;
+      const { intentId, amountIn } = await createDefaultIntent(fixture);
+      const quote = { solver: solver.address, tokenIn: await tokenIn.getAddress(), tokenOut: await tokenOut.getAddress(), amountIn, amountOut: ethers.parseEther("97"), gasWei: 1n, quotedAt: 0n };
+      await expect(router.connect(user).commitQuote(intentId, quote))
+        .to.emit(router, "QuoteCommitted")
+        .withArgs(intentId, solver.address, quote.amountOut, await router.hashQuote(quote));
+    });
+
+    it("should fill when solver, hash and output match the commitment", async function () {
+      const { router, solver, intentId, quote, quoteHash } = await loadFixture(committedFixture);
+      await router.connect(solver).fillIntent(intentId, quote.amountOut, quoteHash);
+      expect((await router.intents(intentId)).executionHash).to.equal(quoteHash);
+    });
+
+    it("should reject a fill from a different solver", async function () {
+      const { router, solver2, intentId, quote, quoteHash } = await loadFixture(committedFixture);
+      await expect(
+        router.connect(solver2).fillIntent(intentId, quote.amountOut, quoteHash)
+      ).to.be.revertedWithCustomError(router, "SolverMismatch");
+    });
+
+    it("should reject a mismatching execution hash", async function () {
+      const { router, solver, intentId, quote } = await loadFixture(committedFixture);
+      await expect(
+        router.connect(solver).fillIntent(intentId, quote.amountOut, ethers.keccak256(ethers.toUtf8Bytes("other")))
+      ).to.be.revertedWithCustomError(router, "ExecutionHashMismatch");
+    });
+
+    it("should reject output below the quoted amount", async function () {
+      const { router, solver, intentId, quote, quoteHash } = await loadFixture(committedFixture);
+      await expect(
+        router.connect(solver).fillIntent(intentId, quote.amountOut - 1n, quoteHash)
+      ).to.be.revertedWithCustomError(router, "OutputBelowQuote");
+    });
+
+    it("should only let the intent owner commit, with matching terms", async function () {
+      const { router, other, user, intentId, quote } = await loadFixture(committedFixture);
+      await expect(router.connect(other).commitQuote(intentId, quote))
+        .to.be.revertedWithCustomError(router, "NotIntentOwner");
+      await expect(router.connect(user).commitQuote(intentId, { ...quote, amountIn: quote.amountIn + 1n }))
+        .to.be.revertedWithCustomError(router, "InvalidQuote");
+      await expect(router.connect(user).commitQuote(intentId, { ...quote, amountOut: ethers.parseEther("1") }))
+        .to.be.revertedWithCustomError(router, "InvalidQuote");
+    });
+  });
+
+  describe("Native ETH", function () {
+    const NATIVE = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+    const amountIn = ethers.parseEther("1");
+    const hash = ethers.keccak256(ethers.toUtf8Bytes("eth"));
+
+    async function nativeFixture() {
+      const fixture = await deployFixture();
+      const weth = await (await ethers.getContractFactory("MockWETH")).deploy();
+      await fixture.router.setWeth(await weth.getAddress());
+      return { ...fixture, weth };
+    }
+
+    async function createETHIntent(fixture: Awaited<ReturnType<typeof nativeFixture>>, wrap: boolean) {
+      const { router, tokenOut, user } = fixture;
+      const deadline = (await time.latest()) + 3600;
+      await router.connect(user).createIntentETH(await tokenOut.getAddress(), ethers.parseEther("95"), 200, 0, deadline, wrap, { value: amountIn });
+      return { intentId: (await router.nextIntentId()) - 1n, deadline };
+    }
+
+    it("escrows ETH raw or wrapped into WETH", async function () {
+      const fixture = await loadFixture(nativeFixture);
+      const { router, weth, user } = fixture;
+      const routerAddr = await router.getAddress();
+
+      const raw = await createETHIntent(fixture, false);
+      expect((await router.intents(raw.intentId)).tokenIn).to.equal(NATIVE);
+      expect(await ethers.provider.getBalance(routerAddr)).to.equal(amountIn);
+
+      const wrapped = await createETHIntent(fixture, true);
+      expect((await router.intents(wrapped.intentId)).tokenIn).to.equal(await weth.getAddress());
+      expect(await router.wrappedNative(wrapped.intentId)).to.equal(true);
+      expect(await weth.balanceOf(routerAddr)).to.equal(amountIn);
+      expect(await ethers.provider.getBalance(routerAddr)).to.equal(amountIn); // only the raw escrow
+
+      await expect(router.connect(user).createIntent(NATIVE, await weth.getAddress(), amountIn, 1n, 100, 0, raw.deadline))
+        .to.be.revertedWithCustomError(router, "InvalidIntent");
+    });
+
+    it("rejects wrapping without a WETH address", async function () {
+      const { router, tokenOut, user } = await loadFixture(deployFixture);
+      const deadline = (await time.latest()) + 3600;
+      await expect(router.connect(user).createIntentETH(await tokenOut.getAddress(), 1n, 100, 0, deadline, true, { value: amountIn }))
+        .to.be.revertedWithCustomError(router, "WethNotSet");
+    });
+
+    it("fills pay the solver escrowed ETH or WETH", async function () {
+      const fixture = await loadFixture(nativeFixture);
+      const { router, weth, solver } = fixture;
+      const raw = await createETHIntent(fixture, false);
+      const wrapped = await createETHIntent(fixture, true);
+
+      await expect(router.connect(solver).fillIntent(raw.intentId, ethers.parseEther("98"), hash))
+        .to.changeEtherBalances([solver, router], [amountIn, -amountIn]);
+      await expect(router.connect(solver).fillIntent(wrapped.intentId, ethers.parseEther("98"), hash))
+        .to.changeTokenBalances(weth, [solver, router], [amountIn, -amountIn]);
+    });
+
+    it("fills pay native ETH output from msg.value, fee included", async function () {
+      const fixture = await loadFixture(nativeFixture);
+      const { router, tokenIn, user, solver, feeRecipient } = fixture;
+      const deadline = (await time.latest()) + 3600;
+      await router.connect(user).createIntent(await tokenIn.getAddress(), NATIVE, ethers.parseEther("100"), ethers.parseEther("0.9"), 200, 0, deadline);
+      const intentId = (await router.nextIntentId()) - 1n;
+      const amountOut = ethers.parseEther("1");
+
+      await expect(router.connect(solver).fillIntent(intentId, amountOut, hash, { value: amountOut - 1n }))
+        .to.be.revertedWithCustomError(router, "NativeValueMismatch");
+      await expect(router.connect(solver).fillIntent(intentId, amountOut, hash, { value: amountOut }))
+        .to.changeEtherBalances([solver, user, feeRecipient], [-amountOut, ethers.parseEther("0.999"), ethers.parseEther("0.001")]);
+      expect(await tokenIn.balanceOf(solver.address)).to.equal(ethers.parseEther("100"));
+    });
+
+    it("rejects ETH sent with an ERC20-output fill", async function () {
+      const fixture = await loadFixture(nativeFixture);
+      const { router, solver } = fixture;
+      const { intentId } = await createDefaultIntent(fixture);
+      await expect(router.connect(solver).fillIntent(intentId, ethers.parseEther("98"), hash, { value: 1n }))
+        .to.be.revertedWithCustomError(router, "NativeValueMismatch");
+    });
+
+    it("cancelIntent refunds ETH for raw and wrapped intents", async function () {
+      const fixture = await loadFixture(nativeFixture);
+      const { router, weth, user } = fixture;
+      const raw = await createETHIntent(fixture, false);
+      const wrapped = await createETHIntent(fixture, true);
+
+      await expect(router.connect(user).cancelIntent(raw.intentId)).to.changeEtherBalance(user, amountIn);
+      await expect(router.connect(user).cancelIntent(wrapped.intentId)).to.changeEtherBalance(user, amountIn);
+      expect(await weth.balanceOf(await router.getAddress())).to.equal(0n);
+    });
+
+    it("markExpired refunds ETH and defers refunds the user's address rejects", async function () {
+      const fixture = await loadFixture(nativeFixture);
+      const { router, user, other } = fixture;
+      const raw = await createETHIntent(fixture, false);
+      const wrapped = await createETHIntent(fixture, true);
+      await time.increaseTo(wrapped.deadline + 1);
+
+      await expect(router.connect(other).markExpired(wrapped.intentId)).to.changeEtherBalance(user, amountIn);
+
+      // Code that always reverts at the user's address: the refund is credited, not lost or blocking
+      await ethers.provider.send("hardhat_setCode", [user.address, "0x60006000fd"]);
+      await expect(router.connect(other).markExpiredBatch([raw.intentId]))
+        .to.emit(router, "NativeRefundDeferred").withArgs(user.address, amountIn)
+        .and.to.emit(router, "IntentExpired").withArgs(raw.intentId, amountIn);
+      await ethers.provider.send("hardhat_setCode", [user.address, "0x"]);
+
+      expect(await router.pendingNativeRefunds(user.address)).to.equal(amountIn);
+      await expect(router.connect(user).claimNativeRefund()).to.changeEtherBalance(user, amountIn);
+      expect(await router.pendingNativeRefunds(user.address)).to.equal(0n);
+    });
+  });
+
+  describe("Non-standard tokens", function () {
+    const amountIn = ethers.parseEther("100");
+    const hash = ethers.keccak256(ethers.toUtf8Bytes("nst"));
+
+    async function tokensFixture() {
+      const fixture = await deployFixture();
+      const { router, user, solver } = fixture;
+      const routerAddr = await router.getAddress();
+      const noReturn = await (await ethers.getContractFactory("MockERC20NoReturn")).deploy("Tether USD", "USDT", 18);
+      const feeToken = await (await ethers.getContractFactory("MockERC20FeeOnTransfer")).deploy("Fee Token", "FEE", 18, 100); // 1%
+      const reverting = await (await ethers.getContractFactory("MockERC20Reverting")).deploy("Broken", "BRK", 18);
+      for (const token of [noReturn, feeToken, reverting]) {
+        await token.mint(user.address, ethers.parseEther("1000"));
+        await token.mint(solver.address, ethers.parseEther("1000"));
+        await token.connect(user).approve(routerAddr, ethers.MaxUint256);
+        await token.connect(solver).approve(routerAddr, ethers.MaxUint256);
+      }
+      return { ...fixture, noReturn, feeToken, reverting };
+    }
+
+    async function create(fixture: Awaited<ReturnType<typeof tokensFixture>>, tokenIn: string, tokenOut: string, minAmountOut = ethers.parseEther("95")) {
+      const { router, user } = fixture;
+      const deadline = (await time.latest()) + 3600;
+      await router.connect(user).createIntent(tokenIn, tokenOut, amountIn, minAmountOut, 200, 0, deadline);
+      return (await router.nextIntentId()) - 1n;
+    }
+
+    it("escrows, fills and refunds tokens that return nothing", async function () {
+      const fixture = await loadFixture(tokensFixture);
+      const { router, noReturn, tokenIn, tokenOut, user, solver } = fixture;
+      const filled = await create(fixture, await noReturn.getAddress(), await tokenOut.getAddress());
+      await router.connect(solver).fillIntent(filled, ethers.parseEther("98"), hash);
+      expect(await noReturn.balanceOf(solver.address)).to.equal(ethers.parseEther("1000") + amountIn);
+
+      const reversed = await create(fixture, await tokenIn.getAddress(), await noReturn.getAddress());
+      await expect(router.connect(solver).fillIntent(reversed, ethers.parseEther("98"), hash))
+        .to.changeTokenBalance(noReturn, user, ethers.parseEther("98") - ethers.parseEther("0.098"));
+
+      const cancelled = await create(fixture, await noReturn.getAddress(), await tokenOut.getAddress());
+      await expect(router.connect(user).cancelIntent(cancelled)).to.changeTokenBalance(noReturn, user, amountIn);
+    });
+
+    it("rejects fee-on-transfer tokens unless allowed", async function () {
+      const fixture = await loadFixture(tokensFixture);
+      const { router, feeToken, tokenOut, user } = fixture;
+      const deadline = (await time.latest()) + 3600;
+      await expect(router.connect(user).createIntent(await feeToken.getAddress(), await tokenOut.getAddress(), amountIn, 1n, 200, 0, deadline))
+        .to.be.revertedWithCustomError(router, "FeeOnTransferNotSupported")
+        .withArgs(await feeToken.getAddress(), amountIn, ethers.parseEther("99"));
+      await expect(router.connect(user).setFeeOnTransferToken(await feeToken.getAddress(), true))
+        .to.be.revertedWithCustomError(router, "NotOwner");
+    });
+
+    it("escrows only what an allowed fee-on-transfer token delivers, so refunds stay solvent", async function () {
+      const fixture = await loadFixture(tokensFixture);
+      const { router, feeToken, tokenOut, user, other } = fixture;
+      const feeAddr = await feeToken.getAddress();
+      await expect(router.setFeeOnTransferToken(feeAddr, true)).to.emit(router, "FeeOnTransferTokenSet").withArgs(feeAddr, true);
+
+      const a = await create(fixture, feeAddr, await tokenOut.getAddress());
+      const b = await create(fixture, feeAddr, await tokenOut.getAddress());
+      expect((await router.intents(a)).amountIn).to.equal(ethers.parseEther("99"));
+      expect(await feeToken.balanceOf(await router.getAddress())).to.equal(ethers.parseEther("198"));
+
+      await router.connect(user).cancelIntent(a);
+      await time.increase(3601);
+      await expect(router.connect(other).markExpired(b)).to.emit(router, "IntentExpired").withArgs(b, ethers.parseEther("99"));
+      expect(await feeToken.balanceOf(await router.getAddress())).to.equal(0n);
+    });
+
+    it("checks fill output floors against the fee-on-transfer amount received", async function () {
+      const fixture = await loadFixture(tokensFixture);
+      const { router, feeToken, tokenIn, user, solver } = fixture;
+      const feeAddr = await feeToken.getAddress();
+      await router.setFeeOnTransferToken(feeAddr, true);
+      const intentId = await create(fixture, await tokenIn.getAddress(), feeAddr, ethers.parseEther("98"));
+
+      // 98 sent arrives as 97.02
+      await expect(router.connect(solver).fillIntent(intentId, ethers.parseEther("98"), hash))
+        .to.be.revertedWithCustomError(router, "OutputTooLow");
+      await expect(router.connect(solver).fillIntent(intentId, ethers.parseEther("100"), hash))
+        .to.emit(router, "IntentFilled").withArgs(intentId, solver.address, ethers.parseEther("99"), hash, ethers.parseEther("0.099"));
+      expect((await router.intents(intentId)).amountOut).to.equal(ethers.parseEther("99"));
+      expect(await feeToken.balanceOf(await router.getAddress())).to.equal(0n);
+      expect(await feeToken.balanceOf(user.address)).to.equal(ethers.parseEther("1000") + ethers.parseEther("98.901") * 99n / 100n);
+    });
+
+    it("reverts with TransferFailed for reverting, false-returning and code-less tokens", async function () {
+      const fixture = await loadFixture(tokensFixture);
+      const { router, reverting, tokenOut, user, solver, other } = fixture;
+      const brk = await reverting.getAddress();
+      const intentId = await create(fixture, brk, await tokenOut.getAddress());
+      const deadline = (await time.latest()) + 3600;
+
+      await reverting.setFailMode(1); // revert
+      await expect(router.connect(user).createIntent(brk, await tokenOut.getAddress(), amountIn, 1n, 200, 0, deadline))
+        .to.be.revertedWithCustomError(router, "TransferFailed");
+      await reverting.setFailMode(2); // return false
+      await expect(router.connect(solver).fillIntent(intentId, ethers.parseEther("98"), hash))
+        .to.be.revertedWithCustomError(router, "TransferFailed");
+      await expect(router.connect(user).cancelIntent(intentId)).to.be.revertedWithCustomError(router, "TransferFailed");
+      await reverting.setFailMode(0);
+      await expect(router.connect(user).cancelIntent(intentId)).to.changeTokenBalance(reverting, user, amountIn);
+
+      await expect(router.connect(user).createIntent(other.address, await tokenOut.getAddress(), amountIn, 1n, 200, 0, deadline))
+        .to.be.revertedWithCustomError(router, "TransferFailed");
+    });
+
+    it("defers expiry refunds the token refuses to send, so the rest of the batch still expires", async function () {
+      const fixture = await loadFixture(tokensFixture);
+      const { router, reverting, tokenIn, tokenOut, user, other } = fixture;
+      const brk = await reverting.getAddress();
+      const blocked = await create(fixture, brk, await tokenOut.getAddress());
+      const ok = await create(fixture, await tokenIn.getAddress(), await tokenOut.getAddress());
+      await time.increase(3601);
+
+      await reverting.setFailMode(1); // e.g. the user was blacklisted
+      await expect(router.connect(other).markExpiredBatch([blocked, ok]))
+        .to.emit(router, "TokenRefundDeferred").withArgs(user.address, brk, amountIn)
+        .and.to.emit(router, "IntentExpired").withArgs(blocked, amountIn)
+        .and.to.emit(router, "IntentExpired").withArgs(ok, amountIn);
+      expect((await router.intents(blocked)).status).to.equal(3); // Expired
+      expect(await router.pendingTokenRefunds(user.address, brk)).to.equal(amountIn);
+      await expect(router.connect(user).claimTokenRefund(brk, user.address)).to.be.revertedWithCustomError(router, "TransferFailed");
+
+      await reverting.setFailMode(0);
+      await expect(router.connect(user).claimTokenRefund(brk, other.address)).to.changeTokenBalance(reverting, other, amountIn);
+      expect(await router.pendingTokenRefunds(user.address, brk)).to.equal(0n);
+    });
+  });
+
+  describe("Solver bonds", function () {
+    const bond = ethers.parseEther("1");
+    const slash = ethers.parseEther("0.25");
+    const window = 600;
+    const hash = ethers.keccak256(ethers.toUtf8Bytes("bond"));
+    const ACCEPTANCE_TYPES = { QuoteAcceptance: [{ name: "intentId", type: "uint256" }, { name: "quoteHash", type: "bytes32" }] };
+
+    // The solver's EIP-712 acceptance of a commitment to its quote
+    async function accept(router: any, signer: any, intentId: bigint, quote: any) {
+      const domain = { name: "IntentRouter", version: "1", chainId: (await ethers.provider.getNetwork()).chainId, verifyingContract: await router.getAddress() };
+      return signer.signTypedData(domain, ACCEPTANCE_TYPES, { intentId, quoteHash: await router.hashQuote(quote) });
+    }
+
+    async function bondFixture() {
+      const fixture = await deployFixture();
+      const { router, tokenIn, tokenOut, solver, solver2, user } = fixture;
+      await router.setSolver(solver2.address, true);
+      await tokenOut.mint(solver2.address, fixture.mintAmount);
+      await tokenOut.connect(solver2).approve(await router.getAddress(), ethers.MaxUint256);
+      await router.setBondPolicy(bond, slash, window);
+      await router.connect(solver).postBond({ value: bond });
+      await router.connect(solver2).postBond({ value: bond });
+
+      const created = await createDefaultIntent(fixture);
+      const quote = {
+        solver: solver.address,
+        tokenIn: await tokenIn.getAddress(),
+        tokenOut: await tokenOut.getAddress(),
+        amountIn: created.amountIn,
+        amountOut: ethers.parseEther("98"),
+        gasWei: 1n,
+        quotedAt: BigInt(await time.latest()),
+      };
+      await router.connect(user).commitSignedQuote(created.intentId, quote, await accept(router, solver, created.intentId, quote));
+      return { ...fixture, ...created, quote, quoteHash: await router.hashQuote(quote) };
+    }
+
+    it("takes and returns bonds, with the policy owner-only", async function () {
+      const { router, solver, other } = await loadFixture(bondFixture);
+      await expect(router.connect(other).setBondPolicy(0, 0, 0)).to.be.revertedWithCustomError(router, "NotOwner");
+      await expect(router.setBondPolicy(slash, bond, window)).to.be.revertedWith("slash above bond");
+
+      await expect(router.connect(other).postBond({ value: 5n }))
+        .to.emit(router, "BondPosted").withArgs(other.address, 5n, 5n);
+      await expect(router.connect(other).withdrawBond(5n)).to.changeEtherBalance(other, 5n);
+      // The committed quote locks slashAmount until the solver fills
+      expect(await router.lockedBonds(solver.address)).to.equal(slash);
+      await expect(router.connect(solver).withdrawBond(bond))
+        .to.be.revertedWithCustomError(router, "InsufficientBond").withArgs(solver.address, bond - slash, bond);
+    });
+
+    it("only fills, and only commits to, solvers holding minSolverBond", async function () {
+      const fixture = await loadFixture(bondFixture);
+      const { router, solver2, user, quote } = fixture;
+      await router.connect(solver2).withdrawBond(slash);
+      const { intentId } = await createDefaultIntent(fixture);
+      await expect(router.connect(solver2).fillIntent(intentId, ethers.parseEther("98"), hash))
+        .to.be.revertedWithCustomError(router, "InsufficientBond").withArgs(solver2.address, bond - slash, bond);
+      const quote2 = { ...quote, solver: solver2.address };
+      await expect(router.connect(user).commitSignedQuote(intentId, quote2, await accept(router, solver2, intentId, quote2)))
+        .to.be.revertedWithCustomError(router, "InsufficientBond");
+    });
+
+    it("only locks the bond of a solver that signed the commitment", async function () {
+      const fixture = await loadFixture(bondFixture);
+      const { router, solver, solver2, user, quote } = fixture;
+      const { intentId } = await createDefaultIntent(fixture);
+      const quote2 = { ...quote, solver: solver2.address };
+      await expect(router.connect(user).commitQuote(intentId, quote2))
+        .to.be.revertedWithCustomError(router, "SolverSignatureRequired");
+      await expect(router.connect(user).commitSignedQuote(intentId, quote2, await accept(router, user, intentId, quote2)))
+        .to.be.revertedWithCustomError(router, "InvalidSignature");
+      // An acceptance is bound to its intent and quote
+      await expect(router.connect(user).commitSignedQuote(intentId, quote2, await accept(router, solver2, intentId - 1n, quote2)))
+        .to.be.revertedWithCustomError(router, "InvalidSignature");
+      await expect(router.connect(user).commitSignedQuote(intentId, quote2, await accept(router, solver, intentId, quote2)))
+        .to.be.revertedWithCustomError(router, "InvalidSignature");
+      expect(await router.lockedBonds(solver2.address)).to.equal(0n);
+    });
+
+    it("commits each acceptance once, so a replay after the window can't slash the solver again", async function () {
+      const { router, solver, user, intentId, quote } = await loadFixture(bondFixture);
+      const signature = await accept(router, solver, intentId, quote);
+      await expect(router.connect(user).commitSignedQuote(intentId, quote, signature))
+        .to.be.revertedWithCustomError(router, "QuoteAlreadyAccepted");
+
+      await time.increase(window + 1);
+      await expect(router.connect(user).commitSignedQuote(intentId, quote, signature))
+        .to.be.revertedWithCustomError(router, "QuoteAlreadyAccepted");
+      await router.slashSolver(intentId);
+      expect(await router.solverBonds(solver.address)).to.equal(bond - slash);
+      await expect(router.connect(user).commitSignedQuote(intentId, quote, signature))
+        .to.be.revertedWithCustomError(router, "QuoteAlreadyAccepted");
+    });
+
+    it("gives the winner an exclusive window and releases its bond when it fills in time", async function () {
+      const { router, solver, solver2, intentId, quote, quoteHash, deadline } = await loadFixture(bondFixture);
+      const c = await router.quoteCommitments(intentId);
+      expect(c.bondLocked).to.equal(slash);
+      expect(c.exclusiveUntil).to.be.lessThanOrEqual(deadline);
+      await expect(router.connect(solver2).fillIntent(intentId, quote.amountOut, hash))
+        .to.be.revertedWithCustomError(router, "SolverMismatch");
+      await expect(router.slashSolver(intentId)).to.be.revertedWithCustomError(router, "NotSlashable");
+
+      await expect(router.connect(solver).fillIntent(intentId, quote.amountOut, quoteHash)).to.not.emit(router, "SolverSlashed");
+      expect(await router.lockedBonds(solver.address)).to.equal(0n);
+      expect(await router.solverBonds(solver.address)).to.equal(bond);
+    });
+
+    it("keeps the bond locked after a partial fill and slashes it when the window closes", async function () {
+      const { router, solver, user, intentId, quote, quoteHash } = await loadFixture(bondFixture);
+      await router.connect(solver).fillIntentPartial(intentId, 1n, quote.amountOut, quoteHash);
+      expect(await router.lockedBonds(solver.address)).to.equal(slash);
+
+      await time.increase(window + 1);
+      const slashed = router.slashSolver(intentId);
+      await expect(slashed).to.emit(router, "SolverSlashed").withArgs(intentId, solver.address, user.address, slash);
+      await expect(slashed).to.changeEtherBalance(user, slash);
+      expect(await router.filledAmountIn(intentId)).to.equal(1n);
+    });
+
+    it("slashes a winner that misses its window to the user and opens the intent to other solvers", async function () {
+      const { router, solver, solver2, user, other, intentId } = await loadFixture(bondFixture);
+      await time.increase(window + 1);
+      const slashed = router.connect(other).slashSolver(intentId);
+      await expect(slashed).to.emit(router, "SolverSlashed").withArgs(intentId, solver.address, user.address, slash);
+      await expect(slashed).to.changeEtherBalance(user, slash);
+      expect(await router.solverBonds(solver.address)).to.equal(bond - slash);
+      expect(await router.lockedBonds(solver.address)).to.equal(0n);
+      await expect(router.slashSolver(intentId)).to.be.revertedWithCustomError(router, "NotSlashable");
+
+      // The commitment no longer binds: another solver fills at the intent's own floors
+      await router.connect(solver2).fillIntent(intentId, ethers.parseEther("96"), hash);
+      const filled = await router.intents(intentId);
+      expect(filled.winningSolver).to.equal(solver2.address);
+      expect(filled.status).to.equal(1); // Filled
+    });
+
+    it("slashes on a late fill or expiry and releases on cancellation inside the window", async function () {
+      const fixture = await loadFixture(bondFixture);
+      const { router, solver, solver2, user, intentId, quote } = fixture;
+      await time.increase(window + 1);
+      await expect(router.connect(solver2).fillIntent(intentId, ethers.parseEther("96"), hash))
+        .to.emit(router, "SolverSlashed").withArgs(intentId, solver.address, user.address, slash);
+
+      // Each slash takes the solver below minSolverBond until it tops up
+      await router.connect(solver).postBond({ value: slash });
+      const expiring = await createDefaultIntent(fixture);
+      await router.connect(user).commitSignedQuote(expiring.intentId, quote, await accept(router, solver, expiring.intentId, quote));
+      await time.increaseTo(expiring.deadline + 1);
+      await expect(router.markExpired(expiring.intentId))
+        .to.emit(router, "SolverSlashed").withArgs(expiring.intentId, solver.address, user.address, slash);
+
+      await router.connect(solver).postBond({ value: slash });
+      const cancelled = await createDefaultIntent(fixture);
+      await router.connect(user).commitSignedQuote(cancelled.intentId, quote, await accept(router, solver, cancelled.intentId, quote));
+      await expect(router.connect(user).cancelIntent(cancelled.intentId)).to.not.emit(router, "SolverSlashed");
+      expect(await router.lockedBonds(solver.address)).to.equal(0n);
+      expect(await router.solverBonds(solver.address)).to.equal(bond);
+    });
+  });
+
+  describe("fillSignedIntent", function () {
+    const INTENT_TYPES = {
+      Intent: [
+        { name: "user", type: "address" },
+        { name: "tokenIn", type: "address" },
+        { name: "tokenOut", type: "address" },
+        { name: "amountIn", type: "uint256" },
+        { name: "minAmountOut", type: "uint256" },
+        { name: "maxSlippageBps", type: "uint256" },
+        { name: "maxGasWei", type: "uint256" },
+        { name: "deadline", type: "uint64" },
+        { name: "nonce", type: "uint256" },
+      ],
+    };
+    const NO_PERMIT = { kind: 0, deadline: 0, v: 0, r: ethers.ZeroHash, s: ethers.ZeroHash, nonce: 0, signature: "0x" };
+
+    async function signedFixture() {
+      const fixture = await deployFixture();
+      const MockERC20Permit = await ethers.getContractFactory("MockERC20Permit");
+      const permitToken = await MockERC20Permit.deploy("Permit In", "PIN", 18);
+      await permitToken.mint(fixture.user.address, fixture.mintAmount);
+      const MockPermit2 = await ethers.getContractFactory("MockPermit2");
+      const permit2 = await MockPermit2.deploy();
+      return { ...fixture, permitToken, permit2 };
+    }
+
+    async function signIntent(
+      fixture: Awaited<ReturnType<typeof signedFixture>>,
+      overrides: Record<string, unknown> = {},
+      signer = fixture.user,
+    ) {
+      const { router, tokenIn, tokenOut, user } = fixture;
+      const intent = {
+        user: user.address,
+        tokenIn: await tokenIn.getAddress(),
+        tokenOut: await tokenOut.getAddress(),
+        amountIn: ethers.parseEther("100"),
+        minAmountOut: ethers.parseEther("95"),
+        maxSlippageBps: 200n,
+        maxGasWei: ethers.parseEther("0.01"),
+        deadline: BigInt((await time.latest()) + 3600),
+        nonce: 1n,
+        ...overrides,
+      };
+      const domain = {
+        name: "IntentRouter",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await router.getAddress(),
+      };
+      const signature = await signer.signTypedData(domain, INTENT_TYPES, intent);
+      return { intent, signature };
+    }
+
+    const hash = ethers.keccak256(ethers.toUtf8Bytes("signed-1"));
+
+    it("should match the EIP-712 digest computed offchain", async function () {
+      const fixture = await loadFixture(signedFixture);
+      const { intent } = await signIntent(fixture);
+      const domain = {
+        name: "IntentRouter",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await fixture.router.getAddress(),
+      };
+      expect(await fixture.router.hashIntent(intent)).to.equal(ethers.TypedDataEncoder.hash(domain, INTENT_TYPES, intent));
+    });
+
+    it("should create and fill a signed intent using the user's allowance", async function () {
+      const fixture = await loadFixture(signedFixture);
+      const { router, tokenIn, tokenOut, user, solver } = fixture;
+      const { intent, signature } = await signIntent(fixture);
+      const amountOut = ethers.parseEther("98");
+      const fee = (amountOut * (await router.protocolFeeBps())) / 10000n;
+
+      await expect(router.connect(solver).fillSignedIntent(intent, signature, NO_PERMIT, amountOut, hash))
+        .to.emit(router, "IntentCreated")
+        .and.to.emit(router, "IntentFilled")
+        .and.to.emit(router, "SignedIntentFilled").withArgs(1n, user.address, intent.nonce);
+
+      const stored = await router.intents(1);
+      expect(stored.user).to.equal(user.address);
+      expect(stored.status).to.equal(1); // Filled
+      expect(await router.usedNonces(user.address, 1)).to.equal(true);
+      expect(await tokenIn.balanceOf(solver.address)).to.equal(intent.amountIn);
+      expect(await tokenOut.balanceOf(user.address)).to.equal(amountOut - fee);
+    });
+
+    it("should pull funds with an ERC-2612 permit", async function () {
+      const fixture = await loadFixture(signedFixture);
+      const { router, permitToken, user, solver } = fixture;
+      const routerAddress = await router.getAddress();
+      const { intent, signature } = await signIntent(fixture, { tokenIn: await permitToken.getAddress() });
+
+      const permitSig = ethers.Signature.from(await user.signTypedData(
+        { name: "Permit In", version: "1", chainId: (await ethers.provider.getNetwork()).chainId, verifyingContract: await permitToken.getAddress() },
+        {
+          Permit: [
+            { name: "owner", type: "address" },
+            { name: "spender", type: "address" },
+            { name: "value", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        { owner: user.address, spender: routerAddress, value: intent.amountIn, nonce: 0, deadline: intent.deadline },
+      ));
+      const permit = { ...NO_PERMIT, kind: 1, deadline: intent.deadline, v: permitSig.v, r: permitSig.r, s: permitSig.s };
+
+      expect(await permitToken.allowance(user.address, routerAddress)).to.equal(0n);
+      await router.connect(solver).fillSignedIntent(intent, signature, permit, ethers.parseEther("98"), hash);
+      expect(await permitToken.balanceOf(solver.address)).to.equal(intent.amountIn);
+    });
+
+    it("should pull funds through Permit2", async function () {
+      const fixture = await loadFixture(signedFixture);
+      const { router, tokenIn, permit2, user, solver } = fixture;
+      const { intent, signature } = await signIntent(fixture);
+      const permit = { ...NO_PERMIT, kind: 2, deadline: intent.deadline, nonce: 7, signature: "0x1234" };
+
+      await expect(
+        router.connect(solver).fillSignedIntent(intent, signature, permit, ethers.parseEther("98"), hash)
+      ).to.be.revertedWithCustomError(router, "Permit2NotSet");
+
+      await router.setPermit2(await permit2.getAddress());
+      await tokenIn.connect(user).approve(await router.getAddress(), 0);
+      await tokenIn.connect(user).approve(await permit2.getAddress(), ethers.MaxUint256);
+      await router.connect(solver).fillSignedIntent(intent, signature, permit, ethers.parseEther("98"), hash);
+      expect(await permit2.usedNonces(user.address, 7)).to.equal(true);
+      expect(await tokenIn.balanceOf(solver.address)).to.equal(intent.amountIn);
+    });
+
+    it("should reject a replayed signature", async function () {
+      const fixture = await loadFixture(signedFixture);
+      const { router, solver, solver2 } = fixture;
+      await router.setSolver(solver2.address, true);
+      const { intent, signature } = await signIntent(fixture);
+      await router.connect(solver).fillSignedIntent(intent, signature, NO_PERMIT, ethers.parseEther("98"), hash);
+      await expect(
+        router.connect(solver2).fillSignedIntent(intent, signature, NO_PERMIT, ethers.parseEther("99"), hash)
+      ).to.be.revertedWithCustomError(router, "NonceAlreadyUsed");
+    });
+
+    it("should reject an expired signature", async function () {
+      const fixture = await loadFixture(signedFixture);
+      const { router, solver } = fixture;
+      const { intent, signature } = await signIntent(fixture);
+      await time.increaseTo(intent.deadline + 1n);
+      await expect(
+        router.connect(solver).fillSignedIntent(intent, signature, NO_PERMIT, ethers.parseEther("98"), hash)
+      ).to.be.revertedWithCustomError(router, "SignatureExpired");
+    });
+
+    it("should reject a signature from someone other than intent.user", async function () {
+      const fixture = await loadFixture(signedFixture);
+      const { router, solver, other } = fixture;
+      const { intent, signature } = await signIntent(fixture, {}, other);
+      await expect(
+        router.connect(solver).fillSignedIntent(intent, signature, NO_PERMIT, ethers.parseEther("98"), hash)
+      ).to.be.revertedWithCustomError(router, "InvalidSignature");
+    });
+
+    it("should reject a signature over different terms", async function () {
+      const fixture = await loadFixture(signedFixture);
+      const { router, solver } = fixture;
+      const { intent, signature } = await signIntent(fixture);
+      const tampered = { ...intent, minAmountOut: ethers.parseEther("1") };
+      await expect(
+        router.connect(solver).fillSignedIntent(tampered, signature, NO_PERMIT, ethers.parseEther("2"), hash)
+      ).to.be.revertedWithCustomError(router, "InvalidSignature");
+    });
+
+    it("should let the user invalidate a nonce before submission", async function () {
+      const fixture = await loadFixture(signedFixture);
+      const { router, user, solver } = fixture;
+      const { intent, signature } = await signIntent(fixture);
+      await expect(router.connect(user).invalidateNonce(1))
+        .to.emit(router, "NonceInvalidated")
+        .withArgs(user.address, 1);
+      await expect(
+        router.connect(solver).fillSignedIntent(intent, signature, NO_PERMIT, ethers.parseEther("98"), hash)
+      ).to.be.revertedWithCustomError(router, "NonceAlreadyUsed");
+    });
+
+    it("should revert if not approved solver", async function () {
+      const fixture = await loadFixture(signedFixture);
+      const { router, other } = fixture;
+      const { intent, signature } = await signIntent(fixture);
+      await expect(
+        router.connect(other).fillSignedIntent(intent, signature, NO_PERMIT, ethers.parseEther("98"), hash)
+      ).to.be.revertedWithCustomError(router, "SolverNotApproved");
+    });
+  });
 });
@@ -475,14 +475,35 @@ async function runCompetition() {
   };
 
   try {
-    setStatusMessage(statusEl, "pulse ai", "AI analyzing quotes for MEV risk...");
-
-    var r = await fetch(apiBase + "/compete", {
+    var r = await fetch(apiBase + "/compete/stream", {
       method: "POST", headers: { "Content-Type": "application/json" },
       body: JSON.stringify({ intent: intent, solvers: [{ name: "solver-alpha" }, { name: "solver-beta" }, { name: "solver-gamma" }] }),
     });
-    var data = await r.json();
-    if (r.ok === false) throw new Error(data.error || "HTTP " + r.status);
+    var data = null;
+    if ((r.headers.get("Content-Type") || "").indexOf("text/event-stream") === 0) {
+      // Render each quote as it arrives, then the risk ratings, then the winner
+      var live = { quotes: [], best: null, riskAnalysis: null };
+      await readEventStream(r, function(event, payload) {
+        if (event === "quote") {
+          live.quotes.push(payload);
+          renderResults(live);
+          document.getElementById("resultsSection").classList.add("show");
+          setStatusMessage(statusEl, "pulse", live.quotes.length + " quote" + (live.quotes.length === 1 ? "" : "s") + " received, AI analyzing for MEV risk...");
+        } else if (event === "risk") {
+          live.riskAnalysis = payload.riskAnalysis;
+          renderResults(live);
+          setStatusMessage(statusEl, "pulse ai", "Risk rated, selecting winner...");
+        } else if (event === "result") {
+          data = payload;
+        } else if (event === "error") {
+          throw new Error(payload.error || "Competition failed");
+        }
+      });
+      if (!data) throw new Error("Stream ended before a result");
+    } else {
+      data = await r.json();
+      if (r.ok === false) throw new Error(data.error || "HTTP " + r.status);
+    }
 
     lastBest = data.best;
 
@@ -517,6 +538,28 @@ async function runCompetition() {
   btn.disabled = false;
 }
 
+// Parse a text/event-stream response body, calling onEvent(name, data) for each event
+async function readEventStream(response, onEvent) {
+  var reader = response.body.getReader();
+  var decoder = new TextDecoder();
+  var buffer = "";
+  while (true) {
+    var chunk = await reader.read();
+    if (chunk.done) break;
+    buffer += decoder.decode(chunk.value, { stream: true });
+    var blocks = buffer.split("\n\n");
+    buffer = blocks.pop();
+    blocks.forEach(function(block) {
+      var name = "message", data = "";
+      block.split("\n").forEach(function(line) {
+        if (line.indexOf("event: ") === 0) name = line.slice(7);
+        else if (line.indexOf("data: ") === 0) data += line.slice(6);
+      });
+      if (data) onEvent(name, JSON.parse(data));
+    });
+  }
+}
+
 function scoreColor(s) { return s >= 0.8 ? "var(--green)" : s >= 0.5 ? "var(--yellow)" : "var(--red)"; }
 function safeScore(s) { return (typeof s === "number" && isFinite(s)) ? s : 0.5; }
 
@@ -544,12 +587,16 @@ function renderResults(data) {
     var expectedOut = Number(q.expectedOut);
     var gasT = Number(q.expectedGasWei) / 1e12;
     var confidence = Number(q.confidence);
-    var routeText = Array.isArray(q.route) ? q.route.map(function(step) { return String(step); }).join(" > ") : "\u2014";
+    var routeText = Array.isArray(q.route) && q.route.length > 0 ? q.route.map(function(step) { return String(step); }).join(" > ") : "\u2014";
     var minOutPass = !!(q.checks && q.checks.minOutPass);
     var gasPass = !!(q.checks && q.checks.gasPass);
     var slippagePass = !!(q.checks && q.checks.slippagePass);
     var impliedSlippage = typeof q.impliedSlippageBps === "number" ? q.impliedSlippageBps : null;
     var reasonText = String(q.reason || "");
+    var breakdown = q.scoreBreakdown && q.scoreBreakdown.components && q.scoreBreakdown.weights ? q.scoreBreakdown : null;
+    var breakdownText = breakdown ? ["price", "gas", "confidence"].map(function(k) {
+      return k + " " + Number(breakdown.components[k]).toFixed(2) + " \u00d7 " + Math.round(Number(breakdown.weights[k]) * 100) + "%";
+    }).join(" + ") + " (" + String(breakdown.policy) + ")" : "";
     card.innerHTML =
       '<div class="solver-header">' +
         '<div><div class="solver-name">' + escapeHtml(solverName) + '</div><div class="solver-label">' + escapeHtml(labels[solverName] || "") + '</div></div>' +
@@ -567,15 +614,17 @@ function renderResults(data) {
         '<span class="check ' + (gasPass ? "pass" : "fail") + '">' + (gasPass ? "\u2713" : "\u2717") + ' Max Gas</span>' +
         '<span class="check ' + (slippagePass ? "pass" : "fail") + '">' + (slippagePass ? "\u2713" : "\u2717") + ' Slippage' + (impliedSlippage !== null ? ' (' + impliedSlippage + 'bps)' : '') + '</span>' +
       '</div>' +
+      (breakdownText ? '<div style="margin-top:6px;font-size:11px;color:var(--text-dim)">Score: ' + escapeHtml(breakdownText) + '</div>' : '') +
       '<div style="margin-top:6px;font-size:11px;color:var(--text-dim)">' + escapeHtml(reasonText) + '</div>';
     container.appendChild(card);
   });
 
   // Risk analysis
   var riskSection = document.getElementById("riskSection");
-  if (data.riskAnalysis && data.riskAnalysis.analyzed) {
+  if (data.riskAnalysis && (data.riskAnalysis.analyzed || data.riskAnalysis.policy)) {
     riskSection.style.display = "block";
-    document.getElementById("riskRec").textContent = data.riskAnalysis.recommendation || "No recommendation";
+    var aiNote = data.riskAnalysis.cached ? " (cached verdict)" : data.riskAnalysis.skipped ? " (AI skipped: " + data.riskAnalysis.skipped + ")" : "";
+    document.getElementById("riskRec").textContent = (data.riskAnalysis.recommendation || "No recommendation") + aiNote;
     var items = document.getElementById("riskItems");
     items.innerHTML = "";
     (data.riskAnalysis.quotes || []).forEach(function(rq) {